@@ -2,6 +2,7 @@
 
 import { useRouter } from "next/navigation";
 import { type ReactNode, useEffect, useRef, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
 
 type Props = {
   children: ReactNode;
@@ -71,6 +72,7 @@ export default function HomeGate({ children }: Props) {
       try {
         const res = await fetch("/api/me", {
           headers: {
+            ...activeBusinessHeaders(),
             Authorization: `Bearer ${token}`,
           },
           signal,
@@ -0,0 +1,36 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+
+const navItems = [
+  { href: "/admin/business", label: "Businesses" },
+  { href: "/admin/events", label: "Events" },
+  { href: "/admin/catalogue", label: "Catalogue" },
+  { href: "/admin/brand-suggestions", label: "Brand suggestions" },
+];
+
+export default function AdminNav() {
+  const pathname = usePathname() ?? "";
+
+  return (
+    <nav className="flex flex-wrap gap-2">
+      {navItems.map((item) => {
+        const active = pathname === item.href || pathname.startsWith(item.href + "/");
+        return (
+          <Link
+            key={item.href}
+            href={item.href}
+            className={`inline-flex h-9 items-center rounded-xl border px-3 text-xs font-semibold shadow-sm transition ${
+              active
+                ? "border-zinc-950 bg-zinc-950 text-white"
+                : "border-zinc-900/10 bg-white text-zinc-900 hover:bg-zinc-50"
+            }`}
+          >
+            {item.label}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import {
+  REJECTION_REASON_CODES,
+  REJECTION_REASON_LABELS,
+  type RejectionReasonCode,
+} from "@/lib/rejection";
+import { adminFetch } from "./adminApi";
+
+type Props = {
+  endpoint: string;
+  fieldLabels: Record<string, string>;
+  onReviewed: (status: string) => void;
+};
+
+export default function ReviewPanel({ endpoint, fieldLabels, onReviewed }: Props) {
+  const [mode, setMode] = useState<"idle" | "rejecting">("idle");
+  const [reasonCode, setReasonCode] = useState<RejectionReasonCode>("incomplete_information");
+  const [note, setNote] = useState("");
+  const [flags, setFlags] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const submit = async (body: unknown) => {
+    setBusy(true);
+    setError("");
+    const result = await adminFetch<{ status?: string }>(endpoint, { method: "PATCH", body });
+    setBusy(false);
+
+    if (!result.ok) {
+      setError(result.message);
+      return;
+    }
+
+    setMode("idle");
+    setNote("");
+    setFlags({});
+    onReviewed(result.data.status ?? "");
+  };
+
+  const onApprove = () => {
+    if (busy) return;
+    const confirmed = window.confirm("Approve and mark as verified?");
+    if (!confirmed) return;
+    void submit({ action: "approve" });
+  };
+
+  const onReject = () => {
+    if (busy) return;
+    const fieldFlags = Object.entries(flags).map(([field, message]) => ({ field, message }));
+    void submit({ action: "reject", reasonCode, note, fieldFlags });
+  };
+
+  const toggleFlag = (field: string) => {
+    setFlags((prev) => {
+      const next = { ...prev };
+      if (field in next) delete next[field];
+      else next[field] = "";
+      return next;
+    });
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+      <div className="text-sm font-semibold text-zinc-950">Decision</div>
+
+      {error ? (
+        <div className="mt-3 rounded-xl border border-rose-500/20 bg-rose-500/10 px-3 py-2 text-xs text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      {mode === "idle" ? (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            className="h-10 rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 text-sm font-semibold text-emerald-700 shadow-sm transition hover:bg-emerald-500/15 disabled:opacity-50"
+            onClick={onApprove}
+          >
+            {busy ? "Saving…" : "Approve"}
+          </button>
+          <button
+            type="button"
+            disabled={busy}
+            className="h-10 rounded-xl border border-rose-500/30 bg-rose-500/10 px-4 text-sm font-semibold text-rose-700 shadow-sm transition hover:bg-rose-500/15 disabled:opacity-50"
+            onClick={() => setMode("rejecting")}
+          >
+            Reject…
+          </button>
+        </div>
+      ) : (
+        <div className="mt-3 grid gap-3">
+          <label className="grid gap-1 text-xs font-medium text-zinc-700">
+            Reason
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value as RejectionReasonCode)}
+              className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950"
+            >
+              {REJECTION_REASON_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {REJECTION_REASON_LABELS[code]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="grid gap-1 text-xs font-medium text-zinc-700">
+            Note to the business
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="rounded-xl border border-zinc-900/10 bg-white px-3 py-2 text-sm text-zinc-950"
+              placeholder="What needs to change before this can be approved?"
+            />
+          </label>
+
+          <div className="grid gap-1.5">
+            <div className="text-xs font-medium text-zinc-700">Fields to fix</div>
+            {Object.entries(fieldLabels).map(([field, label]) => {
+              const checked = field in flags;
+              return (
+                <div key={field} className="grid gap-1">
+                  <label className="flex items-center gap-2 text-xs text-zinc-800">
+                    <input type="checkbox" checked={checked} onChange={() => toggleFlag(field)} />
+                    {label}
+                  </label>
+                  {checked ? (
+                    <input
+                      value={flags[field]}
+                      onChange={(e) => setFlags((prev) => ({ ...prev, [field]: e.target.value }))}
+                      className="ml-6 h-9 rounded-lg border border-zinc-900/10 bg-white px-2 text-xs text-zinc-950"
+                      placeholder="Optional message for this field"
+                    />
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              className="h-10 rounded-xl border border-rose-500/30 bg-rose-500/10 px-4 text-sm font-semibold text-rose-700 shadow-sm transition hover:bg-rose-500/15 disabled:opacity-50"
+              onClick={onReject}
+            >
+              {busy ? "Saving…" : "Confirm rejection"}
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 disabled:opacity-50"
+              onClick={() => setMode("idle")}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
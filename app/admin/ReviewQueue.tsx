@@ -0,0 +1,127 @@
+"use client";
+
+import { type ReactNode, useEffect, useState } from "react";
+import { adminFetch } from "./adminApi";
+
+type QueueItem = { id: string };
+
+type Props<T extends QueueItem> = {
+  title: string;
+  description: string;
+  endpoint: string;
+  emptyText: string;
+  renderItem: (item: T) => ReactNode;
+  renderDetail: (item: T, onReviewed: () => void) => ReactNode;
+};
+
+export default function ReviewQueue<T extends QueueItem>({
+  title,
+  description,
+  endpoint,
+  emptyText,
+  renderItem,
+  renderDetail,
+}: Props<T>) {
+  const [items, setItems] = useState<T[]>([]);
+  const [loadState, setLoadState] = useState<
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "error"; message: string }
+  >({ status: "loading" });
+  const [selectedId, setSelectedId] = useState("");
+  const [notice, setNotice] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const result = await adminFetch<{ items?: T[] }>(endpoint, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+
+      if (!result.ok) {
+        setLoadState({ status: "error", message: result.message });
+        return;
+      }
+
+      setItems(Array.isArray(result.data.items) ? result.data.items : []);
+      setLoadState({ status: "idle" });
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [endpoint]);
+
+  const selected = items.find((item) => item.id === selectedId) ?? null;
+
+  const onReviewed = () => {
+    setItems((prev) => prev.filter((item) => item.id !== selectedId));
+    setSelectedId("");
+    setNotice("Review saved.");
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-6xl px-4 py-8 sm:px-6">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">{title}</h1>
+        <p className="mt-1 text-sm text-zinc-600">{description}</p>
+      </div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+          Loading…
+        </div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {loadState.message}
+        </div>
+      ) : null}
+
+      {notice ? (
+        <div className="mt-6 rounded-2xl border border-emerald-500/20 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-700 shadow-sm">
+          {notice}
+        </div>
+      ) : null}
+
+      {loadState.status === "idle" ? (
+        <div className="mt-6 grid gap-4 lg:grid-cols-[20rem_1fr]">
+          <div className="grid content-start gap-2">
+            <div className="text-xs font-medium text-zinc-500">{items.length} waiting</div>
+            {items.length === 0 ? (
+              <div className="rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+                {emptyText}
+              </div>
+            ) : null}
+            {items.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                className={`rounded-2xl border p-3 text-left shadow-sm transition ${
+                  item.id === selectedId
+                    ? "border-zinc-950 bg-white"
+                    : "border-zinc-900/10 bg-white hover:bg-zinc-50"
+                }`}
+                onClick={() => {
+                  setSelectedId(item.id);
+                  setNotice("");
+                }}
+              >
+                {renderItem(item)}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            {selected ? (
+              <div key={selected.id}>{renderDetail(selected, onReviewed)}</div>
+            ) : (
+              <div className="rounded-2xl border border-dashed border-zinc-900/15 bg-white/60 px-4 py-10 text-center text-sm text-zinc-500">
+                Select an item to review.
+              </div>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+export function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+export async function adminFetch<T>(
+  path: string,
+  init?: { method?: string; body?: unknown; signal?: AbortSignal }
+): Promise<{ ok: true; data: T } | { ok: false; message: string }> {
+  const token = readToken();
+  if (!token) return { ok: false, message: "Missing authentication token." };
+
+  try {
+    const res = await fetch(path, {
+      method: init?.method ?? "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init?.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      ...(init?.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+      signal: init?.signal,
+    });
+
+    const data = (await res.json().catch(() => null)) as (T & { ok?: boolean; message?: string }) | null;
+    if (!res.ok || !data?.ok) {
+      return { ok: false, message: data?.message || "Request failed." };
+    }
+    return { ok: true, data };
+  } catch {
+    if (init?.signal?.aborted) return { ok: false, message: "" };
+    return { ok: false, message: "Request failed." };
+  }
+}
+
+export function formatDateTime(value?: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { BRAND_SUGGESTION_FIELD_LABELS } from "@/lib/rejection";
+import ReviewPanel from "../ReviewPanel";
+import ReviewQueue from "../ReviewQueue";
+import { formatDateTime } from "../adminApi";
+
+type BrandSuggestionItem = {
+  id: string;
+  name: string;
+  logoUrl: string;
+  userId: string;
+  businessCategory: string;
+  shopType: string;
+  source: string;
+  submittedAt: string | null;
+};
+
+export default function AdminBrandSuggestionsPage() {
+  return (
+    <ReviewQueue<BrandSuggestionItem>
+      title="Brand suggestions"
+      description="Brands suggested by businesses during registration. Approving adds the brand to the picker."
+      endpoint="/api/admin/brand-suggestions"
+      emptyText="No brand suggestions waiting for review."
+      renderItem={(item) => (
+        <div>
+          <div className="text-sm font-semibold text-zinc-950">{item.name || "Unnamed brand"}</div>
+          <div className="mt-1 text-[11px] text-zinc-500">
+            {[item.businessCategory, formatDateTime(item.submittedAt)].filter(Boolean).join(" · ")}
+          </div>
+        </div>
+      )}
+      renderDetail={(item, onReviewed) => (
+        <div className="grid gap-4">
+          <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+            <div className="flex items-center gap-4">
+              {item.logoUrl ? (
+                <img
+                  src={item.logoUrl}
+                  alt={item.name || "Brand logo"}
+                  className="h-20 w-20 rounded-xl border border-zinc-900/10 object-contain"
+                  referrerPolicy="no-referrer"
+                />
+              ) : null}
+              <div>
+                <div className="text-lg font-semibold text-zinc-950">{item.name || "Unnamed brand"}</div>
+                <div className="mt-1 grid gap-0.5 text-xs text-zinc-600">
+                  {item.businessCategory ? <div>Category: {item.businessCategory}</div> : null}
+                  {item.shopType ? <div>Shop type: {item.shopType}</div> : null}
+                  {item.source ? <div>Source: {item.source}</div> : null}
+                  <div>Suggested by: {item.userId || "unknown"}</div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <ReviewPanel
+            endpoint={`/api/admin/brand-suggestions/${encodeURIComponent(item.id)}`}
+            fieldLabels={BRAND_SUGGESTION_FIELD_LABELS}
+            onReviewed={onReviewed}
+          />
+        </div>
+      )}
+    />
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BUSINESS_FIELD_LABELS } from "@/lib/rejection";
+import ReviewPanel from "../ReviewPanel";
+import ReviewQueue from "../ReviewQueue";
+import { adminFetch, formatDateTime } from "../adminApi";
+
+type BusinessQueueItem = {
+  id: string;
+  businessName: string;
+  businessLogoUrl: string;
+  businessType: string;
+  businessCategory: string;
+  status: string;
+  kycStatus: string;
+  submittedAt: string | null;
+};
+
+type VideoRef = { url?: string; name?: string };
+
+type BusinessDetail = {
+  business: Record<string, unknown>;
+  kyc: (Record<string, unknown> & { selfieVideo?: VideoRef; scriptText?: string }) | null;
+  locations: (Record<string, unknown> & {
+    id: string;
+    fullAddress?: string;
+    shopImageUrl?: string;
+    verificationVideo?: VideoRef;
+  })[];
+};
+
+const DETAIL_FIELDS: { key: string; label: string }[] = [
+  { key: "businessName", label: "Business name" },
+  { key: "businessDescription", label: "Description" },
+  { key: "businessCategory", label: "Category" },
+  { key: "businessType", label: "Type" },
+  { key: "shopType", label: "Shop type" },
+  { key: "email", label: "Email" },
+  { key: "website", label: "Website" },
+  { key: "gstNumber", label: "GST number" },
+  { key: "name", label: "Contact name" },
+  { key: "businessRole", label: "Role" },
+  { key: "contactNo", label: "Contact number" },
+  { key: "whatsappNo", label: "WhatsApp number" },
+];
+
+function BusinessReview({ id, onReviewed }: { id: string; onReviewed: () => void }) {
+  const [detail, setDetail] = useState<BusinessDetail | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const result = await adminFetch<BusinessDetail>(
+        `/api/admin/business/${encodeURIComponent(id)}`,
+        { signal: controller.signal }
+      );
+      if (controller.signal.aborted) return;
+      if (!result.ok) {
+        setError(result.message);
+        return;
+      }
+      setDetail(result.data);
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+        {error}
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+        Loading…
+      </div>
+    );
+  }
+
+  const { business, kyc, locations } = detail;
+  const brands = Array.isArray(business.brands) ? (business.brands as unknown[]) : [];
+  const gstDocumentUrl = typeof business.gstDocumentUrl === "string" ? business.gstDocumentUrl : "";
+  const logoUrl = typeof business.businessLogoUrl === "string" ? business.businessLogoUrl : "";
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+        <div className="flex items-center gap-3">
+          {logoUrl ? (
+            <img
+              src={logoUrl}
+              alt="Business logo"
+              className="h-12 w-12 rounded-xl border border-zinc-900/10 object-cover"
+              referrerPolicy="no-referrer"
+            />
+          ) : null}
+          <div className="text-lg font-semibold text-zinc-950">
+            {typeof business.businessName === "string" && business.businessName
+              ? business.businessName
+              : "Unnamed business"}
+          </div>
+        </div>
+
+        <dl className="mt-4 grid gap-2 text-sm sm:grid-cols-2">
+          {DETAIL_FIELDS.map(({ key, label }) => {
+            const value = business[key];
+            if (typeof value !== "string" || !value) return null;
+            return (
+              <div key={key}>
+                <dt className="text-xs font-medium text-zinc-500">{label}</dt>
+                <dd className="mt-0.5 whitespace-pre-wrap text-zinc-900">{value}</dd>
+              </div>
+            );
+          })}
+          {brands.length ? (
+            <div>
+              <dt className="text-xs font-medium text-zinc-500">Brands</dt>
+              <dd className="mt-0.5 text-zinc-900">{brands.filter((b) => typeof b === "string").join(", ")}</dd>
+            </div>
+          ) : null}
+        </dl>
+
+        {gstDocumentUrl ? (
+          <a
+            href={gstDocumentUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="mt-4 inline-flex h-9 items-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
+          >
+            Open GST document
+          </a>
+        ) : null}
+      </div>
+
+      <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+        <div className="text-sm font-semibold text-zinc-950">KYC</div>
+        {kyc ? (
+          <div className="mt-3 grid gap-3">
+            <div className="text-xs text-zinc-600">
+              Status: <span className="font-semibold text-zinc-900">{String(kyc.status ?? "")}</span>
+            </div>
+            {kyc.scriptText ? (
+              <div className="rounded-xl border border-zinc-900/10 bg-zinc-50 p-3 text-xs text-zinc-700">
+                <div className="font-semibold text-zinc-900">Script read in selfie video</div>
+                <div className="mt-1 whitespace-pre-wrap">{kyc.scriptText}</div>
+              </div>
+            ) : null}
+            {kyc.selfieVideo?.url ? (
+              <video
+                src={kyc.selfieVideo.url}
+                controls
+                preload="metadata"
+                className="w-full max-w-md rounded-xl border border-zinc-900/10 bg-black"
+              />
+            ) : (
+              <div className="text-xs text-zinc-600">No selfie video uploaded.</div>
+            )}
+          </div>
+        ) : (
+          <div className="mt-2 text-sm text-zinc-600">KYC has not been submitted.</div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+        <div className="text-sm font-semibold text-zinc-950">Locations</div>
+        {locations.length ? (
+          <div className="mt-3 grid gap-3">
+            {locations.map((loc) => (
+              <div key={loc.id} className="rounded-xl border border-zinc-900/10 p-3">
+                <div className="text-sm text-zinc-900">{loc.fullAddress || "No address"}</div>
+                <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                  {loc.shopImageUrl ? (
+                    <img
+                      src={loc.shopImageUrl}
+                      alt="Shop"
+                      className="w-full rounded-lg border border-zinc-900/10 object-cover"
+                      referrerPolicy="no-referrer"
+                    />
+                  ) : null}
+                  {loc.verificationVideo?.url ? (
+                    <video
+                      src={loc.verificationVideo.url}
+                      controls
+                      preload="metadata"
+                      className="w-full rounded-lg border border-zinc-900/10 bg-black"
+                    />
+                  ) : (
+                    <div className="text-xs text-zinc-600">No shop proof video.</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-2 text-sm text-zinc-600">No locations.</div>
+        )}
+      </div>
+
+      <ReviewPanel
+        endpoint={`/api/admin/business/${encodeURIComponent(id)}`}
+        fieldLabels={BUSINESS_FIELD_LABELS}
+        onReviewed={onReviewed}
+      />
+    </div>
+  );
+}
+
+export default function AdminBusinessQueuePage() {
+  return (
+    <ReviewQueue<BusinessQueueItem>
+      title="Businesses"
+      description="Registrations and KYC waiting for verification."
+      endpoint="/api/admin/business"
+      emptyText="No businesses waiting for review."
+      renderItem={(item) => (
+        <div>
+          <div className="text-sm font-semibold text-zinc-950">{item.businessName || "Unnamed business"}</div>
+          <div className="mt-1 text-xs text-zinc-600">
+            {[item.businessType, item.businessCategory].filter(Boolean).join(" · ")}
+          </div>
+          <div className="mt-1 text-[11px] text-zinc-500">
+            KYC {item.kycStatus || "not submitted"} · {formatDateTime(item.submittedAt)}
+          </div>
+        </div>
+      )}
+      renderDetail={(item, onReviewed) => <BusinessReview id={item.id} onReviewed={onReviewed} />}
+    />
+  );
+}
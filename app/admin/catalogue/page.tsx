@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CATALOGUE_FIELD_LABELS } from "@/lib/rejection";
+import ReviewPanel from "../ReviewPanel";
+import ReviewQueue from "../ReviewQueue";
+import { adminFetch, formatDateTime } from "../adminApi";
+
+type CatalogueQueueItem = {
+  id: string;
+  title: string;
+  userId: string;
+  imageUrl: string;
+  submittedAt: string | null;
+};
+
+type CatalogueDetail = {
+  id: string;
+  title?: string;
+  description?: string;
+  offerDetails?: string;
+  imageUrls?: string[];
+};
+
+function CatalogueReview({ id, onReviewed }: { id: string; onReviewed: () => void }) {
+  const [detail, setDetail] = useState<{ item: CatalogueDetail; businessName: string } | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const result = await adminFetch<{ item: CatalogueDetail; businessName?: string }>(
+        `/api/admin/catalogue/${encodeURIComponent(id)}`,
+        { signal: controller.signal }
+      );
+      if (controller.signal.aborted) return;
+      if (!result.ok) {
+        setError(result.message);
+        return;
+      }
+      setDetail({ item: result.data.item, businessName: result.data.businessName ?? "" });
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+        {error}
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+        Loading…
+      </div>
+    );
+  }
+
+  const { item, businessName } = detail;
+  const images = Array.isArray(item.imageUrls)
+    ? item.imageUrls.filter((url): url is string => typeof url === "string")
+    : [];
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+        <div className="text-lg font-semibold text-zinc-950">{item.title || "Untitled"}</div>
+        {businessName ? <div className="mt-1 text-xs text-zinc-500">by {businessName}</div> : null}
+        {item.description ? (
+          <div className="mt-3 whitespace-pre-wrap text-sm text-zinc-700">{item.description}</div>
+        ) : null}
+
+        {images.length ? (
+          <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {images.map((url) => (
+              <img
+                key={url}
+                src={url}
+                alt="Catalogue"
+                className="aspect-square w-full rounded-lg border border-zinc-900/10 object-cover"
+                referrerPolicy="no-referrer"
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="mt-4 text-sm text-zinc-600">No images.</div>
+        )}
+
+        <div className="mt-6">
+          <div className="text-sm font-semibold text-zinc-950">Offer details</div>
+          {item.offerDetails ? (
+            <div
+              className="prose prose-zinc mt-2 max-w-none"
+              dangerouslySetInnerHTML={{ __html: item.offerDetails }}
+            />
+          ) : (
+            <div className="mt-2 text-sm text-zinc-600">No offer details.</div>
+          )}
+        </div>
+      </div>
+
+      <ReviewPanel
+        endpoint={`/api/admin/catalogue/${encodeURIComponent(id)}`}
+        fieldLabels={CATALOGUE_FIELD_LABELS}
+        onReviewed={onReviewed}
+      />
+    </div>
+  );
+}
+
+export default function AdminCatalogueQueuePage() {
+  return (
+    <ReviewQueue<CatalogueQueueItem>
+      title="Catalogue"
+      description="Catalogue items submitted for verification."
+      endpoint="/api/admin/catalogue"
+      emptyText="No catalogue items waiting for review."
+      renderItem={(item) => (
+        <div className="flex items-center gap-3">
+          {item.imageUrl ? (
+            <img
+              src={item.imageUrl}
+              alt=""
+              className="h-12 w-12 shrink-0 rounded-lg border border-zinc-900/10 object-cover"
+              referrerPolicy="no-referrer"
+            />
+          ) : null}
+          <div className="min-w-0">
+            <div className="truncate text-sm font-semibold text-zinc-950">{item.title || "Untitled"}</div>
+            <div className="mt-1 text-[11px] text-zinc-500">Submitted {formatDateTime(item.submittedAt)}</div>
+          </div>
+        </div>
+      )}
+      renderDetail={(item, onReviewed) => <CatalogueReview id={item.id} onReviewed={onReviewed} />}
+    />
+  );
+}
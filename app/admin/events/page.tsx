@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { EventItem } from "@/app/dashboard/event/types";
+import { EVENT_FIELD_LABELS } from "@/app/dashboard/event/types";
+import ReviewPanel from "../ReviewPanel";
+import ReviewQueue from "../ReviewQueue";
+import { adminFetch, formatDateTime } from "../adminApi";
+
+type EventQueueItem = {
+  id: string;
+  title: string;
+  bannerUrl: string;
+  userId: string;
+  startDateTime: string;
+  submittedAt: string | null;
+};
+
+function EventReview({ id, onReviewed }: { id: string; onReviewed: () => void }) {
+  const [detail, setDetail] = useState<{ item: EventItem; businessName: string } | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const result = await adminFetch<{ item: EventItem; businessName?: string }>(
+        `/api/admin/events/${encodeURIComponent(id)}`,
+        { signal: controller.signal }
+      );
+      if (controller.signal.aborted) return;
+      if (!result.ok) {
+        setError(result.message);
+        return;
+      }
+      setDetail({ item: result.data.item, businessName: result.data.businessName ?? "" });
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+        {error}
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+        Loading…
+      </div>
+    );
+  }
+
+  const { item, businessName } = detail;
+  const gallery = Array.isArray(item.galleryUrls) ? item.galleryUrls : [];
+  const tickets = Array.isArray(item.tickets) ? item.tickets : [];
+
+  return (
+    <div className="grid gap-4">
+      <div className="overflow-hidden rounded-2xl border border-zinc-900/10 bg-white shadow-sm">
+        {item.bannerUrl ? (
+          <img
+            src={item.bannerUrl}
+            alt={item.title || "Event"}
+            className="aspect-[16/7] w-full object-cover"
+            referrerPolicy="no-referrer"
+          />
+        ) : null}
+
+        <div className="grid gap-2 p-4 text-sm text-zinc-700">
+          <div className="text-lg font-semibold text-zinc-950">{item.title || "Untitled"}</div>
+          {businessName ? <div className="text-xs text-zinc-500">by {businessName}</div> : null}
+          <div>
+            <span className="font-medium text-zinc-900">Starts:</span>{" "}
+            {formatDateTime(item.startDateTime || item.startDate)}
+          </div>
+          <div>
+            <span className="font-medium text-zinc-900">Ends:</span>{" "}
+            {formatDateTime(item.endDateTime || item.endDate)}
+          </div>
+          {item.location?.address ? (
+            <div>
+              <span className="font-medium text-zinc-900">Location:</span> {item.location.address}
+            </div>
+          ) : null}
+          {item.organiser?.name ? (
+            <div>
+              <span className="font-medium text-zinc-900">Organiser:</span> {item.organiser.name}
+            </div>
+          ) : null}
+          {Array.isArray(item.tags) && item.tags.length ? (
+            <div>
+              <span className="font-medium text-zinc-900">Tags:</span> {item.tags.join(", ")}
+            </div>
+          ) : null}
+          {item.description ? <div className="whitespace-pre-wrap">{item.description}</div> : null}
+        </div>
+      </div>
+
+      {item.videoUrl ? (
+        <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+          <div className="text-sm font-semibold text-zinc-950">Event video</div>
+          <video
+            src={item.videoUrl}
+            controls
+            preload="metadata"
+            className="mt-3 w-full max-w-lg rounded-xl border border-zinc-900/10 bg-black"
+          />
+        </div>
+      ) : null}
+
+      {gallery.length ? (
+        <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+          <div className="text-sm font-semibold text-zinc-950">Gallery</div>
+          <div className="mt-3 grid grid-cols-3 gap-2">
+            {gallery.map((url) => (
+              <img
+                key={url}
+                src={url}
+                alt="Gallery"
+                className="aspect-square w-full rounded-lg border border-zinc-900/10 object-cover"
+                referrerPolicy="no-referrer"
+              />
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm">
+        <div className="text-sm font-semibold text-zinc-950">Tickets</div>
+        {tickets.length ? (
+          <div className="mt-3 grid gap-2">
+            {tickets.map((t, idx) => (
+              <div
+                key={`${t.title}_${idx}`}
+                className="flex items-start justify-between gap-3 rounded-xl border border-zinc-900/10 p-3 text-xs text-zinc-600"
+              >
+                <div>
+                  <div className="text-sm font-semibold text-zinc-950">{t.title}</div>
+                  <div className="mt-0.5">{t.description}</div>
+                </div>
+                <div className="shrink-0 text-right">
+                  <div className="text-sm font-semibold text-zinc-950">₹{t.price}</div>
+                  <div>Qty {t.quantity}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-2 text-sm text-zinc-600">No tickets.</div>
+        )}
+      </div>
+
+      <ReviewPanel
+        endpoint={`/api/admin/events/${encodeURIComponent(id)}`}
+        fieldLabels={EVENT_FIELD_LABELS}
+        onReviewed={onReviewed}
+      />
+    </div>
+  );
+}
+
+export default function AdminEventQueuePage() {
+  return (
+    <ReviewQueue<EventQueueItem>
+      title="Events"
+      description="Events submitted for verification."
+      endpoint="/api/admin/events"
+      emptyText="No events waiting for review."
+      renderItem={(item) => (
+        <div>
+          <div className="text-sm font-semibold text-zinc-950">{item.title || "Untitled"}</div>
+          <div className="mt-1 text-xs text-zinc-600">Starts {formatDateTime(item.startDateTime)}</div>
+          <div className="mt-1 text-[11px] text-zinc-500">Submitted {formatDateTime(item.submittedAt)}</div>
+        </div>
+      )}
+      renderDetail={(item, onReviewed) => <EventReview id={item.id} onReviewed={onReviewed} />}
+    />
+  );
+}
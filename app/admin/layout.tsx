@@ -0,0 +1,18 @@
+import type { ReactNode } from "react";
+import AdminNav from "./AdminNav";
+
+export default function AdminLayout({
+  children,
+}: Readonly<{ children: ReactNode }>) {
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-950">
+      <header className="border-b border-zinc-900/10 bg-white/80 backdrop-blur-md">
+        <div className="mx-auto flex w-full max-w-6xl flex-col gap-3 px-4 py-4 sm:flex-row sm:items-center sm:justify-between sm:px-6">
+          <div className="text-sm font-semibold tracking-tight">GEM Business · Review console</div>
+          <AdminNav />
+        </div>
+      </header>
+      <main>{children}</main>
+    </div>
+  );
+}
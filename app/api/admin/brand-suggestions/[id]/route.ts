@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { buildReviewUpdate, readReviewDecision } from "@/lib/adminReview";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { requireAdmin } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing suggestion id." }, { status: 400 });
+  }
+
+  const parsed = await readReviewDecision(request);
+  if (!parsed.ok) return parsed.response;
+  const { decision } = parsed;
+
+  try {
+    const suggestionRef = adminDb.collection("brandSuggestions").doc(id);
+    const snap = await suggestionRef.get();
+
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Suggestion not found." }, { status: 404 });
+    }
+
+    const data = snap.data() ?? {};
+    const status = typeof data.status === "string" ? data.status : "pending";
+    if (status !== "pending") {
+      return NextResponse.json(
+        { ok: false, message: "Suggestion is not awaiting review." },
+        { status: 409 }
+      );
+    }
+
+    const update: Record<string, unknown> = buildReviewUpdate(decision, auth.uid);
+    const batch = adminDb.batch();
+
+    // Approving publishes the suggestion as an ACTIVE brand so it shows up in the brand picker.
+    if (decision.action === "approve") {
+      const name = isNonEmptyString(data.name) ? data.name.trim() : "";
+      if (!name) {
+        return NextResponse.json(
+          { ok: false, message: "Suggestion has no brand name." },
+          { status: 400 }
+        );
+      }
+
+      const brandRef = adminDb.collection("brands").doc();
+      batch.set(brandRef, {
+        id: brandRef.id,
+        name,
+        ...(isNonEmptyString(data.logoUrl) ? { logoUrl: data.logoUrl.trim() } : {}),
+        ...(isNonEmptyString(data.businessCategory) ? { category: data.businessCategory.trim() } : {}),
+        status: "ACTIVE",
+        suggestionId: id,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      update.brandId = brandRef.id;
+    }
+
+    batch.update(suggestionRef, update);
+    await batch.commit();
+
+    return NextResponse.json(
+      {
+        ok: true,
+        status: update.status,
+        ...(typeof update.brandId === "string" ? { brandId: update.brandId } : {}),
+        message: decision.action === "approve" ? "Brand added." : "Suggestion rejected.",
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/admin/brand-suggestions/[id] PATCH failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to save review." }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { requireAdmin } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+const QUEUE_LIMIT = 100;
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+export async function GET(request: Request) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    // Suggestions created before reviews existed have no status, so they can't be matched with a
+    // `where("status", "==", "pending")` query; read the latest ones and filter here instead.
+    const snap = await adminDb
+      .collection("brandSuggestions")
+      .orderBy("createdAt", "desc")
+      .limit(QUEUE_LIMIT)
+      .get();
+
+    const items = snap.docs
+      .map((doc) => {
+        const data = doc.data() ?? {};
+        return {
+          id: doc.id,
+          name: asString(data.name),
+          logoUrl: asString(data.logoUrl),
+          userId: asString(data.userId),
+          businessCategory: asString(data.businessCategory),
+          shopType: asString(data.shopType),
+          source: asString(data.source),
+          status: asString(data.status) || "pending",
+          submittedAt: timestampToIso(data.createdAt),
+        };
+      })
+      .filter((item) => item.status === "pending")
+      .reverse();
+
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (err) {
+    console.error("/api/admin/brand-suggestions GET failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to load brand suggestions." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextResponse } from "next/server";
+import { buildReviewUpdate, readReviewDecision, recordReviewAudit } from "@/lib/adminReview";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { normalizeRejection } from "@/lib/rejection";
+import { withSignedUrl } from "@/lib/storageUpload";
+import { gstDocumentUrl } from "@/lib/businessUploads";
+import { requireAdmin } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isReviewableBusinessStatus(value: unknown) {
+  return value === "submitted" || value === "pending";
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing business id." }, { status: 400 });
+  }
+
+  try {
+    const [businessSnap, kycSnap, locationsSnap] = await Promise.all([
+      adminDb.collection("business").doc(id).get(),
+      adminDb.collection("businessKyc").doc(id).get(),
+      adminDb.collection("businessLocations").where("businessId", "==", id).get(),
+    ]);
+
+    if (!businessSnap.exists) {
+      return NextResponse.json({ ok: false, message: "Business not found." }, { status: 404 });
+    }
+
+    const data = businessSnap.data() ?? {};
+    const kyc = kycSnap.exists ? (kycSnap.data() ?? {}) : null;
+    const locations = await Promise.all(
+      locationsSnap.docs.map(async (doc) => {
+        const location = doc.data() ?? {};
+        return {
+          id: doc.id,
+          ...location,
+          verificationVideo: await withSignedUrl(location.verificationVideo),
+        };
+      })
+    );
+
+    return NextResponse.json(
+      {
+        ok: true,
+        business: {
+          id,
+          ...data,
+          gstDocumentUrl: await gstDocumentUrl(data),
+          rejection: normalizeRejection(data.rejection),
+        },
+        kyc: kyc ? { ...kyc, selfieVideo: await withSignedUrl(kyc.selfieVideo) } : null,
+        locations,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/admin/business/[id] GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load business." }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing business id." }, { status: 400 });
+  }
+
+  const parsed = await readReviewDecision(request);
+  if (!parsed.ok) return parsed.response;
+  const { decision } = parsed;
+
+  try {
+    const businessRef = adminDb.collection("business").doc(id);
+    const businessSnap = await businessRef.get();
+
+    if (!businessSnap.exists) {
+      return NextResponse.json({ ok: false, message: "Business not found." }, { status: 404 });
+    }
+
+    const before = (businessSnap.data() ?? {}) as Record<string, unknown>;
+    if (!isReviewableBusinessStatus(before.status)) {
+      return NextResponse.json(
+        { ok: false, message: "Business is not awaiting review." },
+        { status: 409 }
+      );
+    }
+
+    const update = buildReviewUpdate(decision, auth.uid);
+    const nextStatus = update.status;
+
+    const kycRef = adminDb.collection("businessKyc").doc(id);
+    const [kycSnap, locationsSnap] = await Promise.all([
+      kycRef.get(),
+      adminDb.collection("businessLocations").where("businessId", "==", id).get(),
+    ]);
+
+    const batch = adminDb.batch();
+    batch.set(businessRef, update, { merge: true });
+
+    if (kycSnap.exists) {
+      batch.set(
+        kycRef,
+        {
+          status: nextStatus,
+          reviewedAt: FieldValue.serverTimestamp(),
+          reviewedBy: auth.uid,
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+    }
+
+    for (const doc of locationsSnap.docs) {
+      batch.set(
+        doc.ref,
+        { verificationStatus: nextStatus, updatedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+    }
+
+    await batch.commit();
+    await recordReviewAudit({
+      targetType: "business",
+      targetId: id,
+      businessId: id,
+      before,
+      update,
+      decision,
+      reviewerUid: auth.uid,
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        status: nextStatus,
+        message: decision.action === "approve" ? "Business verified." : "Business rejected.",
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/admin/business/[id] PATCH failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to save review." }, { status: 500 });
+  }
+}
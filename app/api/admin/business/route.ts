@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { requireAdmin } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+const QUEUE_LIMIT = 100;
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+export async function GET(request: Request) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const snap = await adminDb
+      .collection("business")
+      .where("status", "in", ["submitted", "pending"])
+      .limit(QUEUE_LIMIT)
+      .get();
+
+    const kycRefs = snap.docs.map((doc) => adminDb.collection("businessKyc").doc(doc.id));
+    const kycSnaps = kycRefs.length ? await adminDb.getAll(...kycRefs) : [];
+    const kycStatusById = new Map<string, string>(
+      kycSnaps.map((s) => [s.id, s.exists ? asString(s.data()?.status) : ""])
+    );
+
+    const items = snap.docs
+      .map((doc) => {
+        const data = doc.data() ?? {};
+        return {
+          id: doc.id,
+          businessName: asString(data.businessName),
+          businessLogoUrl: asString(data.businessLogoUrl),
+          businessType: asString(data.businessType),
+          businessCategory: asString(data.businessCategory),
+          status: asString(data.status),
+          kycStatus: kycStatusById.get(doc.id) ?? "",
+          submittedAt: timestampToIso(data.updatedAt),
+        };
+      })
+      .sort((a, b) => (a.submittedAt ?? "").localeCompare(b.submittedAt ?? ""));
+
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (err) {
+    console.error("/api/admin/business GET failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to load business queue." },
+      { status: 500 }
+    );
+  }
+}
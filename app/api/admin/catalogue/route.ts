@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { requireAdmin } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+const QUEUE_LIMIT = 100;
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+export async function GET(request: Request) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const snap = await adminDb
+      .collection("catalogue")
+      .where("status", "==", "pending")
+      .limit(QUEUE_LIMIT)
+      .get();
+
+    const items = snap.docs
+      .map((doc) => {
+        const data = doc.data() ?? {};
+        const imageUrls = Array.isArray(data.imageUrls) ? data.imageUrls : [];
+        return {
+          id: doc.id,
+          title: asString(data.title),
+          userId: asString(data.userId),
+          imageUrl: asString(imageUrls[0]),
+          submittedAt: timestampToIso(data.updatedAt) ?? timestampToIso(data.createdAt),
+        };
+      })
+      .sort((a, b) => (a.submittedAt ?? "").localeCompare(b.submittedAt ?? ""));
+
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (err) {
+    console.error("/api/admin/catalogue GET failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to load catalogue queue." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { buildReviewUpdate, readReviewDecision, recordReviewAudit } from "@/lib/adminReview";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { normalizeRejection } from "@/lib/rejection";
+import { requireAdmin } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const data = (snap.data() ?? {}) as Record<string, unknown>;
+    const userId = typeof data.userId === "string" ? data.userId : "";
+    const businessSnap = userId ? await adminDb.collection("business").doc(userId).get() : null;
+    const businessName =
+      businessSnap?.exists && typeof businessSnap.data()?.businessName === "string"
+        ? (businessSnap.data()?.businessName as string)
+        : "";
+
+    return NextResponse.json(
+      {
+        ok: true,
+        item: { id: snap.id, ...data, rejection: normalizeRejection(data.rejection) },
+        businessName,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/admin/events/[id] GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load event." }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAdmin(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  const parsed = await readReviewDecision(request);
+  if (!parsed.ok) return parsed.response;
+  const { decision } = parsed;
+
+  try {
+    const docRef = adminDb.collection("events").doc(id);
+    const snap = await docRef.get();
+
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const before = (snap.data() ?? {}) as Record<string, unknown>;
+    if (before.status !== "pending") {
+      return NextResponse.json(
+        { ok: false, message: "Event is not awaiting review." },
+        { status: 409 }
+      );
+    }
+
+    const update = buildReviewUpdate(decision, auth.uid);
+    await docRef.update(update);
+    await recordReviewAudit({
+      targetType: "event",
+      targetId: id,
+      businessId: typeof before.userId === "string" ? before.userId : "",
+      before,
+      update,
+      decision,
+      reviewerUid: auth.uid,
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        status: update.status,
+        message: decision.action === "approve" ? "Event verified." : "Event rejected.",
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/admin/events/[id] PATCH failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to save review." }, { status: 500 });
+  }
+}
@@ -0,0 +1,161 @@
+import { NextResponse } from "next/server";
+import { asAdCampaignStatus, toAdCampaignItem } from "@/lib/adCampaigns";
+import { deliveryBlock, getCampaignSpend } from "@/lib/adPacing";
+import { getAdDailyStats, getAdStatsTotals } from "@/lib/adStats";
+import { recordAudit } from "@/lib/auditLog";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** The campaign with its lifetime totals, per-day counters and current delivery block. */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing campaign id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("adCampaigns").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Campaign not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, snap.data()?.userId, null, { allowAdmin: true });
+    if (!access.ok) return access.response;
+
+    const [totals, daily, spend] = await Promise.all([
+      getAdStatsTotals([id]),
+      getAdDailyStats(id),
+      getCampaignSpend([id]),
+    ]);
+    const item = toAdCampaignItem(snap);
+    const delivery = deliveryBlock(item, spend.get(id) ?? { total: 0, today: 0 });
+    return NextResponse.json(
+      { ok: true, campaign: { ...item, stats: totals.get(id), delivery }, daily },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/ads/[id] GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load campaign." }, { status: 500 });
+  }
+}
+
+/**
+ * Pauses, resumes or stops a campaign: `{ action: "pause" | "resume" | "stop" }`. Stopping is
+ * final, and a campaign whose end date has passed cannot be resumed.
+ */
+export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing campaign id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const action =
+    obj.action === "pause" || obj.action === "resume" || obj.action === "stop" ? obj.action : null;
+
+  if (!action) {
+    return NextResponse.json({ ok: false, message: "Invalid action." }, { status: 400 });
+  }
+
+  try {
+    const docRef = adminDb.collection("adCampaigns").doc(id);
+    const snap = await docRef.get();
+    const data = snap.data();
+    if (!snap.exists || !data) {
+      return NextResponse.json({ ok: false, message: "Campaign not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, data.userId, "ads.manage");
+    if (!access.ok) return access.response;
+
+    const current = asAdCampaignStatus(data.status);
+    if (current === "stopped") {
+      const message = data.budgetExhaustedAt
+        ? "Campaign has spent its budget."
+        : "Campaign has been stopped.";
+      return NextResponse.json({ ok: false, message }, { status: 409 });
+    }
+    if (action === "pause" && current !== "active") {
+      return NextResponse.json({ ok: false, message: "Campaign is not running." }, { status: 409 });
+    }
+    if (action === "resume") {
+      if (current !== "paused") {
+        return NextResponse.json({ ok: false, message: "Campaign is not paused." }, { status: 409 });
+      }
+      const end = typeof data.endsAt === "string" ? new Date(data.endsAt).getTime() : NaN;
+      if (Number.isFinite(end) && end <= Date.now()) {
+        return NextResponse.json(
+          { ok: false, message: "Campaign has already ended." },
+          { status: 409 }
+        );
+      }
+      if (data.budgetExhaustedAt) {
+        return NextResponse.json(
+          { ok: false, message: "Campaign has spent its budget." },
+          { status: 409 }
+        );
+      }
+    }
+
+    const status = action === "pause" ? "paused" : action === "resume" ? "active" : "stopped";
+    await docRef.update({
+      status,
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: auth.uid,
+    });
+
+    await recordAudit({
+      businessId: data.userId,
+      actorUid: auth.uid,
+      action: `ad.${action}`,
+      targetType: "ad",
+      targetId: id,
+      summary: typeof data.catalogueTitle === "string" ? data.catalogueTitle : undefined,
+      fromStatus: current,
+      toStatus: status,
+    });
+
+    const [updated, totals, spend] = await Promise.all([
+      docRef.get(),
+      getAdStatsTotals([id]),
+      getCampaignSpend([id]),
+    ]);
+    const item = toAdCampaignItem(updated);
+    const delivery = deliveryBlock(item, spend.get(id) ?? { total: 0, today: 0 });
+    return NextResponse.json(
+      { ok: true, campaign: { ...item, stats: totals.get(id), delivery } },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/ads/[id] PATCH failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to update campaign." }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { recordAdDelivery } from "@/lib/adPacing";
+import { recordAdFrequency, verifyBeaconToken, viewerKeyFor } from "@/lib/adServing";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Records that a served ad was shown, tapped or led to a shop visit:
+ * `{ token, type: "impression" | "click" | "visit" }`, where `token` is the `beaconToken` from
+ * `/api/ads/serve`. `visit` is for shop-visit campaigns (the viewer opened directions to or
+ * checked in at the shop); website visits are counted by the `/api/ads/visit` redirect instead.
+ * Each token counts once per type, so clients may safely retry. Beacons must come from the
+ * signed-in viewer the ad was served to, and a click only counts after its impression.
+ */
+export async function POST(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const type =
+    obj.type === "impression" || obj.type === "click" || obj.type === "visit" ? obj.type : null;
+  if (!type) {
+    return NextResponse.json({ ok: false, message: "Invalid beacon type." }, { status: 400 });
+  }
+  if (!isNonEmptyString(obj.token)) {
+    return NextResponse.json({ ok: false, message: "Missing beacon token." }, { status: 400 });
+  }
+
+  const claims = verifyBeaconToken(obj.token);
+  if (!claims.ok) {
+    return NextResponse.json({ ok: false, message: claims.message }, { status: 400 });
+  }
+  if (claims.viewerKey !== viewerKeyFor(auth.uid)) {
+    return NextResponse.json(
+      { ok: false, message: "This ad was served to someone else." },
+      { status: 403 }
+    );
+  }
+
+  try {
+    if (type === "visit") {
+      const campaignSnap = await adminDb.collection("adCampaigns").doc(claims.campaignId).get();
+      if (campaignSnap.data()?.goal !== "shop_visit") {
+        return NextResponse.json(
+          { ok: false, message: "Visit beacons are only for shop visit ads." },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await recordAdDelivery(claims.campaignId, type, { beaconId: claims.nonce });
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, message: result.message }, { status: result.status });
+    }
+
+    if (type === "impression" && !result.duplicate) {
+      await recordAdFrequency(claims.campaignId, claims.viewerKey);
+    }
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    console.error("/api/ads/beacon POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to record beacon." }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { recordAdDelivery } from "@/lib/adPacing";
+import { normalizeRewardCode, redeemReward } from "@/lib/adRewards";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+/**
+ * Marks a reward used at the shop. Already-used and expired codes are refused with the reward, so
+ * the counter can show when it was used. A redemption counts as a shop visit for the campaign.
+ */
+export async function POST(request: Request, context: { params: Promise<{ code: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth, "ads.redeem");
+  if (!access.ok) return access.response;
+
+  const params = await context.params;
+  const code = normalizeRewardCode(params?.code);
+
+  if (!code) {
+    return NextResponse.json({ ok: false, message: "Missing reward code." }, { status: 400 });
+  }
+
+  try {
+    const result = await redeemReward(code, access.businessId, auth.uid);
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, message: result.message, reward: result.reward ?? null },
+        { status: result.status }
+      );
+    }
+
+    const visit = await recordAdDelivery(result.reward.campaignId, "visit", {
+      beaconId: `redeem_${code}`,
+    });
+    if (!visit.ok) console.error("/api/ads/rewards/[code]/redeem visit not recorded", visit.message);
+
+    return NextResponse.json(
+      { ok: true, reward: result.reward, message: "Reward redeemed." },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/ads/rewards/[code]/redeem POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to redeem reward." }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getRewardForBusiness, normalizeRewardCode } from "@/lib/adRewards";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+/** Checks a customer's reward code at the counter before redeeming it. */
+export async function GET(request: Request, context: { params: Promise<{ code: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth, "ads.redeem");
+  if (!access.ok) return access.response;
+
+  const params = await context.params;
+  const code = normalizeRewardCode(params?.code);
+
+  if (!code) {
+    return NextResponse.json({ ok: false, message: "Missing reward code." }, { status: 400 });
+  }
+
+  try {
+    const reward = await getRewardForBusiness(code, access.businessId);
+    if (!reward) {
+      return NextResponse.json({ ok: false, message: "Reward code not found." }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, reward }, { status: 200 });
+  } catch (err) {
+    console.error("/api/ads/rewards/[code] GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to check reward." }, { status: 500 });
+  }
+}
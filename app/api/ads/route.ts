@@ -0,0 +1,249 @@
+import { NextResponse } from "next/server";
+import {
+  MAX_AD_BUDGET,
+  MIN_AD_BUDGET,
+  asAdGoal,
+  asAdType,
+  goalsForBusinessType,
+  parseAdSchedule,
+  resolveAdTargetLocations,
+  toAdCampaignItem,
+} from "@/lib/adCampaigns";
+import { deliveryBlock, getCampaignSpend } from "@/lib/adPacing";
+import { AD_PRICING, MAX_AD_BID, MIN_AD_DAILY_BUDGET } from "@/lib/adPricing";
+import { getAdStatsTotals } from "@/lib/adStats";
+import { recordAudit } from "@/lib/auditLog";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+import { parseScratchReward } from "@/lib/scratchRewards";
+
+export const runtime = "nodejs";
+
+const CAMPAIGNS_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * The active business's boost campaigns, newest first, with their lifetime delivery totals and
+ * why each is not delivering right now (`delivery`, null while it is).
+ */
+export async function GET(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth);
+  if (!access.ok) return access.response;
+
+  try {
+    const campaignsQuery = adminDb.collection("adCampaigns").where("userId", "==", access.businessId);
+
+    let docs: FirebaseFirestore.QueryDocumentSnapshot[];
+    try {
+      docs = (await campaignsQuery.orderBy("createdAt", "desc").limit(CAMPAIGNS_LIMIT).get()).docs;
+    } catch (err) {
+      console.error("/api/ads GET ordered query failed; returned unordered fallback", err);
+      docs = (await campaignsQuery.limit(CAMPAIGNS_LIMIT).get()).docs;
+    }
+
+    const ids = docs.map((doc) => doc.id);
+    const [totals, spend] = await Promise.all([getAdStatsTotals(ids), getCampaignSpend(ids)]);
+    const campaigns = docs.map((doc) => {
+      const item = toAdCampaignItem(doc);
+      return {
+        ...item,
+        stats: totals.get(doc.id),
+        delivery: deliveryBlock(item, spend.get(doc.id) ?? { total: 0, today: 0 }),
+      };
+    });
+    return NextResponse.json({ ok: true, campaigns }, { status: 200 });
+  } catch (err) {
+    console.error("/api/ads GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load campaigns." }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a boost campaign for one of the business's verified catalogue items. Body:
+ * `{ catalogueId, adType, goal, budget, dailyBudget, bid, startsAt, endsAt, targetLocations }`.
+ * `budget` is the lifetime budget and `bid` is paid per 1,000 impressions or per click depending
+ * on the ad type. Scratch campaigns also take a `reward` definition with its odds and quantity.
+ * The goal must suit the business type, shop-visit campaigns need at least one
+ * target location and website-visit campaigns need a website on the business profile.
+ */
+export async function POST(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth, "ads.manage");
+  if (!access.ok) return access.response;
+  const businessId = access.businessId;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const catalogueId = isNonEmptyString(obj.catalogueId) ? obj.catalogueId.trim() : "";
+  const adType = asAdType(obj.adType);
+  const goal = asAdGoal(obj.goal);
+  const budget = typeof obj.budget === "number" ? obj.budget : Number(obj.budget);
+  const dailyBudget = typeof obj.dailyBudget === "number" ? obj.dailyBudget : Number(obj.dailyBudget);
+  const bid = typeof obj.bid === "number" ? obj.bid : Number(obj.bid);
+
+  if (!catalogueId) {
+    return NextResponse.json({ ok: false, message: "Missing catalogue id." }, { status: 400 });
+  }
+  if (!adType) {
+    return NextResponse.json({ ok: false, message: "Invalid ads type." }, { status: 400 });
+  }
+  if (!goal) {
+    return NextResponse.json({ ok: false, message: "Invalid goal." }, { status: 400 });
+  }
+  if (!Number.isFinite(budget) || budget < MIN_AD_BUDGET || budget > MAX_AD_BUDGET) {
+    return NextResponse.json(
+      { ok: false, message: `Budget must be between ₹${MIN_AD_BUDGET} and ₹${MAX_AD_BUDGET}.` },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isFinite(dailyBudget) || dailyBudget < MIN_AD_DAILY_BUDGET || dailyBudget > budget) {
+    return NextResponse.json(
+      {
+        ok: false,
+        message: `Daily budget must be between ₹${MIN_AD_DAILY_BUDGET} and your total budget.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const pricing = AD_PRICING[adType];
+  if (!Number.isFinite(bid) || bid < pricing.minBid || bid > MAX_AD_BID) {
+    return NextResponse.json(
+      { ok: false, message: `Bid must be between ₹${pricing.minBid} and ₹${MAX_AD_BID}.` },
+      { status: 400 }
+    );
+  }
+
+  const reward = adType === "scratch" ? parseScratchReward(obj.reward) : null;
+  if (reward && !reward.ok) {
+    return NextResponse.json({ ok: false, message: reward.message }, { status: 400 });
+  }
+
+  const schedule = parseAdSchedule(obj.startsAt, obj.endsAt);
+  if (!schedule.ok) {
+    return NextResponse.json({ ok: false, message: schedule.message }, { status: 400 });
+  }
+
+  const scheduleDays = Math.ceil(
+    (new Date(schedule.endsAt).getTime() - new Date(schedule.startsAt).getTime()) / DAY_MS
+  );
+  if (dailyBudget * scheduleDays < budget) {
+    return NextResponse.json(
+      {
+        ok: false,
+        message: "Daily budget is too low to spend the total budget within the schedule.",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [catalogueSnap, businessSnap] = await Promise.all([
+      adminDb.collection("catalogue").doc(catalogueId).get(),
+      adminDb.collection("business").doc(businessId).get(),
+    ]);
+
+    const catalogue = catalogueSnap.data();
+    if (!catalogueSnap.exists || !catalogue || catalogue.userId !== businessId) {
+      return NextResponse.json({ ok: false, message: "Catalogue not found." }, { status: 404 });
+    }
+    if (catalogue.status !== "verified") {
+      return NextResponse.json(
+        { ok: false, message: "Only verified catalogue items can be boosted." },
+        { status: 409 }
+      );
+    }
+
+    const business = businessSnap.data() ?? {};
+    if (!goalsForBusinessType(business.businessType).includes(goal)) {
+      return NextResponse.json(
+        { ok: false, message: "This goal is not available for your business type." },
+        { status: 400 }
+      );
+    }
+
+    const websiteUrl = isNonEmptyString(business.website) ? business.website.trim() : "";
+    if (goal === "website_visit" && !websiteUrl) {
+      return NextResponse.json(
+        { ok: false, message: "Add a website to your business profile first." },
+        { status: 400 }
+      );
+    }
+
+    const targets = await resolveAdTargetLocations(businessId, obj.targetLocations);
+    if (!targets.ok) {
+      return NextResponse.json({ ok: false, message: targets.message }, { status: 400 });
+    }
+    if (goal === "shop_visit" && !targets.locations.some((l) => l.locationId)) {
+      return NextResponse.json(
+        { ok: false, message: "Choose at least one of your shops to drive visits to." },
+        { status: 400 }
+      );
+    }
+
+    const imageUrls = Array.isArray(catalogue.imageUrls)
+      ? catalogue.imageUrls.filter((u: unknown): u is string => isNonEmptyString(u))
+      : [];
+    const catalogueTitle = typeof catalogue.title === "string" ? catalogue.title : "";
+
+    const docRef = adminDb.collection("adCampaigns").doc();
+    await docRef.set({
+      userId: businessId,
+      catalogueId,
+      catalogueTitle,
+      catalogueImageUrl: imageUrls[0] ?? "",
+      adType,
+      goal,
+      ...(goal === "website_visit" ? { websiteUrl } : {}),
+      budget: Math.round(budget * 100) / 100,
+      dailyBudget: Math.round(dailyBudget * 100) / 100,
+      pricingModel: pricing.model,
+      bid: Math.round(bid * 100) / 100,
+      startsAt: schedule.startsAt,
+      endsAt: schedule.endsAt,
+      targetLocations: targets.locations,
+      ...(reward?.ok ? { reward: reward.reward, rewardsIssued: 0, rewardsRedeemed: 0 } : {}),
+      status: "active",
+      createdBy: auth.uid,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    await recordAudit({
+      businessId,
+      actorUid: auth.uid,
+      action: "ad.create",
+      targetType: "ad",
+      targetId: docRef.id,
+      summary: catalogueTitle || undefined,
+      toStatus: "active",
+    });
+
+    const campaign = toAdCampaignItem(await docRef.get());
+    return NextResponse.json({ ok: true, campaign, id: docRef.id }, { status: 200 });
+  } catch (err) {
+    console.error("/api/ads POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to create campaign." }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { recordAdDelivery } from "@/lib/adPacing";
+import { drawScratchReward } from "@/lib/adRewards";
+import { verifyBeaconToken, viewerKeyFor } from "@/lib/adServing";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Scratches a served scratch card: `{ token }` with the card's `beaconToken`. The outcome is drawn
+ * on the server; a win returns the reward and its redemption code. Viewers must be signed in and
+ * the card must have been served to them, so one account cannot scratch cards served to another.
+ * Scratching counts as the card's click, so clients do not send a separate click beacon; as with
+ * every click, it is only billed once the card's impression beacon has been recorded.
+ */
+export async function POST(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  if (!isNonEmptyString(obj.token)) {
+    return NextResponse.json({ ok: false, message: "Missing beacon token." }, { status: 400 });
+  }
+
+  const claims = verifyBeaconToken(obj.token);
+  if (!claims.ok) {
+    return NextResponse.json({ ok: false, message: claims.message }, { status: 400 });
+  }
+  if (claims.viewerKey !== viewerKeyFor(auth.uid)) {
+    return NextResponse.json(
+      { ok: false, message: "This scratch card was served to someone else." },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const result = await drawScratchReward(claims);
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, message: result.message }, { status: result.status });
+    }
+
+    if (result.fresh) {
+      const delivery = await recordAdDelivery(claims.campaignId, "click", { beaconId: claims.nonce });
+      if (!delivery.ok) console.error("/api/ads/scratch click not recorded", delivery.message);
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        won: result.won,
+        reward: result.reward,
+        message: result.won ? "You won!" : "Better luck next time.",
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/ads/scratch POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to scratch card." }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { asAdType } from "@/lib/adCampaigns";
+import {
+  DEFAULT_AD_SLOTS,
+  MAX_AD_SLOTS,
+  serveAds,
+  takeAdServeQuota,
+  viewerKeyFor,
+} from "@/lib/adServing";
+import { isLatLng } from "@/lib/geo";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+/** The client's address as reported by the hosting proxy, or "" when it is not known. */
+function clientIp(request: Request) {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || request.headers.get("x-real-ip")?.trim() || "";
+}
+
+/**
+ * Ad serving for signed-in viewers. Query params: `placement` (`carousel` | `scratch`), the
+ * viewer's `lat`/`lng` (optional; without them only untargeted campaigns can match) and `limit`.
+ * Beacon tokens and frequency caps are bound to the viewer's account, and requests are rate
+ * limited per viewer and per IP address. Report each shown ad and each tap to `/api/ads/beacon`
+ * with the returned `beaconToken`; taps on website-visit ads open `clickUrl`, which counts both.
+ */
+export async function GET(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const url = new URL(request.url);
+  const placement = asAdType(url.searchParams.get("placement"));
+  if (!placement) {
+    return NextResponse.json({ ok: false, message: "Invalid placement." }, { status: 400 });
+  }
+
+  const viewerKey = viewerKeyFor(auth.uid);
+
+  const latRaw = url.searchParams.get("lat");
+  const lngRaw = url.searchParams.get("lng");
+  let location: { lat: number; lng: number } | null = null;
+  if (latRaw !== null || lngRaw !== null) {
+    const lat = Number(latRaw);
+    const lng = Number(lngRaw);
+    if (!isLatLng(lat, lng)) {
+      return NextResponse.json({ ok: false, message: "Invalid location." }, { status: 400 });
+    }
+    location = { lat, lng };
+  }
+
+  const limitRaw = Number(url.searchParams.get("limit") ?? DEFAULT_AD_SLOTS[placement]);
+  const slots = Number.isFinite(limitRaw)
+    ? Math.min(MAX_AD_SLOTS, Math.max(1, Math.floor(limitRaw)))
+    : DEFAULT_AD_SLOTS[placement];
+
+  try {
+    if (!(await takeAdServeQuota({ viewerKey, ip: clientIp(request) }))) {
+      return NextResponse.json(
+        { ok: false, message: "Too many ad requests. Try again in a minute." },
+        { status: 429 }
+      );
+    }
+
+    const ads = await serveAds({ placement, viewerKey, location, slots });
+    return NextResponse.json({ ok: true, ads }, { status: 200 });
+  } catch (err) {
+    console.error("/api/ads/serve GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load ads." }, { status: 500 });
+  }
+}
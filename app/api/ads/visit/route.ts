@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { recordAdDelivery } from "@/lib/adPacing";
+import { verifyBeaconToken } from "@/lib/adServing";
+import { adminDb } from "@/lib/firebaseAdmin";
+
+export const runtime = "nodejs";
+
+function websiteHref(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return "";
+  const url = value.trim();
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+/**
+ * Click-through for website-visit ads: `?token=` with the ad's `beaconToken`. Counts the click and
+ * the website visit, then redirects to the business's website. This is a plain browser navigation
+ * without the viewer's ID token, so nothing is counted unless the signed-in viewer the ad was
+ * served to already reported its impression. The viewer is sent on even if recording fails, since
+ * the redirect matters more to them than the count.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const claims = verifyBeaconToken(url.searchParams.get("token") ?? "");
+  if (!claims.ok) {
+    return NextResponse.json({ ok: false, message: claims.message }, { status: 400 });
+  }
+
+  let target = "";
+  try {
+    const snap = await adminDb.collection("adCampaigns").doc(claims.campaignId).get();
+    const data = snap.data();
+    target = data?.goal === "website_visit" ? websiteHref(data.websiteUrl) : "";
+    if (!target) {
+      return NextResponse.json({ ok: false, message: "This ad has no website." }, { status: 404 });
+    }
+
+    for (const kind of ["click", "visit"] as const) {
+      const result = await recordAdDelivery(claims.campaignId, kind, { beaconId: claims.nonce });
+      if (!result.ok) {
+        console.error(`/api/ads/visit ${kind} not recorded`, result.message);
+        break;
+      }
+    }
+  } catch (err) {
+    console.error("/api/ads/visit GET failed", err);
+    if (!target) {
+      return NextResponse.json({ ok: false, message: "Failed to open ad." }, { status: 500 });
+    }
+  }
+
+  return NextResponse.redirect(target, 302);
+}
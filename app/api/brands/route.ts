@@ -1,24 +1,11 @@
 import { NextResponse } from "next/server";
-import { FieldValue, adminDb, adminStorageBucket } from "@/lib/firebaseAdmin";
+import { asVehicleType } from "@/lib/eventVehicles";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { MB, checkUpload, createUploadBatch } from "@/lib/storageUpload";
 import { getUid } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
 
-const VEHICLE_TYPES = [
-  "two-wheeler",
-  "four-wheeler",
-  "two-wheeler electric",
-  "four-wheeler electric",
-] as const;
-
-type VehicleType = (typeof VEHICLE_TYPES)[number];
-
-function asVehicleType(value: unknown): VehicleType | null {
-  return typeof value === "string" && (VEHICLE_TYPES as readonly string[]).includes(value)
-    ? (value as VehicleType)
-    : null;
-}
-
 function isNonEmptyString(value: unknown): value is string {
   return typeof value === "string" && value.trim().length > 0;
 }
@@ -102,30 +89,6 @@ function normalizeSuggestionContext(value: unknown) {
   };
 }
 
-async function uploadBrandSuggestionLogo(params: { uid: string; file: File }) {
-  const { uid, file } = params;
-  const buffer = Buffer.from(await file.arrayBuffer());
-
-  const safeName = (file.name || "logo")
-    .replace(/[^a-zA-Z0-9._-]/g, "_")
-    .slice(0, 120);
-  const objectPath = `brandSuggestionLogos/${uid}/${Date.now()}_${safeName}`;
-
-  const objectRef = adminStorageBucket.file(objectPath);
-  await objectRef.save(buffer, {
-    resumable: false,
-    metadata: {
-      contentType: file.type || "application/octet-stream",
-      cacheControl: "public, max-age=31536000",
-    },
-  });
-
-  await objectRef.makePublic();
-  const publicUrl = objectRef.publicUrl();
-
-  return { objectPath, publicUrl };
-}
-
 function normalizeLogoUrl(value: unknown) {
   if (!isNonEmptyString(value)) return "";
   const raw = value.trim();
@@ -205,25 +168,20 @@ export async function POST(request: Request) {
   let logoUrl = parsed.logoUrl;
   const logoFile = "logoFile" in parsed ? parsed.logoFile : null;
 
+  const uploads = createUploadBatch(auth.uid);
+
   if (!logoUrl && logoFile instanceof File) {
-    const maxBytes = 2 * 1024 * 1024;
-    if (logoFile.size > maxBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Logo must be under 2MB." },
-        { status: 400 }
-      );
-    }
-    if (!logoFile.type.startsWith("image/")) {
-      return NextResponse.json(
-        { ok: false, message: "Logo must be an image." },
-        { status: 400 }
-      );
+    const logoError = await checkUpload(logoFile, { kind: "image", maxBytes: 2 * MB, label: "Logo" });
+    if (logoError) {
+      return NextResponse.json({ ok: false, message: logoError }, { status: 400 });
     }
 
     try {
-      const upload = await uploadBrandSuggestionLogo({ uid: auth.uid, file: logoFile });
-      logoUrl = upload.publicUrl;
+      logoUrl = (
+        await uploads.uploadImage(logoFile, { folder: "brandSuggestionLogos", preset: "logo" })
+      ).url;
     } catch {
+      await uploads.discard();
       return NextResponse.json(
         { ok: false, message: "Failed to upload logo. Please try again." },
         { status: 500 }
@@ -240,6 +198,7 @@ export async function POST(request: Request) {
       name,
       logoUrl,
       userId: auth.uid,
+      status: "pending",
       createdAt: FieldValue.serverTimestamp(),
       ...normalizeSuggestionContext(parsed.context),
     });
@@ -249,6 +208,7 @@ export async function POST(request: Request) {
       { status: 200 }
     );
   } catch {
+    await uploads.discard();
     return NextResponse.json(
       { ok: false, message: "Failed to submit suggestion. Please try again." },
       { status: 500 }
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { listBusinessesForUser } from "@/lib/businessAccess";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { getUid, requireRole } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+const MAX_OWNED_BUSINESSES = 20;
+
+export async function GET(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const businesses = await listBusinessesForUser(auth.uid);
+    return NextResponse.json({ ok: true, businesses }, { status: 200 });
+  } catch (err) {
+    console.error("/api/businesses GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load businesses." }, { status: 500 });
+  }
+}
+
+/**
+ * Starts another business for the signed-in owner. The first business keeps living at
+ * `business/{uid}` (created by `/api/register`), so this only hands out generated ids once that
+ * one exists.
+ */
+export async function POST(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = requireRole(auth, "owner");
+  if (!access.ok) return access.response;
+
+  try {
+    const businesses = await listBusinessesForUser(auth.uid);
+    const owned = businesses.filter((b) => b.role === "owner");
+
+    if (!owned.some((b) => b.id === auth.uid)) {
+      return NextResponse.json({ ok: true, businessId: auth.uid }, { status: 200 });
+    }
+
+    if (owned.length >= MAX_OWNED_BUSINESSES) {
+      return NextResponse.json(
+        { ok: false, message: `You can own up to ${MAX_OWNED_BUSINESSES} businesses.` },
+        { status: 400 }
+      );
+    }
+
+    const docRef = adminDb.collection("business").doc();
+    await docRef.set({
+      userId: auth.uid,
+      status: "draft",
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ ok: true, businessId: docRef.id }, { status: 200 });
+  } catch (err) {
+    console.error("/api/businesses POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to create business." }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { listAuditTrail } from "@/lib/auditLog";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing catalogue id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("catalogue").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Catalogue not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, snap.data()?.userId, null, { allowAdmin: true });
+    if (!access.ok) return access.response;
+
+    const history = await listAuditTrail("catalogue", id);
+    return NextResponse.json({ ok: true, history }, { status: 200 });
+  } catch (err) {
+    console.error("/api/catalogue/[id]/history GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load history." }, { status: 500 });
+  }
+}
@@ -1,5 +1,18 @@
 import { NextResponse } from "next/server";
 import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { normalizeRejection } from "@/lib/rejection";
+import { changedFields, recordAudit } from "@/lib/auditLog";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { buildSearchTokens } from "@/lib/searchTokens";
+import {
+  checkUploads,
+  createUploadBatch,
+  deleteStoredObjects,
+  orphanedObjectPaths,
+  ownedObjectPaths,
+} from "@/lib/storageUpload";
+import { CATALOGUE_IMAGE_RULE, CATALOGUE_UPLOAD_FOLDERS } from "@/lib/catalogueUploads";
+import { findImageVariants, type ImageVariants } from "@/lib/imageVariants";
 import { getUid } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
@@ -21,6 +34,33 @@ function isLockedCatalogueStatus(status: unknown) {
   return s === "pending" || s === "verified";
 }
 
+const MAX_CATALOGUE_IMAGES = 5;
+
+type PatchInput = {
+  has: (key: string) => boolean;
+  title: string;
+  description: string;
+  offerDetails: string;
+  status: unknown;
+  imageOrder: string[] | null;
+  newImages: File[];
+};
+
+/**
+ * `imageOrder` lists the final images in display order. Each entry is either an existing
+ * `imageUrls` value or `new:<n>`, referencing the n-th file sent under `images`.
+ */
+function parseImageOrder(value: unknown): string[] | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (!Array.isArray(parsed)) return null;
+    return parsed.filter((v): v is string => typeof v === "string" && v.trim().length > 0);
+  } catch {
+    return null;
+  }
+}
+
 export async function GET(
   request: Request,
   context: { params: Promise<{ id: string }> }
@@ -28,8 +68,6 @@ export async function GET(
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
-  const uid = auth.uid;
-
   const params = await context.params;
   const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
 
@@ -49,13 +87,13 @@ export async function GET(
     }
 
     const data = (snap.data() ?? {}) as Record<string, unknown>;
-    const userId = typeof data.userId === "string" ? data.userId : "";
+    const access = await authorizeBusiness(auth, data.userId, null, { allowAdmin: true });
+    if (!access.ok) return access.response;
 
-    if (!userId || userId !== uid) {
-      return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
-    }
-
-    return NextResponse.json({ ok: true, item: { id: snap.id, ...data } }, { status: 200 });
+    return NextResponse.json(
+      { ok: true, item: { id: snap.id, ...data, rejection: normalizeRejection(data.rejection) } },
+      { status: 200 }
+    );
   } catch (err) {
     console.error("/api/catalogue/[id] GET failed", err);
     return NextResponse.json(
@@ -72,8 +110,6 @@ export async function DELETE(
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
-  const uid = auth.uid;
-
   const params = await context.params;
   const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
 
@@ -90,11 +126,8 @@ export async function DELETE(
     }
 
     const existing = (snap.data() ?? {}) as Record<string, unknown>;
-    const userId = typeof existing.userId === "string" ? existing.userId : "";
-
-    if (!userId || userId !== uid) {
-      return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
-    }
+    const access = await authorizeBusiness(auth, existing.userId, "catalogue.write");
+    if (!access.ok) return access.response;
 
     if (isLockedCatalogueStatus(existing.status)) {
       return NextResponse.json(
@@ -104,6 +137,16 @@ export async function DELETE(
     }
 
     await docRef.delete();
+    await deleteStoredObjects(ownedObjectPaths(existing, CATALOGUE_UPLOAD_FOLDERS));
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: auth.uid,
+      action: "catalogue.delete",
+      targetType: "catalogue",
+      targetId: id,
+      summary: typeof existing.title === "string" ? existing.title : undefined,
+      fromStatus: asCatalogueStatus(existing.status),
+    });
     return NextResponse.json({ ok: true }, { status: 200 });
   } catch (err) {
     console.error("/api/catalogue/[id] DELETE failed", err);
@@ -130,22 +173,79 @@ export async function PATCH(
     return NextResponse.json({ ok: false, message: "Missing catalogue id." }, { status: 400 });
   }
 
-  let body: unknown;
-  try {
-    body = await request.json();
-  } catch {
-    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  const contentType = request.headers.get("content-type") ?? "";
+
+  let input: PatchInput;
+  if (contentType.includes("multipart/form-data")) {
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return NextResponse.json({ ok: false, message: "Invalid form data." }, { status: 400 });
+    }
+
+    const imageOrder = parseImageOrder(form.get("imageOrder"));
+    if (form.has("imageOrder") && !imageOrder) {
+      return NextResponse.json({ ok: false, message: "Invalid image order." }, { status: 400 });
+    }
+
+    input = {
+      has: (key) => form.has(key),
+      title: String(form.get("title") ?? "").trim(),
+      description: String(form.get("description") ?? "").trim(),
+      offerDetails: String(form.get("offerDetails") ?? ""),
+      status: form.has("status") ? String(form.get("status") ?? "").trim() : undefined,
+      imageOrder,
+      newImages: form.getAll("images").filter((value): value is File => value instanceof File),
+    };
+  } else {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+    }
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+    }
+
+    const obj = body as Record<string, unknown>;
+    input = {
+      has: (key) => key in obj,
+      title: typeof obj.title === "string" ? obj.title.trim() : "",
+      description: typeof obj.description === "string" ? obj.description.trim() : "",
+      offerDetails: typeof obj.offerDetails === "string" ? obj.offerDetails : "",
+      status: obj.status,
+      imageOrder: null,
+      newImages: [],
+    };
   }
 
-  if (!body || typeof body !== "object") {
-    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  const status = asCatalogueStatus(input.status);
+
+  if (input.imageOrder) {
+    if (input.imageOrder.length < 1) {
+      return NextResponse.json(
+        { ok: false, message: "Please add at least 1 image." },
+        { status: 400 }
+      );
+    }
+
+    if (input.imageOrder.length > MAX_CATALOGUE_IMAGES) {
+      return NextResponse.json(
+        { ok: false, message: "You can upload maximum 5 images." },
+        { status: 400 }
+      );
+    }
   }
 
-  const obj = body as Record<string, unknown>;
-  const title = typeof obj.title === "string" ? obj.title.trim() : "";
-  const description = typeof obj.description === "string" ? obj.description.trim() : "";
-  const offerDetails = typeof obj.offerDetails === "string" ? obj.offerDetails : "";
-  const status = asCatalogueStatus(obj.status);
+  const imageError = await checkUploads(input.newImages, CATALOGUE_IMAGE_RULE);
+  if (imageError) {
+    return NextResponse.json({ ok: false, message: imageError }, { status: 400 });
+  }
+
+  const uploads = createUploadBatch(uid);
 
   try {
     const docRef = adminDb.collection("catalogue").doc(id);
@@ -156,11 +256,8 @@ export async function PATCH(
     }
 
     const existing = (snap.data() ?? {}) as Record<string, unknown>;
-    const userId = typeof existing.userId === "string" ? existing.userId : "";
-
-    if (!userId || userId !== uid) {
-      return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
-    }
+    const access = await authorizeBusiness(auth, existing.userId, "catalogue.write");
+    if (!access.ok) return access.response;
 
     if (isLockedCatalogueStatus(existing.status)) {
       return NextResponse.json(
@@ -170,23 +267,134 @@ export async function PATCH(
     }
 
     const update: Record<string, unknown> = {
+      updatedBy: uid,
       updatedAt: FieldValue.serverTimestamp(),
     };
 
-    if ("title" in obj) update.title = title;
-    if ("description" in obj) update.description = description;
-    if ("offerDetails" in obj) update.offerDetails = offerDetails;
-    if ("status" in obj) {
-      if (!status) {
+    if (input.has("title")) update.title = input.title;
+    if (input.has("description")) update.description = input.description;
+    if (input.has("offerDetails")) update.offerDetails = input.offerDetails;
+    if (input.has("title") || input.has("description") || input.has("offerDetails")) {
+      const pick = (key: "title" | "description" | "offerDetails") => {
+        const value = key in update ? update[key] : existing[key];
+        return typeof value === "string" ? value : "";
+      };
+      update.searchTokens = buildSearchTokens([pick("title"), pick("description"), pick("offerDetails")]);
+    }
+    if (input.has("status")) {
+      if (status !== "draft" && status !== "pending") {
         return NextResponse.json({ ok: false, message: "Invalid status." }, { status: 400 });
       }
+      if (status === "pending" && !access.permissions.includes("catalogue.submit")) {
+        return NextResponse.json(
+          { ok: false, message: "You do not have permission to submit catalogue for verification." },
+          { status: 403 }
+        );
+      }
       update.status = status;
+      if (status === "pending") update.rejection = FieldValue.delete();
+    }
+
+    const existingImageUrls = Array.isArray(existing.imageUrls)
+      ? existing.imageUrls.filter((u): u is string => typeof u === "string")
+      : [];
+
+    if (input.imageOrder) {
+      const referencedNew = new Set<number>();
+      for (const entry of input.imageOrder) {
+        if (entry.startsWith("new:")) {
+          const idx = Number(entry.slice("new:".length));
+          if (!Number.isInteger(idx) || idx < 0 || idx >= input.newImages.length) {
+            return NextResponse.json(
+              { ok: false, message: "Invalid image order." },
+              { status: 400 }
+            );
+          }
+          if (referencedNew.has(idx)) {
+            return NextResponse.json(
+              { ok: false, message: "Invalid image order." },
+              { status: 400 }
+            );
+          }
+          referencedNew.add(idx);
+        } else if (!existingImageUrls.includes(entry)) {
+          return NextResponse.json(
+            { ok: false, message: "Unknown catalogue image." },
+            { status: 400 }
+          );
+        }
+      }
+
+      const uploadedByIndex = new Map<number, string>();
+      const uploadedVariants: ImageVariants[] = [];
+      for (const idx of referencedNew) {
+        const upload = await uploads.uploadImage(input.newImages[idx], { folder: "catalogueImages" });
+        uploadedByIndex.set(idx, upload.url);
+        uploadedVariants.push(upload.variants);
+      }
+
+      const imageUrls = Array.from(
+        new Set(
+          input.imageOrder.map((entry) =>
+            entry.startsWith("new:")
+              ? uploadedByIndex.get(Number(entry.slice("new:".length))) ?? ""
+              : entry
+          )
+        )
+      ).filter(Boolean);
+
+      update.imageUrls = imageUrls;
+      update.images = imageUrls
+        .map(
+          (url) =>
+            findImageVariants(existing.images, url) ?? findImageVariants(uploadedVariants, url)
+        )
+        .filter((v): v is ImageVariants => Boolean(v));
+    } else if (input.newImages.length) {
+      return NextResponse.json(
+        { ok: false, message: "Image order is required when uploading images." },
+        { status: 400 }
+      );
     }
 
     await docRef.set(update, { merge: true });
 
-    return NextResponse.json({ ok: true }, { status: 200 });
+    if (input.imageOrder) {
+      await deleteStoredObjects(
+        orphanedObjectPaths(
+          [existing.imageUrls, existing.images],
+          [update.imageUrls, update.images],
+          CATALOGUE_UPLOAD_FOLDERS
+        )
+      );
+    }
+
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: uid,
+      action: update.status === "pending" ? "catalogue.submit" : "catalogue.update",
+      targetType: "catalogue",
+      targetId: id,
+      summary:
+        typeof update.title === "string"
+          ? update.title
+          : typeof existing.title === "string"
+            ? existing.title
+            : undefined,
+      fromStatus: asCatalogueStatus(existing.status),
+      toStatus: asCatalogueStatus(update.status) ?? asCatalogueStatus(existing.status) ?? undefined,
+      changedFields: changedFields(existing, update),
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        ...(Array.isArray(update.imageUrls) ? { imageUrls: update.imageUrls } : {}),
+      },
+      { status: 200 }
+    );
   } catch (err) {
+    await uploads.discard();
     console.error("/api/catalogue/[id] PATCH failed", err);
     return NextResponse.json(
       { ok: false, message: "Failed to update catalogue." },
@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server";
-import { FieldValue, adminDb, adminStorageBucket } from "@/lib/firebaseAdmin";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { recordAudit } from "@/lib/auditLog";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { buildSearchTokens, matchesSearchTokens, parseSearchQuery } from "@/lib/searchTokens";
+import { checkUploads, createUploadBatch } from "@/lib/storageUpload";
+import { CATALOGUE_IMAGE_RULE } from "@/lib/catalogueUploads";
+import type { ImageVariants } from "@/lib/imageVariants";
 import { getUid } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
@@ -98,61 +104,91 @@ function asCatalogueStatus(value: unknown): CatalogueStatus | null {
    return candidates[0] ?? null;
  }
 
-async function uploadImageToStorage(params: {
-  uid: string;
-  file: File;
-  folder: string;
-}) {
-  const { uid, file, folder } = params;
-  const buffer = Buffer.from(await file.arrayBuffer());
-
-  const safeName = (file.name || "image")
-    .replace(/[^a-zA-Z0-9._-]/g, "_")
-    .slice(0, 120);
-  const objectPath = `${folder}/${uid}/${Date.now()}_${safeName}`;
-
-  const objectRef = adminStorageBucket.file(objectPath);
-  await objectRef.save(buffer, {
-    resumable: false,
-    metadata: {
-      contentType: file.type || "application/octet-stream",
-      cacheControl: "public, max-age=31536000",
-    },
-  });
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+type CatalogueSort = "createdAt" | "updatedAt" | "title";
 
-  await objectRef.makePublic();
-  const publicUrl = objectRef.publicUrl();
+function asCatalogueSort(value: unknown): CatalogueSort {
+  return value === "updatedAt" || value === "title" ? value : "createdAt";
+}
 
-  return { objectPath, publicUrl };
+function asDateParam(value: string | null) {
+  const v = (value ?? "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(v)) return null;
+  const d = new Date(`${v}T00:00:00.000Z`);
+  return Number.isNaN(d.getTime()) ? null : d;
 }
 
+/**
+ * Cursor-paginated list of the active business's catalogue.
+ *
+ * Query params: `status`, `q` (title/description/offer search), `from`/`to` (YYYY-MM-DD, on the
+ * creation date), `sort` (`createdAt` | `updatedAt` | `title`), `order` (`asc` | `desc`), `limit`
+ * and `cursor` (the `nextCursor` of the previous page).
+ */
 export async function GET(request: Request) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
-  const uid = auth.uid;
+  const access = await requireBusinessAccess(request, auth);
+  if (!access.ok) return access.response;
 
   const url = new URL(request.url);
-  const statusParam = url.searchParams.get("status");
-  const statusFilter = asCatalogueStatus(statusParam) ?? null;
+  const statusFilter = asCatalogueStatus(url.searchParams.get("status")) ?? null;
+  const search = parseSearchQuery(url.searchParams.get("q"));
+  const from = asDateParam(url.searchParams.get("from"));
+  const toStart = asDateParam(url.searchParams.get("to"));
+  const to = toStart ? new Date(toStart.getTime() + 24 * 60 * 60 * 1000) : null;
+  const sort = asCatalogueSort(url.searchParams.get("sort"));
+  const orderParam = url.searchParams.get("order");
+  const order: "asc" | "desc" =
+    orderParam === "asc" || orderParam === "desc" ? orderParam : sort === "title" ? "asc" : "desc";
+  const limitRaw = Number(url.searchParams.get("limit"));
+  const limit =
+    Number.isInteger(limitRaw) && limitRaw > 0 ? Math.min(limitRaw, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+  const cursor = (url.searchParams.get("cursor") ?? "").trim();
+
+  if (from && to && to <= from) {
+    return NextResponse.json(
+      { ok: false, message: "The end of the date range must be after its start." },
+      { status: 400 }
+    );
+  }
 
   try {
     let query: FirebaseFirestore.Query<FirebaseFirestore.DocumentData> = adminDb
       .collection("catalogue")
-      .where("userId", "==", uid);
+      .where("userId", "==", access.businessId);
 
     if (statusFilter) query = query.where("status", "==", statusFilter);
+    if (search) query = query.where("searchTokens", "array-contains", search.token);
+    if (from) query = query.where("createdAt", ">=", from);
+    if (to) query = query.where("createdAt", "<", to);
+
+    query = query.orderBy(sort, order);
 
-    try {
-      const orderedSnap = await query.orderBy("createdAt", "desc").get();
-      const catalogue = orderedSnap.docs.map((doc) => ({ id: doc.id, ...(doc.data() ?? {}) }));
-      return NextResponse.json({ ok: true, catalogue }, { status: 200 });
-    } catch (err) {
-      const fallbackSnap = await query.get();
-      const catalogue = fallbackSnap.docs.map((doc) => ({ id: doc.id, ...(doc.data() ?? {}) }));
-      console.error("/api/catalogue GET ordered query failed; returned unordered fallback", err);
-      return NextResponse.json({ ok: true, catalogue }, { status: 200 });
+    if (cursor) {
+      const cursorSnap = await adminDb.collection("catalogue").doc(cursor).get();
+      if (!cursorSnap.exists || cursorSnap.data()?.userId !== access.businessId) {
+        return NextResponse.json({ ok: false, message: "Invalid cursor." }, { status: 400 });
+      }
+      query = query.startAfter(cursorSnap);
     }
+
+    const snap = await query.limit(limit + 1).get();
+    const pageDocs = snap.docs.slice(0, limit);
+    const nextCursor = snap.docs.length > limit ? pageDocs[pageDocs.length - 1]?.id ?? null : null;
+
+    const catalogue = pageDocs
+      .filter((doc) => matchesSearchTokens(doc.data()?.searchTokens, search?.rest ?? []))
+      .map((doc) => {
+        const data = { ...(doc.data() ?? {}) };
+        delete data.searchTokens;
+        return { id: doc.id, ...data };
+      });
+
+    return NextResponse.json({ ok: true, catalogue, nextCursor }, { status: 200 });
   } catch (err) {
     console.error("/api/catalogue GET failed", err);
     return NextResponse.json({ ok: false, message: "Failed to load catalogue." }, { status: 500 });
@@ -165,6 +201,9 @@ export async function POST(request: Request) {
 
   const uid = auth.uid;
 
+  const access = await requireBusinessAccess(request, auth, "catalogue.write");
+  if (!access.ok) return access.response;
+
   try {
     const flashSnap = await adminDb.collection("flashSale").get();
     const flashDocs = flashSnap.docs.map((d) => ({
@@ -241,39 +280,56 @@ export async function POST(request: Request) {
     );
   }
 
-  for (const image of images) {
-    const maxBytes = 5 * 1024 * 1024;
-    if (image.size > maxBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Each image must be under 5MB." },
-        { status: 400 }
-      );
-    }
-    if (!image.type.startsWith("image/")) {
-      return NextResponse.json(
-        { ok: false, message: "All uploads must be images." },
-        { status: 400 }
-      );
-    }
-  }
-
-  const imageUploads: string[] = [];
-  for (const image of images) {
-    const upload = await uploadImageToStorage({ uid, file: image, folder: "catalogueImages" });
-    imageUploads.push(upload.publicUrl);
+  const imageError = await checkUploads(images, CATALOGUE_IMAGE_RULE);
+  if (imageError) {
+    return NextResponse.json({ ok: false, message: imageError }, { status: 400 });
   }
 
   const status: CatalogueStatus = "draft";
+  const uploads = createUploadBatch(uid);
+
+  let docRef: FirebaseFirestore.DocumentReference;
+  try {
+    const imageUploads: string[] = [];
+    const imageVariants: ImageVariants[] = [];
+    for (const image of images) {
+      const upload = await uploads.uploadImage(image, { folder: "catalogueImages" });
+      imageUploads.push(upload.url);
+      imageVariants.push(upload.variants);
+    }
+
+    docRef = await adminDb.collection("catalogue").add({
+      userId: access.businessId,
+      createdBy: uid,
+      updatedBy: uid,
+      title,
+      description,
+      offerDetails,
+      searchTokens: buildSearchTokens([title, description, offerDetails]),
+      imageUrls: imageUploads,
+      images: imageVariants,
+      status,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  } catch (err) {
+    await uploads.discard();
+    console.error("/api/catalogue POST failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to save catalogue." },
+      { status: 500 }
+    );
+  }
 
-  const docRef = await adminDb.collection("catalogue").add({
-    userId: uid,
-    title,
-    description,
-    offerDetails,
-    imageUrls: imageUploads,
-    status,
-    createdAt: FieldValue.serverTimestamp(),
-    updatedAt: FieldValue.serverTimestamp(),
+  await recordAudit({
+    businessId: access.businessId,
+    actorUid: uid,
+    action: "catalogue.create",
+    targetType: "catalogue",
+    targetId: docRef.id,
+    summary: title,
+    fromStatus: null,
+    toStatus: status,
   });
 
   return NextResponse.json(
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+import { checkInTicket, getCheckInStats } from "@/lib/ticketCheckIn";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** Live admission counts for the scanner and event dashboard. */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, snap.data()?.userId, "events.checkin", {
+      allowAdmin: true,
+    });
+    if (!access.ok) return access.response;
+
+    const stats = await getCheckInStats(id);
+    return NextResponse.json({ ok: true, ...stats }, { status: 200 });
+  } catch (err) {
+    console.error("/api/events/[id]/check-ins GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load check-ins." }, { status: 500 });
+  }
+}
+
+/** Admits the booking behind a scanned QR code. Each code can be used once. */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const code = typeof obj.code === "string" ? obj.code.trim() : "";
+
+  if (!code) {
+    return NextResponse.json({ ok: false, message: "Missing ticket code." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, snap.data()?.userId, "events.checkin");
+    if (!access.ok) return access.response;
+
+    const result = await checkInTicket({ eventId: id, code, uid: auth.uid });
+    if (!result.ok) {
+      return NextResponse.json(
+        { ok: false, message: result.message, checkedInAt: result.checkedInAt ?? null },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        saleId: result.saleId,
+        ticketTitle: result.ticketTitle,
+        quantity: result.quantity,
+        vehicle: result.vehicle,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/events/[id]/check-ins POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to check in." }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { applyCoupon, findCoupon, normalizeCouponCode, readCouponUsage } from "@/lib/eventCoupons";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+import {
+  MAX_TICKETS_PER_SALE,
+  isValidTicketId,
+  resolveBuyer,
+  ticketIdAt,
+  ticketUnitPrice,
+} from "@/lib/ticketInventory";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Checks a coupon code against one ticket type at the box office and returns the final price.
+ * Per-buyer limits are counted for `buyerEmail`, the same buyer the sale will be recorded for.
+ * Usage limits are checked again when the sale is recorded.
+ */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const code = normalizeCouponCode(obj.code);
+  const ticketId = isValidTicketId(obj.ticketId) ? obj.ticketId : "";
+  const quantityRaw = obj.quantity === undefined ? 1 : Number(obj.quantity);
+  const quantity = Number.isInteger(quantityRaw) ? quantityRaw : NaN;
+
+  if (!code) {
+    return NextResponse.json({ ok: false, message: "Missing coupon code." }, { status: 400 });
+  }
+  if (!ticketId) {
+    return NextResponse.json({ ok: false, message: "Missing ticket id." }, { status: 400 });
+  }
+  if (!(quantity >= 1 && quantity <= MAX_TICKETS_PER_SALE)) {
+    return NextResponse.json(
+      { ok: false, message: `Quantity must be between 1 and ${MAX_TICKETS_PER_SALE}.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const event = (snap.data() ?? {}) as Record<string, unknown>;
+    const access = await authorizeBusiness(auth, event.userId, "events.write");
+    if (!access.ok) return access.response;
+
+    if (event.status !== "verified") {
+      return NextResponse.json(
+        { ok: false, message: "Tickets for this event are not on sale." },
+        { status: 409 }
+      );
+    }
+
+    const tickets = Array.isArray(event.tickets) ? (event.tickets as Record<string, unknown>[]) : [];
+    const ticket = tickets.find((t, i) => Boolean(t) && ticketIdAt(t, i) === ticketId);
+    if (!ticket) {
+      return NextResponse.json({ ok: false, message: "Ticket not found." }, { status: 404 });
+    }
+
+    const coupon = findCoupon(event, code);
+    if (!coupon) {
+      return NextResponse.json({ ok: false, message: "Invalid coupon code." }, { status: 404 });
+    }
+
+    const buyer = await resolveBuyer(obj.buyerEmail);
+    if (!buyer.ok) {
+      return NextResponse.json({ ok: false, message: buyer.message }, { status: buyer.status });
+    }
+
+    const usage = await readCouponUsage(id, code, buyer.buyerUid);
+    const result = applyCoupon(coupon, {
+      ticketId,
+      unitPrice: ticketUnitPrice(ticket),
+      quantity,
+      ...usage,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, message: result.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        code: result.code,
+        unitPrice: result.unitPrice,
+        discountPerTicket: result.discountPerTicket,
+        discount: result.discount,
+        total: result.total,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/events/[id]/coupons/validate POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to check coupon." }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import {
+  MAX_GROUP_SIZE,
+  MIN_GROUP_SIZE,
+  createGroup,
+  listEventGroups,
+  releaseExpiredGroups,
+} from "@/lib/eventGroups";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+import { isValidTicketId, resolveBuyer } from "@/lib/ticketInventory";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** Group bookings of an event with their members, for the event's business. */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, snap.data()?.userId, null, { allowAdmin: true });
+    if (!access.ok) return access.response;
+
+    await releaseExpiredGroups(id);
+    const groups = await listEventGroups(id);
+    return NextResponse.json({ ok: true, groups }, { status: 200 });
+  } catch (err) {
+    console.error("/api/events/[id]/groups GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load groups." }, { status: 500 });
+  }
+}
+
+/**
+ * Starts a group booking at the box office for the buyer account of `leaderEmail`: the leader's
+ * seat is sold by the signed-in member (`events.write`) and the rest are held until members pay
+ * for them at the box office with the returned invite.
+ */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const ticketId = isValidTicketId(obj.ticketId) ? obj.ticketId : "";
+  const size = typeof obj.size === "number" ? obj.size : Number(obj.size);
+
+  if (!ticketId) {
+    return NextResponse.json({ ok: false, message: "Missing ticket id." }, { status: 400 });
+  }
+  if (!Number.isInteger(size) || size < MIN_GROUP_SIZE || size > MAX_GROUP_SIZE) {
+    return NextResponse.json(
+      { ok: false, message: `Group size must be between ${MIN_GROUP_SIZE} and ${MAX_GROUP_SIZE}.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+    const access = await authorizeBusiness(auth, snap.data()?.userId, "events.write");
+    if (!access.ok) return access.response;
+
+    const leader = await resolveBuyer(obj.leaderEmail);
+    if (!leader.ok) {
+      return NextResponse.json({ ok: false, message: leader.message }, { status: leader.status });
+    }
+    if (!leader.buyerUid) {
+      return NextResponse.json(
+        { ok: false, message: "Enter the group leader's email." },
+        { status: 400 }
+      );
+    }
+
+    await releaseExpiredGroups(id);
+    const result = await createGroup({
+      eventId: id,
+      ticketId,
+      size,
+      leaderUid: leader.buyerUid,
+      soldBy: auth.uid,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, message: result.message }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        groupId: result.groupId,
+        saleId: result.saleId,
+        claimDeadline: result.claimDeadline,
+        joinPath: `/groups/join?token=${encodeURIComponent(result.groupId)}`,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/events/[id]/groups POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to create group." }, { status: 500 });
+  }
+}
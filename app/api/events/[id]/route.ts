@@ -1,5 +1,23 @@
 import { NextResponse } from "next/server";
 import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { normalizeRejection } from "@/lib/rejection";
+import { changedFields, recordAudit } from "@/lib/auditLog";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { buildSearchTokens } from "@/lib/searchTokens";
+import {
+  checkUpload,
+  checkUploads,
+  createUploadBatch,
+  deleteStoredObjects,
+  orphanedObjectPaths,
+  ownedObjectPaths,
+  type UploadBatch,
+} from "@/lib/storageUpload";
+import { EVENT_IMAGE_RULE, EVENT_UPLOAD_FOLDERS, EVENT_VIDEO_RULE } from "@/lib/eventUploads";
+import { findImageVariants, type ImageVariants } from "@/lib/imageVariants";
+import { finalizeDirectUpload } from "@/lib/directUpload";
+import { normalizeCoupons } from "@/lib/eventCoupons";
+import { assignTicketIds, isValidTicketId, ticketIdAt } from "@/lib/ticketInventory";
 import { getUid } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
@@ -21,12 +39,487 @@ function isLockedEventStatus(status: unknown) {
   return s === "pending" || s === "verified";
 }
 
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (!isNonEmptyString(value)) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string").map((v) => v.trim()).filter(Boolean)
+    : [];
+}
+
+type FaqInput = {
+  question: string;
+  answer: string;
+};
+
+function normalizeFaq(raw: unknown): FaqInput | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const question = typeof obj.question === "string" ? obj.question.trim() : "";
+  const answer = typeof obj.answer === "string" ? obj.answer.trim() : "";
+  if (!question && !answer) return null;
+  return { question, answer };
+}
+
+type HostInput = {
+  name: string;
+  show: boolean;
+  url: string;
+  hasImage: boolean;
+  imageUrl: string;
+};
+
+function normalizeHost(raw: unknown): HostInput | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const name = typeof obj.name === "string" ? obj.name.trim() : "";
+  const url = typeof obj.url === "string" ? obj.url.trim() : "";
+  const show = typeof obj.show === "boolean" ? obj.show : obj.show !== false;
+  const hasImage = typeof obj.hasImage === "boolean" ? obj.hasImage : Boolean(obj.hasImage);
+  const imageUrl = typeof obj.imageUrl === "string" ? obj.imageUrl.trim() : "";
+  if (!name && !url && !hasImage && !imageUrl) return null;
+  return { name, url, show: Boolean(show), hasImage, imageUrl };
+}
+
+type PartyInput = {
+  name: string;
+  hasLogo: boolean;
+  logoUrl: string;
+};
+
+function normalizeParty(raw: unknown): PartyInput | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const name = typeof obj.name === "string" ? obj.name.trim() : "";
+  const hasLogo = typeof obj.hasLogo === "boolean" ? obj.hasLogo : Boolean(obj.hasLogo);
+  const logoUrl = typeof obj.logoUrl === "string" ? obj.logoUrl.trim() : "";
+  if (!name) return null;
+  return { name, hasLogo, logoUrl };
+}
+
+type TicketInput = {
+  id?: string;
+  title: string;
+  description: string;
+  price: number;
+  discountPercent?: number;
+  quantity: number;
+};
+
+function normalizeTicket(raw: unknown): TicketInput | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+
+  const title = typeof obj.title === "string" ? obj.title.trim() : "";
+  const description = typeof obj.description === "string" ? obj.description.trim() : "";
+  const price = typeof obj.price === "number" ? obj.price : Number(obj.price);
+  const discountPercent =
+    typeof obj.discountPercent === "number" ? obj.discountPercent : Number(obj.discountPercent);
+  const quantity = typeof obj.quantity === "number" ? obj.quantity : Number(obj.quantity);
+  const id = isValidTicketId(obj.id) ? obj.id : undefined;
+
+  if (!title) return null;
+  if (!description) return null;
+  if (!Number.isFinite(price) || price < 0) return null;
+  if (!Number.isFinite(quantity) || quantity < 0) return null;
+
+  const normalized: TicketInput = {
+    ...(id ? { id } : {}),
+    title,
+    description,
+    price,
+    quantity,
+    ...(Number.isFinite(discountPercent) && discountPercent > 0
+      ? { discountPercent: Math.min(100, Math.max(0, discountPercent)) }
+      : {}),
+  };
+
+  return normalized;
+}
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ ok: false, message }, { status });
+}
+
+/**
+ * Builds a partial event update from the same multipart fields accepted by `POST /api/events`.
+ * Only fields present in the form are touched; existing media URLs are kept unless the client
+ * uploads a replacement or drops them from the corresponding list.
+ */
+async function buildEventUpdateFromForm(params: {
+  uploads: UploadBatch;
+  uploader: { uid: string; businessId: string };
+  form: FormData;
+  existing: Record<string, unknown>;
+}): Promise<{ ok: true; update: Record<string, unknown> } | { ok: false; response: NextResponse }> {
+  const { uploads, uploader, form, existing } = params;
+  const update: Record<string, unknown> = {};
+
+  const existingLocation =
+    existing.location && typeof existing.location === "object"
+      ? (existing.location as Record<string, unknown>)
+      : {};
+  const existingOrganiser =
+    existing.organiser && typeof existing.organiser === "object"
+      ? (existing.organiser as Record<string, unknown>)
+      : {};
+
+  if (form.has("title")) {
+    const title = String(form.get("title") ?? "").trim();
+    if (!title) return { ok: false, response: jsonError("Event title is required.") };
+    update.title = title;
+  }
+
+  if (form.has("description")) {
+    const description = String(form.get("description") ?? "").trim();
+    if (!description) return { ok: false, response: jsonError("Event description is required.") };
+    update.description = description;
+  }
+
+  for (const key of ["launchDateTime", "startDateTime", "endDateTime"] as const) {
+    if (!form.has(key)) continue;
+    const value = String(form.get(key) ?? "").trim();
+    if (!value) {
+      return {
+        ok: false,
+        response: jsonError("Launch date/time, start date/time and end date/time are required."),
+      };
+    }
+    update[key] = value;
+  }
+
+  if (typeof update.startDateTime === "string") update.startDate = update.startDateTime;
+  if (typeof update.endDateTime === "string") update.endDate = update.endDateTime;
+
+  const nextStart =
+    typeof update.startDateTime === "string"
+      ? update.startDateTime
+      : typeof existing.startDateTime === "string"
+        ? existing.startDateTime
+        : "";
+  const nextEnd =
+    typeof update.endDateTime === "string"
+      ? update.endDateTime
+      : typeof existing.endDateTime === "string"
+        ? existing.endDateTime
+        : "";
+  const startMs = new Date(nextStart).getTime();
+  const endMs = new Date(nextEnd).getTime();
+  if (Number.isFinite(startMs) && Number.isFinite(endMs) && endMs < startMs) {
+    return { ok: false, response: jsonError("End date/time must be after start date/time.") };
+  }
+
+  const locationKeys = [
+    "locationAddress",
+    "locationShow",
+    "locationRadiusKm",
+    "locationPlaceId",
+    "locationLat",
+    "locationLng",
+  ];
+  if (locationKeys.some((key) => form.has(key))) {
+    const address = form.has("locationAddress")
+      ? String(form.get("locationAddress") ?? "").trim()
+      : typeof existingLocation.address === "string"
+        ? existingLocation.address
+        : "";
+    if (!address) return { ok: false, response: jsonError("Event location is required.") };
+
+    const radiusKm = form.has("locationRadiusKm")
+      ? Number(String(form.get("locationRadiusKm") ?? "").trim() || NaN)
+      : typeof existingLocation.radiusKm === "number"
+        ? existingLocation.radiusKm
+        : NaN;
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+      return { ok: false, response: jsonError("Radius is required.") };
+    }
+
+    const show = form.has("locationShow")
+      ? String(form.get("locationShow") ?? "true").trim().toLowerCase() !== "false"
+      : existingLocation.show !== false;
+    const placeId = form.has("locationPlaceId")
+      ? String(form.get("locationPlaceId") ?? "").trim()
+      : typeof existingLocation.placeId === "string"
+        ? existingLocation.placeId
+        : "";
+    const lat = form.has("locationLat")
+      ? Number(String(form.get("locationLat") ?? "").trim() || NaN)
+      : typeof existingLocation.lat === "number"
+        ? existingLocation.lat
+        : NaN;
+    const lng = form.has("locationLng")
+      ? Number(String(form.get("locationLng") ?? "").trim() || NaN)
+      : typeof existingLocation.lng === "number"
+        ? existingLocation.lng
+        : NaN;
+
+    update.location = {
+      address,
+      ...(show === false ? { show: false } : {}),
+      radiusKm,
+      ...(placeId ? { placeId } : {}),
+      ...(Number.isFinite(lat) ? { lat } : {}),
+      ...(Number.isFinite(lng) ? { lng } : {}),
+    };
+  }
+
+  for (const key of ["unlockQrAtVenue", "groupsEnabled", "vehicleVerified"] as const) {
+    if (!form.has(key)) continue;
+    const enabled = String(form.get(key) ?? "false").trim().toLowerCase() === "true";
+    update[key] = enabled ? true : FieldValue.delete();
+  }
+
+  if (form.has("tags")) {
+    const tags = asStringArray(parseJson<unknown[]>(form.get("tags"), [])).slice(0, 5);
+    if (tags.length < 1) {
+      return { ok: false, response: jsonError("Please add at least 1 tag (max 5).") };
+    }
+    update.tags = tags;
+  }
+
+  for (const key of ["termsHtml", "aboutHtml", "thingsToKnow", "amenities", "buttonText"] as const) {
+    if (!form.has(key)) continue;
+    const value = String(form.get(key) ?? "");
+    update[key] = value ? value : FieldValue.delete();
+  }
+
+  if (form.has("faqs")) {
+    const faqs = parseJson<unknown[]>(form.get("faqs"), [])
+      .map(normalizeFaq)
+      .filter((f): f is FaqInput => Boolean(f));
+    update.faqs = faqs.length ? faqs : FieldValue.delete();
+  }
+
+  if (form.has("tickets")) {
+    const tickets = parseJson<unknown[]>(form.get("tickets"), [])
+      .map(normalizeTicket)
+      .filter((t): t is TicketInput => Boolean(t));
+    if (tickets.length < 1) {
+      return { ok: false, response: jsonError("Please add at least 1 ticket.") };
+    }
+    update.tickets = assignTicketIds(tickets);
+  }
+
+  if (form.has("coupons") || "tickets" in update) {
+    const nextTickets = ("tickets" in update ? update.tickets : existing.tickets) as unknown;
+    const ticketIds = (Array.isArray(nextTickets) ? nextTickets : [])
+      .map((t, i) => (t && typeof t === "object" ? ticketIdAt(t, i) : ""))
+      .filter(Boolean);
+    const couponResult = normalizeCoupons(
+      form.has("coupons")
+        ? parseJson<unknown[]>(form.get("coupons"), [])
+        : Array.isArray(existing.coupons)
+          ? existing.coupons
+          : [],
+      ticketIds
+    );
+    if (!couponResult.ok) return { ok: false, response: jsonError(couponResult.message) };
+    const { coupons } = couponResult;
+    if (form.has("coupons") || Array.isArray(existing.coupons)) {
+      update.coupons = coupons.length ? coupons : FieldValue.delete();
+    }
+  }
+
+  if (form.has("organiserName")) {
+    const organiserName = String(form.get("organiserName") ?? "").trim();
+    if (!organiserName) {
+      return { ok: false, response: jsonError("Event organiser name is required.") };
+    }
+  }
+
+  const banner = form.get("banner");
+  const eventVideo = form.get("eventVideo");
+  const videoUploadId = String(form.get("eventVideoUploadId") ?? "").trim();
+  const organiserLogo = form.get("organiserLogo");
+  const sponsorLogos = form
+    .getAll("sponsorLogos")
+    .filter((value): value is File => value instanceof File);
+  const partnerLogos = form
+    .getAll("partnerLogos")
+    .filter((value): value is File => value instanceof File);
+  const gallery = form.getAll("gallery").filter((value): value is File => value instanceof File);
+  const hostImages = form
+    .getAll("hostImages")
+    .filter((value): value is File => value instanceof File);
+
+  const images = [
+    ...(banner instanceof File ? [banner] : []),
+    ...(organiserLogo instanceof File ? [organiserLogo] : []),
+    ...sponsorLogos,
+    ...partnerLogos,
+    ...gallery,
+    ...hostImages,
+  ];
+  const imageError = await checkUploads(images, EVENT_IMAGE_RULE);
+  if (imageError) return { ok: false, response: jsonError(imageError) };
+
+  if (eventVideo instanceof File) {
+    const videoError = await checkUpload(eventVideo, EVENT_VIDEO_RULE);
+    if (videoError) return { ok: false, response: jsonError(videoError) };
+  }
+
+  if (banner instanceof File) {
+    const bannerUpload = await uploads.uploadImage(banner, { folder: "eventBanners" });
+    update.bannerUrl = bannerUpload.url;
+    update.bannerImage = bannerUpload.variants;
+  }
+
+  if (eventVideo instanceof File) {
+    update.videoUrl = (await uploads.upload(eventVideo, { folder: "eventVideos" })).url;
+  } else if (videoUploadId) {
+    const finalized = await finalizeDirectUpload(uploads, {
+      uploadId: videoUploadId,
+      ...uploader,
+      purpose: "eventVideo",
+    });
+    if (!finalized.ok) return { ok: false, response: jsonError(finalized.message) };
+    update.videoUrl = finalized.stored.url;
+  } else if (form.has("removeEventVideo")) {
+    update.videoUrl = FieldValue.delete();
+  }
+
+  if (form.has("organiserName") || organiserLogo instanceof File || form.has("removeOrganiserLogo")) {
+    const organiserName = form.has("organiserName")
+      ? String(form.get("organiserName") ?? "").trim()
+      : typeof existingOrganiser.name === "string"
+        ? existingOrganiser.name
+        : "";
+    const logoUrl =
+      organiserLogo instanceof File
+        ? (await uploads.uploadImage(organiserLogo, { folder: "eventOrganiserLogos", preset: "logo" }))
+            .url
+        : form.has("removeOrganiserLogo")
+          ? ""
+          : typeof existingOrganiser.logoUrl === "string"
+            ? existingOrganiser.logoUrl
+            : "";
+    update.organiser = {
+      name: organiserName,
+      ...(logoUrl ? { logoUrl } : {}),
+    };
+  }
+
+  const existingHostImageUrls = new Set(
+    (Array.isArray(existing.hosts) ? existing.hosts : [])
+      .map((h) => (h && typeof h === "object" ? (h as Record<string, unknown>).imageUrl : null))
+      .filter((u): u is string => typeof u === "string" && Boolean(u))
+  );
+
+  if (form.has("hosts")) {
+    const hostsInput = parseJson<unknown[]>(form.get("hosts"), [])
+      .map(normalizeHost)
+      .filter((h): h is HostInput => Boolean(h));
+
+    let hostImageIdx = 0;
+    const hosts: Array<{ name: string; url?: string; show?: boolean; imageUrl?: string }> = [];
+    for (const h of hostsInput) {
+      const next = {
+        name: h.name,
+        ...(h.url ? { url: h.url } : {}),
+        ...(h.show === false ? { show: false } : {}),
+      } as { name: string; url?: string; show?: boolean; imageUrl?: string };
+
+      if (h.hasImage) {
+        const file = hostImages[hostImageIdx];
+        hostImageIdx++;
+        if (file) {
+          next.imageUrl = (await uploads.uploadImage(file, { folder: "eventHostImages" })).url;
+        }
+      } else if (h.imageUrl && existingHostImageUrls.has(h.imageUrl)) {
+        next.imageUrl = h.imageUrl;
+      }
+
+      hosts.push(next);
+    }
+
+    update.hosts = hosts.length ? hosts : FieldValue.delete();
+  }
+
+  for (const kind of ["sponsors", "partners"] as const) {
+    if (!form.has(kind)) continue;
+
+    const logos = kind === "sponsors" ? sponsorLogos : partnerLogos;
+    const folder = kind === "sponsors" ? "eventSponsorLogos" : "eventPartnerLogos";
+    const existingLogoUrls = new Set(
+      (Array.isArray(existing[kind]) ? (existing[kind] as unknown[]) : [])
+        .map((p) => (p && typeof p === "object" ? (p as Record<string, unknown>).logoUrl : null))
+        .filter((u): u is string => typeof u === "string" && Boolean(u))
+    );
+
+    const partiesInput = parseJson<unknown[]>(form.get(kind), [])
+      .map(normalizeParty)
+      .filter((p): p is PartyInput => Boolean(p));
+
+    let logoIdx = 0;
+    const parties: Array<{ name: string; logoUrl?: string }> = [];
+    for (const p of partiesInput) {
+      let logoUrl = "";
+      if (p.hasLogo) {
+        const file = logos[logoIdx];
+        logoIdx++;
+        if (file) logoUrl = (await uploads.uploadImage(file, { folder, preset: "logo" })).url;
+      } else if (p.logoUrl && existingLogoUrls.has(p.logoUrl)) {
+        logoUrl = p.logoUrl;
+      }
+      parties.push({ name: p.name, ...(logoUrl ? { logoUrl } : {}) });
+    }
+
+    update[kind] = parties.length ? parties : FieldValue.delete();
+  }
+
+  if (form.has("galleryUrls") || gallery.length) {
+    const existingGalleryUrls = asStringArray(existing.galleryUrls);
+    const keptGalleryUrls = form.has("galleryUrls")
+      ? asStringArray(parseJson<unknown[]>(form.get("galleryUrls"), [])).filter((u) =>
+          existingGalleryUrls.includes(u)
+        )
+      : existingGalleryUrls;
+
+    const galleryUrls = [...keptGalleryUrls];
+    const galleryImages = keptGalleryUrls
+      .map((url) => findImageVariants(existing.galleryImages, url))
+      .filter((v): v is ImageVariants => Boolean(v));
+    for (const img of gallery) {
+      const upload = await uploads.uploadImage(img, { folder: "eventGallery" });
+      galleryUrls.push(upload.url);
+      galleryImages.push(upload.variants);
+    }
+
+    update.galleryUrls = galleryUrls.length ? galleryUrls : FieldValue.delete();
+    update.galleryImages = galleryImages.length ? galleryImages : FieldValue.delete();
+  }
+
+  if (form.has("status")) {
+    const status = asEventStatus(String(form.get("status") ?? "").trim());
+    if (status !== "draft" && status !== "pending") {
+      return { ok: false, response: jsonError("Invalid status.") };
+    }
+    update.status = status;
+  }
+
+  if ("title" in update || "tags" in update) {
+    const nextTitle = "title" in update ? update.title : existing.title;
+    const nextTags = "tags" in update ? update.tags : existing.tags;
+    update.searchTokens = buildSearchTokens([
+      typeof nextTitle === "string" ? nextTitle : "",
+      asStringArray(nextTags),
+    ]);
+  }
+
+  return { ok: true, update };
+}
+
 export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
-  const uid = auth.uid;
-
   const params = await context.params;
   const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
 
@@ -43,13 +536,13 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
     }
 
     const data = (snap.data() ?? {}) as Record<string, unknown>;
-    const userId = typeof data.userId === "string" ? data.userId : "";
+    const access = await authorizeBusiness(auth, data.userId, null, { allowAdmin: true });
+    if (!access.ok) return access.response;
 
-    if (!userId || userId !== uid) {
-      return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
-    }
-
-    return NextResponse.json({ ok: true, item: { id: snap.id, ...data } }, { status: 200 });
+    return NextResponse.json(
+      { ok: true, item: { id: snap.id, ...data, rejection: normalizeRejection(data.rejection) } },
+      { status: 200 }
+    );
   } catch (err) {
     console.error("/api/events/[id] GET failed", err);
     return NextResponse.json({ ok: false, message: "Failed to load event." }, { status: 500 });
@@ -60,8 +553,6 @@ export async function DELETE(request: Request, context: { params: Promise<{ id:
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
-  const uid = auth.uid;
-
   const params = await context.params;
   const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
 
@@ -78,11 +569,8 @@ export async function DELETE(request: Request, context: { params: Promise<{ id:
     }
 
     const existing = (snap.data() ?? {}) as Record<string, unknown>;
-    const userId = typeof existing.userId === "string" ? existing.userId : "";
-
-    if (!userId || userId !== uid) {
-      return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
-    }
+    const access = await authorizeBusiness(auth, existing.userId, "events.write");
+    if (!access.ok) return access.response;
 
     if (isLockedEventStatus(existing.status)) {
       return NextResponse.json(
@@ -92,6 +580,16 @@ export async function DELETE(request: Request, context: { params: Promise<{ id:
     }
 
     await docRef.delete();
+    await deleteStoredObjects(ownedObjectPaths(existing, EVENT_UPLOAD_FOLDERS));
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: auth.uid,
+      action: "event.delete",
+      targetType: "event",
+      targetId: id,
+      summary: typeof existing.title === "string" ? existing.title : undefined,
+      fromStatus: asEventStatus(existing.status),
+    });
     return NextResponse.json({ ok: true }, { status: 200 });
   } catch (err) {
     console.error("/api/events/[id] DELETE failed", err);
@@ -99,6 +597,38 @@ export async function DELETE(request: Request, context: { params: Promise<{ id:
   }
 }
 
+/**
+ * Applies `update` only if the event is still the version `snap` read: the lock check is repeated
+ * in the same transaction as the write, so an event submitted, verified or edited by someone else
+ * since then is never overwritten. Returns the response to send when the write was refused.
+ */
+async function updateUnlessChanged(
+  docRef: FirebaseFirestore.DocumentReference,
+  snap: FirebaseFirestore.DocumentSnapshot,
+  update: Record<string, unknown>
+) {
+  return adminDb.runTransaction(async (tx) => {
+    const fresh = await tx.get(docRef);
+    if (!fresh.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+    if (isLockedEventStatus(fresh.data()?.status)) {
+      return NextResponse.json(
+        { ok: false, message: "Event cannot be updated while pending or verified." },
+        { status: 409 }
+      );
+    }
+    if (!snap.updateTime || !fresh.updateTime?.isEqual(snap.updateTime)) {
+      return NextResponse.json(
+        { ok: false, message: "This event was changed while you were editing. Reload and try again." },
+        { status: 409 }
+      );
+    }
+    tx.update(docRef, update);
+    return null;
+  });
+}
+
 export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
@@ -112,24 +642,43 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
     return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
   }
 
-  let body: unknown;
-  try {
-    body = await request.json();
-  } catch {
-    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
-  }
+  const contentType = request.headers.get("content-type") ?? "";
+  const isMultipart = contentType.includes("multipart/form-data");
 
-  if (!body || typeof body !== "object") {
-    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
-  }
+  let form: FormData | null = null;
+  let nextStatus: EventStatus | null = null;
 
-  const obj = body as Record<string, unknown>;
-  const nextStatus = asEventStatus(obj.status);
+  if (isMultipart) {
+    try {
+      form = await request.formData();
+    } catch {
+      return NextResponse.json({ ok: false, message: "Invalid form data." }, { status: 400 });
+    }
+  } else {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+    }
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+    }
 
-  if (!nextStatus) {
-    return NextResponse.json({ ok: false, message: "Invalid status." }, { status: 400 });
+    const obj = body as Record<string, unknown>;
+    nextStatus = asEventStatus(obj.status);
+
+    if (nextStatus !== "draft" && nextStatus !== "pending") {
+      return NextResponse.json({ ok: false, message: "Invalid status." }, { status: 400 });
+    }
   }
 
+  const uploads = createUploadBatch(uid);
+  // Once the update is saved the event points at the new uploads, so they must survive any later
+  // failure.
+  let committed = false;
+
   try {
     const docRef = adminDb.collection("events").doc(id);
     const snap = await docRef.get();
@@ -139,11 +688,8 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
     }
 
     const existing = (snap.data() ?? {}) as Record<string, unknown>;
-    const userId = typeof existing.userId === "string" ? existing.userId : "";
-
-    if (!userId || userId !== uid) {
-      return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
-    }
+    const access = await authorizeBusiness(auth, existing.userId, "events.write");
+    if (!access.ok) return access.response;
 
     if (isLockedEventStatus(existing.status)) {
       return NextResponse.json(
@@ -152,16 +698,100 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
       );
     }
 
-    await docRef.set(
-      {
+    const canSubmit = access.permissions.includes("events.submit");
+    const title = typeof existing.title === "string" ? existing.title : undefined;
+
+    if (!form) {
+      if (nextStatus === "pending" && !canSubmit) {
+        return NextResponse.json(
+          { ok: false, message: "You do not have permission to submit events for verification." },
+          { status: 403 }
+        );
+      }
+
+      const statusUpdate: Record<string, unknown> = {
         status: nextStatus,
+        ...(nextStatus === "pending" ? { rejection: FieldValue.delete() } : {}),
+        updatedBy: uid,
         updatedAt: FieldValue.serverTimestamp(),
+      };
+      const conflict = await updateUnlessChanged(docRef, snap, statusUpdate);
+      if (conflict) return conflict;
+
+      await recordAudit({
+        businessId: access.businessId,
+        actorUid: uid,
+        action: nextStatus === "pending" ? "event.submit" : "event.update",
+        targetType: "event",
+        targetId: id,
+        summary: title,
+        fromStatus: asEventStatus(existing.status),
+        toStatus: nextStatus ?? undefined,
+        changedFields: changedFields(existing, statusUpdate),
+      });
+
+      return NextResponse.json({ ok: true }, { status: 200 });
+    }
+
+    if (String(form.get("status") ?? "").trim() === "pending" && !canSubmit) {
+      return NextResponse.json(
+        { ok: false, message: "You do not have permission to submit events for verification." },
+        { status: 403 }
+      );
+    }
+
+    const built = await buildEventUpdateFromForm({
+      uploads,
+      uploader: { uid, businessId: access.businessId },
+      form,
+      existing,
+    });
+    if (!built.ok) {
+      await uploads.discard();
+      return built.response;
+    }
+
+    const conflict = await updateUnlessChanged(docRef, snap, {
+      ...built.update,
+      ...(built.update.status === "pending" ? { rejection: FieldValue.delete() } : {}),
+      updatedBy: uid,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    if (conflict) {
+      await uploads.discard();
+      return conflict;
+    }
+    committed = true;
+
+    const updatedSnap = await docRef.get();
+    const updated = (updatedSnap.data() ?? {}) as Record<string, unknown>;
+    const status = asEventStatus(updated.status) ?? "draft";
+
+    await deleteStoredObjects(orphanedObjectPaths(existing, updated, EVENT_UPLOAD_FOLDERS));
+
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: uid,
+      action: built.update.status === "pending" ? "event.submit" : "event.update",
+      targetType: "event",
+      targetId: id,
+      summary: typeof updated.title === "string" ? updated.title : title,
+      fromStatus: asEventStatus(existing.status),
+      toStatus: status,
+      changedFields: changedFields(existing, built.update),
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        item: { id: updatedSnap.id, ...updated, rejection: normalizeRejection(updated.rejection) },
+        status,
+        message: status === "pending" ? "Event submitted for verification." : "Event updated.",
       },
-      { merge: true }
+      { status: 200 }
     );
-
-    return NextResponse.json({ ok: true }, { status: 200 });
   } catch (err) {
+    if (!committed) await uploads.discard();
     console.error("/api/events/[id] PATCH failed", err);
     return NextResponse.json({ ok: false, message: "Failed to update event." }, { status: 500 });
   }
@@ -0,0 +1,150 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { normalizeCouponCode } from "@/lib/eventCoupons";
+import { releaseExpiredGroups } from "@/lib/eventGroups";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+import { signTicketQr } from "@/lib/ticketQr";
+import {
+  MAX_TICKETS_PER_SALE,
+  getTicketSummaries,
+  isValidTicketId,
+  listTicketSales,
+  recordTicketSale,
+  resolveBuyer,
+} from "@/lib/ticketInventory";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** Sold, remaining and revenue per ticket type plus the latest sales, for the event's business. */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const event = (snap.data() ?? {}) as Record<string, unknown>;
+    const access = await authorizeBusiness(auth, event.userId, null, { allowAdmin: true });
+    if (!access.ok) return access.response;
+
+    await releaseExpiredGroups(id);
+    const [tickets, sales] = await Promise.all([getTicketSummaries(id, event), listTicketSales(id)]);
+    return NextResponse.json({ ok: true, tickets, sales }, { status: 200 });
+  } catch (err) {
+    console.error("/api/events/[id]/sales GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load ticket sales." }, { status: 500 });
+  }
+}
+
+/**
+ * Sells tickets of one type at the box office, optionally with a coupon code. Sales are entered by
+ * a member with `events.write` and recorded against the member who sold them; `buyerEmail`
+ * attributes the sale to the buyer's account (see `resolveBuyer`), otherwise it is a walk-in sale.
+ */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const ticketId = isValidTicketId(obj.ticketId) ? obj.ticketId : "";
+  const quantity = typeof obj.quantity === "number" ? obj.quantity : Number(obj.quantity);
+  const couponCode = normalizeCouponCode(obj.couponCode);
+
+  if (!ticketId) {
+    return NextResponse.json({ ok: false, message: "Missing ticket id." }, { status: 400 });
+  }
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_TICKETS_PER_SALE) {
+    return NextResponse.json(
+      { ok: false, message: `Quantity must be between 1 and ${MAX_TICKETS_PER_SALE}.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+    const access = await authorizeBusiness(auth, snap.data()?.userId, "events.write");
+    if (!access.ok) return access.response;
+
+    const buyer = await resolveBuyer(obj.buyerEmail);
+    if (!buyer.ok) {
+      return NextResponse.json({ ok: false, message: buyer.message }, { status: buyer.status });
+    }
+
+    await releaseExpiredGroups(id);
+    const result = await recordTicketSale({
+      eventId: id,
+      ticketId,
+      quantity,
+      buyerUid: buyer.buyerUid,
+      soldBy: auth.uid,
+      ...(couponCode ? { couponCode } : {}),
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, message: result.message }, { status: result.status });
+    }
+
+    // Box-office staff hand the QR over themselves, so it is never venue-locked. The sale is
+    // already recorded, so a signing failure only delays the QR to `GET /api/tickets/[id]`.
+    let qrCode = "";
+    try {
+      qrCode = signTicketQr({ saleId: result.saleId, eventId: id, quantity });
+    } catch (err) {
+      console.error("/api/events/[id]/sales POST could not sign ticket QR", err);
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        saleId: result.saleId,
+        amount: result.amount,
+        discount: result.discount,
+        unitPrice: result.unitPrice,
+        remaining: result.remaining,
+        qrLocked: false,
+        qrCode,
+        vehicleRequired: result.vehicleRequired,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/events/[id]/sales POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to record sale." }, { status: 500 });
+  }
+}
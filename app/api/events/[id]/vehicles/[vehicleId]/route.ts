@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { asVehicleStatus } from "@/lib/eventVehicles";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+const MAX_REASON_LENGTH = 300;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Approves or rejects a pending vehicle: `{ action: "approve" | "reject", updatedAt, reason? }`,
+ * for members with `events.vehicles`. `updatedAt` is the registration's value as the reviewer saw
+ * it; a registration replaced since then is refused. A reason is required for rejection and is
+ * shown to the attendee, who can then register again.
+ */
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string; vehicleId: string }> }
+) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+  const vehicleId = isNonEmptyString(params?.vehicleId) ? params.vehicleId.trim() : "";
+
+  if (!id || !vehicleId) {
+    return NextResponse.json({ ok: false, message: "Missing vehicle id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const action = obj.action === "approve" || obj.action === "reject" ? obj.action : null;
+  const reason = typeof obj.reason === "string" ? obj.reason.trim().slice(0, MAX_REASON_LENGTH) : "";
+  const reviewedVersion = isNonEmptyString(obj.updatedAt) ? obj.updatedAt.trim() : "";
+
+  if (!action) {
+    return NextResponse.json({ ok: false, message: "Invalid action." }, { status: 400 });
+  }
+  if (!reviewedVersion) {
+    return NextResponse.json({ ok: false, message: "Missing vehicle version." }, { status: 400 });
+  }
+  if (action === "reject" && !reason) {
+    return NextResponse.json(
+      { ok: false, message: "Please give a reason for rejecting this vehicle." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const eventSnap = await adminDb.collection("events").doc(id).get();
+    if (!eventSnap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, eventSnap.data()?.userId, "events.vehicles");
+    if (!access.ok) return access.response;
+
+    const vehicleRef = adminDb.collection("eventVehicles").doc(vehicleId);
+    const status = action === "approve" ? "approved" : "rejected";
+    const refused = await adminDb.runTransaction(async (tx) => {
+      const vehicleSnap = await tx.get(vehicleRef);
+      const vehicle = vehicleSnap.data();
+      if (!vehicleSnap.exists || !vehicle || vehicle.eventId !== id) {
+        return NextResponse.json({ ok: false, message: "Vehicle not found." }, { status: 404 });
+      }
+      if (asVehicleStatus(vehicle.status) !== "pending") {
+        return NextResponse.json(
+          { ok: false, message: "Vehicle is not awaiting review." },
+          { status: 409 }
+        );
+      }
+      if (timestampToIso(vehicle.updatedAt) !== reviewedVersion) {
+        return NextResponse.json(
+          { ok: false, message: "This registration was replaced. Review the new details." },
+          { status: 409 }
+        );
+      }
+
+      tx.update(vehicleRef, {
+        status,
+        rejectionReason: action === "reject" ? reason : FieldValue.delete(),
+        reviewedAt: FieldValue.serverTimestamp(),
+        reviewedBy: auth.uid,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return null;
+    });
+    if (refused) return refused;
+
+    return NextResponse.json(
+      {
+        ok: true,
+        status,
+        message: action === "approve" ? "Vehicle approved." : "Vehicle rejected.",
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/events/[id]/vehicles/[vehicleId] PATCH failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to save review." }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { listEventVehicles, type VehicleStatus } from "@/lib/eventVehicles";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function asStatusFilter(value: string | null): VehicleStatus | undefined {
+  return value === "pending" || value === "approved" || value === "rejected" ? value : undefined;
+}
+
+/**
+ * Vehicles registered for an event's bookings, for the organiser's approval queue. `status`
+ * narrows the list to `pending`, `approved` or `rejected`.
+ */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing event id." }, { status: 400 });
+  }
+
+  const status = asStatusFilter(new URL(request.url).searchParams.get("status"));
+
+  try {
+    const snap = await adminDb.collection("events").doc(id).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Event not found." }, { status: 404 });
+    }
+
+    const access = await authorizeBusiness(auth, snap.data()?.userId, null, { allowAdmin: true });
+    if (!access.ok) return access.response;
+
+    const vehicles = await listEventVehicles(id, status);
+    return NextResponse.json({ ok: true, vehicles }, { status: 200 });
+  } catch (err) {
+    console.error("/api/events/[id]/vehicles GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load vehicles." }, { status: 500 });
+  }
+}
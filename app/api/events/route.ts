@@ -1,5 +1,14 @@
 import { NextResponse } from "next/server";
-import { FieldValue, adminDb, adminStorageBucket } from "@/lib/firebaseAdmin";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { recordAudit } from "@/lib/auditLog";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { buildSearchTokens, matchesSearchTokens, parseSearchQuery } from "@/lib/searchTokens";
+import { checkUpload, checkUploads, createUploadBatch } from "@/lib/storageUpload";
+import { EVENT_IMAGE_RULE, EVENT_VIDEO_RULE, ORGANISER_LOGO_RULE } from "@/lib/eventUploads";
+import { finalizeDirectUpload } from "@/lib/directUpload";
+import { normalizeCoupons } from "@/lib/eventCoupons";
+import { assignTicketIds, isValidTicketId } from "@/lib/ticketInventory";
+import type { ImageVariants } from "@/lib/imageVariants";
 import { getUid } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
@@ -57,57 +66,13 @@ function normalizeHost(raw: unknown): HostInput | null {
   return { name, url, show: Boolean(show), hasImage };
 }
 
-async function uploadImageToStorage(params: { uid: string; file: File; folder: string }) {
-  const { uid, file, folder } = params;
-  const buffer = Buffer.from(await file.arrayBuffer());
-
-  const safeName = (file.name || "image").replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
-  const objectPath = `${folder}/${uid}/${Date.now()}_${safeName}`;
-
-  const objectRef = adminStorageBucket.file(objectPath);
-  await objectRef.save(buffer, {
-    resumable: false,
-    metadata: {
-      contentType: file.type || "application/octet-stream",
-      cacheControl: "public, max-age=31536000",
-    },
-  });
-
-  await objectRef.makePublic();
-  const publicUrl = objectRef.publicUrl();
-
-  return { objectPath, publicUrl };
-}
-
-async function uploadFileToStorage(params: { uid: string; file: File; folder: string }) {
-  const { uid, file, folder } = params;
-  const buffer = Buffer.from(await file.arrayBuffer());
-
-  const safeName = (file.name || "file").replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
-  const objectPath = `${folder}/${uid}/${Date.now()}_${safeName}`;
-
-  const objectRef = adminStorageBucket.file(objectPath);
-  await objectRef.save(buffer, {
-    resumable: false,
-    metadata: {
-      contentType: file.type || "application/octet-stream",
-      cacheControl: "public, max-age=31536000",
-    },
-  });
-
-  await objectRef.makePublic();
-  const publicUrl = objectRef.publicUrl();
-
-  return { objectPath, publicUrl };
-}
-
 type TicketInput = {
+  id?: string;
   title: string;
   description: string;
   price: number;
   discountPercent?: number;
   quantity: number;
-  couponCode?: string;
 };
 
 function normalizeTicket(raw: unknown): TicketInput | null {
@@ -120,7 +85,7 @@ function normalizeTicket(raw: unknown): TicketInput | null {
   const discountPercent =
     typeof obj.discountPercent === "number" ? obj.discountPercent : Number(obj.discountPercent);
   const quantity = typeof obj.quantity === "number" ? obj.quantity : Number(obj.quantity);
-  const couponCode = typeof obj.couponCode === "string" ? obj.couponCode.trim() : "";
+  const id = isValidTicketId(obj.id) ? obj.id : undefined;
 
   if (!title) return null;
   if (!description) return null;
@@ -128,6 +93,7 @@ function normalizeTicket(raw: unknown): TicketInput | null {
   if (!Number.isFinite(quantity) || quantity < 0) return null;
 
   const normalized: TicketInput = {
+    ...(id ? { id } : {}),
     title,
     description,
     price,
@@ -135,39 +101,93 @@ function normalizeTicket(raw: unknown): TicketInput | null {
     ...(Number.isFinite(discountPercent) && discountPercent > 0
       ? { discountPercent: Math.min(100, Math.max(0, discountPercent)) }
       : {}),
-    ...(couponCode ? { couponCode } : {}),
   };
 
   return normalized;
 }
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+type EventSort = "createdAt" | "startDateTime";
+
+function asEventSort(value: unknown): EventSort {
+  return value === "startDateTime" ? "startDateTime" : "createdAt";
+}
+
+function asDateParam(value: string | null) {
+  const v = (value ?? "").trim();
+  return /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : "";
+}
+
+/**
+ * Cursor-paginated list of the active business's events.
+ *
+ * Query params: `status`, `q` (title/tag search), `from`/`to` (YYYY-MM-DD, on the start date),
+ * `sort` (`createdAt` | `startDateTime`), `order` (`asc` | `desc`), `limit` and `cursor` (the
+ * `nextCursor` of the previous page).
+ */
 export async function GET(request: Request) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
-  const uid = auth.uid;
+  const access = await requireBusinessAccess(request, auth);
+  if (!access.ok) return access.response;
 
   const url = new URL(request.url);
-  const statusParam = url.searchParams.get("status");
-  const statusFilter = asEventStatus(statusParam) ?? null;
+  const statusFilter = asEventStatus(url.searchParams.get("status")) ?? null;
+  const search = parseSearchQuery(url.searchParams.get("q"));
+  const from = asDateParam(url.searchParams.get("from"));
+  const to = asDateParam(url.searchParams.get("to"));
+  const sort = asEventSort(url.searchParams.get("sort"));
+  const orderParam = url.searchParams.get("order");
+  const order: "asc" | "desc" =
+    orderParam === "asc" || orderParam === "desc" ? orderParam : sort === "startDateTime" ? "asc" : "desc";
+  const limitRaw = Number(url.searchParams.get("limit"));
+  const limit =
+    Number.isInteger(limitRaw) && limitRaw > 0 ? Math.min(limitRaw, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+  const cursor = (url.searchParams.get("cursor") ?? "").trim();
+
+  if (from && to && to < from) {
+    return NextResponse.json(
+      { ok: false, message: "The end of the date range must be after its start." },
+      { status: 400 }
+    );
+  }
 
   try {
     let query: FirebaseFirestore.Query<FirebaseFirestore.DocumentData> = adminDb
       .collection("events")
-      .where("userId", "==", uid);
+      .where("userId", "==", access.businessId);
 
     if (statusFilter) query = query.where("status", "==", statusFilter);
+    if (search) query = query.where("searchTokens", "array-contains", search.token);
+    if (from) query = query.where("startDateTime", ">=", from);
+    if (to) query = query.where("startDateTime", "<=", `${to}\uf8ff`);
 
-    try {
-      const orderedSnap = await query.orderBy("createdAt", "desc").get();
-      const events = orderedSnap.docs.map((doc) => ({ id: doc.id, ...(doc.data() ?? {}) }));
-      return NextResponse.json({ ok: true, events }, { status: 200 });
-    } catch (err) {
-      const fallbackSnap = await query.get();
-      const events = fallbackSnap.docs.map((doc) => ({ id: doc.id, ...(doc.data() ?? {}) }));
-      console.error("/api/events GET ordered query failed; returned unordered fallback", err);
-      return NextResponse.json({ ok: true, events }, { status: 200 });
+    query = query.orderBy(sort, order);
+
+    if (cursor) {
+      const cursorSnap = await adminDb.collection("events").doc(cursor).get();
+      if (!cursorSnap.exists || cursorSnap.data()?.userId !== access.businessId) {
+        return NextResponse.json({ ok: false, message: "Invalid cursor." }, { status: 400 });
+      }
+      query = query.startAfter(cursorSnap);
     }
+
+    const snap = await query.limit(limit + 1).get();
+    const pageDocs = snap.docs.slice(0, limit);
+    const nextCursor = snap.docs.length > limit ? pageDocs[pageDocs.length - 1]?.id ?? null : null;
+
+    const events = pageDocs
+      .filter((doc) => matchesSearchTokens(doc.data()?.searchTokens, search?.rest ?? []))
+      .map((doc) => {
+        const data = { ...(doc.data() ?? {}) };
+        delete data.searchTokens;
+        return { id: doc.id, ...data };
+      });
+
+    return NextResponse.json({ ok: true, events, nextCursor }, { status: 200 });
   } catch (err) {
     console.error("/api/events GET failed", err);
     return NextResponse.json({ ok: false, message: "Failed to load events." }, { status: 500 });
@@ -180,6 +200,9 @@ export async function POST(request: Request) {
 
   const uid = auth.uid;
 
+  const access = await requireBusinessAccess(request, auth, "events.write");
+  if (!access.ok) return access.response;
+
   let form: FormData;
   try {
     form = await request.formData();
@@ -219,7 +242,14 @@ export async function POST(request: Request) {
   const organiserName = String(form.get("organiserName") ?? "").trim();
 
   const statusRaw = String(form.get("status") ?? "draft").trim();
-  const status: EventStatus = asEventStatus(statusRaw) ?? "draft";
+  const status: EventStatus = statusRaw === "pending" ? "pending" : "draft";
+
+  if (status === "pending" && !access.permissions.includes("events.submit")) {
+    return NextResponse.json(
+      { ok: false, message: "You do not have permission to submit events for verification." },
+      { status: 403 }
+    );
+  }
 
   const banner = form.get("banner");
   const eventVideo = form.get("eventVideo");
@@ -228,6 +258,7 @@ export async function POST(request: Request) {
   }
 
   const videoFile = eventVideo instanceof File ? eventVideo : null;
+  const videoUploadId = String(form.get("eventVideoUploadId") ?? "").trim();
 
   if (!title) {
     return NextResponse.json({ ok: false, message: "Event title is required." }, { status: 400 });
@@ -266,18 +297,9 @@ export async function POST(request: Request) {
   }
 
   if (videoFile) {
-    const maxVideoBytes = 25 * 1024 * 1024;
-    if (videoFile.size > maxVideoBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Event video must be under 25MB." },
-        { status: 400 }
-      );
-    }
-    if (!videoFile.type.startsWith("video/")) {
-      return NextResponse.json(
-        { ok: false, message: "Event video must be a video." },
-        { status: 400 }
-      );
+    const videoError = await checkUpload(videoFile, EVENT_VIDEO_RULE);
+    if (videoError) {
+      return NextResponse.json({ ok: false, message: videoError }, { status: 400 });
     }
   }
 
@@ -303,7 +325,9 @@ export async function POST(request: Request) {
 
   const ticketsRaw = form.get("tickets");
   const ticketObjs = parseJson<unknown[]>(ticketsRaw, []);
-  const tickets = ticketObjs.map(normalizeTicket).filter((t): t is TicketInput => Boolean(t));
+  const tickets = assignTicketIds(
+    ticketObjs.map(normalizeTicket).filter((t): t is TicketInput => Boolean(t))
+  );
 
   const faqObjs = parseJson<unknown[]>(faqsRaw, []);
   const faqs = faqObjs.map(normalizeFaq).filter((f): f is FaqInput => Boolean(f));
@@ -318,6 +342,15 @@ export async function POST(request: Request) {
     );
   }
 
+  const couponResult = normalizeCoupons(
+    parseJson<unknown[]>(form.get("coupons"), []),
+    tickets.map((t) => t.id)
+  );
+  if (!couponResult.ok) {
+    return NextResponse.json({ ok: false, message: couponResult.message }, { status: 400 });
+  }
+  const coupons = couponResult.coupons;
+
   const sponsorNames = parseJson<unknown[]>(form.get("sponsorNames"), [])
     .filter((v) => typeof v === "string")
     .map((v) => (v as string).trim())
@@ -344,77 +377,73 @@ export async function POST(request: Request) {
 
   const organiserLogo = form.get("organiserLogo");
 
-  const maxImageBytes = 5 * 1024 * 1024;
-  for (const img of [banner, ...sponsorLogos, ...partnerLogos, ...gallery, ...hostImages]) {
-    if (img.size > maxImageBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Each image must be under 5MB." },
-        { status: 400 }
-      );
-    }
-    if (!img.type.startsWith("image/")) {
-      return NextResponse.json(
-        { ok: false, message: "All uploads must be images." },
-        { status: 400 }
-      );
-    }
+  const imageError = await checkUploads(
+    [banner, ...sponsorLogos, ...partnerLogos, ...gallery, ...hostImages],
+    EVENT_IMAGE_RULE
+  );
+  if (imageError) {
+    return NextResponse.json({ ok: false, message: imageError }, { status: 400 });
   }
 
   if (organiserLogo instanceof File) {
-    if (organiserLogo.size > maxImageBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Organiser logo must be under 5MB." },
-        { status: 400 }
-      );
-    }
-    if (!organiserLogo.type.startsWith("image/")) {
-      return NextResponse.json(
-        { ok: false, message: "Organiser logo must be an image." },
-        { status: 400 }
-      );
+    const logoError = await checkUpload(organiserLogo, ORGANISER_LOGO_RULE);
+    if (logoError) {
+      return NextResponse.json({ ok: false, message: logoError }, { status: 400 });
     }
   }
 
+  const uploads = createUploadBatch(uid);
+
   try {
-    const bannerUpload = await uploadImageToStorage({ uid, file: banner, folder: "eventBanners" });
+    let videoUrl = "";
+    if (videoFile) {
+      videoUrl = (await uploads.upload(videoFile, { folder: "eventVideos" })).url;
+    } else if (videoUploadId) {
+      const finalized = await finalizeDirectUpload(uploads, {
+        uploadId: videoUploadId,
+        uid,
+        businessId: access.businessId,
+        purpose: "eventVideo",
+      });
+      if (!finalized.ok) {
+        await uploads.discard();
+        return NextResponse.json({ ok: false, message: finalized.message }, { status: 400 });
+      }
+      videoUrl = finalized.stored.url;
+    }
 
-    const videoUrl = videoFile
-      ? (await uploadFileToStorage({ uid, file: videoFile, folder: "eventVideos" })).publicUrl
-      : "";
+    const bannerUpload = await uploads.uploadImage(banner, { folder: "eventBanners" });
 
     const organiserLogoUrl =
       organiserLogo instanceof File
-        ? (
-            await uploadImageToStorage({
-              uid,
-              file: organiserLogo,
-              folder: "eventOrganiserLogos",
-            })
-          ).publicUrl
+        ? (await uploads.uploadImage(organiserLogo, { folder: "eventOrganiserLogos", preset: "logo" })).url
         : "";
 
     const sponsorLogoUrls: string[] = [];
     for (const logo of sponsorLogos) {
-      const upload = await uploadImageToStorage({ uid, file: logo, folder: "eventSponsorLogos" });
-      sponsorLogoUrls.push(upload.publicUrl);
+      sponsorLogoUrls.push(
+        (await uploads.uploadImage(logo, { folder: "eventSponsorLogos", preset: "logo" })).url
+      );
     }
 
     const partnerLogoUrls: string[] = [];
     for (const logo of partnerLogos) {
-      const upload = await uploadImageToStorage({ uid, file: logo, folder: "eventPartnerLogos" });
-      partnerLogoUrls.push(upload.publicUrl);
+      partnerLogoUrls.push(
+        (await uploads.uploadImage(logo, { folder: "eventPartnerLogos", preset: "logo" })).url
+      );
     }
 
     const galleryUrls: string[] = [];
+    const galleryImages: ImageVariants[] = [];
     for (const img of gallery) {
-      const upload = await uploadImageToStorage({ uid, file: img, folder: "eventGallery" });
-      galleryUrls.push(upload.publicUrl);
+      const upload = await uploads.uploadImage(img, { folder: "eventGallery" });
+      galleryUrls.push(upload.url);
+      galleryImages.push(upload.variants);
     }
 
     const hostImageUrls: string[] = [];
     for (const img of hostImages) {
-      const upload = await uploadImageToStorage({ uid, file: img, folder: "eventHostImages" });
-      hostImageUrls.push(upload.publicUrl);
+      hostImageUrls.push((await uploads.uploadImage(img, { folder: "eventHostImages" })).url);
     }
 
     let hostImageIdx = 0;
@@ -447,7 +476,9 @@ export async function POST(request: Request) {
     const locationRadiusKm = locationRadiusKmParsed;
 
     const docRef = await adminDb.collection("events").add({
-      userId: uid,
+      userId: access.businessId,
+      createdBy: uid,
+      updatedBy: uid,
       title,
       description,
       launchDateTime,
@@ -463,9 +494,11 @@ export async function POST(request: Request) {
         ...(Number.isFinite(locationLat) ? { lat: locationLat } : {}),
         ...(Number.isFinite(locationLng) ? { lng: locationLng } : {}),
       },
-      bannerUrl: bannerUpload.publicUrl,
+      bannerUrl: bannerUpload.url,
+      bannerImage: bannerUpload.variants,
       ...(videoUrl ? { videoUrl } : {}),
       tags,
+      searchTokens: buildSearchTokens([title, tags]),
       ...(termsHtml ? { termsHtml } : {}),
       ...(aboutHtml ? { aboutHtml } : {}),
       ...(thingsToKnow ? { thingsToKnow } : {}),
@@ -482,13 +515,25 @@ export async function POST(request: Request) {
       },
       ...(sponsors.length ? { sponsors } : {}),
       ...(partners.length ? { partners } : {}),
-      ...(galleryUrls.length ? { galleryUrls } : {}),
+      ...(galleryUrls.length ? { galleryUrls, galleryImages } : {}),
       tickets,
+      ...(coupons.length ? { coupons } : {}),
       status,
       createdAt: FieldValue.serverTimestamp(),
       updatedAt: FieldValue.serverTimestamp(),
     });
 
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: uid,
+      action: status === "pending" ? "event.submit" : "event.create",
+      targetType: "event",
+      targetId: docRef.id,
+      summary: title,
+      fromStatus: null,
+      toStatus: status,
+    });
+
     return NextResponse.json(
       {
         ok: true,
@@ -499,6 +544,7 @@ export async function POST(request: Request) {
       { status: 200 }
     );
   } catch (err) {
+    await uploads.discard();
     console.error("/api/events POST failed", err);
     return NextResponse.json(
       { ok: false, message: "Failed to create event." },
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { claimGroupSeat } from "@/lib/eventGroups";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+import { resolveBuyer } from "@/lib/ticketInventory";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Sells one of the group's held seats at the box office to the buyer account of `memberEmail`,
+ * recorded against the signed-in member (`events.write` on the event's business).
+ */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing group id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const obj = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+
+  try {
+    const groupSnap = await adminDb.collection("eventGroups").doc(id).get();
+    if (!groupSnap.exists) {
+      return NextResponse.json({ ok: false, message: "Group not found." }, { status: 404 });
+    }
+    const access = await authorizeBusiness(auth, groupSnap.data()?.businessId, "events.write");
+    if (!access.ok) return access.response;
+
+    const member = await resolveBuyer(obj.memberEmail);
+    if (!member.ok) {
+      return NextResponse.json({ ok: false, message: member.message }, { status: member.status });
+    }
+    if (!member.buyerUid) {
+      return NextResponse.json({ ok: false, message: "Enter the member's email." }, { status: 400 });
+    }
+
+    const result = await claimGroupSeat({ groupId: id, uid: member.buyerUid, soldBy: auth.uid });
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, message: result.message }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        eventId: result.eventId,
+        saleId: result.saleId,
+        claimed: result.claimed,
+        size: result.size,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/groups/[id]/claim POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to claim seat." }, { status: 500 });
+  }
+}
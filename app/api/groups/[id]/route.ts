@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { toEventGroupItem } from "@/lib/eventGroups";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * What an invite link shows: the event, ticket, seats left and deadline, for a member to take to
+ * the box office. The group id is the invite token, so anyone signed in who holds it can read
+ * this; member identities are left out.
+ */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing group id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("eventGroups").doc(id).get();
+    const data = snap.data();
+    if (!snap.exists || !data) {
+      return NextResponse.json({ ok: false, message: "Group not found." }, { status: 404 });
+    }
+
+    const group = toEventGroupItem(snap);
+    const eventId = typeof data.eventId === "string" ? data.eventId : "";
+    const eventSnap = eventId ? await adminDb.collection("events").doc(eventId).get() : null;
+    const event = eventSnap?.data() ?? {};
+
+    return NextResponse.json(
+      {
+        ok: true,
+        group: {
+          id: group.id,
+          eventId,
+          eventTitle: typeof event.title === "string" ? event.title : "",
+          startDateTime: typeof event.startDateTime === "string" ? event.startDateTime : null,
+          ticketId: group.ticketId,
+          ticketTitle: group.ticketTitle,
+          size: group.size,
+          claimed: group.claimed,
+          status: group.status,
+          claimDeadline: group.claimDeadline,
+          isMember: group.members.some((m) => m.uid === auth.uid),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/groups/[id] GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load group." }, { status: 500 });
+  }
+}
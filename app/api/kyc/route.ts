@@ -1,8 +1,20 @@
 import { NextResponse } from "next/server";
-import { Readable } from "node:stream";
-import { pipeline } from "node:stream/promises";
-import { FieldValue, adminDb, adminStorageBucket } from "@/lib/firebaseAdmin";
-import { getUid } from "@/lib/requestAuth";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { recordAudit } from "@/lib/auditLog";
+import { requireOwnedBusiness } from "@/lib/businessAccess";
+import {
+  checkUpload,
+  createUploadBatch,
+  deleteStoredObjects,
+  ownedObjectPaths,
+  toPrivateMedia,
+  withSignedUrl,
+  type StoredObject,
+  type UploadBatch,
+} from "@/lib/storageUpload";
+import { finalizeDirectUpload } from "@/lib/directUpload";
+import { KYC_UPLOAD_FOLDERS, SELF_VIDEO_RULE, SHOP_PROOF_VIDEO_RULE } from "@/lib/businessUploads";
+import { getUid, requireRole } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
 
@@ -12,46 +24,71 @@ type VerificationStatus = "pending" | "verified" | "rejected";
 
 type KycStatus = "pending" | "verified" | "rejected";
 
-async function uploadVideoToStorage(params: { uid: string; file: File; folder: string }) {
-  const { uid, file, folder } = params;
+/** A KYC video arrives either in the form body or as a finished direct upload (`/api/uploads`). */
+type VideoSource = { file: File } | { uploadId: string };
 
-  const safeName = (file.name || "video").replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
-  const objectPath = `${folder}/${uid}/${Date.now()}_${safeName}`;
-
-  const objectRef = adminStorageBucket.file(objectPath);
-  const writeStream = objectRef.createWriteStream({
-    resumable: true,
-    metadata: {
-      contentType: file.type || "application/octet-stream",
-      cacheControl: "public, max-age=31536000",
-    },
-  });
-
-  const webStream = file.stream();
-  await pipeline(Readable.fromWeb(webStream as unknown as Parameters<typeof Readable.fromWeb>[0]), writeStream);
+function readVideoSource(form: FormData, fileField: string, uploadIdField: string): VideoSource | null {
+  const value = form.get(fileField);
+  if (value instanceof File) return { file: value };
+  const uploadId = String(form.get(uploadIdField) ?? "").trim();
+  return uploadId ? { uploadId } : null;
+}
 
-  await objectRef.makePublic();
-  const publicUrl = objectRef.publicUrl();
+async function storeVideo(
+  uploads: UploadBatch,
+  source: VideoSource,
+  params: { uid: string; businessId: string; folder: string; locationId?: string }
+): Promise<{ ok: true; stored: StoredObject } | { ok: false; message: string }> {
+  if ("file" in source) {
+    return {
+      ok: true,
+      stored: await uploads.upload(source.file, { folder: params.folder, visibility: "private" }),
+    };
+  }
 
-  return { objectPath, publicUrl };
+  return finalizeDirectUpload(uploads, {
+    uploadId: source.uploadId,
+    uid: params.uid,
+    businessId: params.businessId,
+    purpose: params.locationId ? "kycLocation" : "kycSelfie",
+    ...(params.locationId ? { locationId: params.locationId } : {}),
+  });
 }
 
 export async function GET(request: Request) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
-  const kycSnap = await adminDb.collection("businessKyc").doc(auth.uid).get();
+  const access = requireRole(auth, "owner");
+  if (!access.ok) return access.response;
+
+  const owned = await requireOwnedBusiness(request, auth);
+  if (!owned.ok) return owned.response;
+  const businessId = owned.businessId;
+
+  const kycSnap = await adminDb.collection("businessKyc").doc(businessId).get();
   if (!kycSnap.exists) {
     return NextResponse.json({ ok: true, kyc: null }, { status: 200 });
   }
 
-  return NextResponse.json({ ok: true, kyc: kycSnap.data() ?? null }, { status: 200 });
+  const kyc = kycSnap.data() ?? {};
+  return NextResponse.json(
+    { ok: true, kyc: { ...kyc, selfieVideo: await withSignedUrl(kyc.selfieVideo) } },
+    { status: 200 }
+  );
 }
 
 export async function POST(request: Request) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
+  const access = requireRole(auth, "owner");
+  if (!access.ok) return access.response;
+
+  const owned = await requireOwnedBusiness(request, auth);
+  if (!owned.ok) return owned.response;
+  const businessId = owned.businessId;
+
   const uid = auth.uid;
 
   let form: FormData;
@@ -62,28 +99,20 @@ export async function POST(request: Request) {
   }
 
   const scriptText = String(form.get("scriptText") ?? "").trim();
-  const selfieVideo = form.get("selfieVideo");
+  const selfieSource = readVideoSource(form, "selfieVideo", "selfieVideoUploadId");
 
-  if (!(selfieVideo instanceof File)) {
+  if (!selfieSource) {
     return NextResponse.json({ ok: false, message: "Self video is required." }, { status: 400 });
   }
 
-  const maxBytes = 50 * 1024 * 1024;
-  if (selfieVideo.size > maxBytes) {
-    return NextResponse.json(
-      { ok: false, message: "Self video must be under 50MB." },
-      { status: 400 }
-    );
-  }
-
-  if (!selfieVideo.type.startsWith("video/")) {
-    return NextResponse.json(
-      { ok: false, message: "Self video must be a video." },
-      { status: 400 }
-    );
+  if ("file" in selfieSource) {
+    const selfieError = await checkUpload(selfieSource.file, SELF_VIDEO_RULE);
+    if (selfieError) {
+      return NextResponse.json({ ok: false, message: selfieError }, { status: 400 });
+    }
   }
 
-  const businessSnap = await adminDb.collection("business").doc(uid).get();
+  const businessSnap = await adminDb.collection("business").doc(businessId).get();
   if (!businessSnap.exists) {
     return NextResponse.json(
       { ok: false, message: "Business profile is missing." },
@@ -128,7 +157,7 @@ export async function POST(request: Request) {
 
   const locationsSnap = await adminDb
     .collection("businessLocations")
-    .where("businessId", "==", uid)
+    .where("businessId", "==", businessId)
     .get();
 
   const locationDocs = locationsSnap.docs;
@@ -141,101 +170,123 @@ export async function POST(request: Request) {
     );
   }
 
+  const locationVideoSources = new Map<string, VideoSource>();
   if (isOffline) {
     for (const locId of locationIds) {
-      const video = form.get(`locationVideo_${locId}`);
-      if (!(video instanceof File)) {
+      const source = readVideoSource(form, `locationVideo_${locId}`, `locationVideoUploadId_${locId}`);
+      if (!source) {
         return NextResponse.json(
           { ok: false, message: "Please upload shop proof video for each location." },
           { status: 400 }
         );
       }
-      if (video.size > maxBytes) {
-        return NextResponse.json(
-          { ok: false, message: "Shop proof video must be under 50MB." },
-          { status: 400 }
-        );
-      }
-      if (!video.type.startsWith("video/")) {
-        return NextResponse.json(
-          { ok: false, message: "Shop proof must be a video." },
-          { status: 400 }
-        );
+      if ("file" in source) {
+        const videoError = await checkUpload(source.file, SHOP_PROOF_VIDEO_RULE);
+        if (videoError) {
+          return NextResponse.json({ ok: false, message: videoError }, { status: 400 });
+        }
       }
+      locationVideoSources.set(locId, source);
     }
   }
 
-  const selfieUpload = await uploadVideoToStorage({
-    uid,
-    file: selfieVideo,
-    folder: "kyc/selfie",
-  });
+  const nextStatus: BusinessStatus = "submitted";
+  const uploads = createUploadBatch(uid);
+  let replacedVideos: unknown[] = [];
 
-  const batch = adminDb.batch();
-
-  const existingKycSnap = await adminDb.collection("businessKyc").doc(uid).get();
-
-  const kycStatus: KycStatus = "pending";
-  const kycRef = adminDb.collection("businessKyc").doc(uid);
-  batch.set(
-    kycRef,
-    {
-      businessId: uid,
-      scriptText,
-      status: kycStatus,
-      selfieVideo: {
-        url: selfieUpload.publicUrl,
-        name: selfieVideo.name,
-        type: selfieVideo.type,
-        size: selfieVideo.size,
-      },
-      updatedAt: FieldValue.serverTimestamp(),
-      ...(!existingKycSnap.exists ? { createdAt: FieldValue.serverTimestamp() } : {}),
-    },
-    { merge: true }
-  );
+  try {
+    const selfie = await storeVideo(uploads, selfieSource, { uid, businessId, folder: "kyc/selfie" });
+    if (!selfie.ok) {
+      await uploads.discard();
+      return NextResponse.json({ ok: false, message: selfie.message }, { status: 400 });
+    }
 
-  const locationVerificationStatus: VerificationStatus = "pending";
+    const batch = adminDb.batch();
+
+    const existingKycSnap = await adminDb.collection("businessKyc").doc(businessId).get();
+    replacedVideos = [
+      existingKycSnap.data()?.selfieVideo,
+      ...(isOffline ? locationDocs.map((doc) => doc.data().verificationVideo) : []),
+    ];
+
+    const kycStatus: KycStatus = "pending";
+    const kycRef = adminDb.collection("businessKyc").doc(businessId);
+    batch.set(
+      kycRef,
+      {
+        businessId,
+        scriptText,
+        status: kycStatus,
+        selfieVideo: toPrivateMedia(selfie.stored),
+        updatedAt: FieldValue.serverTimestamp(),
+        ...(!existingKycSnap.exists ? { createdAt: FieldValue.serverTimestamp() } : {}),
+      },
+      { merge: true }
+    );
 
-  for (const doc of locationDocs) {
-    const locId = doc.id;
-    const locRef = doc.ref;
+    const locationVerificationStatus: VerificationStatus = "pending";
 
-    const update: Record<string, unknown> = {
-      verificationStatus: locationVerificationStatus,
-      updatedAt: FieldValue.serverTimestamp(),
-    };
+    for (const doc of locationDocs) {
+      const locId = doc.id;
+      const locRef = doc.ref;
 
-    if (isOffline) {
-      const video = form.get(`locationVideo_${locId}`) as File;
-      const upload = await uploadVideoToStorage({
-        uid,
-        file: video,
-        folder: `kyc/location/${locId}`,
-      });
-      update.verificationVideo = {
-        url: upload.publicUrl,
-        name: video.name,
-        type: video.type,
-        size: video.size,
+      const update: Record<string, unknown> = {
+        verificationStatus: locationVerificationStatus,
+        updatedAt: FieldValue.serverTimestamp(),
       };
+
+      const source = locationVideoSources.get(locId);
+      if (source) {
+        const video = await storeVideo(uploads, source, {
+          uid,
+          businessId,
+          folder: `kyc/location/${locId}`,
+          locationId: locId,
+        });
+        if (!video.ok) {
+          await uploads.discard();
+          return NextResponse.json({ ok: false, message: video.message }, { status: 400 });
+        }
+        update.verificationVideo = toPrivateMedia(video.stored);
+      }
+
+      batch.set(locRef, update, { merge: true });
     }
 
-    batch.set(locRef, update, { merge: true });
-  }
+    const businessRef = adminDb.collection("business").doc(businessId);
+    batch.set(
+      businessRef,
+      {
+        status: nextStatus,
+        rejection: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
 
-  const businessRef = adminDb.collection("business").doc(uid);
-  const nextStatus: BusinessStatus = "submitted";
-  batch.set(
-    businessRef,
-    {
-      status: nextStatus,
-      updatedAt: FieldValue.serverTimestamp(),
-    },
-    { merge: true }
-  );
+    await batch.commit();
+  } catch (err) {
+    await uploads.discard();
+    console.error("/api/kyc POST failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to submit KYC. Please try again." },
+      { status: 500 }
+    );
+  }
 
-  await batch.commit();
+  await deleteStoredObjects(ownedObjectPaths(replacedVideos, KYC_UPLOAD_FOLDERS));
+
+  await recordAudit({
+    businessId,
+    actorUid: uid,
+    action: "business.kyc_submit",
+    targetType: "business",
+    targetId: businessId,
+    summary: typeof businessData.businessName === "string" ? businessData.businessName : undefined,
+    fromStatus: existingStatus,
+    toStatus: nextStatus,
+    changedFields: ["kyc", ...(isOffline ? ["locationVideos"] : []), "status"],
+  });
 
   return NextResponse.json(
     { ok: true, message: "KYC submitted.", status: nextStatus },
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
+import { businessIdFromRequest, resolveBusinessAccess } from "@/lib/businessAccess";
 import { adminDb } from "@/lib/firebaseAdmin";
+import { normalizeRejection } from "@/lib/rejection";
 import { getUid } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
@@ -22,7 +24,19 @@ export async function GET(request: Request) {
 
   const uid = auth.uid;
 
-  const businessSnap = await adminDb.collection("business").doc(uid).get();
+  const requestedBusinessId = businessIdFromRequest(request);
+  const access = await resolveBusinessAccess(uid, requestedBusinessId);
+  if (requestedBusinessId && !access) {
+    return NextResponse.json(
+      { ok: false, message: "You do not have access to this business." },
+      { status: 403 }
+    );
+  }
+
+  // Team members have no business document of their own; they see the business they belong to.
+  const businessId = access?.businessId ?? uid;
+
+  const businessSnap = await adminDb.collection("business").doc(businessId).get();
   const businessData = businessSnap.exists ? (businessSnap.data() ?? {}) : null;
   const statusRaw = businessSnap.exists ? (businessSnap.data()?.status as unknown) : null;
   const businessStatus: BusinessStatus | null = isBusinessStatus(statusRaw)
@@ -41,8 +55,23 @@ export async function GET(request: Request) {
   const businessLogoUrl =
     businessData && typeof businessData.businessLogoUrl === "string" ? businessData.businessLogoUrl : "";
 
+  const rejection =
+    businessStatus === "rejected" ? normalizeRejection(businessData?.rejection) : null;
+
   return NextResponse.json(
-    { ok: true, uid, hasBusiness, businessStatus, businessName, businessLogoUrl },
+    {
+      ok: true,
+      uid,
+      roles: auth.roles,
+      businessId: access ? access.businessId : null,
+      memberRole: access ? access.role : null,
+      permissions: access ? access.permissions : [],
+      hasBusiness,
+      businessStatus,
+      businessName,
+      businessLogoUrl,
+      rejection,
+    },
     { status: 200 }
   );
 }
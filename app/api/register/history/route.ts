@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { listAuditTrail } from "@/lib/auditLog";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth);
+  if (!access.ok) return access.response;
+
+  try {
+    const history = await listAuditTrail("business", access.businessId);
+    return NextResponse.json({ ok: true, businessId: access.businessId, history }, { status: 200 });
+  } catch (err) {
+    console.error("/api/register/history GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load history." }, { status: 500 });
+  }
+}
@@ -1,7 +1,24 @@
 import { NextResponse } from "next/server";
 import { GeoPoint } from "firebase-admin/firestore";
-import { FieldValue, adminDb, adminStorageBucket } from "@/lib/firebaseAdmin";
-import { getUid } from "@/lib/requestAuth";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { changedFields, recordAudit } from "@/lib/auditLog";
+import { normalizeRejection } from "@/lib/rejection";
+import { requireOwnedBusiness } from "@/lib/businessAccess";
+import { VEHICLE_TYPES } from "@/lib/eventVehicles";
+import {
+  checkUpload,
+  createUploadBatch,
+  deleteStoredObjects,
+  orphanedObjectPaths,
+  toPrivateMedia,
+} from "@/lib/storageUpload";
+import {
+  BUSINESS_LOGO_RULE,
+  GST_DOCUMENT_RULE,
+  SHOP_IMAGE_RULE,
+  gstDocumentUrl,
+} from "@/lib/businessUploads";
+import { getUid, requireRole } from "@/lib/requestAuth";
 
 export const runtime = "nodejs";
 
@@ -27,13 +44,6 @@ const VEHICLE_CATEGORIES = new Set<BusinessCategory>([
   "Towing Van",
 ]);
 
-const VEHICLE_TYPES = [
-  "two-wheeler",
-  "four-wheeler",
-  "two-wheeler electric",
-  "four-wheeler electric",
-] as const;
-
 const SHOP_TYPES = ["authorised shop", "local shop"] as const;
 
 async function areSelectedBrandsValid(params: {
@@ -97,34 +107,6 @@ type BusinessLocation = {
   businessHours?: unknown;
 };
 
-async function uploadImageToStorage(params: {
-  uid: string;
-  file: File;
-  folder: string;
-}) {
-  const { uid, file, folder } = params;
-  const buffer = Buffer.from(await file.arrayBuffer());
-
-  const safeName = (file.name || "image")
-    .replace(/[^a-zA-Z0-9._-]/g, "_")
-    .slice(0, 120);
-  const objectPath = `${folder}/${uid}/${Date.now()}_${safeName}`;
-
-  const objectRef = adminStorageBucket.file(objectPath);
-  await objectRef.save(buffer, {
-    resumable: false,
-    metadata: {
-      contentType: file.type || "application/octet-stream",
-      cacheControl: "public, max-age=31536000",
-    },
-  });
-
-  await objectRef.makePublic();
-  const publicUrl = objectRef.publicUrl();
-
-  return { objectPath, publicUrl };
-}
-
 function isNonEmptyString(value: unknown): value is string {
   return typeof value === "string" && value.trim().length > 0;
 }
@@ -173,17 +155,24 @@ export async function GET(request: Request) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
+  const access = requireRole(auth, "owner");
+  if (!access.ok) return access.response;
+
+  const owned = await requireOwnedBusiness(request, auth);
+  if (!owned.ok) return owned.response;
+  const businessId = owned.businessId;
+
   const uid = auth.uid;
-  const businessSnap = await adminDb.collection("business").doc(uid).get();
+  const businessSnap = await adminDb.collection("business").doc(businessId).get();
 
   if (!businessSnap.exists) {
-    return NextResponse.json({ ok: true, uid, business: null }, { status: 200 });
+    return NextResponse.json({ ok: true, uid, businessId, business: null }, { status: 200 });
   }
 
   const data = businessSnap.data() ?? {};
   const businessLocationsQuerySnap = await adminDb
     .collection("businessLocations")
-    .where("businessId", "==", uid)
+    .where("businessId", "==", businessId)
     .get();
 
   const locationDocs = businessLocationsQuerySnap.docs;
@@ -238,6 +227,7 @@ export async function GET(request: Request) {
     {
       ok: true,
       uid,
+      businessId,
       business: {
         status,
         businessName: typeof data.businessName === "string" ? data.businessName : "",
@@ -262,7 +252,7 @@ export async function GET(request: Request) {
         email: typeof data.email === "string" ? data.email : "",
         website: typeof data.website === "string" ? data.website : "",
         gstNumber: typeof data.gstNumber === "string" ? data.gstNumber : "",
-        gstDocumentUrl: typeof data.gstDocumentUrl === "string" ? data.gstDocumentUrl : "",
+        gstDocumentUrl: await gstDocumentUrl(data),
         businessRole: typeof data.businessRole === "string" ? data.businessRole : "",
         name: typeof data.name === "string" ? data.name : "",
         contactNo: typeof data.contactNo === "string" ? data.contactNo : "",
@@ -271,6 +261,7 @@ export async function GET(request: Request) {
         businessLocations,
         primaryBusinessLocationId,
         primaryShopImage,
+        rejection: status === "rejected" ? normalizeRejection(data.rejection) : null,
       },
     },
     { status: 200 }
@@ -281,6 +272,13 @@ export async function POST(request: Request) {
   const auth = await getUid(request);
   if (!auth.ok) return auth.response;
 
+  const access = requireRole(auth, "owner");
+  if (!access.ok) return access.response;
+
+  const owned = await requireOwnedBusiness(request, auth);
+  if (!owned.ok) return owned.response;
+  const businessId = owned.businessId;
+
   const uid = auth.uid;
 
   let form: FormData;
@@ -303,18 +301,9 @@ export async function POST(request: Request) {
     const locId = key.slice("shopImage_".length).trim();
     if (!locId) continue;
     if (!(value instanceof File)) continue;
-    const maxBytes = 5 * 1024 * 1024;
-    if (value.size > maxBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Shop image must be under 5MB." },
-        { status: 400 }
-      );
-    }
-    if (!value.type.startsWith("image/")) {
-      return NextResponse.json(
-        { ok: false, message: "Shop image must be an image." },
-        { status: 400 }
-      );
+    const shopImageError = await checkUpload(value, SHOP_IMAGE_RULE);
+    if (shopImageError) {
+      return NextResponse.json({ ok: false, message: shopImageError }, { status: 400 });
     }
     shopImagesByLocationId.set(locId, value);
   }
@@ -565,18 +554,9 @@ export async function POST(request: Request) {
   }
 
   if (businessLogo instanceof File) {
-    const maxBytes = 5 * 1024 * 1024;
-    if (businessLogo.size > maxBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Business logo must be under 5MB." },
-        { status: 400 }
-      );
-    }
-    if (!businessLogo.type.startsWith("image/")) {
-      return NextResponse.json(
-        { ok: false, message: "Business logo must be an image." },
-        { status: 400 }
-      );
+    const logoError = await checkUpload(businessLogo, BUSINESS_LOGO_RULE);
+    if (logoError) {
+      return NextResponse.json({ ok: false, message: logoError }, { status: 400 });
     }
   }
 
@@ -588,21 +568,9 @@ export async function POST(request: Request) {
   }
 
   if (gstDocument instanceof File) {
-    const maxBytes = 5 * 1024 * 1024;
-    if (gstDocument.size > maxBytes) {
-      return NextResponse.json(
-        { ok: false, message: "GST document must be under 5MB." },
-        { status: 400 }
-      );
-    }
-
-    const isPdf = gstDocument.type === "application/pdf";
-    const isImage = gstDocument.type.startsWith("image/");
-    if (!isPdf && !isImage) {
-      return NextResponse.json(
-        { ok: false, message: "GST document must be a PDF or an image." },
-        { status: 400 }
-      );
+    const gstError = await checkUpload(gstDocument, GST_DOCUMENT_RULE);
+    if (gstError) {
+      return NextResponse.json({ ok: false, message: gstError }, { status: 400 });
     }
   }
 
@@ -645,18 +613,9 @@ export async function POST(request: Request) {
   }
 
   if (shopImage instanceof File) {
-    const maxBytes = 5 * 1024 * 1024;
-    if (shopImage.size > maxBytes) {
-      return NextResponse.json(
-        { ok: false, message: "Shop image must be under 5MB." },
-        { status: 400 }
-      );
-    }
-    if (!shopImage.type.startsWith("image/")) {
-      return NextResponse.json(
-        { ok: false, message: "Shop image must be an image." },
-        { status: 400 }
-      );
+    const shopImageError = await checkUpload(shopImage, SHOP_IMAGE_RULE);
+    if (shopImageError) {
+      return NextResponse.json({ ok: false, message: shopImageError }, { status: 400 });
     }
     if (!shopImageLocationId) {
       return NextResponse.json(
@@ -666,7 +625,7 @@ export async function POST(request: Request) {
     }
   }
 
-  const businessRef = adminDb.collection("business").doc(uid);
+  const businessRef = adminDb.collection("business").doc(businessId);
   const existingBusiness = await businessRef.get();
   const existingStatusRaw = existingBusiness.exists
     ? (existingBusiness.data()?.status as unknown)
@@ -691,6 +650,10 @@ export async function POST(request: Request) {
     payload.createdAt = FieldValue.serverTimestamp();
   }
 
+  if (nextStatus === "submitted" && existingStatusRaw !== "submitted") {
+    payload.rejection = FieldValue.delete();
+  }
+
   if (businessName) payload.businessName = businessName;
   if (businessDescription) payload.businessDescription = businessDescription;
   if (businessCategory) payload.businessCategory = businessCategory;
@@ -720,121 +683,150 @@ export async function POST(request: Request) {
   if (name) payload.name = name;
   if (contactNo) payload.contactNo = contactNo;
   if (whatsappNo) payload.whatsappNo = whatsappNo;
-  if (businessLogo instanceof File) {
-    const upload = await uploadImageToStorage({
-      uid,
-      file: businessLogo,
-      folder: "businessLogos",
-    });
-    payload.businessLogoUrl = upload.publicUrl;
-  }
-
-  if (gstDocument instanceof File) {
-    const upload = await uploadImageToStorage({
-      uid,
-      file: gstDocument,
-      folder: "gstDocuments",
-    });
-    payload.gstDocumentUrl = upload.publicUrl;
-  }
+  const uploads = createUploadBatch(uid);
 
-  let resolvedLocationsForSave = businessLocations;
-  if (form.has("businessLocations") && shopImagesByLocationId.size > 0) {
-    const nextLocations: BusinessLocation[] = [];
-    for (const loc of businessLocations) {
-      const file = shopImagesByLocationId.get(loc.id);
-      if (!file) {
-        nextLocations.push(loc);
-        continue;
-      }
-      const upload = await uploadImageToStorage({
-        uid,
-        file,
-        folder: "shopImages",
-      });
-      nextLocations.push({
-        ...loc,
-        shopImageUrl: upload.publicUrl,
-      });
+  try {
+    if (businessLogo instanceof File) {
+      payload.businessLogoUrl = (
+        await uploads.uploadImage(businessLogo, { folder: "businessLogos", preset: "logo" })
+      ).url;
     }
-    resolvedLocationsForSave = nextLocations;
-  }
-
-  const resolvedPrimaryShopImage =
-    shopImage instanceof File
-      ? {
-          name: shopImage.name,
-          type: shopImage.type,
-          size: shopImage.size,
-          locationId: shopImageLocationId,
-          url: (await uploadImageToStorage({
-            uid,
-            file: shopImage,
-            folder: "shopImages",
-          })).publicUrl,
-        }
-      : null;
-
-  await businessRef.set(payload, { merge: true });
-
-  if (form.has("businessLocations")) {
-    const businessSnap = await businessRef.get();
-    const businessData = businessSnap.data() ?? {};
 
-    const resolvedBusinessName =
-      typeof businessData.businessName === "string" ? businessData.businessName : "";
-    const resolvedBusinessLogoUrl =
-      typeof businessData.businessLogoUrl === "string" ? businessData.businessLogoUrl : "";
-    const resolvedBusinessCategory =
-      typeof businessData.businessCategory === "string" ? businessData.businessCategory : "";
-
-    const existingLocationsSnap = await adminDb
-      .collection("businessLocations")
-      .where("businessId", "==", uid)
-      .get();
-
-    const existingIds = new Set<string>(existingLocationsSnap.docs.map((doc) => doc.id));
-    const incomingIds = new Set<string>(resolvedLocationsForSave.map((loc) => loc.id));
-
-    const batch = adminDb.batch();
-
-    for (const doc of existingLocationsSnap.docs) {
-      if (incomingIds.has(doc.id)) continue;
-      batch.delete(doc.ref);
+    if (gstDocument instanceof File) {
+      payload.gstDocument = toPrivateMedia(
+        await uploads.upload(gstDocument, { folder: "gstDocuments", visibility: "private" })
+      );
+      payload.gstDocumentUrl = FieldValue.delete();
     }
 
-    for (const loc of resolvedLocationsForSave) {
-      const locRef = adminDb.collection("businessLocations").doc(loc.id);
-      const isPrimary = loc.id === primaryBusinessLocationId;
-      const locationPayload: Record<string, unknown> = {
-        businessId: uid,
-        businessName: resolvedBusinessName,
-        businessLogoUrl: resolvedBusinessLogoUrl,
-        businessCategory: resolvedBusinessCategory,
-        id: loc.id,
-        fullAddress: loc.fullAddress,
-        contactNumber: loc.contactNumber ?? "",
-        shopImageUrl: loc.shopImageUrl ?? "",
-        ...(loc.geo ? { geo: loc.geo } : {}),
-        ...(loc.businessHours ? { businessHours: loc.businessHours } : {}),
-        isPrimary,
-        updatedAt: FieldValue.serverTimestamp(),
-      };
+    let resolvedLocationsForSave = businessLocations;
+    if (form.has("businessLocations") && shopImagesByLocationId.size > 0) {
+      const nextLocations: BusinessLocation[] = [];
+      for (const loc of businessLocations) {
+        const file = shopImagesByLocationId.get(loc.id);
+        if (!file) {
+          nextLocations.push(loc);
+          continue;
+        }
+        const upload = await uploads.uploadImage(file, { folder: "shopImages" });
+        nextLocations.push({
+          ...loc,
+          shopImageUrl: upload.url,
+        });
+      }
+      resolvedLocationsForSave = nextLocations;
+    }
 
-      if (!existingIds.has(loc.id)) {
-        locationPayload.createdAt = FieldValue.serverTimestamp();
+    const resolvedPrimaryShopImage =
+      shopImage instanceof File
+        ? {
+            name: shopImage.name,
+            type: shopImage.type,
+            size: shopImage.size,
+            locationId: shopImageLocationId,
+            url: (await uploads.uploadImage(shopImage, { folder: "shopImages" })).url,
+          }
+        : null;
+
+    await businessRef.set(payload, { merge: true });
+
+    if (form.has("businessLocations")) {
+      const businessSnap = await businessRef.get();
+      const businessData = businessSnap.data() ?? {};
+
+      const resolvedBusinessName =
+        typeof businessData.businessName === "string" ? businessData.businessName : "";
+      const resolvedBusinessLogoUrl =
+        typeof businessData.businessLogoUrl === "string" ? businessData.businessLogoUrl : "";
+      const resolvedBusinessCategory =
+        typeof businessData.businessCategory === "string" ? businessData.businessCategory : "";
+
+      const existingLocationsSnap = await adminDb
+        .collection("businessLocations")
+        .where("businessId", "==", businessId)
+        .get();
+
+      const existingIds = new Set<string>(existingLocationsSnap.docs.map((doc) => doc.id));
+      const incomingIds = new Set<string>(resolvedLocationsForSave.map((loc) => loc.id));
+
+      const batch = adminDb.batch();
+
+      for (const doc of existingLocationsSnap.docs) {
+        if (incomingIds.has(doc.id)) continue;
+        batch.delete(doc.ref);
       }
 
-      if (isPrimary && resolvedPrimaryShopImage) {
-        locationPayload.primaryShopImage = resolvedPrimaryShopImage;
+      for (const loc of resolvedLocationsForSave) {
+        const locRef = adminDb.collection("businessLocations").doc(loc.id);
+        const isPrimary = loc.id === primaryBusinessLocationId;
+        const locationPayload: Record<string, unknown> = {
+          businessId,
+          businessName: resolvedBusinessName,
+          businessLogoUrl: resolvedBusinessLogoUrl,
+          businessCategory: resolvedBusinessCategory,
+          id: loc.id,
+          fullAddress: loc.fullAddress,
+          contactNumber: loc.contactNumber ?? "",
+          shopImageUrl: loc.shopImageUrl ?? "",
+          ...(loc.geo ? { geo: loc.geo } : {}),
+          ...(loc.businessHours ? { businessHours: loc.businessHours } : {}),
+          isPrimary,
+          updatedAt: FieldValue.serverTimestamp(),
+        };
+
+        if (!existingIds.has(loc.id)) {
+          locationPayload.createdAt = FieldValue.serverTimestamp();
+        }
+
+        if (isPrimary && resolvedPrimaryShopImage) {
+          locationPayload.primaryShopImage = resolvedPrimaryShopImage;
+        }
+
+        batch.set(locRef, locationPayload, { merge: true });
       }
 
-      batch.set(locRef, locationPayload, { merge: true });
+      await batch.commit();
     }
+  } catch (err) {
+    await uploads.discard();
+    console.error("/api/register POST failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to save business details. Please try again." },
+      { status: 500 }
+    );
+  }
 
-    await batch.commit();
+  if (payload.gstDocument) {
+    const previous = existingBusiness.data() ?? {};
+    await deleteStoredObjects(
+      orphanedObjectPaths(
+        [previous.gstDocument, previous.gstDocumentUrl],
+        payload.gstDocument,
+        ["gstDocuments"]
+      )
+    );
   }
 
+  const previousStatus = isBusinessStatus(existingStatusRaw) ? existingStatusRaw : null;
+  await recordAudit({
+    businessId,
+    actorUid: uid,
+    action: !existingBusiness.exists
+      ? "business.create"
+      : nextStatus === "submitted" && previousStatus !== "submitted"
+        ? "business.submit"
+        : "business.update",
+    targetType: "business",
+    targetId: businessId,
+    summary: businessName || undefined,
+    fromStatus: previousStatus,
+    toStatus: nextStatus,
+    changedFields: [
+      ...changedFields(existingBusiness.data() ?? {}, payload),
+      ...(form.has("businessLocations") ? ["businessLocations"] : []),
+    ],
+  });
+
   return NextResponse.json(
     {
       ok: true,
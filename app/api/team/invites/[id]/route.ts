@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/auditLog";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth, "team.manage");
+  if (!access.ok) return access.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing invitation id." }, { status: 400 });
+  }
+
+  try {
+    const inviteRef = adminDb.collection("businessInvites").doc(id);
+    const snap = await inviteRef.get();
+    const data = snap.data() ?? {};
+
+    if (!snap.exists || data.businessId !== access.businessId) {
+      return NextResponse.json({ ok: false, message: "Invitation not found." }, { status: 404 });
+    }
+
+    if (data.status !== "pending") {
+      return NextResponse.json(
+        { ok: false, message: "Invitation is no longer pending." },
+        { status: 409 }
+      );
+    }
+
+    await inviteRef.update({
+      status: "revoked",
+      revokedBy: auth.uid,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: auth.uid,
+      action: "member.invite_revoke",
+      targetType: "invite",
+      targetId: typeof data.email === "string" ? data.email : "",
+      summary: typeof data.email === "string" ? data.email : undefined,
+    });
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    console.error("/api/team/invites/[id] DELETE failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to revoke invitation." },
+      { status: 500 }
+    );
+  }
+}
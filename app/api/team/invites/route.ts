@@ -0,0 +1,107 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/auditLog";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { isInvitableRole } from "@/lib/businessRoles";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function isValidEmail(value: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+}
+
+export async function POST(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth, "team.manage");
+  if (!access.ok) return access.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const obj = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const email = typeof obj.email === "string" ? obj.email.trim().toLowerCase() : "";
+  const role = obj.role;
+
+  if (!email || !isValidEmail(email)) {
+    return NextResponse.json({ ok: false, message: "Please enter a valid email." }, { status: 400 });
+  }
+
+  if (!isInvitableRole(role)) {
+    return NextResponse.json({ ok: false, message: "Invalid role." }, { status: 400 });
+  }
+
+  try {
+    const existingSnap = await adminDb
+      .collection("businessInvites")
+      .where("businessId", "==", access.businessId)
+      .where("email", "==", email)
+      .where("status", "==", "pending")
+      .limit(1)
+      .get();
+
+    if (!existingSnap.empty) {
+      return NextResponse.json(
+        { ok: false, message: "This email already has a pending invitation." },
+        { status: 409 }
+      );
+    }
+
+    const businessSnap = await adminDb.collection("business").doc(access.businessId).get();
+    const businessName =
+      typeof businessSnap.data()?.businessName === "string"
+        ? (businessSnap.data()?.businessName as string)
+        : "";
+
+    // The document id doubles as the secret token in the invitation link.
+    const token = randomBytes(18).toString("base64url");
+    await adminDb
+      .collection("businessInvites")
+      .doc(token)
+      .set({
+        businessId: access.businessId,
+        businessName,
+        email,
+        role,
+        status: "pending",
+        invitedBy: auth.uid,
+        createdAt: FieldValue.serverTimestamp(),
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      });
+
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: auth.uid,
+      action: "member.invite",
+      targetType: "invite",
+      // Never the token: anyone who can read the audit log could use it to join.
+      targetId: email,
+      summary: `${email} as ${role}`,
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        invite: { id: token, email, role },
+        joinPath: `/team/join?token=${encodeURIComponent(token)}`,
+        message: "Invitation created.",
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/team/invites POST failed", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to create invitation." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/auditLog";
+import { getBusinessAccess, memberDocId } from "@/lib/businessAccess";
+import { isInvitableRole } from "@/lib/businessRoles";
+import { FieldValue, adminAuth, adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function readInvite(data: Record<string, unknown>) {
+  const expiresAt = timestampToIso(data.expiresAt);
+  const expired = expiresAt ? new Date(expiresAt).getTime() < Date.now() : false;
+  return {
+    businessId: typeof data.businessId === "string" ? data.businessId : "",
+    businessName: typeof data.businessName === "string" ? data.businessName : "",
+    email: typeof data.email === "string" ? data.email : "",
+    role: data.role,
+    status: expired && data.status === "pending" ? "expired" : String(data.status ?? ""),
+    expiresAt,
+  };
+}
+
+export async function GET(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const token = (new URL(request.url).searchParams.get("token") ?? "").trim();
+  if (!token) {
+    return NextResponse.json({ ok: false, message: "Missing invitation token." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("businessInvites").doc(token).get();
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Invitation not found." }, { status: 404 });
+    }
+
+    const invite = readInvite(snap.data() ?? {});
+    return NextResponse.json(
+      {
+        ok: true,
+        invite: {
+          businessName: invite.businessName,
+          email: invite.email,
+          role: invite.role,
+          status: invite.status,
+          expiresAt: invite.expiresAt,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/team/join GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load invitation." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const obj = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const token = typeof obj.token === "string" ? obj.token.trim() : "";
+  if (!token) {
+    return NextResponse.json({ ok: false, message: "Missing invitation token." }, { status: 400 });
+  }
+
+  const inviteRef = adminDb.collection("businessInvites").doc(token);
+
+  try {
+    const inviteSnap = await inviteRef.get();
+    const invitedBusinessId =
+      typeof inviteSnap.data()?.businessId === "string" ? (inviteSnap.data()?.businessId as string) : "";
+    if (invitedBusinessId && (await getBusinessAccess(auth.uid, invitedBusinessId))) {
+      return NextResponse.json(
+        { ok: false, message: "You are already part of this business." },
+        { status: 409 }
+      );
+    }
+
+    const user = await adminAuth.getUser(auth.uid).catch(() => null);
+    const name = user?.displayName ?? "";
+
+    const result = await adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(inviteRef);
+      if (!snap.exists) return { status: 404, message: "Invitation not found." } as const;
+
+      const invite = readInvite(snap.data() ?? {});
+      if (invite.status !== "pending") {
+        return { status: 409, message: `Invitation is ${invite.status || "no longer valid"}.` } as const;
+      }
+      if (!invite.businessId || !isInvitableRole(invite.role)) {
+        return { status: 400, message: "Invitation is invalid." } as const;
+      }
+
+      const authEmail = typeof auth.claims.email === "string" ? auth.claims.email.toLowerCase() : "";
+      if (!authEmail || authEmail !== invite.email) {
+        return {
+          status: 403,
+          message: "This invitation was sent to a different email. Sign in with that email to accept it.",
+        } as const;
+      }
+      // Anyone can sign up with an address they do not own, so only a verified email proves it.
+      if (auth.claims.email_verified !== true) {
+        return {
+          status: 403,
+          message: "Verify your email address before accepting this invitation.",
+        } as const;
+      }
+
+      const memberRef = adminDb
+        .collection("businessMembers")
+        .doc(memberDocId(invite.businessId, auth.uid));
+
+      tx.set(memberRef, {
+        businessId: invite.businessId,
+        uid: auth.uid,
+        role: invite.role,
+        email: invite.email,
+        ...(name ? { name } : {}),
+        inviteId: token,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      tx.update(inviteRef, {
+        status: "accepted",
+        acceptedBy: auth.uid,
+        acceptedAt: FieldValue.serverTimestamp(),
+      });
+
+      return { status: 200, businessId: invite.businessId, role: invite.role } as const;
+    });
+
+    if (result.status !== 200) {
+      return NextResponse.json({ ok: false, message: result.message }, { status: result.status });
+    }
+
+    await recordAudit({
+      businessId: result.businessId,
+      actorUid: auth.uid,
+      action: "member.join",
+      targetType: "member",
+      targetId: auth.uid,
+      summary: result.role,
+    });
+
+    return NextResponse.json(
+      { ok: true, businessId: result.businessId, role: result.role, message: "You joined the team." },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/team/join POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to accept invitation." }, { status: 500 });
+  }
+}
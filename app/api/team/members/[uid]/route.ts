@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/auditLog";
+import {
+  businessIdFromRequest,
+  memberDocId,
+  requireBusinessAccess,
+  resolveBusinessAccess,
+} from "@/lib/businessAccess";
+import { isInvitableRole } from "@/lib/businessRoles";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ uid: string }> }
+) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth, "team.manage");
+  if (!access.ok) return access.response;
+
+  const params = await context.params;
+  const memberUid = isNonEmptyString(params?.uid) ? params.uid.trim() : "";
+
+  if (!memberUid) {
+    return NextResponse.json({ ok: false, message: "Missing member id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const role = body && typeof body === "object" ? (body as Record<string, unknown>).role : null;
+  if (!isInvitableRole(role)) {
+    return NextResponse.json({ ok: false, message: "Invalid role." }, { status: 400 });
+  }
+
+  try {
+    const memberRef = adminDb.collection("businessMembers").doc(memberDocId(access.businessId, memberUid));
+    const snap = await memberRef.get();
+
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Member not found." }, { status: 404 });
+    }
+
+    await memberRef.update({ role, updatedBy: auth.uid, updatedAt: FieldValue.serverTimestamp() });
+
+    await recordAudit({
+      businessId: access.businessId,
+      actorUid: auth.uid,
+      action: "member.role_change",
+      targetType: "member",
+      targetId: memberUid,
+      summary: `${snap.data()?.role ?? ""} → ${role}`,
+    });
+
+    return NextResponse.json({ ok: true, role }, { status: 200 });
+  } catch (err) {
+    console.error("/api/team/members/[uid] PATCH failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to update member." }, { status: 500 });
+  }
+}
+
+/** Removes a member. Owners and managers with `team.manage` can remove others; anyone can leave. */
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ uid: string }> }
+) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const memberUid = isNonEmptyString(params?.uid) ? params.uid.trim() : "";
+
+  if (!memberUid) {
+    return NextResponse.json({ ok: false, message: "Missing member id." }, { status: 400 });
+  }
+
+  const isLeaving = memberUid === auth.uid;
+  let businessId: string;
+
+  if (isLeaving) {
+    const own = await resolveBusinessAccess(auth.uid, businessIdFromRequest(request));
+    if (!own || own.role === "owner") {
+      return NextResponse.json(
+        { ok: false, message: "You are not a member of another business." },
+        { status: 400 }
+      );
+    }
+    businessId = own.businessId;
+  } else {
+    const access = await requireBusinessAccess(request, auth, "team.manage");
+    if (!access.ok) return access.response;
+
+    if (memberUid === access.ownerUid) {
+      return NextResponse.json(
+        { ok: false, message: "The owner cannot be removed." },
+        { status: 400 }
+      );
+    }
+    businessId = access.businessId;
+  }
+
+  try {
+    const memberRef = adminDb.collection("businessMembers").doc(memberDocId(businessId, memberUid));
+    const snap = await memberRef.get();
+
+    if (!snap.exists) {
+      return NextResponse.json({ ok: false, message: "Member not found." }, { status: 404 });
+    }
+
+    await memberRef.delete();
+
+    await recordAudit({
+      businessId,
+      actorUid: auth.uid,
+      action: isLeaving ? "member.leave" : "member.remove",
+      targetType: "member",
+      targetId: memberUid,
+      summary: typeof snap.data()?.email === "string" ? (snap.data()?.email as string) : undefined,
+    });
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    console.error("/api/team/members/[uid] DELETE failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to remove member." }, { status: 500 });
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { requireBusinessAccess } from "@/lib/businessAccess";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { getUid } from "@/lib/requestAuth";
+import { lookupDisplayNames } from "@/lib/userNames";
+
+export const runtime = "nodejs";
+
+const ACTIVITY_LIMIT = 50;
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+export async function GET(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const access = await requireBusinessAccess(request, auth, "team.read");
+  if (!access.ok) return access.response;
+
+  const { businessId } = access;
+
+  try {
+    const [businessSnap, membersSnap, invitesSnap] = await Promise.all([
+      adminDb.collection("business").doc(businessId).get(),
+      adminDb.collection("businessMembers").where("businessId", "==", businessId).get(),
+      adminDb
+        .collection("businessInvites")
+        .where("businessId", "==", businessId)
+        .where("status", "==", "pending")
+        .get(),
+    ]);
+
+    const activityQuery = adminDb.collection("auditLog").where("businessId", "==", businessId);
+    let activityDocs: FirebaseFirestore.QueryDocumentSnapshot[];
+    try {
+      activityDocs = (await activityQuery.orderBy("createdAt", "desc").limit(ACTIVITY_LIMIT).get()).docs;
+    } catch (err) {
+      console.error("/api/team GET ordered activity query failed; returned unordered fallback", err);
+      activityDocs = (await activityQuery.limit(ACTIVITY_LIMIT).get()).docs;
+    }
+
+    const business = businessSnap.data() ?? {};
+    const ownerName = asString(business.name);
+
+    const members = [
+      {
+        uid: access.ownerUid,
+        role: "owner",
+        name: ownerName,
+        email: asString(business.email),
+        joinedAt: timestampToIso(business.createdAt),
+      },
+      ...membersSnap.docs.map((doc) => {
+        const data = doc.data() ?? {};
+        return {
+          uid: asString(data.uid),
+          role: asString(data.role),
+          name: asString(data.name),
+          email: asString(data.email),
+          joinedAt: timestampToIso(data.createdAt),
+        };
+      }),
+    ];
+
+    const invites = invitesSnap.docs.map((doc) => {
+      const data = doc.data() ?? {};
+      return {
+        id: doc.id,
+        email: asString(data.email),
+        role: asString(data.role),
+        createdAt: timestampToIso(data.createdAt),
+        expiresAt: timestampToIso(data.expiresAt),
+      };
+    });
+
+    const activity = activityDocs
+      .map((doc) => {
+        const data = doc.data() ?? {};
+        return {
+          id: doc.id,
+          actorUid: asString(data.actorUid),
+          action: asString(data.action),
+          targetType: asString(data.targetType),
+          targetId: asString(data.targetId),
+          summary: asString(data.summary),
+          createdAt: timestampToIso(data.createdAt),
+        };
+      })
+      .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+
+    const memberNames = new Map(members.map((m) => [m.uid, m.name || m.email]));
+    const unknownActors = [
+      ...new Set(activity.map((a) => a.actorUid).filter((uid) => uid && !memberNames.get(uid))),
+    ];
+    const looked = await lookupDisplayNames(unknownActors);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        businessId,
+        role: access.role,
+        permissions: access.permissions,
+        members,
+        invites,
+        activity: activity.map((a) => ({
+          ...a,
+          actorName: memberNames.get(a.actorUid) || looked.get(a.actorUid) || "",
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/team GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load team." }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { getUid } from "@/lib/requestAuth";
+import { signTicketQr } from "@/lib/ticketQr";
+import { isVenueLocked } from "@/lib/venueUnlock";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * A booking with its QR code. Readable by the buyer, and by the event's business (which also hands
+ * out the QR of walk-in sales, as those have no buyer account). When the event unlocks QR codes at the venue, buyers get
+ * `qrLocked` instead and must call `POST /api/tickets/[id]/unlock` from inside the fence.
+ */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing ticket id." }, { status: 400 });
+  }
+
+  try {
+    const snap = await adminDb.collection("ticketSales").doc(id).get();
+    const sale = snap.data();
+    if (!snap.exists || !sale) {
+      return NextResponse.json({ ok: false, message: "Ticket not found." }, { status: 404 });
+    }
+
+    const isBuyer = sale.buyerUid === auth.uid;
+    if (!isBuyer) {
+      const access = await authorizeBusiness(auth, sale.businessId, null);
+      if (!access.ok) return access.response;
+    }
+
+    const eventId = typeof sale.eventId === "string" ? sale.eventId : "";
+    const quantity = Number(sale.quantity) || 0;
+
+    const eventSnap = eventId ? await adminDb.collection("events").doc(eventId).get() : null;
+    const event = (eventSnap?.data() ?? {}) as Record<string, unknown>;
+    const qrLocked = isBuyer && isVenueLocked(event);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        ticket: {
+          id: snap.id,
+          eventId,
+          ticketId: typeof sale.ticketId === "string" ? sale.ticketId : "",
+          ticketTitle: typeof sale.ticketTitle === "string" ? sale.ticketTitle : "",
+          quantity,
+          amount: Number(sale.amount) || 0,
+          checkedInAt: timestampToIso(sale.checkedInAt),
+          qrLocked,
+          qrCode: qrLocked ? "" : signTicketQr({ saleId: snap.id, eventId, quantity }),
+          vehicleRequired: event.vehicleVerified === true,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/tickets/[id] GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load ticket." }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { getUid } from "@/lib/requestAuth";
+import { signTicketQr } from "@/lib/ticketQr";
+import { asReportedPosition, checkVenueUnlock, isVenueLocked } from "@/lib/venueUnlock";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Reveals the buyer's QR code for an event with `unlockQrAtVenue` once the position they report
+ * is inside the venue fence during the event's check-in window.
+ */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing ticket id." }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const position = asReportedPosition(body);
+  if (!position) {
+    return NextResponse.json(
+      { ok: false, message: "Share your location to unlock this ticket." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snap = await adminDb.collection("ticketSales").doc(id).get();
+    const sale = snap.data();
+    if (!snap.exists || !sale || sale.buyerUid !== auth.uid) {
+      return NextResponse.json({ ok: false, message: "Ticket not found." }, { status: 404 });
+    }
+
+    const eventId = typeof sale.eventId === "string" ? sale.eventId : "";
+    const eventSnap = eventId ? await adminDb.collection("events").doc(eventId).get() : null;
+    const event = (eventSnap?.data() ?? null) as Record<string, unknown> | null;
+    if (!event || event.status !== "verified") {
+      return NextResponse.json({ ok: false, message: "This event is not live." }, { status: 409 });
+    }
+
+    let distanceKm: number | null = null;
+    if (isVenueLocked(event)) {
+      const fence = checkVenueUnlock(event, position);
+      if (!fence.ok) {
+        return NextResponse.json(
+          { ok: false, message: fence.message, distanceKm: fence.distanceKm ?? null },
+          { status: 403 }
+        );
+      }
+      distanceKm = fence.distanceKm;
+    }
+
+    const quantity = Number(sale.quantity) || 0;
+    return NextResponse.json(
+      {
+        ok: true,
+        distanceKm,
+        ticket: {
+          id: snap.id,
+          eventId,
+          ticketId: typeof sale.ticketId === "string" ? sale.ticketId : "",
+          ticketTitle: typeof sale.ticketTitle === "string" ? sale.ticketTitle : "",
+          quantity,
+          amount: Number(sale.amount) || 0,
+          checkedInAt: timestampToIso(sale.checkedInAt),
+          qrLocked: false,
+          qrCode: signTicketQr({ saleId: snap.id, eventId, quantity }),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/tickets/[id]/unlock POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to unlock ticket." }, { status: 500 });
+  }
+}
@@ -0,0 +1,226 @@
+import { NextResponse } from "next/server";
+import { authorizeBusiness } from "@/lib/businessAccess";
+import { VEHICLE_PROOF_RULE } from "@/lib/eventUploads";
+import {
+  VEHICLE_PROOF_FOLDER,
+  asVehicleStatus,
+  asVehicleType,
+  normalizeRegistrationNumber,
+  toEventVehicleItem,
+} from "@/lib/eventVehicles";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { getUid } from "@/lib/requestAuth";
+import {
+  checkUpload,
+  createUploadBatch,
+  deleteStoredObjects,
+  ownedObjectPaths,
+  toPrivateMedia,
+} from "@/lib/storageUpload";
+
+export const runtime = "nodejs";
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** The vehicle registered for a booking, readable by the buyer and the event's business. */
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing ticket id." }, { status: 400 });
+  }
+
+  try {
+    const saleSnap = await adminDb.collection("ticketSales").doc(id).get();
+    const sale = saleSnap.data();
+    if (!saleSnap.exists || !sale) {
+      return NextResponse.json({ ok: false, message: "Ticket not found." }, { status: 404 });
+    }
+
+    if (sale.buyerUid !== auth.uid) {
+      const access = await authorizeBusiness(auth, sale.businessId, null);
+      if (!access.ok) return access.response;
+    }
+
+    const vehicleSnap = await adminDb.collection("eventVehicles").doc(id).get();
+    const vehicle = vehicleSnap.exists ? await toEventVehicleItem(vehicleSnap) : null;
+    return NextResponse.json({ ok: true, vehicle }, { status: 200 });
+  } catch (err) {
+    console.error("/api/tickets/[id]/vehicle GET failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to load vehicle." }, { status: 500 });
+  }
+}
+
+/**
+ * Registers (or, until it is approved, replaces) the vehicle for a booking of an event with
+ * `vehicleVerified`. Multipart form: `vehicleType`, `brandId`, `registrationNumber` and a `proof`
+ * photo of the registration certificate. The buyer registers their own booking; walk-in sales
+ * have no buyer account, so a member with `events.write` registers those. Every
+ * submission goes back into the organiser's approval queue.
+ */
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  const params = await context.params;
+  const id = isNonEmptyString(params?.id) ? params.id.trim() : "";
+
+  if (!id) {
+    return NextResponse.json({ ok: false, message: "Missing ticket id." }, { status: 400 });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid form data." }, { status: 400 });
+  }
+
+  const vehicleType = asVehicleType(String(form.get("vehicleType") ?? "").trim());
+  const brandId = String(form.get("brandId") ?? "").trim();
+  const registrationNumber = normalizeRegistrationNumber(form.get("registrationNumber"));
+  const proof = form.get("proof");
+
+  if (!vehicleType) {
+    return NextResponse.json({ ok: false, message: "Invalid vehicle type." }, { status: 400 });
+  }
+  if (!brandId) {
+    return NextResponse.json({ ok: false, message: "Please select a vehicle brand." }, { status: 400 });
+  }
+  if (!registrationNumber) {
+    return NextResponse.json(
+      { ok: false, message: "Please enter a valid registration number." },
+      { status: 400 }
+    );
+  }
+  if (!(proof instanceof File)) {
+    return NextResponse.json({ ok: false, message: "Vehicle proof is required." }, { status: 400 });
+  }
+
+  const proofError = await checkUpload(proof, VEHICLE_PROOF_RULE);
+  if (proofError) {
+    return NextResponse.json({ ok: false, message: proofError }, { status: 400 });
+  }
+
+  try {
+    const saleSnap = await adminDb.collection("ticketSales").doc(id).get();
+    const sale = saleSnap.data();
+    if (!saleSnap.exists || !sale) {
+      return NextResponse.json({ ok: false, message: "Ticket not found." }, { status: 404 });
+    }
+
+    if (sale.buyerUid !== auth.uid) {
+      if (sale.buyerUid) {
+        return NextResponse.json({ ok: false, message: "Ticket not found." }, { status: 404 });
+      }
+      const access = await authorizeBusiness(auth, sale.businessId, "events.write");
+      if (!access.ok) return access.response;
+    }
+
+    const eventId = typeof sale.eventId === "string" ? sale.eventId : "";
+    const eventSnap = eventId ? await adminDb.collection("events").doc(eventId).get() : null;
+    if (eventSnap?.data()?.vehicleVerified !== true) {
+      return NextResponse.json(
+        { ok: false, message: "This event does not require vehicle verification." },
+        { status: 409 }
+      );
+    }
+    if (sale.checkedInAt) {
+      return NextResponse.json(
+        { ok: false, message: "This ticket has already been used." },
+        { status: 409 }
+      );
+    }
+
+    const brandSnap = await adminDb.collection("vehicleBrands").doc(brandId).get();
+    const brand = brandSnap.data();
+    const brandType = asVehicleType(brand?.vehicleType) ?? asVehicleType(brand?.category);
+    if (!brandSnap.exists || !brand || brand.isActive !== true) {
+      return NextResponse.json({ ok: false, message: "Invalid vehicle brand." }, { status: 400 });
+    }
+    if (brandType && brandType !== vehicleType) {
+      return NextResponse.json(
+        { ok: false, message: "This brand does not make that vehicle type." },
+        { status: 400 }
+      );
+    }
+
+    const vehicleRef = adminDb.collection("eventVehicles").doc(id);
+    const existingSnap = await vehicleRef.get();
+    if (existingSnap.exists && asVehicleStatus(existingSnap.data()?.status) === "approved") {
+      return NextResponse.json(
+        { ok: false, message: "This booking's vehicle is already approved." },
+        { status: 409 }
+      );
+    }
+
+    const uploads = createUploadBatch(auth.uid);
+    let saved: { replaced: FirebaseFirestore.DocumentData | null } | { refused: NextResponse };
+    try {
+      const stored = await uploads.upload(proof, { folder: VEHICLE_PROOF_FOLDER, visibility: "private" });
+
+      // The approval check is repeated with the write so a registration approved while the proof
+      // was uploading is never replaced.
+      saved = await adminDb.runTransaction(async (tx) => {
+        const [current, currentSale] = await Promise.all([tx.get(vehicleRef), tx.get(saleSnap.ref)]);
+        const existing = current.data() ?? null;
+        if (existing && asVehicleStatus(existing.status) === "approved") {
+          return {
+            refused: NextResponse.json(
+              { ok: false, message: "This booking's vehicle is already approved." },
+              { status: 409 }
+            ),
+          };
+        }
+        if (currentSale.data()?.checkedInAt) {
+          return {
+            refused: NextResponse.json(
+              { ok: false, message: "This ticket has already been used." },
+              { status: 409 }
+            ),
+          };
+        }
+
+        tx.set(vehicleRef, {
+          eventId,
+          businessId: sale.businessId ?? null,
+          saleId: id,
+          uid: typeof sale.buyerUid === "string" ? sale.buyerUid : "",
+          submittedBy: auth.uid,
+          vehicleType,
+          brandId,
+          brandName: typeof brand.name === "string" ? brand.name.trim() : "",
+          registrationNumber,
+          proof: toPrivateMedia(stored),
+          status: "pending",
+          createdAt: existing?.createdAt ?? FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return { replaced: existing };
+      });
+    } catch (err) {
+      await uploads.discard();
+      throw err;
+    }
+
+    if ("refused" in saved) {
+      await uploads.discard();
+      return saved.refused;
+    }
+    if (saved.replaced) {
+      await deleteStoredObjects(ownedObjectPaths(saved.replaced, [VEHICLE_PROOF_FOLDER]));
+    }
+
+    const vehicle = await toEventVehicleItem(await vehicleRef.get());
+    return NextResponse.json({ ok: true, vehicle }, { status: 200 });
+  } catch (err) {
+    console.error("/api/tickets/[id]/vehicle POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to register vehicle." }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { requireBusinessAccess, requireOwnedBusiness } from "@/lib/businessAccess";
+import {
+  asDirectUploadPurpose,
+  createUploadSession,
+  sweepExpiredUploadSessions,
+} from "@/lib/directUpload";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getUid, requireRole } from "@/lib/requestAuth";
+
+export const runtime = "nodejs";
+
+/**
+ * Starts a direct-to-storage upload. Event videos need `events.write` on the active business;
+ * KYC videos can only be uploaded by the business owner, for one of the business's locations.
+ */
+export async function POST(request: Request) {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ ok: false, message: "Invalid request body." }, { status: 400 });
+  }
+
+  const obj = body as Record<string, unknown>;
+  const purpose = asDirectUploadPurpose(obj.purpose);
+  const fileName = typeof obj.fileName === "string" ? obj.fileName.trim() : "";
+  const contentType = typeof obj.contentType === "string" ? obj.contentType.trim() : "";
+  const size = typeof obj.size === "number" ? obj.size : NaN;
+  const locationId = typeof obj.locationId === "string" ? obj.locationId.trim() : "";
+
+  if (!purpose) {
+    return NextResponse.json({ ok: false, message: "Invalid upload purpose." }, { status: 400 });
+  }
+
+  let businessId: string;
+  if (purpose === "eventVideo") {
+    const access = await requireBusinessAccess(request, auth, "events.write");
+    if (!access.ok) return access.response;
+    businessId = access.businessId;
+  } else {
+    const role = requireRole(auth, "owner");
+    if (!role.ok) return role.response;
+    const owned = await requireOwnedBusiness(request, auth);
+    if (!owned.ok) return owned.response;
+    businessId = owned.businessId;
+  }
+
+  try {
+    if (purpose === "kycLocation") {
+      const locationSnap = locationId
+        ? await adminDb.collection("businessLocations").doc(locationId).get()
+        : null;
+      if (!locationSnap?.exists || locationSnap.data()?.businessId !== businessId) {
+        return NextResponse.json({ ok: false, message: "Unknown business location." }, { status: 400 });
+      }
+    }
+
+    const session = await createUploadSession({
+      uid: auth.uid,
+      businessId,
+      purpose,
+      locationId: purpose === "kycLocation" ? locationId : "",
+      fileName,
+      contentType,
+      size,
+      origin: request.headers.get("origin") ?? "",
+    });
+
+    if (!session.ok) {
+      return NextResponse.json({ ok: false, message: session.message }, { status: 400 });
+    }
+
+    await sweepExpiredUploadSessions().catch((err) =>
+      console.error("/api/uploads POST could not sweep expired upload sessions", err)
+    );
+
+    return NextResponse.json(
+      { ok: true, uploadId: session.uploadId, uploadUrl: session.uploadUrl },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("/api/uploads POST failed", err);
+    return NextResponse.json({ ok: false, message: "Failed to start upload." }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import RichTextEditor from "@/components/RichTextEditor";
 import { useRouter } from "next/navigation";
 import { CloseCircle } from "iconsax-react";
 import { useEffect, useId, useMemo, useState, type FormEvent } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
 
 type FieldErrors = {
   images?: string;
@@ -120,6 +121,7 @@ export default function CatalogueCreatePage() {
       const res = await fetch("/api/catalogue", {
         method: "POST",
         headers: {
+          ...activeBusinessHeaders(),
           Authorization: `Bearer ${token}`,
         },
         body: form,
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CAMPAIGN_ACTION_LABELS,
+  campaignActions,
+  campaignPhase,
+  type AdCampaign,
+  type CampaignAction,
+} from "./types";
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+/** Pause / resume / stop buttons for a campaign; reports the updated campaign to the parent. */
+export default function CampaignActions({
+  campaign,
+  onUpdated,
+}: {
+  campaign: AdCampaign;
+  onUpdated: (campaign: AdCampaign) => void;
+}) {
+  const [busy, setBusy] = useState<CampaignAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const actions = campaignActions(campaignPhase(campaign));
+  if (!actions.length) return null;
+
+  const run = async (action: CampaignAction) => {
+    if (busy) return;
+    if (action === "stop") {
+      const confirmed = window.confirm("Stop this campaign? It cannot be restarted.");
+      if (!confirmed) return;
+    }
+
+    const token = readToken();
+    if (!token) {
+      setError("Missing authentication token.");
+      return;
+    }
+
+    setBusy(action);
+    setError(null);
+    try {
+      const res = await fetch(`/api/ads/${encodeURIComponent(campaign.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ action }),
+      });
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; campaign?: AdCampaign; message?: string }
+        | null;
+
+      if (!res.ok || !data?.ok || !data.campaign) {
+        setError(data?.message || "Failed to update campaign.");
+        return;
+      }
+      onUpdated(data.campaign);
+    } catch {
+      setError("Failed to update campaign.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap gap-2">
+        {actions.map((action) => (
+          <button
+            key={action}
+            type="button"
+            disabled={busy !== null}
+            className={
+              action === "stop"
+                ? "h-9 rounded-xl border border-rose-500/20 bg-white px-3 text-sm font-semibold text-rose-700 shadow-sm transition hover:bg-rose-50 disabled:opacity-60"
+                : "h-9 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 disabled:opacity-60"
+            }
+            onClick={() => void run(action)}
+          >
+            {busy === action ? "Saving…" : CAMPAIGN_ACTION_LABELS[action]}
+          </button>
+        ))}
+      </div>
+      {error ? <div className="text-sm text-rose-700">{error}</div> : null}
+    </div>
+  );
+}
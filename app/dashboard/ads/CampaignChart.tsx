@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatMoney, visitsLabel, type AdCampaign, type AdDailyPoint } from "./types";
+
+type Metric = "impressions" | "clicks" | "visits" | "spend";
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatDay(day: string) {
+  const d = new Date(`${day}T00:00:00Z`);
+  if (Number.isNaN(d.getTime())) return day;
+  return d.toLocaleDateString("en-US", { month: "short", day: "2-digit", timeZone: "UTC" });
+}
+
+/**
+ * Day-by-day bars for one campaign. Loads its own series so the list only pays for the campaigns
+ * that are expanded; pass `daily` when the caller already has it.
+ */
+export default function CampaignChart({
+  campaign,
+  daily: initialDaily,
+}: {
+  campaign: Pick<AdCampaign, "id" | "goal">;
+  daily?: AdDailyPoint[];
+}) {
+  const [metric, setMetric] = useState<Metric>("impressions");
+  const [fetchedDaily, setFetchedDaily] = useState<AdDailyPoint[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialDaily) return;
+
+    const token = readToken();
+    const controller = new AbortController();
+    const run = async () => {
+      if (!token) {
+        setError("Missing authentication token.");
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/ads/${encodeURIComponent(campaign.id)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; daily?: AdDailyPoint[]; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !Array.isArray(data.daily)) {
+          setError(data?.message || "Failed to load performance.");
+          return;
+        }
+        setFetchedDaily(data.daily);
+      } catch {
+        if (controller.signal.aborted) return;
+        setError("Failed to load performance.");
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [campaign.id, initialDaily]);
+
+  const daily = initialDaily ?? fetchedDaily;
+  const metrics: Array<{ value: Metric; label: string }> = [
+    { value: "impressions", label: "Impressions" },
+    { value: "clicks", label: "Clicks" },
+    { value: "visits", label: visitsLabel(campaign.goal) },
+    { value: "spend", label: "Spend" },
+  ];
+
+  const max = daily ? Math.max(0, ...daily.map((point) => point[metric])) : 0;
+  const formatValue = (value: number) =>
+    metric === "spend" ? formatMoney(value) : value.toLocaleString("en-IN");
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {metrics.map((m) => (
+          <button
+            key={m.value}
+            type="button"
+            className={
+              metric === m.value
+                ? "h-8 rounded-full bg-zinc-950 px-3 text-xs font-semibold text-white"
+                : "h-8 rounded-full border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-700 hover:bg-zinc-50"
+            }
+            onClick={() => setMetric(m.value)}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {error ? (
+        <div className="mt-3 rounded-xl border border-rose-500/20 bg-rose-500/10 px-3 py-2 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : !daily ? (
+        <div className="mt-3 text-sm text-zinc-600">Loading…</div>
+      ) : !daily.length ? (
+        <div className="mt-3 text-sm text-zinc-600">No delivery yet.</div>
+      ) : (
+        <div className="mt-4 flex h-40 items-end gap-1 overflow-x-auto">
+          {daily.map((point) => {
+            const value = point[metric];
+            const height = max > 0 ? Math.max(2, Math.round((value / max) * 100)) : 2;
+            return (
+              <div
+                key={point.day}
+                className="flex h-full min-w-6 flex-1 flex-col items-center justify-end gap-1"
+                title={`${formatDay(point.day)}: ${formatValue(value)}`}
+              >
+                <div className="flex w-full flex-1 items-end">
+                  <div className="w-full rounded-t bg-zinc-900/80" style={{ height: `${height}%` }} />
+                </div>
+                <div className="text-[10px] text-zinc-500">{formatDay(point.day)}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import CampaignActions from "../CampaignActions";
+import CampaignChart from "../CampaignChart";
+import {
+  AD_GOAL_LABELS,
+  AD_TYPE_LABELS,
+  CAMPAIGN_PHASE_LABELS,
+  DELIVERY_NOTES,
+  campaignPhase,
+  formatMoney,
+  phaseBadgeClass,
+  visitsLabel,
+  type AdCampaign,
+  type AdDailyPoint,
+} from "../types";
+import { pricingModelLabel } from "@/lib/adPricing";
+import { SCRATCH_REWARD_KIND_LABELS } from "@/lib/scratchRewards";
+
+function formatDateTime(value?: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+export default function DashboardAdCampaignPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const id = typeof params?.id === "string" ? params.id : "";
+
+  const [campaign, setCampaign] = useState<AdCampaign | null>(null);
+  const [daily, setDaily] = useState<AdDailyPoint[]>([]);
+  const [loadState, setLoadState] = useState<
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "error"; message: string }
+  >({ status: "loading" });
+
+  useEffect(() => {
+    const token = readToken();
+
+    const controller = new AbortController();
+    const run = async () => {
+      if (!id) {
+        setLoadState({ status: "error", message: "Missing campaign id." });
+        return;
+      }
+
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/ads/${encodeURIComponent(id)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; campaign?: AdCampaign; daily?: AdDailyPoint[]; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !data.campaign) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load campaign." });
+          return;
+        }
+
+        setCampaign(data.campaign);
+        setDaily(Array.isArray(data.daily) ? data.daily : []);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load campaign." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [id]);
+
+  const phase = campaign ? campaignPhase(campaign) : null;
+
+  return (
+    <div className="mx-auto w-full max-w-3xl px-4 py-10 sm:px-6 sm:py-14">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Ad campaign</h1>
+          <p className="mt-1 text-sm text-zinc-600">Follow how your boosted catalogue is doing.</p>
+        </div>
+
+        <button
+          type="button"
+          className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+          onClick={() => router.push("/dashboard/ads")}
+        >
+          All ads
+        </button>
+      </div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+          Loading…
+        </div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {loadState.message}
+        </div>
+      ) : null}
+
+      {loadState.status === "idle" && campaign && phase ? (
+        <div className="mt-6 grid gap-4">
+          <div className="overflow-hidden rounded-2xl border border-zinc-900/10 bg-white shadow-sm">
+            {campaign.catalogueImageUrl ? (
+              <div className="aspect-[16/7] w-full bg-zinc-100">
+                <img
+                  src={campaign.catalogueImageUrl}
+                  alt={campaign.catalogueTitle || "Catalogue"}
+                  className="h-full w-full object-cover"
+                  loading="lazy"
+                  decoding="async"
+                  referrerPolicy="no-referrer"
+                />
+              </div>
+            ) : null}
+
+            <div className="border-b border-zinc-900/10 p-4 sm:p-6">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <div className="text-xs font-medium text-zinc-500">Catalogue</div>
+                  <button
+                    type="button"
+                    className="mt-1 text-left text-lg font-semibold text-zinc-950 hover:underline"
+                    onClick={() =>
+                      router.push(`/dashboard/catalogue/${encodeURIComponent(campaign.catalogueId)}`)
+                    }
+                  >
+                    {campaign.catalogueTitle || "Untitled"}
+                  </button>
+                </div>
+                <div
+                  className={`inline-flex w-fit items-center rounded-full border px-3 py-1 text-xs font-semibold ${phaseBadgeClass(
+                    phase
+                  )}`}
+                >
+                  {CAMPAIGN_PHASE_LABELS[phase]}
+                </div>
+              </div>
+
+              {phase === "running" && campaign.delivery && DELIVERY_NOTES[campaign.delivery] ? (
+                <div className="mt-3 text-xs text-zinc-600">{DELIVERY_NOTES[campaign.delivery]}</div>
+              ) : null}
+
+              <div className="mt-4">
+                <CampaignActions campaign={campaign} onUpdated={setCampaign} />
+              </div>
+
+              <div className="mt-4 grid gap-2 text-sm text-zinc-700 sm:grid-cols-2">
+                <div>
+                  <span className="font-medium text-zinc-900">Ads type:</span> {AD_TYPE_LABELS[campaign.adType]}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Goal:</span> {AD_GOAL_LABELS[campaign.goal]}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Total budget:</span> {formatMoney(campaign.budget)}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Daily budget:</span>{" "}
+                  {formatMoney(campaign.dailyBudget)}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Bid:</span> {formatMoney(campaign.bid)}{" "}
+                  {pricingModelLabel(campaign.pricingModel)}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Created:</span>{" "}
+                  {formatDateTime(campaign.createdAt)}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Starts:</span> {formatDateTime(campaign.startsAt)}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Ends:</span> {formatDateTime(campaign.endsAt)}
+                </div>
+                {campaign.websiteUrl ? (
+                  <div className="sm:col-span-2">
+                    <span className="font-medium text-zinc-900">Website:</span> {campaign.websiteUrl}
+                  </div>
+                ) : null}
+              </div>
+            </div>
+
+            <div className="border-b border-zinc-900/10 p-4 sm:p-6">
+              <div className="text-sm font-semibold text-zinc-950">Performance</div>
+              <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+                {[
+                  { label: "Spend", value: formatMoney(campaign.stats?.spend ?? 0) },
+                  { label: "Impressions", value: (campaign.stats?.impressions ?? 0).toLocaleString("en-IN") },
+                  { label: "Clicks", value: (campaign.stats?.clicks ?? 0).toLocaleString("en-IN") },
+                  {
+                    label: visitsLabel(campaign.goal),
+                    value: (campaign.stats?.visits ?? 0).toLocaleString("en-IN"),
+                  },
+                ].map((metric) => (
+                  <div key={metric.label} className="rounded-xl border border-zinc-900/10 p-3">
+                    <div className="text-xs font-medium text-zinc-500">{metric.label}</div>
+                    <div className="mt-1 text-sm font-semibold text-zinc-950">{metric.value}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4">
+                <CampaignChart campaign={campaign} daily={daily} />
+              </div>
+            </div>
+
+            {campaign.reward ? (
+              <div className="border-b border-zinc-900/10 p-4 sm:p-6">
+                <div className="text-sm font-semibold text-zinc-950">Scratch reward</div>
+                <div className="mt-3 grid gap-2 text-sm text-zinc-700 sm:grid-cols-2">
+                  <div className="sm:col-span-2">
+                    <span className="font-medium text-zinc-900">
+                      {SCRATCH_REWARD_KIND_LABELS[campaign.reward.kind]}:
+                    </span>{" "}
+                    {campaign.reward.title}
+                    {campaign.reward.couponCode ? ` (${campaign.reward.couponCode})` : ""}
+                    {campaign.reward.percentOff ? ` (${campaign.reward.percentOff}% off)` : ""}
+                  </div>
+                  {campaign.reward.details ? (
+                    <div className="sm:col-span-2 text-zinc-600">{campaign.reward.details}</div>
+                  ) : null}
+                  <div>
+                    <span className="font-medium text-zinc-900">Winning odds:</span> {campaign.reward.winPercent}%
+                  </div>
+                  <div>
+                    <span className="font-medium text-zinc-900">Valid for:</span> {campaign.reward.validDays} days
+                  </div>
+                  <div>
+                    <span className="font-medium text-zinc-900">Won:</span> {campaign.rewardsIssued} of{" "}
+                    {campaign.reward.quantity}
+                  </div>
+                  <div>
+                    <span className="font-medium text-zinc-900">Redeemed:</span> {campaign.rewardsRedeemed}
+                  </div>
+                </div>
+              </div>
+            ) : null}
+
+            <div className="p-4 sm:p-6">
+              <div className="text-sm font-semibold text-zinc-950">Target locations</div>
+              {campaign.targetLocations.length ? (
+                <div className="mt-3 grid gap-2">
+                  {campaign.targetLocations.map((loc, idx) => (
+                    <div
+                      key={`${loc.locationId}_${idx}`}
+                      className="flex items-start justify-between gap-3 rounded-xl border border-zinc-900/10 p-3 text-sm"
+                    >
+                      <div className="min-w-0 text-zinc-900">{loc.label || "Custom area"}</div>
+                      <div className="shrink-0 text-xs text-zinc-600">{loc.radiusKm} km</div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="mt-2 text-sm text-zinc-600">Everywhere.</div>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,8 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import CampaignActions from "./CampaignActions";
+import CampaignChart from "./CampaignChart";
+import {
+  AD_GOAL_LABELS,
+  AD_TYPE_LABELS,
+  CAMPAIGN_PHASE_LABELS,
+  DELIVERY_NOTES,
+  campaignPhase,
+  formatMoney,
+  phaseBadgeClass,
+  visitsLabel,
+  type AdCampaign,
+} from "./types";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+
+const NO_STATS = { impressions: 0, clicks: 0, visits: 0, spend: 0 };
+
+function formatDate(value?: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "2-digit" });
+}
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
 export default function DashboardAdsPage() {
+  const router = useRouter();
+
+  const [campaigns, setCampaigns] = useState<AdCampaign[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loadState, setLoadState] = useState<
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "error"; message: string }
+  >({ status: "loading" });
+
+  useEffect(() => {
+    const token = readToken();
+
+    const controller = new AbortController();
+    const run = async () => {
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      try {
+        const res = await fetch("/api/ads", {
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; campaigns?: AdCampaign[]; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !Array.isArray(data.campaigns)) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load campaigns." });
+          return;
+        }
+
+        setCampaigns(data.campaigns);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load campaigns." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, []);
+
+  const replaceCampaign = (updated: AdCampaign) => {
+    setCampaigns((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+  };
+
   return (
     <div className="mx-auto w-full max-w-6xl px-4 py-10 sm:px-6 sm:py-14">
-      <h1 className="text-2xl font-semibold tracking-tight">Ads</h1>
-      <p className="mt-2 text-sm text-zinc-600">Coming soon.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Ads</h1>
+          <p className="mt-1 text-sm text-zinc-600">Your boosted catalogue items and how they perform.</p>
+        </div>
+
+        <div className="flex shrink-0 gap-2">
+          <button
+            type="button"
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+            onClick={() => router.push("/dashboard/ads/redeem")}
+          >
+            Redeem reward
+          </button>
+          <button
+            type="button"
+            className="h-10 rounded-xl bg-zinc-950 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800"
+            onClick={() => router.push("/dashboard/catalogue")}
+          >
+            Boost an item
+          </button>
+        </div>
+      </div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+          Loading…
+        </div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {loadState.message}
+        </div>
+      ) : null}
+
+      {loadState.status === "idle" && !campaigns.length ? (
+        <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white px-4 py-6 text-sm text-zinc-600 shadow-sm">
+          No campaigns yet. Boost a verified catalogue item to reach more customers.
+        </div>
+      ) : null}
+
+      {loadState.status === "idle" && campaigns.length ? (
+        <div className="mt-6 grid gap-4">
+          {campaigns.map((campaign) => {
+            const phase = campaignPhase(campaign);
+            const stats = campaign.stats ?? NO_STATS;
+            const expanded = expandedId === campaign.id;
+
+            return (
+              <div
+                key={campaign.id}
+                className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6"
+              >
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="min-w-0">
+                    <button
+                      type="button"
+                      className="text-left text-lg font-semibold text-zinc-950 hover:underline"
+                      onClick={() => router.push(`/dashboard/ads/${encodeURIComponent(campaign.id)}`)}
+                    >
+                      {campaign.catalogueTitle || "Untitled"}
+                    </button>
+                    <div className="mt-1 text-xs text-zinc-600">
+                      {AD_TYPE_LABELS[campaign.adType]} · {AD_GOAL_LABELS[campaign.goal]} ·{" "}
+                      {formatDate(campaign.startsAt)} – {formatDate(campaign.endsAt)}
+                    </div>
+                    {phase === "running" && campaign.delivery && DELIVERY_NOTES[campaign.delivery] ? (
+                      <div className="mt-1 text-xs text-zinc-500">{DELIVERY_NOTES[campaign.delivery]}</div>
+                    ) : null}
+                  </div>
+                  <div
+                    className={`inline-flex w-fit shrink-0 items-center rounded-full border px-3 py-1 text-xs font-semibold ${phaseBadgeClass(
+                      phase
+                    )}`}
+                  >
+                    {CAMPAIGN_PHASE_LABELS[phase]}
+                  </div>
+                </div>
+
+                <div className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  {[
+                    { label: "Spend", value: `${formatMoney(stats.spend)} / ${formatMoney(campaign.budget)}` },
+                    { label: "Impressions", value: stats.impressions.toLocaleString("en-IN") },
+                    { label: "Clicks", value: stats.clicks.toLocaleString("en-IN") },
+                    { label: visitsLabel(campaign.goal), value: stats.visits.toLocaleString("en-IN") },
+                  ].map((metric) => (
+                    <div key={metric.label} className="rounded-xl border border-zinc-900/10 p-3">
+                      <div className="text-xs font-medium text-zinc-500">{metric.label}</div>
+                      <div className="mt-1 text-sm font-semibold text-zinc-950">{metric.value}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-start justify-between gap-3">
+                  <CampaignActions campaign={campaign} onUpdated={replaceCampaign} />
+                  <button
+                    type="button"
+                    className="h-9 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+                    onClick={() => setExpandedId(expanded ? null : campaign.id)}
+                  >
+                    {expanded ? "Hide chart" : "Show chart"}
+                  </button>
+                </div>
+
+                {expanded ? (
+                  <div className="mt-4 border-t border-zinc-900/10 pt-4">
+                    <CampaignChart campaign={campaign} />
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
     </div>
   );
 }
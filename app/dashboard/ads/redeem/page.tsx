@@ -0,0 +1,221 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import type { AdReward } from "../types";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { SCRATCH_REWARD_KIND_LABELS } from "@/lib/scratchRewards";
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatDateTime(value?: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function rewardState(reward: AdReward) {
+  if (reward.status === "redeemed") return "used" as const;
+  const expires = new Date(reward.expiresAt).getTime();
+  return Number.isFinite(expires) && expires <= Date.now() ? ("expired" as const) : ("valid" as const);
+}
+
+export default function RedeemRewardPage() {
+  const router = useRouter();
+
+  const [code, setCode] = useState("");
+  const [reward, setReward] = useState<AdReward | null>(null);
+  const [busy, setBusy] = useState<"check" | "redeem" | null>(null);
+  const [notice, setNotice] = useState<{ tone: "error" | "success"; message: string } | null>(null);
+
+  const request = async (method: "GET" | "POST") => {
+    const token = readToken();
+    if (!token) {
+      setNotice({ tone: "error", message: "Missing authentication token." });
+      return null;
+    }
+
+    const path =
+      method === "GET"
+        ? `/api/ads/rewards/${encodeURIComponent(code.trim())}`
+        : `/api/ads/rewards/${encodeURIComponent(code.trim())}/redeem`;
+    const res = await fetch(path, {
+      method,
+      headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+    });
+    const data = (await res.json().catch(() => null)) as
+      | { ok?: boolean; reward?: AdReward | null; message?: string }
+      | null;
+    return { res, data };
+  };
+
+  const check = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || busy) return;
+
+    setBusy("check");
+    setNotice(null);
+    setReward(null);
+    try {
+      const result = await request("GET");
+      if (!result) return;
+      const { res, data } = result;
+      if (!res.ok || !data?.ok || !data.reward) {
+        setNotice({ tone: "error", message: data?.message || "Failed to check reward." });
+        return;
+      }
+      setReward(data.reward);
+    } catch {
+      setNotice({ tone: "error", message: "Failed to check reward." });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const redeem = async () => {
+    if (!reward || busy) return;
+
+    setBusy("redeem");
+    setNotice(null);
+    try {
+      const result = await request("POST");
+      if (!result) return;
+      const { res, data } = result;
+      if (data?.reward) setReward(data.reward);
+      if (!res.ok || !data?.ok) {
+        setNotice({ tone: "error", message: data?.message || "Failed to redeem reward." });
+        return;
+      }
+      setNotice({ tone: "success", message: data.message || "Reward redeemed." });
+    } catch {
+      setNotice({ tone: "error", message: "Failed to redeem reward." });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const state = reward ? rewardState(reward) : null;
+
+  return (
+    <div className="mx-auto w-full max-w-xl px-4 py-10 sm:px-6 sm:py-14">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Redeem reward</h1>
+          <p className="mt-1 text-sm text-zinc-600">Check a customer&apos;s scratch-card code and mark it used.</p>
+        </div>
+
+        <button
+          type="button"
+          className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+          onClick={() => router.push("/dashboard/ads")}
+        >
+          All ads
+        </button>
+      </div>
+
+      <form className="mt-6 flex gap-2" onSubmit={check}>
+        <input
+          type="text"
+          autoComplete="off"
+          placeholder="Reward code"
+          className="h-10 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm uppercase tracking-widest text-zinc-950 shadow-sm outline-none"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={busy !== null}
+        />
+        <button
+          type="submit"
+          className="h-10 rounded-xl bg-zinc-950 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-60"
+          disabled={busy !== null || !code.trim()}
+        >
+          {busy === "check" ? "Checking…" : "Check"}
+        </button>
+      </form>
+
+      {notice ? (
+        <div
+          className={
+            notice.tone === "error"
+              ? "mt-4 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm"
+              : "mt-4 rounded-2xl border border-emerald-500/20 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-700 shadow-sm"
+          }
+        >
+          {notice.message}
+        </div>
+      ) : null}
+
+      {reward && state ? (
+        <div className="mt-4 rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="text-xs font-medium text-zinc-500">
+                {SCRATCH_REWARD_KIND_LABELS[reward.kind]}
+                {reward.catalogueTitle ? ` · ${reward.catalogueTitle}` : ""}
+              </div>
+              <div className="mt-1 text-lg font-semibold text-zinc-950">{reward.title}</div>
+            </div>
+            <div
+              className={
+                state === "valid"
+                  ? "inline-flex shrink-0 items-center rounded-full border border-emerald-500/20 bg-emerald-500/10 px-3 py-1 text-xs font-semibold text-emerald-700"
+                  : "inline-flex shrink-0 items-center rounded-full border border-zinc-900/10 bg-zinc-100 px-3 py-1 text-xs font-semibold text-zinc-700"
+              }
+            >
+              {state === "valid" ? "Valid" : state === "used" ? "Used" : "Expired"}
+            </div>
+          </div>
+
+          <div className="mt-4 grid gap-2 text-sm text-zinc-700">
+            {reward.couponCode ? (
+              <div>
+                <span className="font-medium text-zinc-900">Coupon code:</span> {reward.couponCode}
+              </div>
+            ) : null}
+            {reward.percentOff ? (
+              <div>
+                <span className="font-medium text-zinc-900">Discount:</span> {reward.percentOff}% off
+              </div>
+            ) : null}
+            {reward.details ? <div className="text-zinc-600">{reward.details}</div> : null}
+            <div>
+              <span className="font-medium text-zinc-900">Won:</span> {formatDateTime(reward.createdAt)}
+            </div>
+            {state === "used" ? (
+              <div>
+                <span className="font-medium text-zinc-900">Used:</span> {formatDateTime(reward.redeemedAt)}
+              </div>
+            ) : (
+              <div>
+                <span className="font-medium text-zinc-900">Expires:</span> {formatDateTime(reward.expiresAt)}
+              </div>
+            )}
+          </div>
+
+          {state === "valid" ? (
+            <button
+              type="button"
+              className="mt-5 h-10 w-full rounded-xl bg-zinc-950 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-60"
+              disabled={busy !== null}
+              onClick={() => void redeem()}
+            >
+              {busy === "redeem" ? "Saving…" : "Mark as used"}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
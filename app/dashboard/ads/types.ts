@@ -0,0 +1,82 @@
+import type { AdCampaignItem, AdGoal, AdType } from "@/lib/adCampaigns";
+import type { DeliveryBlock } from "@/lib/adPacing";
+import type { AdRewardItem } from "@/lib/adRewards";
+import type { AdDailyStats, AdStats } from "@/lib/adStats";
+
+export type AdCampaign = AdCampaignItem & { stats?: AdStats; delivery?: DeliveryBlock | null };
+
+export type AdDailyPoint = AdDailyStats;
+
+export type AdReward = AdRewardItem;
+
+export type CampaignAction = "pause" | "resume" | "stop";
+
+export const AD_TYPE_LABELS: Record<AdType, string> = {
+  carousel: "Carousel Ads",
+  scratch: "Scratch Ads",
+};
+
+export const AD_GOAL_LABELS: Record<AdGoal, string> = {
+  shop_visit: "Shop visit",
+  website_visit: "Website visit",
+};
+
+/** Where a campaign is in its life, combining the business's status with the schedule. */
+export type CampaignPhase = "scheduled" | "running" | "paused" | "exhausted" | "ended";
+
+export const CAMPAIGN_PHASE_LABELS: Record<CampaignPhase, string> = {
+  scheduled: "Scheduled",
+  running: "Running",
+  paused: "Paused",
+  exhausted: "Budget spent",
+  ended: "Ended",
+};
+
+/** Explains why a running campaign is holding back delivery. */
+export const DELIVERY_NOTES: Partial<Record<DeliveryBlock, string>> = {
+  daily_budget_reached: "Today's budget is spent; delivery resumes tomorrow.",
+  ahead_of_pace: "Spending is paced evenly across the schedule; delivery resumes shortly.",
+};
+
+export function campaignPhase(
+  campaign: Pick<AdCampaign, "status" | "startsAt" | "endsAt" | "budgetExhausted">,
+  now = Date.now()
+): CampaignPhase {
+  // Campaigns are stopped automatically once their budget is spent.
+  if (campaign.budgetExhausted) return "exhausted";
+  if (campaign.status === "stopped") return "ended";
+  const end = new Date(campaign.endsAt).getTime();
+  if (Number.isFinite(end) && now > end) return "ended";
+  if (campaign.status === "paused") return "paused";
+  const start = new Date(campaign.startsAt).getTime();
+  if (Number.isFinite(start) && now < start) return "scheduled";
+  return "running";
+}
+
+/** Actions the business can take on a campaign in this phase. */
+export function campaignActions(phase: CampaignPhase): CampaignAction[] {
+  if (phase === "running" || phase === "scheduled") return ["pause", "stop"];
+  if (phase === "paused") return ["resume", "stop"];
+  return [];
+}
+
+export const CAMPAIGN_ACTION_LABELS: Record<CampaignAction, string> = {
+  pause: "Pause",
+  resume: "Resume",
+  stop: "Stop",
+};
+
+export function visitsLabel(goal: AdGoal) {
+  return goal === "website_visit" ? "Website visits" : "Shop visits";
+}
+
+export function formatMoney(value: number) {
+  return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+export function phaseBadgeClass(phase: CampaignPhase) {
+  if (phase === "scheduled") return "border-sky-500/20 bg-sky-500/10 text-sky-700";
+  if (phase === "paused") return "border-yellow-500/20 bg-yellow-500/10 text-yellow-700";
+  if (phase === "ended" || phase === "exhausted") return "border-zinc-900/10 bg-zinc-100 text-zinc-700";
+  return "border-emerald-500/20 bg-emerald-500/10 text-emerald-700";
+}
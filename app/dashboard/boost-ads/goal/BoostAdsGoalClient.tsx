@@ -2,6 +2,13 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { AD_PRICING, MIN_AD_DAILY_BUDGET, pricingModelLabel } from "@/lib/adPricing";
+import {
+  SCRATCH_REWARD_KINDS,
+  SCRATCH_REWARD_KIND_LABELS,
+  type ScratchRewardKind,
+} from "@/lib/scratchRewards";
 
 type BusinessType = "online" | "offline" | "both";
 
@@ -11,11 +18,18 @@ type CatalogueItem = {
   title?: string;
 };
 
+type BusinessLocation = {
+  id: string;
+  fullAddress?: string;
+  geo?: { lat: number; lng: number };
+};
+
 type RegisterResponse = {
   ok?: boolean;
   business?: {
     businessType?: string;
     website?: string;
+    businessLocations?: BusinessLocation[];
   } | null;
 };
 
@@ -36,11 +50,27 @@ function asBusinessType(value: unknown): BusinessType | null {
   return value === "online" || value === "offline" || value === "both" ? value : null;
 }
 
+const DEFAULT_RADIUS_KM = "5";
+
+/** `datetime-local` value for `date` in the browser's time zone. */
+function toLocalInputValue(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
+
+function localInputToIso(value: string) {
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? "" : d.toISOString();
+}
+
 export default function BoostAdsGoalClient() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const catalogueId = searchParams.get("catalogueId") ?? "";
   const adsType = searchParams.get("adsType") ?? "";
+  const pricing = adsType === "carousel" || adsType === "scratch" ? AD_PRICING[adsType] : null;
 
   const token = useMemo(() => {
     try {
@@ -53,6 +83,27 @@ export default function BoostAdsGoalClient() {
   const [item, setItem] = useState<CatalogueItem | null>(null);
   const [businessType, setBusinessType] = useState<BusinessType | null>(null);
   const [goal, setGoal] = useState<GoalType | null>(null);
+  const [website, setWebsite] = useState("");
+  const [locations, setLocations] = useState<BusinessLocation[]>([]);
+
+  const [budget, setBudget] = useState("1000");
+  const [dailyBudget, setDailyBudget] = useState("200");
+  const [bid, setBid] = useState(() => (pricing ? String(pricing.defaultBid) : ""));
+  const [startsAt, setStartsAt] = useState(() => toLocalInputValue(new Date()));
+  const [endsAt, setEndsAt] = useState(() =>
+    toLocalInputValue(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000))
+  );
+  const [rewardKind, setRewardKind] = useState<ScratchRewardKind>("percent_off");
+  const [rewardTitle, setRewardTitle] = useState("");
+  const [couponCode, setCouponCode] = useState("");
+  const [percentOff, setPercentOff] = useState("10");
+  const [rewardDetails, setRewardDetails] = useState("");
+  const [winPercent, setWinPercent] = useState("10");
+  const [rewardQuantity, setRewardQuantity] = useState("100");
+  const [rewardValidDays, setRewardValidDays] = useState("7");
+  const [targetRadius, setTargetRadius] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState("");
 
   const [catalogueLoadState, setCatalogueLoadState] = useState<LoadState>(() => {
     if (!catalogueId) return { status: "error", message: "Missing catalogue id." };
@@ -119,7 +170,7 @@ export default function BoostAdsGoalClient() {
       try {
         const res = await fetch("/api/register", {
           method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
           signal: controller.signal,
         });
 
@@ -131,6 +182,12 @@ export default function BoostAdsGoalClient() {
 
         const resolvedType = asBusinessType(data.business?.businessType);
         setBusinessType(resolvedType);
+        setWebsite(typeof data.business?.website === "string" ? data.business.website : "");
+        setLocations(
+          Array.isArray(data.business?.businessLocations)
+            ? data.business.businessLocations.filter((loc) => Boolean(loc.id && loc.geo))
+            : []
+        );
 
         setBusinessLoadState({ status: "idle" });
       } catch {
@@ -186,6 +243,74 @@ export default function BoostAdsGoalClient() {
     return [];
   }, [businessType]);
 
+  const toggleTarget = (locationId: string) => {
+    setTargetRadius((prev) => {
+      const next = { ...prev };
+      if (locationId in next) delete next[locationId];
+      else next[locationId] = DEFAULT_RADIUS_KM;
+      return next;
+    });
+  };
+
+  const launch = async () => {
+    if (!token || !goal || !adsType || submitting) return;
+
+    setSubmitting(true);
+    setSubmitError("");
+    try {
+      const res = await fetch("/api/ads", {
+        method: "POST",
+        headers: {
+          ...activeBusinessHeaders(),
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          catalogueId,
+          adType: adsType,
+          goal,
+          budget: Number(budget),
+          dailyBudget: Number(dailyBudget),
+          bid: Number(bid),
+          startsAt: localInputToIso(startsAt),
+          endsAt: localInputToIso(endsAt),
+          targetLocations: Object.entries(targetRadius).map(([locationId, radiusKm]) => ({
+            locationId,
+            radiusKm: Number(radiusKm),
+          })),
+          ...(adsType === "scratch"
+            ? {
+                reward: {
+                  kind: rewardKind,
+                  title: rewardTitle,
+                  couponCode,
+                  percentOff: Number(percentOff),
+                  details: rewardDetails,
+                  winPercent: Number(winPercent),
+                  quantity: Number(rewardQuantity),
+                  validDays: Number(rewardValidDays),
+                },
+              }
+            : {}),
+        }),
+      });
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; id?: string; message?: string }
+        | null;
+
+      if (!res.ok || !data?.ok || !data.id) {
+        setSubmitError(data?.message || "Failed to create campaign.");
+        return;
+      }
+
+      router.replace(`/dashboard/ads/${encodeURIComponent(data.id)}`);
+    } catch {
+      setSubmitError("Failed to create campaign.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
     <div className="mx-auto w-full max-w-3xl px-4 py-10 sm:px-6 sm:py-14">
       <div className="flex items-start justify-between gap-4">
@@ -291,6 +416,278 @@ export default function BoostAdsGoalClient() {
                 </div>
               )}
 
+              {goal ? (
+                <div className="mt-6 grid gap-4 border-t border-zinc-900/10 pt-6">
+                  <div className="text-sm font-semibold text-zinc-950">Budget and schedule</div>
+
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                      Total budget (₹)
+                      <input
+                        type="number"
+                        min={100}
+                        className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                        value={budget}
+                        onChange={(e) => setBudget(e.target.value)}
+                        disabled={submitting}
+                      />
+                    </label>
+                    <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                      Daily budget (₹)
+                      <input
+                        type="number"
+                        min={MIN_AD_DAILY_BUDGET}
+                        className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                        value={dailyBudget}
+                        onChange={(e) => setDailyBudget(e.target.value)}
+                        disabled={submitting}
+                      />
+                    </label>
+                  </div>
+
+                  {pricing ? (
+                    <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                      Bid (₹ {pricingModelLabel(pricing.model)})
+                      <input
+                        type="number"
+                        min={pricing.minBid}
+                        step="0.5"
+                        className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                        value={bid}
+                        onChange={(e) => setBid(e.target.value)}
+                        disabled={submitting}
+                      />
+                      <span className="font-normal text-zinc-500">
+                        Minimum ₹{pricing.minBid}. Higher bids win more placements; spend is spread evenly
+                        across the schedule and stops when the budget runs out.
+                      </span>
+                    </label>
+                  ) : null}
+
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                      Starts
+                      <input
+                        type="datetime-local"
+                        className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                        value={startsAt}
+                        onChange={(e) => setStartsAt(e.target.value)}
+                        disabled={submitting}
+                      />
+                    </label>
+                    <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                      Ends
+                      <input
+                        type="datetime-local"
+                        className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                        value={endsAt}
+                        onChange={(e) => setEndsAt(e.target.value)}
+                        disabled={submitting}
+                      />
+                    </label>
+                  </div>
+
+                  {adsType === "scratch" ? (
+                    <div className="grid gap-3 border-t border-zinc-900/10 pt-4">
+                      <div>
+                        <div className="text-sm font-semibold text-zinc-950">Scratch reward</div>
+                        <div className="mt-0.5 text-xs text-zinc-600">
+                          Winners get a code to show at your shop. Results are drawn on our servers.
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        {SCRATCH_REWARD_KINDS.map((kind) => (
+                          <button
+                            key={kind}
+                            type="button"
+                            className={
+                              rewardKind === kind
+                                ? "h-9 rounded-xl bg-zinc-950 px-3 text-sm font-semibold text-white"
+                                : "h-9 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm font-semibold text-zinc-950 hover:bg-zinc-50"
+                            }
+                            onClick={() => setRewardKind(kind)}
+                            disabled={submitting}
+                          >
+                            {SCRATCH_REWARD_KIND_LABELS[kind]}
+                          </button>
+                        ))}
+                      </div>
+
+                      <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                        Reward title
+                        <input
+                          type="text"
+                          maxLength={80}
+                          placeholder="e.g. 20% off any pizza"
+                          className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                          value={rewardTitle}
+                          onChange={(e) => setRewardTitle(e.target.value)}
+                          disabled={submitting}
+                        />
+                      </label>
+
+                      {rewardKind === "coupon" ? (
+                        <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                          Coupon code
+                          <input
+                            type="text"
+                            maxLength={24}
+                            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none uppercase"
+                            value={couponCode}
+                            onChange={(e) => setCouponCode(e.target.value)}
+                            disabled={submitting}
+                          />
+                        </label>
+                      ) : null}
+
+                      {rewardKind === "percent_off" ? (
+                        <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                          Percentage off
+                          <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                            value={percentOff}
+                            onChange={(e) => setPercentOff(e.target.value)}
+                            disabled={submitting}
+                          />
+                        </label>
+                      ) : null}
+
+                      <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                        {rewardKind === "freebie" ? "What do winners get?" : "Terms (optional)"}
+                        <textarea
+                          maxLength={300}
+                          rows={2}
+                          className="rounded-xl border border-zinc-900/10 bg-white px-3 py-2 text-sm text-zinc-950 shadow-sm outline-none"
+                          value={rewardDetails}
+                          onChange={(e) => setRewardDetails(e.target.value)}
+                          disabled={submitting}
+                        />
+                      </label>
+
+                      <div className="grid gap-3 sm:grid-cols-3">
+                        <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                          Winning odds (%)
+                          <input
+                            type="number"
+                            min={0.1}
+                            max={100}
+                            step="0.1"
+                            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                            value={winPercent}
+                            onChange={(e) => setWinPercent(e.target.value)}
+                            disabled={submitting}
+                          />
+                        </label>
+                        <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                          Rewards available
+                          <input
+                            type="number"
+                            min={1}
+                            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                            value={rewardQuantity}
+                            onChange={(e) => setRewardQuantity(e.target.value)}
+                            disabled={submitting}
+                          />
+                        </label>
+                        <label className="grid gap-1 text-xs font-medium text-zinc-600">
+                          Valid for (days)
+                          <input
+                            type="number"
+                            min={1}
+                            max={90}
+                            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm outline-none"
+                            value={rewardValidDays}
+                            onChange={(e) => setRewardValidDays(e.target.value)}
+                            disabled={submitting}
+                          />
+                        </label>
+                      </div>
+                    </div>
+                  ) : null}
+
+                  {goal === "website_visit" ? (
+                    <div className="text-xs text-zinc-600">
+                      {website ? (
+                        <>
+                          Visitors go to <span className="font-semibold text-zinc-900">{website}</span>
+                        </>
+                      ) : (
+                        "Add a website to your business profile to run website visit ads."
+                      )}
+                    </div>
+                  ) : null}
+
+                  <div>
+                    <div className="text-sm font-semibold text-zinc-950">Target locations</div>
+                    <div className="mt-0.5 text-xs text-zinc-600">
+                      {goal === "shop_visit"
+                        ? "Show the ad to people near these shops."
+                        : "Optional: limit the ad to people near these shops."}
+                    </div>
+                    {locations.length ? (
+                      <div className="mt-3 grid gap-2">
+                        {locations.map((loc) => {
+                          const selected = loc.id in targetRadius;
+                          return (
+                            <div
+                              key={loc.id}
+                              className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-zinc-900/10 p-3"
+                            >
+                              <label className="flex min-w-0 flex-1 cursor-pointer items-center gap-2 text-sm text-zinc-900">
+                                <input
+                                  type="checkbox"
+                                  checked={selected}
+                                  onChange={() => toggleTarget(loc.id)}
+                                  disabled={submitting}
+                                />
+                                <span className="truncate">{loc.fullAddress || "Shop"}</span>
+                              </label>
+                              {selected ? (
+                                <label className="flex items-center gap-2 text-xs text-zinc-600">
+                                  Radius
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    max={50}
+                                    className="h-8 w-16 rounded-lg border border-zinc-900/10 bg-white px-2 text-sm text-zinc-950 outline-none"
+                                    value={targetRadius[loc.id]}
+                                    onChange={(e) =>
+                                      setTargetRadius((prev) => ({ ...prev, [loc.id]: e.target.value }))
+                                    }
+                                    disabled={submitting}
+                                  />
+                                  km
+                                </label>
+                              ) : null}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <div className="mt-2 text-sm text-zinc-600">No shop locations with a map pin.</div>
+                    )}
+                  </div>
+
+                  {submitError ? (
+                    <div className="rounded-xl border border-rose-500/20 bg-rose-500/10 px-3 py-2 text-xs text-rose-700">
+                      {submitError}
+                    </div>
+                  ) : null}
+
+                  <button
+                    type="button"
+                    className="inline-flex h-12 w-full items-center justify-center rounded-xl bg-zinc-950 px-6 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-900 disabled:opacity-60"
+                    onClick={() => void launch()}
+                    disabled={submitting || !adsType}
+                  >
+                    {submitting ? "Creating…" : "Launch campaign"}
+                  </button>
+                </div>
+              ) : null}
             </div>
           </div>
         </div>
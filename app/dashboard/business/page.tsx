@@ -2,6 +2,9 @@
 
 import { type ReactNode, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import StatusTimeline from "@/components/StatusTimeline";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { BUSINESS_FIELD_LABELS } from "@/lib/rejection";
 
 type LoadState =
   | { status: "idle" }
@@ -212,6 +215,7 @@ export default function DashboardBusinessProfilePage() {
   const [editOpen, setEditOpen] = useState(false);
   const [saving, setSaving] = useState(false);
   const [actionError, setActionError] = useState<string>("");
+  const [historyKey, setHistoryKey] = useState(0);
 
   const [businessLogoFile, setBusinessLogoFile] = useState<File | null>(null);
   const [gstDocumentFile, setGstDocumentFile] = useState<File | null>(null);
@@ -248,7 +252,7 @@ export default function DashboardBusinessProfilePage() {
     const { token, signal } = params;
     const res = await fetch("/api/register", {
       method: "GET",
-      headers: { Authorization: `Bearer ${token}` },
+      headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
       signal,
     });
 
@@ -437,7 +441,7 @@ export default function DashboardBusinessProfilePage() {
 
       const res = await fetch("/api/register", {
         method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
         body: payload,
       });
 
@@ -453,6 +457,7 @@ export default function DashboardBusinessProfilePage() {
       const controller = new AbortController();
       await loadBusiness({ token, signal: controller.signal });
       setEditOpen(false);
+      setHistoryKey((k) => k + 1);
     } catch {
       setActionError("Failed to save changes.");
     } finally {
@@ -491,6 +496,13 @@ export default function DashboardBusinessProfilePage() {
         </div>
 
         <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+            onClick={() => router.push("/dashboard/team")}
+          >
+            Team
+          </button>
           <button
             type="button"
             disabled={!canEdit || saving || !business}
@@ -893,6 +905,12 @@ export default function DashboardBusinessProfilePage() {
             </div>
           </div>
 
+          <StatusTimeline
+            endpoint="/api/register/history"
+            fieldLabels={BUSINESS_FIELD_LABELS}
+            reloadKey={historyKey}
+          />
+
           {rawJson ? (
             <details className="overflow-hidden rounded-2xl border border-zinc-900/10 bg-white shadow-sm">
               <summary className="cursor-pointer border-b border-zinc-900/10 px-4 py-3 text-sm font-semibold text-zinc-950 sm:px-6">
@@ -1,6 +1,13 @@
 "use client";
 
+import RejectionNotice from "@/components/RejectionNotice";
 import RichTextEditor from "@/components/RichTextEditor";
+import StatusTimeline from "@/components/StatusTimeline";
+import {
+  CATALOGUE_FIELD_LABELS,
+  normalizeRejection,
+  type RejectionRecord,
+} from "@/lib/rejection";
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 
@@ -13,6 +20,7 @@ type CatalogueItem = {
   offerDetails?: string;
   imageUrls?: string[];
   status?: string;
+  rejection?: RejectionRecord | null;
   createdAt?: unknown;
   updatedAt?: unknown;
 };
@@ -30,6 +38,23 @@ function badgeClass(status: CatalogueStatus) {
   return "border-emerald-500/20 bg-emerald-500/10 text-emerald-700";
 }
 
+type FormImage =
+  | { kind: "existing"; url: string }
+  | { kind: "new"; file: File; previewUrl: string };
+
+const MAX_IMAGES = 5;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+function formImageKey(image: FormImage) {
+  return image.kind === "existing" ? image.url : image.previewUrl;
+}
+
+function revokeFormImages(images: FormImage[]) {
+  for (const image of images) {
+    if (image.kind === "new") URL.revokeObjectURL(image.previewUrl);
+  }
+}
+
 function isSafeImgUrl(value: unknown): value is string {
   if (typeof value !== "string") return false;
   const v = value.trim();
@@ -53,11 +78,14 @@ export default function DashboardCatalogueDetailsPage() {
   const [deleting, setDeleting] = useState(false);
   const [verifying, setVerifying] = useState(false);
   const [actionError, setActionError] = useState<string>("");
+  const [historyKey, setHistoryKey] = useState(0);
 
   const [formTitle, setFormTitle] = useState("");
   const [formDescription, setFormDescription] = useState("");
   const [formOfferDetails, setFormOfferDetails] = useState("");
   const [formStatus, setFormStatus] = useState<CatalogueStatus>("draft");
+  const [formImages, setFormImages] = useState<FormImage[]>([]);
+  const [imageError, setImageError] = useState("");
 
   useEffect(() => {
     const token = (() => {
@@ -107,6 +135,7 @@ export default function DashboardCatalogueDetailsPage() {
         const offerDetails = typeof obj.offerDetails === "string" ? obj.offerDetails : "";
         const status = typeof obj.status === "string" ? obj.status : "";
         const imageUrls = Array.isArray(obj.imageUrls) ? obj.imageUrls.filter(isSafeImgUrl) : [];
+        const rejection = normalizeRejection(obj.rejection);
 
         const nextItem = {
           id: typeof obj.id === "string" ? obj.id : id,
@@ -115,6 +144,7 @@ export default function DashboardCatalogueDetailsPage() {
           ...(offerDetails ? { offerDetails } : {}),
           ...(imageUrls.length ? { imageUrls } : {}),
           ...(status ? { status } : {}),
+          ...(rejection ? { rejection } : {}),
           ...("createdAt" in obj ? { createdAt: obj.createdAt } : {}),
           ...("updatedAt" in obj ? { updatedAt: obj.updatedAt } : {}),
         } satisfies CatalogueItem;
@@ -124,6 +154,11 @@ export default function DashboardCatalogueDetailsPage() {
         setFormDescription(nextItem.description ?? "");
         setFormOfferDetails(nextItem.offerDetails ?? "");
         setFormStatus(asCatalogueStatus(nextItem.status) ?? "draft");
+        setFormImages((prev) => {
+          revokeFormImages(prev);
+          return (nextItem.imageUrls ?? []).map((url) => ({ kind: "existing", url }));
+        });
+        setImageError("");
         setActionError("");
         setEditOpen(false);
 
@@ -151,6 +186,50 @@ export default function DashboardCatalogueDetailsPage() {
   const currentStatus = asCatalogueStatus(item?.status) ?? "draft";
   const isLocked = currentStatus === "pending" || currentStatus === "verified";
 
+  const resetFormImages = (urls: string[]) => {
+    setFormImages((prev) => {
+      revokeFormImages(prev);
+      return urls.map((url) => ({ kind: "existing", url }));
+    });
+    setImageError("");
+  };
+
+  const onAddImages = (files: File[]) => {
+    const room = Math.max(0, MAX_IMAGES - formImages.length);
+    const valid = files.filter((file) => file.type.startsWith("image/") && file.size <= MAX_IMAGE_BYTES);
+
+    if (valid.length < files.length) {
+      setImageError("Images must be under 5MB and of an image type.");
+    } else if (valid.length > room) {
+      setImageError("You can upload maximum 5 images.");
+    } else {
+      setImageError("");
+    }
+
+    const accepted: FormImage[] = valid
+      .slice(0, room)
+      .map((file) => ({ kind: "new", file, previewUrl: URL.createObjectURL(file) }));
+    if (accepted.length) setFormImages((prev) => [...prev, ...accepted]);
+  };
+
+  const onMoveImage = (index: number, delta: -1 | 1) => {
+    setFormImages((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const onRemoveImage = (index: number) => {
+    setFormImages((prev) => {
+      const removed = prev[index];
+      if (removed) revokeFormImages([removed]);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
   const onVerifyNow = async () => {
     if (!canAct || !token || !item) return;
     const currentStatus = asCatalogueStatus(item.status) ?? "draft";
@@ -182,9 +261,10 @@ export default function DashboardCatalogueDetailsPage() {
         return;
       }
 
-      setItem({ ...item, status: "pending" });
+      setItem({ ...item, status: "pending", rejection: null });
       setFormStatus("pending");
       setEditOpen(false);
+      setHistoryKey((k) => k + 1);
     } catch {
       setActionError("Failed to submit for verification.");
     } finally {
@@ -195,25 +275,36 @@ export default function DashboardCatalogueDetailsPage() {
   const onSave = async () => {
     if (!canAct || !token || !item || isLocked) return;
 
+    if (formImages.length < 1) {
+      setActionError("Please add at least 1 image.");
+      return;
+    }
+
     setSaving(true);
     setActionError("");
     try {
+      const form = new FormData();
+      form.set("title", formTitle);
+      form.set("description", formDescription);
+      form.set("offerDetails", formOfferDetails);
+      form.set("status", formStatus);
+
+      let newIndex = 0;
+      const imageOrder = formImages.map((image) => {
+        if (image.kind === "existing") return image.url;
+        form.append("images", image.file);
+        return `new:${newIndex++}`;
+      });
+      form.set("imageOrder", JSON.stringify(imageOrder));
+
       const res = await fetch(`/api/catalogue/${encodeURIComponent(id)}`, {
         method: "PATCH",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          title: formTitle,
-          description: formDescription,
-          offerDetails: formOfferDetails,
-          status: formStatus,
-        }),
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
       });
 
       const data = (await res.json().catch(() => null)) as
-        | { ok?: boolean; message?: string }
+        | { ok?: boolean; message?: string; imageUrls?: unknown }
         | null;
 
       if (!res.ok || !data?.ok) {
@@ -221,14 +312,21 @@ export default function DashboardCatalogueDetailsPage() {
         return;
       }
 
+      const imageUrls = Array.isArray(data.imageUrls)
+        ? data.imageUrls.filter(isSafeImgUrl)
+        : item.imageUrls ?? [];
+
       setItem({
         ...item,
         title: formTitle,
         description: formDescription,
         offerDetails: formOfferDetails,
         status: formStatus,
+        imageUrls,
       });
+      resetFormImages(imageUrls);
       setEditOpen(false);
+      setHistoryKey((k) => k + 1);
     } catch {
       setActionError("Failed to save changes.");
     } finally {
@@ -307,6 +405,7 @@ export default function DashboardCatalogueDetailsPage() {
               setFormDescription(item.description ?? "");
               setFormOfferDetails(item.offerDetails ?? "");
               setFormStatus(asCatalogueStatus(item.status) ?? "draft");
+              resetFormImages(item.imageUrls ?? []);
             }}
           >
             {editOpen ? "Close edit" : "Edit"}
@@ -343,6 +442,14 @@ export default function DashboardCatalogueDetailsPage() {
 
       {loadState.status === "idle" && item ? (
         <div className="mt-6 grid gap-4">
+          {status === "rejected" && item.rejection ? (
+            <RejectionNotice
+              rejection={item.rejection}
+              title="Why this catalogue was rejected"
+              fieldLabels={CATALOGUE_FIELD_LABELS}
+            />
+          ) : null}
+
           <div className="overflow-hidden rounded-2xl border border-zinc-900/10 bg-white shadow-sm">
             {editOpen ? (
               <div className="border-b border-zinc-900/10 p-4 sm:p-6">
@@ -383,6 +490,90 @@ export default function DashboardCatalogueDetailsPage() {
                   </select>
                 </div>
 
+                <div>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="text-xs font-medium text-zinc-500">
+                      Images ({formImages.length}/{MAX_IMAGES})
+                    </div>
+                    <label
+                      className={`relative inline-flex h-9 cursor-pointer items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 ${
+                        formImages.length >= MAX_IMAGES ? "pointer-events-none opacity-50" : ""
+                      }`}
+                    >
+                      Add images
+                      <input
+                        type="file"
+                        multiple
+                        accept="image/*"
+                        className="absolute h-px w-px opacity-0"
+                        disabled={formImages.length >= MAX_IMAGES}
+                        onChange={(e) => {
+                          onAddImages(Array.from(e.target.files ?? []));
+                          e.currentTarget.value = "";
+                        }}
+                      />
+                    </label>
+                  </div>
+
+                  {formImages.length ? (
+                    <div className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-3">
+                      {formImages.map((image, idx) => (
+                        <div
+                          key={formImageKey(image)}
+                          className="overflow-hidden rounded-xl border border-zinc-900/10 bg-zinc-100"
+                        >
+                          <img
+                            src={image.kind === "existing" ? image.url : image.previewUrl}
+                            alt={`Image ${idx + 1}`}
+                            className="h-28 w-full object-cover"
+                            loading="lazy"
+                            decoding="async"
+                            referrerPolicy="no-referrer"
+                          />
+                          <div className="flex items-center justify-between gap-1 bg-white px-2 py-1.5">
+                            <div className="text-[11px] font-semibold text-zinc-600">
+                              {idx === 0 ? "Cover" : `#${idx + 1}`}
+                              {image.kind === "new" ? " · new" : ""}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <button
+                                type="button"
+                                aria-label="Move left"
+                                disabled={idx === 0}
+                                className="h-7 rounded-lg border border-zinc-900/10 bg-white px-2 text-xs font-semibold text-zinc-900 disabled:opacity-40"
+                                onClick={() => onMoveImage(idx, -1)}
+                              >
+                                ←
+                              </button>
+                              <button
+                                type="button"
+                                aria-label="Move right"
+                                disabled={idx === formImages.length - 1}
+                                className="h-7 rounded-lg border border-zinc-900/10 bg-white px-2 text-xs font-semibold text-zinc-900 disabled:opacity-40"
+                                onClick={() => onMoveImage(idx, 1)}
+                              >
+                                →
+                              </button>
+                              <button
+                                type="button"
+                                aria-label="Remove image"
+                                className="h-7 rounded-lg border border-rose-500/30 bg-rose-500/10 px-2 text-xs font-semibold text-rose-700"
+                                onClick={() => onRemoveImage(idx)}
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="mt-2 text-sm text-zinc-600">Add at least 1 image.</div>
+                  )}
+
+                  {imageError ? <div className="mt-2 text-xs text-rose-600">{imageError}</div> : null}
+                </div>
+
                 <div>
                   <div className="text-xs font-medium text-zinc-500">Offer details (HTML)</div>
                   <div className="mt-1">
@@ -405,6 +596,7 @@ export default function DashboardCatalogueDetailsPage() {
                         setFormDescription(item.description ?? "");
                         setFormOfferDetails(item.offerDetails ?? "");
                         setFormStatus(asCatalogueStatus(item.status) ?? "draft");
+                        resetFormImages(item.imageUrls ?? []);
                       }}
                     >
                       Cancel
@@ -521,6 +713,12 @@ export default function DashboardCatalogueDetailsPage() {
               </div>
             </div>
           ) : null}
+
+          <StatusTimeline
+            endpoint={`/api/catalogue/${encodeURIComponent(item.id)}/history`}
+            fieldLabels={CATALOGUE_FIELD_LABELS}
+            reloadKey={historyKey}
+          />
         </div>
       ) : null}
     </div>
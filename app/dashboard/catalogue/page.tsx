@@ -1,8 +1,12 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { AddSquare, Home2, Notification, ProfileCircle } from "iconsax-react";
+import BusinessSwitcher from "@/components/BusinessSwitcher";
+import VariantImage from "@/components/VariantImage";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { asImageVariants, findImageVariants, type ImageVariants } from "@/lib/imageVariants";
 
 type MeResponse = {
   ok?: boolean;
@@ -18,9 +22,96 @@ type CatalogueItem = {
   description?: string;
   offerDetails?: string;
   imageUrls?: string[];
+  images?: ImageVariants[];
   status?: string;
 };
 
+const PAGE_SIZE = 24;
+
+type CatalogueSortOption = "createdAt:desc" | "createdAt:asc" | "updatedAt:desc" | "title:asc";
+
+const SORT_OPTIONS: Array<{ value: CatalogueSortOption; label: string }> = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "updatedAt:desc", label: "Recently updated" },
+  { value: "title:asc", label: "Title A–Z" },
+];
+
+function asSortOption(value: string): CatalogueSortOption | null {
+  return SORT_OPTIONS.some((o) => o.value === value) ? (value as CatalogueSortOption) : null;
+}
+
+function buildListQuery(params: {
+  filter: "all" | CatalogueStatus;
+  search: string;
+  sort: CatalogueSortOption;
+  from: string;
+  to: string;
+}) {
+  const [sortField, order] = params.sort.split(":");
+  const query = new URLSearchParams({ sort: sortField, order, limit: String(PAGE_SIZE) });
+  if (params.filter !== "all") query.set("status", params.filter);
+  if (params.search) query.set("q", params.search);
+  if (params.from) query.set("from", params.from);
+  if (params.to) query.set("to", params.to);
+  return query.toString();
+}
+
+function toCatalogueItem(c: unknown): CatalogueItem | null {
+  if (!c || typeof c !== "object") return null;
+
+  const obj = c as Record<string, unknown>;
+  const id = typeof obj.id === "string" ? obj.id : "";
+  const title = typeof obj.title === "string" ? obj.title : "";
+  const description = typeof obj.description === "string" ? obj.description : "";
+  const status = typeof obj.status === "string" ? obj.status : "";
+  const imageUrls = Array.isArray(obj.imageUrls)
+    ? obj.imageUrls.filter((v) => typeof v === "string")
+    : [];
+  const images = Array.isArray(obj.images)
+    ? obj.images.map(asImageVariants).filter((v): v is ImageVariants => Boolean(v))
+    : [];
+
+  if (!id) return null;
+
+  return {
+    id,
+    ...(title ? { title } : {}),
+    ...(description ? { description } : {}),
+    ...(imageUrls.length ? { imageUrls } : {}),
+    ...(images.length ? { images } : {}),
+    ...(status ? { status } : {}),
+  } satisfies CatalogueItem;
+}
+
+async function fetchCataloguePage(params: {
+  token: string;
+  query: string;
+  cursor?: string;
+  signal?: AbortSignal;
+}) {
+  const url = `/api/catalogue?${params.query}${params.cursor ? `&cursor=${encodeURIComponent(params.cursor)}` : ""}`;
+  const res = await fetch(url, {
+    method: "GET",
+    headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${params.token}` },
+    signal: params.signal,
+  });
+
+  const data = (await res.json().catch(() => null)) as
+    | { ok?: boolean; catalogue?: unknown; nextCursor?: unknown; message?: string }
+    | null;
+
+  if (!res.ok || !data?.ok || !Array.isArray(data.catalogue)) {
+    return { ok: false as const, message: data?.message || "Failed to load catalogue." };
+  }
+
+  return {
+    ok: true as const,
+    items: data.catalogue.map(toCatalogueItem).filter((it): it is CatalogueItem => Boolean(it)),
+    nextCursor: typeof data.nextCursor === "string" && data.nextCursor ? data.nextCursor : null,
+  };
+}
+
 function CatalogueCard(props: { item: CatalogueItem; onOpen: (id: string) => void }) {
   const { item, onOpen } = props;
   const status = asCatalogueStatus(item.status) ?? "draft";
@@ -46,14 +137,13 @@ function CatalogueCard(props: { item: CatalogueItem; onOpen: (id: string) => voi
     >
       <div className="relative aspect-[16/10] w-full bg-zinc-100">
         {cover && !failedUrls.has(cover) ? (
-          <img
+          <VariantImage
             key={cover}
             src={cover}
+            variants={findImageVariants(item.images, cover)}
+            sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
             alt={item.title || "Catalogue"}
             className="h-full w-full object-cover"
-            loading="lazy"
-            decoding="async"
-            referrerPolicy="no-referrer"
             onError={() => {
               setFailedUrls((prev) => {
                 const next = new Set(prev);
@@ -157,6 +247,27 @@ export default function DashboardCataloguePage() {
   );
 
   const [filter, setFilter] = useState<"all" | CatalogueStatus>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<CatalogueSortOption>("createdAt:desc");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState("");
+  const activeQueryRef = useRef("");
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const listQuery = useMemo(
+    () => buildListQuery({ filter, search, sort, from, to }),
+    [filter, search, sort, from, to]
+  );
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
 
   useEffect(() => {
     const token = (() => {
@@ -192,7 +303,7 @@ export default function DashboardCataloguePage() {
       try {
         const res = await fetch("/api/me", {
           method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
           signal: meController.signal,
         });
         if (!res.ok) return;
@@ -211,75 +322,83 @@ export default function DashboardCataloguePage() {
       }
     };
     void loadMe();
+    return () => meController.abort();
+  }, [tokenCheck]);
+
+  useEffect(() => {
+    if (tokenCheck.status !== "ready") return;
+    const token = tokenCheck.token;
+    if (!token) return;
 
     const controller = new AbortController();
     const run = async () => {
       setLoadState({ status: "loading" });
 
       try {
-        const url = filter === "all" ? "/api/catalogue" : `/api/catalogue?status=${filter}`;
-        const res = await fetch(url, {
-          method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
-          signal: controller.signal,
-        });
-
-        const data = (await res.json().catch(() => null)) as
-          | { ok?: boolean; catalogue?: unknown; message?: string }
-          | null;
-
-        if (!res.ok || !data?.ok || !Array.isArray(data.catalogue)) {
-          setLoadState({
-            status: "error",
-            message: data?.message || "Failed to load catalogue.",
-          });
+        const page = await fetchCataloguePage({ token, query: listQuery, signal: controller.signal });
+        if (!page.ok) {
+          setLoadState({ status: "error", message: page.message });
           return;
         }
 
-        const nextItems = data.catalogue
-          .filter((c) => c && typeof c === "object")
-          .map((c) => {
-            const obj = c as Record<string, unknown>;
-            const id = typeof obj.id === "string" ? obj.id : "";
-            const title = typeof obj.title === "string" ? obj.title : "";
-            const description = typeof obj.description === "string" ? obj.description : "";
-            const status = typeof obj.status === "string" ? obj.status : "";
-            const imageUrls = Array.isArray(obj.imageUrls)
-              ? obj.imageUrls.filter((v) => typeof v === "string")
-              : [];
-
-            return {
-              id,
-              ...(title ? { title } : {}),
-              ...(description ? { description } : {}),
-              ...(imageUrls.length ? { imageUrls } : {}),
-              ...(status ? { status } : {}),
-            } satisfies CatalogueItem;
-          })
-          .filter((c) => Boolean(c.id));
-
-        setItems(nextItems);
+        activeQueryRef.current = listQuery;
+        setItems(page.items);
+        setNextCursor(page.nextCursor);
         setLoadState({ status: "idle" });
       } catch {
+        if (controller.signal.aborted) return;
         setLoadState({ status: "error", message: "Failed to load catalogue." });
       }
     };
 
     void run();
-    return () => {
-      meController.abort();
-      controller.abort();
-    };
-  }, [filter, tokenCheck]);
+    return () => controller.abort();
+  }, [listQuery, tokenCheck]);
 
-  const filteredItems = useMemo(() => {
-    if (filter === "all") return items;
-    return items.filter((it) => it.status === filter);
-  }, [filter, items]);
+  const loadMore = useCallback(async () => {
+    if (tokenCheck.status !== "ready" || !tokenCheck.token) return;
+    if (!nextCursor || loadingMore || loadState.status !== "idle") return;
 
-  const hasItems = items.length > 0;
-  const showEmptyCatalogue = loadState.status === "idle" && items.length === 0;
-  const showEmptyFiltered = loadState.status === "idle" && items.length > 0 && filteredItems.length === 0;
+    const query = listQuery;
+    setLoadingMore(true);
+    setLoadMoreError("");
+    try {
+      const page = await fetchCataloguePage({ token: tokenCheck.token, query, cursor: nextCursor });
+      if (activeQueryRef.current !== query) return;
+      if (!page.ok) {
+        setLoadMoreError(page.message);
+        return;
+      }
+
+      setItems((prev) => {
+        const seen = new Set(prev.map((it) => it.id));
+        return [...prev, ...page.items.filter((it) => !seen.has(it.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch {
+      setLoadMoreError("Failed to load more catalogue.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [listQuery, loadState.status, loadingMore, nextCursor, tokenCheck]);
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !nextCursor || loadMoreError) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) void loadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [loadMore, loadMoreError, nextCursor]);
+
+  const hasFilters = filter !== "all" || Boolean(search) || Boolean(from) || Boolean(to);
+  const showEmptyCatalogue = loadState.status === "idle" && items.length === 0 && !hasFilters;
+  const showEmptyFiltered = loadState.status === "idle" && items.length === 0 && hasFilters;
 
   return (
     <div className="mx-auto w-full max-w-6xl px-4 py-8 sm:px-6 sm:py-10">
@@ -309,6 +428,8 @@ export default function DashboardCataloguePage() {
           </span>
         </button>
 
+        <BusinessSwitcher className="hidden sm:flex" />
+
         <div className="flex items-center gap-3">
           <button
             type="button"
@@ -360,9 +481,20 @@ export default function DashboardCataloguePage() {
           <p className="mt-1 text-sm text-zinc-600">Manage your catalogue.</p>
         </div>
 
-        <div className="flex items-center gap-2">
-          <div className="text-sm font-medium text-zinc-700">Filter</div>
+      </div>
+
+      <div className="mt-6 flex flex-col gap-3 rounded-2xl border border-zinc-900/10 bg-white p-3 shadow-sm lg:flex-row lg:items-center">
+        <input
+          type="search"
+          value={searchInput}
+          placeholder="Search title, description or offer"
+          className="h-10 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm"
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
           <select
+            aria-label="Status"
             className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm"
             value={filter}
             onChange={(e) => {
@@ -374,12 +506,50 @@ export default function DashboardCataloguePage() {
               }
             }}
           >
-            <option value="all">All</option>
+            <option value="all">All statuses</option>
             <option value="draft">Draft</option>
             <option value="pending">Pending</option>
             <option value="rejected">Rejected</option>
             <option value="verified">Verified</option>
           </select>
+
+          <select
+            aria-label="Sort"
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm"
+            value={sort}
+            onChange={(e) => {
+              const next = asSortOption(e.target.value);
+              if (next) setSort(next);
+            }}
+          >
+            {SORT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-2 text-xs font-medium text-zinc-600">
+            Added from
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm"
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-xs font-medium text-zinc-600">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm"
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </label>
         </div>
       </div>
 
@@ -459,7 +629,7 @@ export default function DashboardCataloguePage() {
       ) : null}
 
       <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-        {filteredItems.map((item) => {
+        {items.map((item) => {
           return (
             <CatalogueCard
               key={`${item.id}_${item.imageUrls?.length ?? 0}_${item.status ?? ""}`}
@@ -469,6 +639,22 @@ export default function DashboardCataloguePage() {
           );
         })}
       </div>
+
+      {nextCursor || loadingMore || loadMoreError ? (
+        <div ref={sentinelRef} className="mt-6 flex flex-col items-center gap-2">
+          {loadMoreError ? (
+            <div className="text-sm text-rose-700">{loadMoreError}</div>
+          ) : null}
+          <button
+            type="button"
+            disabled={loadingMore}
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 disabled:opacity-50"
+            onClick={() => void loadMore()}
+          >
+            {loadingMore ? "Loading…" : "Load more"}
+          </button>
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -1,6 +1,14 @@
 "use client";
 
 import { useEffect, useId, useMemo, useRef, useState, type FormEvent } from "react";
+import type { CouponDraft, TicketDraft } from "./create/EventCreateForm";
+import RejectionNotice from "@/components/RejectionNotice";
+import EventTicketsSection, {
+  couponDraftErrors,
+  serializeCouponDrafts,
+  toCouponDraft,
+} from "./create/sections/EventTicketsSection";
+import { EVENT_FIELD_LABELS, type EventItem, type EventTicket } from "./types";
 
 type GoogleMapsApi = {
   maps?: {
@@ -34,39 +42,22 @@ type GoogleMapsApi = {
   };
 };
 
-type EventDraft = {
-  id: string;
-  title: string;
-  type: string;
-  tags: string[];
-  description: string;
-  info: string;
-  startDateTime: string;
-  endDateTime: string;
-  location: {
-    address: string;
-    placeId?: string;
-    lat?: number;
-    lng?: number;
-  };
-  hostOrganizer: string;
-  sponsorsPartners: string;
+type LocationValue = {
+  address: string;
+  placeId?: string;
+  lat?: number;
+  lng?: number;
 };
 
-type LocationValue = EventDraft["location"];
-
 type Props = {
   open?: boolean;
+  eventId: string;
   onClose: () => void;
-  onCreate: (event: EventDraft) => void;
+  onSaved: (item: EventItem) => void;
   variant?: "modal" | "page";
 };
 
-type FieldErrors = Partial<Record<keyof Omit<EventDraft, "id" | "location" | "tags">, string>> & {
-  tags?: string;
-  location?: string;
-  endDateTime?: string;
-};
+type FieldErrors = Record<string, string>;
 
 function safeTrim(value: string) {
   return value.trim();
@@ -76,10 +67,6 @@ function isValidDateTime(value: string) {
   return Boolean(value) && !Number.isNaN(new Date(value).getTime());
 }
 
-function toEventDraftId() {
-  return `${Date.now()}_${Math.random().toString(16).slice(2)}`;
-}
-
 function parseLocalInputToDate(value: string) {
   if (!value) return null;
   const date = new Date(value);
@@ -87,6 +74,23 @@ function parseLocalInputToDate(value: string) {
   return date;
 }
 
+function parseNumberOrNull(value: string) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Tickets saved before ids existed keep the positional id the sales ledger uses for them. */
+function toTicketDraft(ticket: EventTicket, index: number): TicketDraft {
+  return {
+    id: ticket.id || `ticket-${index + 1}`,
+    title: ticket.title ?? "",
+    description: ticket.description ?? "",
+    price: typeof ticket.price === "number" ? String(ticket.price) : "",
+    discountPercent: typeof ticket.discountPercent === "number" ? String(ticket.discountPercent) : "",
+    quantity: typeof ticket.quantity === "number" ? String(ticket.quantity) : "",
+  };
+}
+
 function useGoogleMapsScript(apiKey?: string | null) {
   const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
 
@@ -462,19 +466,36 @@ function TagsInput({
   );
 }
 
-export default function EventFormModal({ open, onClose, onCreate, variant = "modal" }: Props) {
+export default function EventFormModal({
+  open,
+  eventId,
+  onClose,
+  onSaved,
+  variant = "modal",
+}: Props) {
+  const [item, setItem] = useState<EventItem | null>(null);
+  const [loadState, setLoadState] = useState<
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "error"; message: string }
+  >({ status: "loading" });
+
   const [title, setTitle] = useState("");
-  const [type, setType] = useState("");
   const [tags, setTags] = useState<string[]>([]);
   const [description, setDescription] = useState("");
-  const [info, setInfo] = useState("");
+  const [launchDateTime, setLaunchDateTime] = useState("");
   const [startDateTime, setStartDateTime] = useState("");
   const [endDateTime, setEndDateTime] = useState("");
   const [location, setLocation] = useState<LocationValue>({ address: "" });
-  const [mediaImages, setMediaImages] = useState<File[]>([]);
-  const [mediaVideos, setMediaVideos] = useState<File[]>([]);
-  const [hostOrganizer, setHostOrganizer] = useState("");
-  const [sponsorsPartners, setSponsorsPartners] = useState("");
+  const [locationRadiusKm, setLocationRadiusKm] = useState("");
+  const [organiserName, setOrganiserName] = useState("");
+  const [banner, setBanner] = useState<File[]>([]);
+  const [eventVideo, setEventVideo] = useState<File[]>([]);
+  const [removeVideo, setRemoveVideo] = useState(false);
+  const [galleryUrls, setGalleryUrls] = useState<string[]>([]);
+  const [galleryFiles, setGalleryFiles] = useState<File[]>([]);
+  const [tickets, setTickets] = useState<TicketDraft[]>([]);
+  const [coupons, setCoupons] = useState<CouponDraft[]>([]);
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [submitState, setSubmitState] = useState<
     | { status: "idle" }
@@ -487,10 +508,84 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
   const active = variant === "modal" ? Boolean(open) : true;
 
   useEffect(() => {
-    if (!active) return;
+    if (!active || !eventId) return;
+
+    const token = (() => {
+      try {
+        return sessionStorage.getItem("gem_id_token");
+      } catch {
+        return null;
+      }
+    })();
+
+    const controller = new AbortController();
+    const run = async () => {
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      setLoadState({ status: "loading" });
+
+      try {
+        const res = await fetch(`/api/events/${encodeURIComponent(eventId)}`, {
+          method: "GET",
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; item?: unknown; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !data.item || typeof data.item !== "object") {
+          setLoadState({ status: "error", message: data?.message || "Failed to load event." });
+          return;
+        }
+
+        const next = data.item as EventItem;
+        setItem(next);
+        setTitle(next.title ?? "");
+        setTags(Array.isArray(next.tags) ? next.tags : []);
+        setDescription(next.description ?? "");
+        setLaunchDateTime(next.launchDateTime ?? "");
+        setStartDateTime(next.startDateTime ?? next.startDate ?? "");
+        setEndDateTime(next.endDateTime ?? next.endDate ?? "");
+        setLocation({
+          address: next.location?.address ?? "",
+          placeId: next.location?.placeId,
+          lat: next.location?.lat,
+          lng: next.location?.lng,
+        });
+        setLocationRadiusKm(
+          typeof next.location?.radiusKm === "number" ? String(next.location.radiusKm) : ""
+        );
+        setOrganiserName(next.organiser?.name ?? "");
+        setBanner([]);
+        setEventVideo([]);
+        setRemoveVideo(false);
+        setGalleryUrls(Array.isArray(next.galleryUrls) ? next.galleryUrls : []);
+        setGalleryFiles([]);
+        setTickets(Array.isArray(next.tickets) ? next.tickets.map(toTicketDraft) : []);
+        setCoupons(Array.isArray(next.coupons) ? next.coupons.map(toCouponDraft) : []);
+        setTouched({});
+        setSubmitState({ status: "idle" });
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load event." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [active, eventId]);
+
+  useEffect(() => {
+    if (!active || loadState.status !== "idle") return;
     const t = window.setTimeout(() => titleRef.current?.focus(), 50);
     return () => window.clearTimeout(t);
-  }, [active]);
+  }, [active, loadState.status]);
 
   useEffect(() => {
     if (variant !== "modal" || !open) return;
@@ -516,104 +611,179 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
     const next: FieldErrors = {};
 
     if (!safeTrim(title)) next.title = "Event title is required.";
-    if (!safeTrim(type)) next.type = "Event type is required.";
     if (!safeTrim(description)) next.description = "Event description is required.";
 
+    if (!isValidDateTime(launchDateTime)) next.launchDateTime = "Launch date & time is required.";
     if (!isValidDateTime(startDateTime)) next.startDateTime = "Start date & time is required.";
     if (!isValidDateTime(endDateTime)) next.endDateTime = "End date & time is required.";
 
     const start = parseLocalInputToDate(startDateTime);
     const end = parseLocalInputToDate(endDateTime);
-    if (start && end && end.getTime() <= start.getTime()) {
+    if (start && end && end.getTime() < start.getTime()) {
       next.endDateTime = "End date/time must be after start date/time.";
     }
 
     if (!safeTrim(location.address)) next.location = "Location is required.";
-    if (!safeTrim(hostOrganizer)) next.hostOrganizer = "Host & organizer is required.";
+    const km = parseNumberOrNull(locationRadiusKm);
+    if (km === null || km <= 0) next.locationRadiusKm = "Radius must be greater than 0.";
+
+    if (!safeTrim(organiserName)) next.organiserName = "Organiser name is required.";
 
+    if (tags.length < 1) next.tags = "Add at least 1 tag (max 5).";
     if (tags.length > 5) next.tags = "Max 5 tags.";
 
+    if (banner.length > 1) next.banner = "Choose a single banner image.";
+    if (eventVideo.length > 1) next.eventVideo = "Choose a single video.";
+
+    if (tickets.length < 1) next.tickets = "Add at least 1 ticket.";
+    for (let i = 0; i < tickets.length; i++) {
+      const t = tickets[i];
+      if (!safeTrim(t.title)) next[`ticket_${i}_title`] = "Ticket title is required.";
+      if (!safeTrim(t.description)) next[`ticket_${i}_description`] = "Ticket description is required.";
+      const price = parseNumberOrNull(t.price);
+      if (price === null || price < 0) next[`ticket_${i}_price`] = "Ticket price must be 0 or more.";
+      const qty = parseNumberOrNull(t.quantity);
+      if (qty === null || qty < 0) next[`ticket_${i}_quantity`] = "Ticket quantity must be 0 or more.";
+      if (t.discountPercent) {
+        const dp = parseNumberOrNull(t.discountPercent);
+        if (dp === null || dp < 0 || dp > 100) next[`ticket_${i}_discountPercent`] = "Discount must be 0-100.";
+      }
+    }
+
+    Object.assign(next, couponDraftErrors(coupons, tickets));
+
     return next;
-  }, [description, endDateTime, hostOrganizer, location.address, startDateTime, tags.length, title, type]);
+  }, [
+    banner.length,
+    coupons,
+    description,
+    endDateTime,
+    eventVideo.length,
+    launchDateTime,
+    location.address,
+    locationRadiusKm,
+    organiserName,
+    startDateTime,
+    tags.length,
+    tickets,
+    title,
+  ]);
 
   const validationError = useMemo(() => {
     const firstError = Object.values(errors).find(Boolean);
     return firstError ?? null;
   }, [errors]);
 
-  const canSubmit = submitState.status !== "saving" && !validationError;
-
-  function resetForm() {
-    setTitle("");
-    setType("");
-    setTags([]);
-    setDescription("");
-    setInfo("");
-    setStartDateTime("");
-    setEndDateTime("");
-    setLocation({ address: "" });
-    setMediaImages([]);
-    setMediaVideos([]);
-    setHostOrganizer("");
-    setSponsorsPartners("");
-    setTouched({});
-    setSubmitState({ status: "idle" });
-  }
+  const canSubmit =
+    loadState.status === "idle" && submitState.status !== "saving" && !validationError;
 
-  async function onSubmit(e: FormEvent<HTMLFormElement>) {
-    e.preventDefault();
+  const existingStatus = item?.status === "rejected" ? "rejected" : "draft";
 
+  async function save(nextStatus: "draft" | "pending" | null) {
     if (validationError) {
-      setTouched({
+      const nextTouched: Record<string, boolean> = {
         title: true,
-        type: true,
         tags: true,
         description: true,
-        info: true,
+        launchDateTime: true,
         startDateTime: true,
         endDateTime: true,
         location: true,
-        hostOrganizer: true,
-        sponsorsPartners: true,
-      });
+        locationRadiusKm: true,
+        organiserName: true,
+        banner: true,
+        eventVideo: true,
+        tickets: true,
+      };
+      for (let i = 0; i < tickets.length; i++) nextTouched[`ticket_${i}`] = true;
+      for (let i = 0; i < coupons.length; i++) nextTouched[`coupon_${i}`] = true;
+      setTouched(nextTouched);
       setSubmitState({ status: "error", message: validationError });
       return;
     }
 
-    setSubmitState({ status: "saving" });
+    const token = (() => {
+      try {
+        return sessionStorage.getItem("gem_id_token");
+      } catch {
+        return null;
+      }
+    })();
 
-    const draft: EventDraft = {
-      id: toEventDraftId(),
-      title: safeTrim(title),
-      type: safeTrim(type),
-      tags,
-      description: safeTrim(description),
-      info: safeTrim(info),
-      startDateTime,
-      endDateTime,
-      location: {
-        address: safeTrim(location.address),
-        placeId: location.placeId,
-        lat: location.lat,
-        lng: location.lng,
-      },
-      hostOrganizer: safeTrim(hostOrganizer),
-      sponsorsPartners: safeTrim(sponsorsPartners),
-    };
+    if (!token) {
+      setSubmitState({ status: "error", message: "Missing authentication token." });
+      return;
+    }
+
+    setSubmitState({ status: "saving" });
 
     try {
-      void mediaImages;
-      void mediaVideos;
-      onCreate(draft);
-      resetForm();
+      const form = new FormData();
+      form.set("title", safeTrim(title));
+      form.set("description", safeTrim(description));
+      form.set("launchDateTime", launchDateTime);
+      form.set("startDateTime", startDateTime);
+      form.set("endDateTime", endDateTime);
+      form.set("locationAddress", safeTrim(location.address));
+      form.set("locationRadiusKm", safeTrim(locationRadiusKm));
+      form.set("locationPlaceId", location.placeId ?? "");
+      form.set("locationLat", typeof location.lat === "number" ? String(location.lat) : "");
+      form.set("locationLng", typeof location.lng === "number" ? String(location.lng) : "");
+      form.set("tags", JSON.stringify(tags));
+      form.set("organiserName", safeTrim(organiserName));
+      form.set("galleryUrls", JSON.stringify(galleryUrls));
+      for (const img of galleryFiles) form.append("gallery", img);
+      if (banner[0]) form.set("banner", banner[0]);
+      if (eventVideo[0]) form.set("eventVideo", eventVideo[0]);
+      else if (removeVideo) form.set("removeEventVideo", "true");
+      form.set(
+        "tickets",
+        JSON.stringify(
+          tickets.map((t) => ({
+            id: t.id,
+            title: safeTrim(t.title),
+            description: safeTrim(t.description),
+            price: Number(t.price),
+            ...(t.discountPercent ? { discountPercent: Number(t.discountPercent) } : {}),
+            quantity: Number(t.quantity),
+          }))
+        )
+      );
+      form.set("coupons", JSON.stringify(serializeCouponDrafts(coupons, tickets)));
+      if (nextStatus) form.set("status", nextStatus);
+
+      const res = await fetch(`/api/events/${encodeURIComponent(eventId)}`, {
+        method: "PATCH",
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
+      });
+
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; item?: unknown; message?: string }
+        | null;
+
+      if (!res.ok || !data?.ok || !data.item || typeof data.item !== "object") {
+        setSubmitState({ status: "error", message: data?.message || "Failed to update event." });
+        return;
+      }
+
+      setSubmitState({ status: "idle" });
+      onSaved(data.item as EventItem);
       onClose();
     } catch {
-      setSubmitState({ status: "error", message: "Failed to create event. Please try again." });
+      setSubmitState({ status: "error", message: "Failed to update event. Please try again." });
     }
   }
 
+  function onSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    void save(null);
+  }
+
   if (variant === "modal" && !open) return null;
 
+  const hasVideo = Boolean(item?.videoUrl) && !removeVideo;
+
   const form = (
     <form
       className={
@@ -623,7 +793,27 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
       }
       onSubmit={onSubmit}
     >
+      {loadState.status === "loading" ? (
+        <div className="rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+          Loading…
+        </div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {loadState.message}
+        </div>
+      ) : null}
+
+      {loadState.status === "idle" ? (
             <div className="grid gap-5">
+              {item?.status === "rejected" && item.rejection ? (
+                <RejectionNotice
+                  rejection={item.rejection}
+                  title="Fix these before resubmitting"
+                  fieldLabels={EVENT_FIELD_LABELS}
+                />
+              ) : null}
               <div className="grid gap-2">
                 <label className="text-sm font-medium" htmlFor="eventTitle">
                   Event Title
@@ -642,51 +832,95 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
                 ) : null}
               </div>
 
-              <div className="grid gap-3 sm:grid-cols-2">
+              <div className="grid gap-4 sm:grid-cols-2">
                 <div className="grid gap-2">
-                  <label className="text-sm font-medium" htmlFor="eventType">
-                    Event Type
-                  </label>
-                  <select
-                    id="eventType"
-                    className="h-11 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none ring-0 transition focus:border-zinc-900/20 focus:bg-zinc-50"
-                    value={type}
-                    onChange={(e) => setType(e.target.value)}
-                    onBlur={() => setTouched((p) => ({ ...p, type: true }))}
-                    required
-                  >
-                    <option value="" disabled>
-                      Select
-                    </option>
-                    <option value="Meetup">Meetup</option>
-                    <option value="Workshop">Workshop</option>
-                    <option value="Expo">Expo</option>
-                    <option value="Webinar">Webinar</option>
-                    <option value="Other">Other</option>
-                  </select>
-                  {touched.type && errors.type ? (
-                    <div className="text-xs text-rose-600">{errors.type}</div>
+                  {item?.bannerUrl && !banner.length ? (
+                    <div className="overflow-hidden rounded-xl border border-zinc-900/10 bg-zinc-100">
+                      <img
+                        src={item.bannerUrl}
+                        alt="Current banner"
+                        className="h-28 w-full object-cover"
+                        loading="lazy"
+                        decoding="async"
+                        referrerPolicy="no-referrer"
+                      />
+                    </div>
+                  ) : null}
+                  <MediaPicker
+                    label="Replace banner"
+                    accept="image/*"
+                    files={banner}
+                    onChange={(next) => {
+                      setBanner(next.slice(-1));
+                      setTouched((p) => ({ ...p, banner: true }));
+                    }}
+                  />
+                  {touched.banner && errors.banner ? (
+                    <div className="text-xs text-rose-600">{errors.banner}</div>
                   ) : null}
                 </div>
 
                 <div className="grid gap-2">
-                  <div className="text-sm font-medium">Attachments & Media</div>
-                  <div className="text-xs text-zinc-500">Add images and videos.</div>
+                  {hasVideo && !eventVideo.length ? (
+                    <div className="flex items-center justify-between gap-3 rounded-xl border border-zinc-900/10 bg-white px-3 py-2">
+                      <div className="text-xs font-medium text-zinc-900">Current video attached</div>
+                      <button
+                        type="button"
+                        className="inline-flex h-8 shrink-0 items-center justify-center rounded-lg border border-zinc-900/10 bg-white px-2 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
+                        onClick={() => setRemoveVideo(true)}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : null}
+                  <MediaPicker
+                    label={hasVideo ? "Replace video" : "Video"}
+                    accept="video/*"
+                    files={eventVideo}
+                    onChange={(next) => {
+                      setEventVideo(next.slice(-1));
+                      setTouched((p) => ({ ...p, eventVideo: true }));
+                    }}
+                  />
+                  {touched.eventVideo && errors.eventVideo ? (
+                    <div className="text-xs text-rose-600">{errors.eventVideo}</div>
+                  ) : null}
                 </div>
               </div>
 
-              <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Gallery</div>
+                {galleryUrls.length ? (
+                  <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+                    {galleryUrls.map((url) => (
+                      <div
+                        key={url}
+                        className="relative overflow-hidden rounded-xl border border-zinc-900/10 bg-zinc-100"
+                      >
+                        <img
+                          src={url}
+                          alt="Gallery"
+                          className="h-20 w-full object-cover"
+                          loading="lazy"
+                          decoding="async"
+                          referrerPolicy="no-referrer"
+                        />
+                        <button
+                          type="button"
+                          className="absolute right-1 top-1 inline-flex h-6 items-center justify-center rounded-md border border-zinc-900/10 bg-white/90 px-1.5 text-[11px] font-semibold text-zinc-900 shadow-sm"
+                          onClick={() => setGalleryUrls((prev) => prev.filter((u) => u !== url))}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
                 <MediaPicker
-                  label="Images"
+                  label="Add gallery images"
                   accept="image/*"
-                  files={mediaImages}
-                  onChange={setMediaImages}
-                />
-                <MediaPicker
-                  label="Videos"
-                  accept="video/*"
-                  files={mediaVideos}
-                  onChange={setMediaVideos}
+                  files={galleryFiles}
+                  onChange={setGalleryFiles}
                 />
               </div>
 
@@ -716,21 +950,25 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
                 ) : null}
               </div>
 
-              <div className="grid gap-2">
-                <label className="text-sm font-medium" htmlFor="eventInfo">
-                  Event info
-                </label>
-                <textarea
-                  id="eventInfo"
-                  className="min-h-[92px] w-full resize-none rounded-xl border border-zinc-900/10 bg-white px-3 py-2 text-sm shadow-sm outline-none ring-0 transition focus:border-zinc-900/20 focus:bg-zinc-50"
-                  value={info}
-                  onChange={(e) => setInfo(e.target.value)}
-                  onBlur={() => setTouched((p) => ({ ...p, info: true }))}
-                  placeholder="Optional details (agenda, dress code, price, etc.)"
-                />
-              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="grid gap-2">
+                  <label className="text-sm font-medium" htmlFor="eventLaunch">
+                    Launch Date and time
+                  </label>
+                  <input
+                    id="eventLaunch"
+                    type="datetime-local"
+                    className="h-11 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none ring-0 transition focus:border-zinc-900/20 focus:bg-zinc-50"
+                    value={launchDateTime}
+                    onChange={(e) => setLaunchDateTime(e.target.value)}
+                    onBlur={() => setTouched((p) => ({ ...p, launchDateTime: true }))}
+                    required
+                  />
+                  {touched.launchDateTime && errors.launchDateTime ? (
+                    <div className="text-xs text-rose-600">{errors.launchDateTime}</div>
+                  ) : null}
+                </div>
 
-              <div className="grid gap-3 sm:grid-cols-2">
                 <div className="grid gap-2">
                   <label className="text-sm font-medium" htmlFor="eventStart">
                     Start Date and time
@@ -783,38 +1021,52 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
 
               <div className="grid gap-3 sm:grid-cols-2">
                 <div className="grid gap-2">
-                  <label className="text-sm font-medium" htmlFor="eventHost">
-                    Host & Organizer
+                  <label className="text-sm font-medium" htmlFor="eventRadius">
+                    Radius (km)
                   </label>
                   <input
-                    id="eventHost"
+                    id="eventRadius"
+                    inputMode="decimal"
                     className="h-11 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none ring-0 transition focus:border-zinc-900/20 focus:bg-zinc-50"
-                    value={hostOrganizer}
-                    onChange={(e) => setHostOrganizer(e.target.value)}
-                    onBlur={() => setTouched((p) => ({ ...p, hostOrganizer: true }))}
-                    placeholder="Company or person"
+                    value={locationRadiusKm}
+                    onChange={(e) => setLocationRadiusKm(e.target.value)}
+                    onBlur={() => setTouched((p) => ({ ...p, locationRadiusKm: true }))}
                     required
                   />
-                  {touched.hostOrganizer && errors.hostOrganizer ? (
-                    <div className="text-xs text-rose-600">{errors.hostOrganizer}</div>
+                  {touched.locationRadiusKm && errors.locationRadiusKm ? (
+                    <div className="text-xs text-rose-600">{errors.locationRadiusKm}</div>
                   ) : null}
                 </div>
 
                 <div className="grid gap-2">
-                  <label className="text-sm font-medium" htmlFor="eventSponsors">
-                    Sponsors & Partners
+                  <label className="text-sm font-medium" htmlFor="eventOrganiser">
+                    Organiser name
                   </label>
                   <input
-                    id="eventSponsors"
+                    id="eventOrganiser"
                     className="h-11 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none ring-0 transition focus:border-zinc-900/20 focus:bg-zinc-50"
-                    value={sponsorsPartners}
-                    onChange={(e) => setSponsorsPartners(e.target.value)}
-                    onBlur={() => setTouched((p) => ({ ...p, sponsorsPartners: true }))}
-                    placeholder="Optional"
+                    value={organiserName}
+                    onChange={(e) => setOrganiserName(e.target.value)}
+                    onBlur={() => setTouched((p) => ({ ...p, organiserName: true }))}
+                    placeholder="Company or person"
+                    required
                   />
+                  {touched.organiserName && errors.organiserName ? (
+                    <div className="text-xs text-rose-600">{errors.organiserName}</div>
+                  ) : null}
                 </div>
               </div>
 
+              <EventTicketsSection
+                tickets={tickets}
+                coupons={coupons}
+                touched={touched}
+                errors={errors}
+                onTickets={setTickets}
+                onCoupons={setCoupons}
+                onTouched={setTouched}
+              />
+
               {submitState.status === "error" ? (
                 <div
                   className="rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm"
@@ -828,27 +1080,36 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
                 <button
                   type="button"
                   className="inline-flex h-12 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-6 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
-                  onClick={() => {
-                    resetForm();
-                    onClose();
-                  }}
+                  onClick={onClose}
                 >
                   Cancel
                 </button>
 
                 <button
                   type="submit"
+                  className="inline-flex h-12 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-6 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-60"
+                  disabled={!canSubmit}
+                >
+                  {submitState.status === "saving" ? "Saving…" : "Save changes"}
+                </button>
+
+                <button
+                  type="button"
                   className="inline-flex h-12 items-center justify-center rounded-xl bg-zinc-950 px-6 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-900 disabled:cursor-not-allowed disabled:opacity-60"
                   disabled={!canSubmit}
+                  onClick={() => void save("pending")}
                 >
-                  {submitState.status === "saving" ? "Saving…" : "Create event"}
+                  Submit for verification
                 </button>
               </div>
 
               <div className="text-center text-xs text-zinc-500">
-                You can edit and publish later.
+                {existingStatus === "rejected"
+                  ? "Fix the details and submit again for verification."
+                  : "Changes stay in draft until you submit for verification."}
               </div>
             </div>
+      ) : null}
     </form>
   );
 
@@ -858,9 +1119,9 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
         <div className="overflow-hidden rounded-3xl border border-zinc-900/10 bg-white shadow-sm">
           <div className="flex items-center justify-between gap-3 border-b border-zinc-900/10 px-5 py-4">
             <div>
-              <div className="text-base font-semibold tracking-tight">Create event</div>
+              <div className="text-base font-semibold tracking-tight">Edit event</div>
               <div className="mt-0.5 text-xs text-zinc-500">
-                Fill details to publish later.
+                Update details and media for this event.
               </div>
             </div>
 
@@ -896,9 +1157,9 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
         >
           <div className="flex items-center justify-between gap-3 border-b border-zinc-900/10 px-5 py-4">
             <div>
-              <div className="text-base font-semibold tracking-tight">Create event</div>
+              <div className="text-base font-semibold tracking-tight">Edit event</div>
               <div className="mt-0.5 text-xs text-zinc-500">
-                Fill details to publish later.
+                Update details and media for this event.
               </div>
             </div>
 
@@ -917,5 +1178,3 @@ export default function EventFormModal({ open, onClose, onCreate, variant = "mod
     </div>
   );
 }
-
-export type { EventDraft };
@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+
+type GroupMember = {
+  uid: string;
+  name: string;
+  saleId: string;
+  claimedAt: string | null;
+  leader: boolean;
+};
+
+type EventGroup = {
+  id: string;
+  ticketId: string;
+  ticketTitle: string;
+  size: number;
+  claimed: number;
+  status: "open" | "complete" | "expired";
+  claimDeadline: string | null;
+  createdAt: string | null;
+  members: GroupMember[];
+};
+
+type Props = {
+  eventId: string;
+  tickets: Array<{ id?: string; title: string }>;
+  /** Group seats are sold at the box office, so only while the event is verified. */
+  canSell?: boolean;
+  reloadKey?: number;
+};
+
+const STATUS_STYLES: Record<EventGroup["status"], string> = {
+  open: "border-sky-500/20 bg-sky-500/10 text-sky-800",
+  complete: "border-emerald-500/20 bg-emerald-500/10 text-emerald-800",
+  expired: "border-zinc-900/10 bg-zinc-100 text-zinc-600",
+};
+
+const STATUS_LABELS: Record<EventGroup["status"], string> = {
+  open: "Open",
+  complete: "Complete",
+  expired: "Expired",
+};
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatDateTime(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function GroupsPanel({ eventId, tickets, canSell, reloadKey }: Props) {
+  const [groups, setGroups] = useState<EventGroup[]>([]);
+  const [loadState, setLoadState] = useState<
+    { status: "idle" } | { status: "loading" } | { status: "error"; message: string }
+  >({ status: "loading" });
+  const [localReload, setLocalReload] = useState(0);
+
+  const [newTicketId, setNewTicketId] = useState("");
+  const [newSize, setNewSize] = useState("2");
+  const [leaderEmail, setLeaderEmail] = useState("");
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState("");
+  const [saveError, setSaveError] = useState("");
+
+  const ticketOptions = tickets.map((t, i) => ({ id: t.id || `ticket-${i + 1}`, title: t.title }));
+  const selectedTicketId = newTicketId || ticketOptions[0]?.id || "";
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/events/${encodeURIComponent(eventId)}/groups`, {
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; groups?: EventGroup[]; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !Array.isArray(data.groups)) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load groups." });
+          return;
+        }
+
+        setGroups(data.groups);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load groups." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [eventId, reloadKey, localReload]);
+
+  const post = async (key: string, url: string, body: Record<string, unknown>) => {
+    const token = readToken();
+    if (!token) {
+      setSaveError("Missing authentication token.");
+      return false;
+    }
+
+    setSaving(key);
+    setSaveError("");
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...activeBusinessHeaders(),
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const data = (await res.json().catch(() => null)) as { ok?: boolean; message?: string } | null;
+
+      if (!res.ok || !data?.ok) {
+        setSaveError(data?.message || "Failed to save group booking.");
+        return false;
+      }
+
+      setLocalReload((k) => k + 1);
+      return true;
+    } catch {
+      setSaveError("Failed to save group booking.");
+      return false;
+    } finally {
+      setSaving("");
+    }
+  };
+
+  const createGroup = async () => {
+    const ok = await post("create", `/api/events/${encodeURIComponent(eventId)}/groups`, {
+      ticketId: selectedTicketId,
+      size: Number(newSize),
+      leaderEmail: leaderEmail.trim(),
+    });
+    if (ok) {
+      setNewSize("2");
+      setLeaderEmail("");
+    }
+  };
+
+  const addMember = async (groupId: string) => {
+    const ok = await post(groupId, `/api/groups/${encodeURIComponent(groupId)}/claim`, {
+      memberEmail: (memberEmails[groupId] ?? "").trim(),
+    });
+    if (ok) setMemberEmails((prev) => ({ ...prev, [groupId]: "" }));
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+      <div className="text-sm font-semibold text-zinc-950">Group bookings</div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-2 text-sm text-zinc-600">Loading…</div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-2 text-sm text-rose-700">{loadState.message}</div>
+      ) : null}
+
+      {canSell && ticketOptions.length ? (
+        <div className="mt-3 rounded-xl border border-zinc-900/10 bg-zinc-50 p-3">
+          <div className="text-xs font-semibold text-zinc-700">Start a group at the box office</div>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <select
+              className="h-9 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none"
+              value={selectedTicketId}
+              onChange={(e) => setNewTicketId(e.target.value)}
+              disabled={Boolean(saving)}
+            >
+              {ticketOptions.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.title || "Untitled"}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={2}
+              className="h-9 w-20 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none"
+              value={newSize}
+              onChange={(e) => setNewSize(e.target.value)}
+              disabled={Boolean(saving)}
+            />
+            <input
+              type="email"
+              className="h-9 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none"
+              value={leaderEmail}
+              onChange={(e) => setLeaderEmail(e.target.value)}
+              placeholder="Leader email"
+              disabled={Boolean(saving)}
+            />
+            <button
+              type="button"
+              className="inline-flex h-9 items-center justify-center rounded-xl bg-zinc-950 px-3 text-xs font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-60"
+              onClick={() => void createGroup()}
+              disabled={Boolean(saving) || !selectedTicketId || !leaderEmail.trim()}
+            >
+              {saving === "create" ? "Saving…" : "Sell leader seat"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {saveError ? <div className="mt-2 text-xs text-rose-700">{saveError}</div> : null}
+
+      {loadState.status === "idle" && groups.length === 0 ? (
+        <div className="mt-2 text-sm text-zinc-600">No groups yet.</div>
+      ) : null}
+
+      {loadState.status === "idle" && groups.length ? (
+        <div className="mt-3 grid gap-3">
+          {groups.map((group) => (
+            <div key={group.id} className="rounded-xl border border-zinc-900/10 p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-zinc-950">
+                    {group.ticketTitle || "Ticket"} · {group.claimed} / {group.size} seats
+                  </div>
+                  <div className="mt-0.5 text-xs text-zinc-600">
+                    Created {formatDateTime(group.createdAt)}
+                    {group.status === "open" && group.claimDeadline
+                      ? ` · Claim by ${formatDateTime(group.claimDeadline)}`
+                      : ""}
+                  </div>
+                </div>
+                <span
+                  className={`inline-flex shrink-0 items-center rounded-full border px-2.5 py-1 text-[11px] font-semibold ${STATUS_STYLES[group.status]}`}
+                >
+                  {STATUS_LABELS[group.status]}
+                </span>
+              </div>
+
+              <div className="mt-2 grid gap-1">
+                {group.members.map((member) => (
+                  <div
+                    key={member.uid}
+                    className="flex items-center justify-between gap-3 text-xs text-zinc-600"
+                  >
+                    <div className="min-w-0 truncate">
+                      <span className="font-medium text-zinc-900">{member.name || member.uid}</span>
+                      {member.leader ? " (leader)" : ""}
+                    </div>
+                    <div className="shrink-0">{formatDateTime(member.claimedAt)}</div>
+                  </div>
+                ))}
+              </div>
+
+              {canSell && group.status === "open" ? (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <input
+                    type="email"
+                    className="h-8 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-xs shadow-sm outline-none"
+                    value={memberEmails[group.id] ?? ""}
+                    onChange={(e) => setMemberEmails((prev) => ({ ...prev, [group.id]: e.target.value }))}
+                    placeholder="Member email"
+                    disabled={Boolean(saving)}
+                  />
+                  <button
+                    type="button"
+                    className="inline-flex h-8 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50 disabled:opacity-60"
+                    onClick={() => void addMember(group.id)}
+                    disabled={Boolean(saving) || !(memberEmails[group.id] ?? "").trim()}
+                  >
+                    {saving === group.id ? "Saving…" : "Sell member seat"}
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+
+type TicketSummary = {
+  ticketId: string;
+  title: string;
+  unitPrice: number;
+  quantity: number;
+  sold: number;
+  reserved: number;
+  remaining: number;
+  revenue: number;
+};
+
+type TicketSale = {
+  id: string;
+  ticketId: string;
+  ticketTitle: string;
+  buyerName: string;
+  quantity: number;
+  couponCode: string;
+  discount: number;
+  amount: number;
+  createdAt: string | null;
+};
+
+type Props = {
+  eventId: string;
+  /** Box-office sales can only be entered while the event is verified. */
+  canSell?: boolean;
+  reloadKey?: number;
+};
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatMoney(value: number) {
+  return `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+function formatDateTime(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function TicketSalesPanel({ eventId, canSell, reloadKey }: Props) {
+  const [tickets, setTickets] = useState<TicketSummary[]>([]);
+  const [sales, setSales] = useState<TicketSale[]>([]);
+  const [loadState, setLoadState] = useState<
+    { status: "idle" } | { status: "loading" } | { status: "error"; message: string }
+  >({ status: "loading" });
+  const [localReload, setLocalReload] = useState(0);
+
+  const [saleTicketId, setSaleTicketId] = useState("");
+  const [saleQuantity, setSaleQuantity] = useState("1");
+  const [saleCoupon, setSaleCoupon] = useState("");
+  const [saleBuyerEmail, setSaleBuyerEmail] = useState("");
+  const [selling, setSelling] = useState(false);
+  const [saleError, setSaleError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/events/${encodeURIComponent(eventId)}/sales`, {
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; tickets?: TicketSummary[]; sales?: TicketSale[]; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !Array.isArray(data.tickets)) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load ticket sales." });
+          return;
+        }
+
+        setTickets(data.tickets);
+        setSales(Array.isArray(data.sales) ? data.sales : []);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load ticket sales." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [eventId, reloadKey, localReload]);
+
+  const totals = tickets.reduce(
+    (acc, t) => ({
+      quantity: acc.quantity + t.quantity,
+      sold: acc.sold + t.sold,
+      remaining: acc.remaining + t.remaining,
+      revenue: acc.revenue + t.revenue,
+    }),
+    { quantity: 0, sold: 0, remaining: 0, revenue: 0 }
+  );
+
+  const selectedTicketId = saleTicketId || tickets.find((t) => t.remaining > 0)?.ticketId || "";
+
+  const recordSale = async () => {
+    const token = readToken();
+    if (!token) {
+      setSaleError("Missing authentication token.");
+      return;
+    }
+
+    setSelling(true);
+    setSaleError("");
+    try {
+      const res = await fetch(`/api/events/${encodeURIComponent(eventId)}/sales`, {
+        method: "POST",
+        headers: {
+          ...activeBusinessHeaders(),
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ticketId: selectedTicketId,
+          quantity: Number(saleQuantity),
+          ...(saleBuyerEmail.trim() ? { buyerEmail: saleBuyerEmail.trim() } : {}),
+          ...(saleCoupon.trim() ? { couponCode: saleCoupon.trim() } : {}),
+        }),
+      });
+      const data = (await res.json().catch(() => null)) as { ok?: boolean; message?: string } | null;
+
+      if (!res.ok || !data?.ok) {
+        setSaleError(data?.message || "Failed to record sale.");
+        return;
+      }
+
+      setSaleQuantity("1");
+      setSaleCoupon("");
+      setSaleBuyerEmail("");
+      setLocalReload((k) => k + 1);
+    } catch {
+      setSaleError("Failed to record sale.");
+    } finally {
+      setSelling(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+      <div className="text-sm font-semibold text-zinc-950">Ticket sales</div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-2 text-sm text-zinc-600">Loading…</div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-2 text-sm text-rose-700">{loadState.message}</div>
+      ) : null}
+
+      {loadState.status === "idle" && tickets.length === 0 ? (
+        <div className="mt-2 text-sm text-zinc-600">No tickets.</div>
+      ) : null}
+
+      {loadState.status === "idle" && tickets.length ? (
+        <>
+          <div className="mt-4 grid gap-3 sm:grid-cols-3">
+            <div className="rounded-xl border border-zinc-900/10 bg-zinc-50 p-3">
+              <div className="text-xs font-medium text-zinc-600">Sold</div>
+              <div className="mt-1 text-lg font-semibold text-zinc-950">
+                {totals.sold} <span className="text-sm font-medium text-zinc-500">/ {totals.quantity}</span>
+              </div>
+            </div>
+            <div className="rounded-xl border border-zinc-900/10 bg-zinc-50 p-3">
+              <div className="text-xs font-medium text-zinc-600">Remaining</div>
+              <div className="mt-1 text-lg font-semibold text-zinc-950">{totals.remaining}</div>
+            </div>
+            <div className="rounded-xl border border-zinc-900/10 bg-zinc-50 p-3">
+              <div className="text-xs font-medium text-zinc-600">Revenue</div>
+              <div className="mt-1 text-lg font-semibold text-zinc-950">{formatMoney(totals.revenue)}</div>
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-zinc-900/10 text-xs font-semibold text-zinc-600">
+                  <th className="py-2 pr-3">Ticket</th>
+                  <th className="py-2 pr-3 text-right">Price</th>
+                  <th className="py-2 pr-3 text-right">Sold</th>
+                  <th className="py-2 pr-3 text-right">Remaining</th>
+                  <th className="py-2 text-right">Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tickets.map((t) => (
+                  <tr key={t.ticketId} className="border-b border-zinc-900/5 last:border-0">
+                    <td className="py-2 pr-3 font-medium text-zinc-950">{t.title || "Untitled"}</td>
+                    <td className="py-2 pr-3 text-right text-zinc-700">{formatMoney(t.unitPrice)}</td>
+                    <td className="py-2 pr-3 text-right text-zinc-700">
+                      {t.sold} / {t.quantity}
+                      {t.reserved > 0 ? (
+                        <div className="text-xs text-zinc-500">{t.reserved} held for groups</div>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-3 text-right">
+                      {t.remaining > 0 ? (
+                        <span className="text-zinc-700">{t.remaining}</span>
+                      ) : (
+                        <span className="font-semibold text-rose-700">Sold out</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-semibold text-zinc-950">{formatMoney(t.revenue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {canSell ? (
+            <div className="mt-4 rounded-xl border border-zinc-900/10 bg-zinc-50 p-3">
+              <div className="text-xs font-semibold text-zinc-700">Record box-office sale</div>
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <select
+                  className="h-9 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none"
+                  value={selectedTicketId}
+                  onChange={(e) => setSaleTicketId(e.target.value)}
+                  disabled={selling}
+                >
+                  {tickets.map((t) => (
+                    <option key={t.ticketId} value={t.ticketId} disabled={t.remaining < 1}>
+                      {t.title || "Untitled"} ({t.remaining} left)
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  className="h-9 w-20 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none"
+                  value={saleQuantity}
+                  onChange={(e) => setSaleQuantity(e.target.value)}
+                  disabled={selling}
+                />
+                <input
+                  type="email"
+                  className="h-9 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none"
+                  value={saleBuyerEmail}
+                  onChange={(e) => setSaleBuyerEmail(e.target.value)}
+                  placeholder="Buyer email (optional)"
+                  disabled={selling}
+                />
+                <input
+                  className="h-9 w-32 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm uppercase shadow-sm outline-none"
+                  value={saleCoupon}
+                  onChange={(e) => setSaleCoupon(e.target.value.toUpperCase())}
+                  placeholder="Coupon"
+                  disabled={selling}
+                />
+                <button
+                  type="button"
+                  className="inline-flex h-9 items-center justify-center rounded-xl bg-zinc-950 px-3 text-xs font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-60"
+                  onClick={() => void recordSale()}
+                  disabled={selling || !selectedTicketId}
+                >
+                  {selling ? "Saving…" : "Record sale"}
+                </button>
+              </div>
+              {saleError ? <div className="mt-2 text-xs text-rose-700">{saleError}</div> : null}
+            </div>
+          ) : null}
+
+          <div className="mt-5 text-xs font-semibold text-zinc-700">Recent sales</div>
+          {sales.length ? (
+            <div className="mt-2 grid gap-2">
+              {sales.map((sale) => (
+                <div
+                  key={sale.id}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-zinc-900/10 bg-white p-3 text-xs text-zinc-600"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-semibold text-zinc-950">
+                      {sale.quantity} × {sale.ticketTitle || "Ticket"}
+                    </div>
+                    <div className="mt-0.5">
+                      {sale.buyerName || "Walk-in"} · {formatDateTime(sale.createdAt)}
+                      {sale.couponCode ? ` · ${sale.couponCode} (−${formatMoney(sale.discount)})` : ""}
+                    </div>
+                  </div>
+                  <div className="shrink-0 text-sm font-semibold text-zinc-950">{formatMoney(sale.amount)}</div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="mt-2 text-sm text-zinc-600">No sales yet.</div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+
+type VehicleStatus = "pending" | "approved" | "rejected";
+
+type EventVehicle = {
+  id: string;
+  saleId: string;
+  vehicleType: string | null;
+  brandName: string;
+  registrationNumber: string;
+  proof: { url?: string; name?: string } | null;
+  status: VehicleStatus;
+  rejectionReason: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+type Props = {
+  eventId: string;
+  reloadKey?: number;
+};
+
+const FILTERS: Array<{ value: VehicleStatus; label: string }> = [
+  { value: "pending", label: "Awaiting review" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+];
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatDateTime(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function VehiclesPanel({ eventId, reloadKey }: Props) {
+  const [filter, setFilter] = useState<VehicleStatus>("pending");
+  const [vehicles, setVehicles] = useState<EventVehicle[]>([]);
+  const [loadState, setLoadState] = useState<
+    { status: "idle" } | { status: "loading" } | { status: "error"; message: string }
+  >({ status: "loading" });
+  const [localReload, setLocalReload] = useState(0);
+
+  const [reviewingId, setReviewingId] = useState("");
+  const [rejectingId, setRejectingId] = useState("");
+  const [rejectReason, setRejectReason] = useState("");
+  const [reviewError, setReviewError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      try {
+        const res = await fetch(
+          `/api/events/${encodeURIComponent(eventId)}/vehicles?status=${encodeURIComponent(filter)}`,
+          {
+            headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+            signal: controller.signal,
+          }
+        );
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; vehicles?: EventVehicle[]; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !Array.isArray(data.vehicles)) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load vehicles." });
+          return;
+        }
+
+        setVehicles(data.vehicles);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load vehicles." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [eventId, filter, reloadKey, localReload]);
+
+  const review = async (vehicle: EventVehicle, action: "approve" | "reject") => {
+    const vehicleId = vehicle.id;
+    const token = readToken();
+    if (!token) {
+      setReviewError("Missing authentication token.");
+      return;
+    }
+
+    setReviewingId(vehicleId);
+    setReviewError("");
+    try {
+      const res = await fetch(
+        `/api/events/${encodeURIComponent(eventId)}/vehicles/${encodeURIComponent(vehicleId)}`,
+        {
+          method: "PATCH",
+          headers: {
+            ...activeBusinessHeaders(),
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            action,
+            updatedAt: vehicle.updatedAt,
+            ...(action === "reject" ? { reason: rejectReason.trim() } : {}),
+          }),
+        }
+      );
+      const data = (await res.json().catch(() => null)) as { ok?: boolean; message?: string } | null;
+
+      if (!res.ok || !data?.ok) {
+        setReviewError(data?.message || "Failed to save review.");
+        return;
+      }
+
+      setRejectingId("");
+      setRejectReason("");
+      setLocalReload((k) => k + 1);
+    } catch {
+      setReviewError("Failed to save review.");
+    } finally {
+      setReviewingId("");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-zinc-950">Vehicle verification</div>
+        <div className="flex gap-1">
+          {FILTERS.map((f) => (
+            <button
+              key={f.value}
+              type="button"
+              className={`h-8 rounded-xl px-3 text-xs font-semibold transition ${
+                filter === f.value
+                  ? "bg-zinc-950 text-white"
+                  : "border border-zinc-900/10 bg-white text-zinc-700 hover:bg-zinc-50"
+              }`}
+              onClick={() => setFilter(f.value)}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-2 text-sm text-zinc-600">Loading…</div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-2 text-sm text-rose-700">{loadState.message}</div>
+      ) : null}
+
+      {reviewError ? <div className="mt-2 text-xs text-rose-700">{reviewError}</div> : null}
+
+      {loadState.status === "idle" && vehicles.length === 0 ? (
+        <div className="mt-2 text-sm text-zinc-600">No vehicles here.</div>
+      ) : null}
+
+      {loadState.status === "idle" && vehicles.length ? (
+        <div className="mt-3 grid gap-3">
+          {vehicles.map((vehicle) => (
+            <div key={vehicle.id} className="rounded-xl border border-zinc-900/10 p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-mono text-sm font-semibold text-zinc-950">
+                    {vehicle.registrationNumber}
+                  </div>
+                  <div className="mt-0.5 text-xs text-zinc-600">
+                    {[vehicle.brandName, vehicle.vehicleType].filter(Boolean).join(" · ")}
+                    {vehicle.createdAt ? ` · Submitted ${formatDateTime(vehicle.createdAt)}` : ""}
+                  </div>
+                  {vehicle.status === "rejected" && vehicle.rejectionReason ? (
+                    <div className="mt-1 text-xs text-rose-700">{vehicle.rejectionReason}</div>
+                  ) : null}
+                </div>
+                {vehicle.proof?.url ? (
+                  <a
+                    href={vehicle.proof.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="shrink-0 text-xs font-semibold text-zinc-950 underline"
+                  >
+                    View proof
+                  </a>
+                ) : null}
+              </div>
+
+              {vehicle.status === "pending" ? (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  {rejectingId === vehicle.id ? (
+                    <>
+                      <input
+                        className="h-9 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none"
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        placeholder="Reason shown to the attendee"
+                        disabled={reviewingId === vehicle.id}
+                      />
+                      <button
+                        type="button"
+                        className="h-9 rounded-xl bg-rose-600 px-3 text-xs font-semibold text-white shadow-sm transition hover:bg-rose-700 disabled:opacity-60"
+                        onClick={() => void review(vehicle, "reject")}
+                        disabled={reviewingId === vehicle.id || !rejectReason.trim()}
+                      >
+                        Reject
+                      </button>
+                      <button
+                        type="button"
+                        className="h-9 rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+                        onClick={() => setRejectingId("")}
+                        disabled={reviewingId === vehicle.id}
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        className="h-9 rounded-xl bg-zinc-950 px-3 text-xs font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-60"
+                        onClick={() => void review(vehicle, "approve")}
+                        disabled={reviewingId === vehicle.id}
+                      >
+                        {reviewingId === vehicle.id ? "Saving…" : "Approve"}
+                      </button>
+                      <button
+                        type="button"
+                        className="h-9 rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-rose-700 shadow-sm transition hover:bg-zinc-50"
+                        onClick={() => {
+                          setRejectingId(vehicle.id);
+                          setRejectReason("");
+                        }}
+                        disabled={reviewingId === vehicle.id}
+                      >
+                        Reject…
+                      </button>
+                    </>
+                  )}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
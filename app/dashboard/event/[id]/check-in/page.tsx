@@ -0,0 +1,370 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type FormEvent } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+
+type CheckInItem = {
+  saleId: string;
+  ticketTitle: string;
+  quantity: number;
+  checkedInAt: string | null;
+};
+
+type Stats = {
+  checkedIn: number;
+  bookingsCheckedIn: number;
+  sold: number;
+  recent: CheckInItem[];
+};
+
+type CheckInVehicle = {
+  registrationNumber: string;
+  brandName: string;
+  vehicleType: string;
+};
+
+type ScanResult =
+  | { status: "admitted"; ticketTitle: string; quantity: number; vehicle: CheckInVehicle | null }
+  | { status: "rejected"; message: string };
+
+type BarcodeDetectorLike = {
+  detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+};
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const STATS_POLL_MS = 5000;
+const SCAN_INTERVAL_MS = 300;
+/** The same code is ignored for this long so a QR held in front of the camera is sent once. */
+const RESCAN_COOLDOWN_MS = 4000;
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatTime(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function barcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  const ctor = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  return ctor ?? null;
+}
+
+export default function EventCheckInPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const id = typeof params?.id === "string" ? params.id : "";
+
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [statsError, setStatsError] = useState("");
+  const [statsKey, setStatsKey] = useState(0);
+
+  const [manualCode, setManualCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState("");
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number }>({ code: "", at: 0 });
+  const busyRef = useRef(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!token) {
+        setStatsError("Missing authentication token.");
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/events/${encodeURIComponent(id)}/check-ins`, {
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | ({ ok?: boolean; message?: string } & Partial<Stats>)
+          | null;
+
+        if (!res.ok || !data?.ok) {
+          setStatsError(data?.message || "Failed to load check-ins.");
+          return;
+        }
+
+        setStats({
+          checkedIn: data.checkedIn ?? 0,
+          bookingsCheckedIn: data.bookingsCheckedIn ?? 0,
+          sold: data.sold ?? 0,
+          recent: Array.isArray(data.recent) ? data.recent : [],
+        });
+        setStatsError("");
+      } catch {
+        if (controller.signal.aborted) return;
+        setStatsError("Failed to load check-ins.");
+      }
+    };
+
+    void run();
+    const timer = window.setInterval(() => void run(), STATS_POLL_MS);
+    return () => {
+      window.clearInterval(timer);
+      controller.abort();
+    };
+  }, [id, statsKey]);
+
+  const submitCode = useCallback(
+    async (code: string) => {
+      const token = readToken();
+      if (!token || !code || busyRef.current) return;
+
+      busyRef.current = true;
+      setSubmitting(true);
+      try {
+        const res = await fetch(`/api/events/${encodeURIComponent(id)}/check-ins`, {
+          method: "POST",
+          headers: {
+            ...activeBusinessHeaders(),
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ code }),
+        });
+        const data = (await res.json().catch(() => null)) as
+          | {
+              ok?: boolean;
+              message?: string;
+              ticketTitle?: string;
+              quantity?: number;
+              vehicle?: CheckInVehicle | null;
+              checkedInAt?: string | null;
+            }
+          | null;
+
+        if (!res.ok || !data?.ok) {
+          const usedAt = data?.checkedInAt ? ` (at ${formatTime(data.checkedInAt)})` : "";
+          setResult({ status: "rejected", message: `${data?.message || "Check-in failed."}${usedAt}` });
+          return;
+        }
+
+        setResult({
+          status: "admitted",
+          ticketTitle: data.ticketTitle ?? "",
+          quantity: data.quantity ?? 1,
+          vehicle: data.vehicle ?? null,
+        });
+        setStatsKey((k) => k + 1);
+      } catch {
+        setResult({ status: "rejected", message: "Check-in failed. Check the connection and try again." });
+      } finally {
+        busyRef.current = false;
+        setSubmitting(false);
+      }
+    },
+    [id]
+  );
+
+  useEffect(() => {
+    if (!cameraOn) return;
+
+    const Detector = barcodeDetector();
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    const start = async () => {
+      if (!Detector) {
+        setCameraError("This browser cannot scan QR codes. Enter the code below instead.");
+        setCameraOn(false);
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      } catch {
+        setCameraError("Camera access was denied.");
+        setCameraOn(false);
+        return;
+      }
+      if (cancelled || !videoRef.current) return;
+
+      setCameraError("");
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play().catch(() => {});
+
+      const detector = new Detector({ formats: ["qr_code"] });
+      timer = window.setInterval(async () => {
+        const video = videoRef.current;
+        if (!video || busyRef.current || video.readyState < 2) return;
+        const codes = await detector.detect(video).catch(() => []);
+        const code = codes[0]?.rawValue?.trim();
+        if (!code) return;
+
+        const now = Date.now();
+        if (code === lastScanRef.current.code && now - lastScanRef.current.at < RESCAN_COOLDOWN_MS) return;
+        lastScanRef.current = { code, at: now };
+        void submitCode(code);
+      }, SCAN_INTERVAL_MS);
+    };
+
+    void start();
+    return () => {
+      cancelled = true;
+      if (timer) window.clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [cameraOn, submitCode]);
+
+  const onManualSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const code = manualCode.trim();
+    if (!code) return;
+    void submitCode(code).then(() => setManualCode(""));
+  };
+
+  const percent =
+    stats && stats.sold > 0 ? Math.min(100, Math.round((stats.checkedIn / stats.sold) * 100)) : 0;
+
+  return (
+    <div className="mx-auto w-full max-w-2xl px-4 py-10 sm:px-6 sm:py-14">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Venue check-in</h1>
+          <p className="mt-1 text-sm text-zinc-600">Scan attendee QR tickets at the entrance.</p>
+        </div>
+        <button
+          type="button"
+          className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+          onClick={() => router.push(`/dashboard/event/${encodeURIComponent(id)}`)}
+        >
+          Back
+        </button>
+      </div>
+
+      <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+        <div className="flex items-end justify-between gap-3">
+          <div>
+            <div className="text-xs font-medium text-zinc-600">Checked in</div>
+            <div className="mt-1 text-3xl font-semibold tracking-tight text-zinc-950">
+              {stats ? stats.checkedIn : "–"}
+              <span className="text-base font-medium text-zinc-500"> / {stats ? stats.sold : "–"}</span>
+            </div>
+          </div>
+          <div className="text-right text-xs text-zinc-600">
+            <div>{stats ? stats.bookingsCheckedIn : 0} bookings</div>
+            <div className="mt-0.5 inline-flex items-center gap-1.5">
+              <span className="h-2 w-2 animate-pulse rounded-full bg-emerald-500" aria-hidden="true" />
+              Live
+            </div>
+          </div>
+        </div>
+        <div className="mt-3 h-2 overflow-hidden rounded-full bg-zinc-100">
+          <div className="h-full rounded-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        {statsError ? <div className="mt-2 text-xs text-rose-700">{statsError}</div> : null}
+      </div>
+
+      {result ? (
+        <div
+          className={`mt-4 rounded-2xl border px-4 py-4 shadow-sm ${
+            result.status === "admitted"
+              ? "border-emerald-500/30 bg-emerald-500/10 text-emerald-800"
+              : "border-rose-500/30 bg-rose-500/10 text-rose-800"
+          }`}
+          role="status"
+        >
+          {result.status === "admitted" ? (
+            <>
+              <div className="text-lg font-semibold">Admit {result.quantity}</div>
+              <div className="mt-0.5 text-sm">{result.ticketTitle || "Ticket"}</div>
+              {result.vehicle ? (
+                <div className="mt-2 text-sm">
+                  Vehicle{" "}
+                  <span className="font-mono font-semibold">{result.vehicle.registrationNumber}</span>
+                  {result.vehicle.brandName ? ` · ${result.vehicle.brandName}` : ""}
+                  {result.vehicle.vehicleType ? ` (${result.vehicle.vehicleType})` : ""}
+                </div>
+              ) : null}
+            </>
+          ) : (
+            <>
+              <div className="text-lg font-semibold">Do not admit</div>
+              <div className="mt-0.5 text-sm">{result.message}</div>
+            </>
+          )}
+        </div>
+      ) : null}
+
+      <div className="mt-4 rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-sm font-semibold text-zinc-950">Scanner</div>
+          <button
+            type="button"
+            className="h-9 rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+            onClick={() => setCameraOn((on) => !on)}
+          >
+            {cameraOn ? "Stop camera" : "Start camera"}
+          </button>
+        </div>
+
+        {cameraOn ? (
+          <video
+            ref={videoRef}
+            className="mt-4 aspect-square w-full rounded-xl bg-zinc-950 object-cover"
+            muted
+            playsInline
+          />
+        ) : null}
+        {cameraError ? <div className="mt-2 text-xs text-rose-700">{cameraError}</div> : null}
+
+        <form className="mt-4 flex gap-2" onSubmit={onManualSubmit}>
+          <input
+            className="h-10 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Paste ticket code"
+            disabled={submitting}
+          />
+          <button
+            type="submit"
+            className="h-10 rounded-xl bg-zinc-950 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-60"
+            disabled={submitting || !manualCode.trim()}
+          >
+            {submitting ? "Checking…" : "Check in"}
+          </button>
+        </form>
+      </div>
+
+      <div className="mt-4 rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+        <div className="text-sm font-semibold text-zinc-950">Recent check-ins</div>
+        {stats?.recent.length ? (
+          <div className="mt-3 grid gap-2">
+            {stats.recent.map((entry) => (
+              <div
+                key={entry.saleId}
+                className="flex items-center justify-between gap-3 rounded-xl border border-zinc-900/10 p-3 text-sm"
+              >
+                <div className="font-medium text-zinc-950">
+                  {entry.quantity} × {entry.ticketTitle || "Ticket"}
+                </div>
+                <div className="text-xs text-zinc-600">{formatTime(entry.checkedInAt)}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-2 text-sm text-zinc-600">No one has checked in yet.</div>
+        )}
+      </div>
+    </div>
+  );
+}
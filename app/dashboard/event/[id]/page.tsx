@@ -0,0 +1,406 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import RejectionNotice from "@/components/RejectionNotice";
+import StatusTimeline from "@/components/StatusTimeline";
+import { normalizeRejection } from "@/lib/rejection";
+import EventFormModal from "../EventFormModal";
+import GroupsPanel from "../GroupsPanel";
+import TicketSalesPanel from "../TicketSalesPanel";
+import VehiclesPanel from "../VehiclesPanel";
+import { EVENT_FIELD_LABELS, type EventItem, type EventStatus } from "../types";
+
+function asEventStatus(value: unknown): EventStatus | null {
+  return value === "draft" || value === "pending" || value === "rejected" || value === "verified"
+    ? value
+    : null;
+}
+
+function badgeClass(status: EventStatus) {
+  if (status === "draft") return "border-zinc-900/10 bg-zinc-100 text-zinc-700";
+  if (status === "pending") return "border-yellow-500/20 bg-yellow-500/10 text-yellow-700";
+  if (status === "rejected") return "border-rose-500/20 bg-rose-500/10 text-rose-700";
+  return "border-emerald-500/20 bg-emerald-500/10 text-emerald-700";
+}
+
+function formatDateTime(value?: string) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+export default function DashboardEventDetailsPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const id = typeof params?.id === "string" ? params.id : "";
+
+  const [item, setItem] = useState<EventItem | null>(null);
+  const [loadState, setLoadState] = useState<
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "error"; message: string }
+  >({ status: "loading" });
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [editOpen, setEditOpen] = useState(false);
+  const [busy, setBusy] = useState<"" | "submitting" | "deleting">("");
+  const [actionError, setActionError] = useState("");
+
+  useEffect(() => {
+    const token = readToken();
+
+    const controller = new AbortController();
+    const run = async () => {
+      if (!id) {
+        setLoadState({ status: "error", message: "Missing event id." });
+        return;
+      }
+
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      setLoadState({ status: "loading" });
+
+      try {
+        const res = await fetch(`/api/events/${encodeURIComponent(id)}`, {
+          method: "GET",
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; item?: unknown; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !data.item || typeof data.item !== "object") {
+          setLoadState({ status: "error", message: data?.message || "Failed to load event." });
+          return;
+        }
+
+        const obj = data.item as EventItem & { rejection?: unknown };
+        setItem({ ...obj, id: obj.id || id, rejection: normalizeRejection(obj.rejection) });
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load event." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [id, reloadKey]);
+
+  const status = asEventStatus(item?.status) ?? "draft";
+  const isLocked = status === "pending" || status === "verified";
+  const canAct = Boolean(item) && loadState.status === "idle" && !busy;
+
+  const onSubmitForVerification = async () => {
+    const token = readToken();
+    if (!canAct || !token || status !== "draft") return;
+
+    const confirmed = window.confirm(
+      "Submit this event for verification? Status will change to pending."
+    );
+    if (!confirmed) return;
+
+    setBusy("submitting");
+    setActionError("");
+    try {
+      const res = await fetch(`/api/events/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status: "pending" }),
+      });
+
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; message?: string }
+        | null;
+
+      if (!res.ok || !data?.ok) {
+        setActionError(data?.message || "Failed to submit for verification.");
+        return;
+      }
+
+      setReloadKey((k) => k + 1);
+    } catch {
+      setActionError("Failed to submit for verification.");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const onDelete = async () => {
+    const token = readToken();
+    if (!canAct || !token || isLocked) return;
+
+    const confirmed = window.confirm("Delete this event? This cannot be undone.");
+    if (!confirmed) return;
+
+    setBusy("deleting");
+    setActionError("");
+    try {
+      const res = await fetch(`/api/events/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; message?: string }
+        | null;
+
+      if (!res.ok || !data?.ok) {
+        setActionError(data?.message || "Failed to delete event.");
+        return;
+      }
+
+      router.push("/dashboard/event");
+    } catch {
+      setActionError("Failed to delete event.");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const startValue = item?.startDateTime || item?.startDate;
+  const endValue = item?.endDateTime || item?.endDate;
+  const tickets = Array.isArray(item?.tickets) ? item?.tickets ?? [] : [];
+  const tags = Array.isArray(item?.tags) ? item?.tags ?? [] : [];
+
+  return (
+    <div className="mx-auto w-full max-w-4xl px-4 py-10 sm:px-6 sm:py-14">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Event details</h1>
+          <p className="mt-1 text-sm text-zinc-600">Review and manage this event.</p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <button
+            type="button"
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+            onClick={() => router.push("/dashboard/event")}
+          >
+            Back
+          </button>
+
+          {status === "verified" ? (
+            <button
+              type="button"
+              className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+              onClick={() => router.push(`/dashboard/event/${encodeURIComponent(id)}/check-in`)}
+            >
+              Check-in
+            </button>
+          ) : null}
+
+          {status === "draft" ? (
+            <button
+              type="button"
+              disabled={!canAct}
+              className="h-10 rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 text-sm font-semibold text-emerald-700 shadow-sm transition hover:bg-emerald-500/15 disabled:opacity-50"
+              onClick={onSubmitForVerification}
+            >
+              {busy === "submitting" ? "Submitting…" : "Submit for verification"}
+            </button>
+          ) : null}
+
+          <button
+            type="button"
+            disabled={!canAct || isLocked}
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 disabled:opacity-50"
+            onClick={() => setEditOpen(true)}
+          >
+            Edit
+          </button>
+
+          <button
+            type="button"
+            disabled={!canAct || isLocked}
+            className="h-10 rounded-xl border border-rose-500/30 bg-rose-500/10 px-4 text-sm font-semibold text-rose-700 shadow-sm transition hover:bg-rose-500/15 disabled:opacity-50"
+            onClick={onDelete}
+          >
+            {busy === "deleting" ? "Deleting…" : "Delete"}
+          </button>
+        </div>
+      </div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+          Loading…
+        </div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {loadState.message}
+        </div>
+      ) : null}
+
+      {actionError ? (
+        <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {actionError}
+        </div>
+      ) : null}
+
+      {loadState.status === "idle" && item ? (
+        <div className="mt-6 grid gap-4">
+          {status === "rejected" && item.rejection ? (
+            <RejectionNotice
+              rejection={item.rejection}
+              title="Why this event was rejected"
+              fieldLabels={EVENT_FIELD_LABELS}
+            />
+          ) : null}
+
+          <div className="overflow-hidden rounded-2xl border border-zinc-900/10 bg-white shadow-sm">
+            {item.bannerUrl ? (
+              <div className="aspect-[16/7] w-full bg-zinc-100">
+                <img
+                  src={item.bannerUrl}
+                  alt={item.title || "Event"}
+                  className="h-full w-full object-cover"
+                  loading="lazy"
+                  decoding="async"
+                  referrerPolicy="no-referrer"
+                />
+              </div>
+            ) : null}
+
+            <div className="border-b border-zinc-900/10 p-4 sm:p-6">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <div className="text-xs font-medium text-zinc-500">Title</div>
+                  <div className="mt-1 text-lg font-semibold text-zinc-950">
+                    {item.title || "Untitled"}
+                  </div>
+                </div>
+                <div
+                  className={`inline-flex w-fit items-center rounded-full border px-3 py-1 text-xs font-semibold ${badgeClass(
+                    status
+                  )}`}
+                >
+                  {status}
+                </div>
+              </div>
+
+              <div className="mt-4 grid gap-1 text-sm text-zinc-700">
+                <div>
+                  <span className="font-medium text-zinc-900">Starts:</span> {formatDateTime(startValue)}
+                </div>
+                <div>
+                  <span className="font-medium text-zinc-900">Ends:</span> {formatDateTime(endValue)}
+                </div>
+                {item.location?.address ? (
+                  <div>
+                    <span className="font-medium text-zinc-900">Location:</span> {item.location.address}
+                    {typeof item.location.radiusKm === "number" ? ` (${item.location.radiusKm} km)` : ""}
+                  </div>
+                ) : null}
+                {item.organiser?.name ? (
+                  <div>
+                    <span className="font-medium text-zinc-900">Organiser:</span> {item.organiser.name}
+                  </div>
+                ) : null}
+              </div>
+
+              {tags.length ? (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="inline-flex items-center rounded-full border border-zinc-900/10 bg-zinc-50 px-2.5 py-1 text-[11px] font-semibold text-zinc-700"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              ) : null}
+
+              {item.description ? (
+                <div className="mt-4 whitespace-pre-wrap text-sm text-zinc-700">{item.description}</div>
+              ) : null}
+            </div>
+
+            <div className="p-4 sm:p-6">
+              <div className="text-sm font-semibold text-zinc-950">Tickets</div>
+              {tickets.length ? (
+                <div className="mt-3 grid gap-2">
+                  {tickets.map((t, idx) => (
+                    <div
+                      key={`${t.title}_${idx}`}
+                      className="flex items-start justify-between gap-3 rounded-xl border border-zinc-900/10 bg-white p-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="text-sm font-semibold text-zinc-950">{t.title}</div>
+                        <div className="mt-0.5 line-clamp-2 text-xs text-zinc-600">{t.description}</div>
+                      </div>
+                      <div className="shrink-0 text-right text-xs text-zinc-600">
+                        <div className="text-sm font-semibold text-zinc-950">₹{t.price}</div>
+                        <div>Qty {t.quantity}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="mt-2 text-sm text-zinc-600">No tickets.</div>
+              )}
+            </div>
+          </div>
+
+          <TicketSalesPanel
+            eventId={item.id}
+            canSell={item.status === "verified"}
+            reloadKey={reloadKey}
+          />
+
+          {item.groupsEnabled ? (
+            <GroupsPanel
+              eventId={item.id}
+              tickets={tickets}
+              canSell={item.status === "verified"}
+              reloadKey={reloadKey}
+            />
+          ) : null}
+
+          {item.vehicleVerified ? <VehiclesPanel eventId={item.id} reloadKey={reloadKey} /> : null}
+
+          <StatusTimeline
+            endpoint={`/api/events/${encodeURIComponent(item.id)}/history`}
+            fieldLabels={EVENT_FIELD_LABELS}
+            reloadKey={reloadKey}
+          />
+        </div>
+      ) : null}
+
+      {editOpen && item ? (
+        <EventFormModal
+          open
+          eventId={item.id}
+          onClose={() => setEditOpen(false)}
+          onSaved={() => setReloadKey((k) => k + 1)}
+        />
+      ) : null}
+    </div>
+  );
+}
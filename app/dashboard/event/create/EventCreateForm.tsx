@@ -7,15 +7,35 @@ import EventContentSection from "./sections/EventContentSection";
 import EventOrganiserSection from "./sections/EventOrganiserSection";
 import EventMediaPartiesSection from "./sections/EventMediaPartiesSection";
 import EventSettingsSection from "./sections/EventSettingsSection";
-import EventTicketsSection from "./sections/EventTicketsSection";
+import EventTicketsSection, {
+  couponDraftErrors,
+  newTicketDraft,
+  serializeCouponDrafts,
+} from "./sections/EventTicketsSection";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { UploadError, clearResumableUploads, uploadResumable } from "@/lib/resumableUpload";
 
 export type TicketDraft = {
+  /** Stable id generated when the ticket is added; sales and coupons refer to it. */
+  id: string;
   title: string;
   description: string;
   price: string;
   discountPercent: string;
   quantity: string;
-  couponCode: string;
+};
+
+export type CouponDraft = {
+  code: string;
+  discountType: "percent" | "flat";
+  amount: string;
+  maxUses: string;
+  perUserLimit: string;
+  /** `datetime-local` values; sent to the API as ISO timestamps. */
+  startsAt: string;
+  endsAt: string;
+  /** Empty when the coupon applies to every ticket. */
+  ticketIds: string[];
 };
 
 export type PartyDraft = {
@@ -104,13 +124,13 @@ export default function EventCreateForm() {
   const [partners, setPartners] = useState<PartyDraft[]>([]);
   const [gallery, setGallery] = useState<File[]>([]);
 
-  const [tickets, setTickets] = useState<TicketDraft[]>([
-    { title: "", description: "", price: "", discountPercent: "", quantity: "", couponCode: "" },
-  ]);
+  const [tickets, setTickets] = useState<TicketDraft[]>(() => [newTicketDraft()]);
+  const [coupons, setCoupons] = useState<CouponDraft[]>([]);
 
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [videoUploadPercent, setVideoUploadPercent] = useState<number | null>(null);
 
   const errors = useMemo(() => {
     const next: Record<string, string> = {};
@@ -185,8 +205,10 @@ export default function EventCreateForm() {
       }
     }
 
+    Object.assign(next, couponDraftErrors(coupons, tickets));
+
     return next;
-  }, [aboutHtml, amenities, banner, buttonText, description, endDateTime, eventVideo, eventVideoError, gallery, launchDateTime, locationAddress, locationRadiusKm, organiserLogo, organiserName, partners, sponsors, startDateTime, tags.length, tickets, thingsToKnow, title, termsHtml]);
+  }, [aboutHtml, amenities, banner, buttonText, coupons, description, endDateTime, eventVideo, eventVideoError, gallery, launchDateTime, locationAddress, locationRadiusKm, organiserLogo, organiserName, partners, sponsors, startDateTime, tags.length, tickets, thingsToKnow, title, termsHtml]);
 
   const canSubmit = Object.keys(errors).length === 0;
 
@@ -228,8 +250,18 @@ export default function EventCreateForm() {
         `ticket_${i}_discountPercent`
       );
     }
+    for (let i = 0; i < coupons.length; i++) {
+      keys.push(
+        `coupon_${i}_code`,
+        `coupon_${i}_amount`,
+        `coupon_${i}_maxUses`,
+        `coupon_${i}_perUserLimit`,
+        `coupon_${i}_endsAt`,
+        `coupon_${i}_ticketIds`
+      );
+    }
     return keys;
-  }, [tickets.length]);
+  }, [coupons.length, tickets.length]);
 
   function hasAnyErrors(keys: string[]) {
     return keys.some((k) => Boolean(errors[k]));
@@ -275,6 +307,7 @@ export default function EventCreateForm() {
           next[`ticket_${i}_quantity`] = true;
           next[`ticket_${i}_discountPercent`] = true;
         }
+        for (let i = 0; i < coupons.length; i++) next[`coupon_${i}`] = true;
       }
 
       return next;
@@ -331,6 +364,7 @@ export default function EventCreateForm() {
         next[`ticket_${i}_quantity`] = true;
         next[`ticket_${i}_discountPercent`] = true;
       }
+      for (let i = 0; i < coupons.length; i++) next[`coupon_${i}`] = true;
 
       return next;
     });
@@ -353,6 +387,28 @@ export default function EventCreateForm() {
     setIsSubmitting(true);
     setSubmitError(null);
 
+    let videoUploadId = "";
+    if (eventVideo) {
+      setVideoUploadPercent(0);
+      try {
+        videoUploadId = await uploadResumable(eventVideo, {
+          token,
+          purpose: "eventVideo",
+          onProgress: (fraction) => setVideoUploadPercent(Math.round(fraction * 100)),
+        });
+      } catch (err) {
+        setSubmitError(
+          err instanceof UploadError
+            ? err.message
+            : "Event video upload was interrupted. Submit again to resume."
+        );
+        setIsSubmitting(false);
+        return;
+      } finally {
+        setVideoUploadPercent(null);
+      }
+    }
+
     try {
       const form = new FormData();
       form.set("title", safeTrim(title));
@@ -406,7 +462,7 @@ export default function EventCreateForm() {
       form.set("status", status);
 
       form.set("banner", banner);
-      if (eventVideo) form.set("eventVideo", eventVideo);
+      if (videoUploadId) form.set("eventVideoUploadId", videoUploadId);
       if (organiserLogo) form.set("organiserLogo", organiserLogo);
 
       form.set("sponsorNames", JSON.stringify(sponsors.map((s) => safeTrim(s.name))));
@@ -418,18 +474,19 @@ export default function EventCreateForm() {
       for (const img of gallery) form.append("gallery", img);
 
       const normalizedTickets = tickets.map((t) => ({
+        id: t.id,
         title: safeTrim(t.title),
         description: safeTrim(t.description),
         price: Number(t.price),
         ...(t.discountPercent ? { discountPercent: Number(t.discountPercent) } : {}),
         quantity: Number(t.quantity),
-        ...(safeTrim(t.couponCode) ? { couponCode: safeTrim(t.couponCode) } : {}),
       }));
       form.set("tickets", JSON.stringify(normalizedTickets));
+      form.set("coupons", JSON.stringify(serializeCouponDrafts(coupons, tickets)));
 
       const res = await fetch("/api/events", {
         method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
         body: form,
       });
 
@@ -438,6 +495,9 @@ export default function EventCreateForm() {
         | { ok: false; message?: string }
         | null;
 
+      // The API has consumed (or rejected) the video upload either way; a retry uploads again.
+      clearResumableUploads();
+
       if (!res.ok || !data || data.ok !== true) {
         const message = data && "message" in data && typeof data.message === "string"
           ? data.message
@@ -511,6 +571,21 @@ export default function EventCreateForm() {
             </div>
           ) : null}
 
+          {videoUploadPercent !== null ? (
+            <div className="rounded-2xl border border-zinc-900/10 bg-white px-4 py-3 shadow-sm" role="status">
+              <div className="flex items-center justify-between text-sm text-zinc-700">
+                <span>Uploading event video</span>
+                <span className="font-semibold text-zinc-950">{videoUploadPercent}%</span>
+              </div>
+              <div className="mt-2 h-2 overflow-hidden rounded-full bg-zinc-100">
+                <div
+                  className="h-full rounded-full bg-zinc-950 transition-[width]"
+                  style={{ width: `${videoUploadPercent}%` }}
+                />
+              </div>
+            </div>
+          ) : null}
+
           {activeStep === "details" ? (
             <div className="grid gap-6">
               <EventBasicsSection
@@ -609,9 +684,11 @@ export default function EventCreateForm() {
           {activeStep === "tickets" ? (
             <EventTicketsSection
               tickets={tickets}
+              coupons={coupons}
               touched={touched}
               errors={errors}
               onTickets={setTickets}
+              onCoupons={setCoupons}
               onTouched={setTouched}
             />
           ) : null}
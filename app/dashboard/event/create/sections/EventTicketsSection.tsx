@@ -1,17 +1,131 @@
 "use client";
 
-import type { TicketDraft } from "../EventCreateForm";
+import type { EventCoupon } from "../../types";
+import type { CouponDraft, TicketDraft } from "../EventCreateForm";
 
 type Props = {
   tickets: TicketDraft[];
+  coupons: CouponDraft[];
   touched: Record<string, boolean>;
   errors: Record<string, string>;
   onTickets: (v: TicketDraft[]) => void;
+  onCoupons: (v: CouponDraft[]) => void;
   onTouched: (v: (prev: Record<string, boolean>) => Record<string, boolean>) => void;
 };
 
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,24}$/;
+
+export function newTicketDraft(): TicketDraft {
+  return { id: crypto.randomUUID(), title: "", description: "", price: "", discountPercent: "", quantity: "" };
+}
+
+function emptyCouponDraft(): CouponDraft {
+  return {
+    code: "",
+    discountType: "percent",
+    amount: "",
+    maxUses: "",
+    perUserLimit: "",
+    startsAt: "",
+    endsAt: "",
+    ticketIds: [],
+  };
+}
+
+function toLocalDateTime(iso?: string) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function toIso(local: string) {
+  if (!local) return "";
+  const d = new Date(local);
+  return Number.isNaN(d.getTime()) ? "" : d.toISOString();
+}
+
+function isPositiveInt(value: string) {
+  return /^\d+$/.test(value.trim()) && Number(value) > 0;
+}
+
+export function toCouponDraft(coupon: EventCoupon): CouponDraft {
+  return {
+    code: coupon.code ?? "",
+    discountType: coupon.discountType === "flat" ? "flat" : "percent",
+    amount: typeof coupon.amount === "number" ? String(coupon.amount) : "",
+    maxUses: typeof coupon.maxUses === "number" ? String(coupon.maxUses) : "",
+    perUserLimit: typeof coupon.perUserLimit === "number" ? String(coupon.perUserLimit) : "",
+    startsAt: toLocalDateTime(coupon.startsAt),
+    endsAt: toLocalDateTime(coupon.endsAt),
+    ticketIds: Array.isArray(coupon.ticketIds) ? coupon.ticketIds : [],
+  };
+}
+
+/** Coupon field errors keyed `coupon_{index}_{field}`, merged into the form's error map. */
+export function couponDraftErrors(coupons: CouponDraft[], tickets: TicketDraft[]) {
+  const next: Record<string, string> = {};
+  const seen = new Set<string>();
+  const ticketIds = new Set(tickets.map((t) => t.id));
+
+  for (let i = 0; i < coupons.length; i++) {
+    const c = coupons[i];
+    const code = c.code.trim();
+    if (!COUPON_CODE_PATTERN.test(code)) {
+      next[`coupon_${i}_code`] = "Use 3-24 letters, numbers, dashes or underscores.";
+    } else if (seen.has(code)) {
+      next[`coupon_${i}_code`] = "This code is already used by another coupon.";
+    }
+    seen.add(code);
+
+    const amount = Number(c.amount);
+    if (!c.amount.trim() || !Number.isFinite(amount) || amount <= 0) {
+      next[`coupon_${i}_amount`] = "Discount must be greater than 0.";
+    } else if (c.discountType === "percent" && amount > 100) {
+      next[`coupon_${i}_amount`] = "Discount must be 0-100.";
+    }
+
+    if (c.maxUses.trim() && !isPositiveInt(c.maxUses)) {
+      next[`coupon_${i}_maxUses`] = "Must be a whole number above 0.";
+    }
+    if (c.perUserLimit.trim() && !isPositiveInt(c.perUserLimit)) {
+      next[`coupon_${i}_perUserLimit`] = "Must be a whole number above 0.";
+    }
+    if (c.startsAt && c.endsAt && toIso(c.endsAt) <= toIso(c.startsAt)) {
+      next[`coupon_${i}_endsAt`] = "Must be after the start.";
+    }
+    if (c.ticketIds.length && !c.ticketIds.some((id) => ticketIds.has(id))) {
+      next[`coupon_${i}_ticketIds`] = "Pick at least one of the tickets above.";
+    }
+  }
+
+  return next;
+}
+
+export function serializeCouponDrafts(coupons: CouponDraft[], tickets: TicketDraft[]) {
+  const ticketIds = new Set(tickets.map((t) => t.id));
+  return coupons.map((c) => {
+    const appliesTo = c.ticketIds.filter((id) => ticketIds.has(id));
+    return {
+      code: c.code.trim(),
+      discountType: c.discountType,
+      amount: Number(c.amount),
+      ...(c.maxUses.trim() ? { maxUses: Number(c.maxUses) } : {}),
+      ...(c.perUserLimit.trim() ? { perUserLimit: Number(c.perUserLimit) } : {}),
+      ...(c.startsAt ? { startsAt: toIso(c.startsAt) } : {}),
+      ...(c.endsAt ? { endsAt: toIso(c.endsAt) } : {}),
+      ...(appliesTo.length ? { ticketIds: appliesTo } : {}),
+    };
+  });
+}
+
 export default function EventTicketsSection(props: Props) {
-  const { tickets, touched, errors, onTickets, onTouched } = props;
+  const { tickets, coupons, touched, errors, onTickets, onCoupons, onTouched } = props;
+
+  const updateCoupon = (idx: number, patch: Partial<CouponDraft>) =>
+    onCoupons(coupons.map((c, i) => (i === idx ? { ...c, ...patch } : c)));
+  const couponError = (idx: number, field: string) =>
+    touched[`coupon_${idx}`] ? errors[`coupon_${idx}_${field}`] : undefined;
 
   return (
     <div className="overflow-hidden rounded-3xl border border-zinc-900/10 bg-white shadow-sm">
@@ -25,10 +139,7 @@ export default function EventTicketsSection(props: Props) {
             type="button"
             className="inline-flex h-10 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-sm font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
             onClick={() => {
-              onTickets([
-                ...tickets,
-                { title: "", description: "", price: "", discountPercent: "", quantity: "", couponCode: "" },
-              ]);
+              onTickets([...tickets, newTicketDraft()]);
               onTouched((p) => ({ ...p, tickets: true }));
             }}
           >
@@ -39,14 +150,21 @@ export default function EventTicketsSection(props: Props) {
 
       <div className="grid gap-4 px-6 py-6">
         {tickets.map((t, idx) => (
-          <div key={idx} className="rounded-2xl border border-zinc-900/10 bg-zinc-50 p-4">
+          <div key={t.id} className="rounded-2xl border border-zinc-900/10 bg-zinc-50 p-4">
             <div className="flex items-center justify-between gap-3">
               <div className="text-sm font-semibold">Ticket #{idx + 1}</div>
               {tickets.length > 1 ? (
                 <button
                   type="button"
                   className="inline-flex h-9 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
-                  onClick={() => onTickets(tickets.filter((_, i) => i !== idx))}
+                  onClick={() => {
+                    onTickets(tickets.filter((_, i) => i !== idx));
+                    if (coupons.some((c) => c.ticketIds.includes(t.id))) {
+                      onCoupons(
+                        coupons.map((c) => ({ ...c, ticketIds: c.ticketIds.filter((id) => id !== t.id) }))
+                      );
+                    }
+                  }}
                 >
                   Remove
                 </button>
@@ -54,7 +172,7 @@ export default function EventTicketsSection(props: Props) {
             </div>
 
             <div className="mt-4 grid gap-3 sm:grid-cols-2">
-              <div className="grid gap-2">
+              <div className="grid gap-2 sm:col-span-2">
                 <label className="text-xs font-semibold text-zinc-700">Title</label>
                 <input
                   className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
@@ -70,18 +188,6 @@ export default function EventTicketsSection(props: Props) {
                 ) : null}
               </div>
 
-              <div className="grid gap-2">
-                <label className="text-xs font-semibold text-zinc-700">Coupon code</label>
-                <input
-                  className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
-                  value={t.couponCode}
-                  onChange={(e) => {
-                    const v = e.target.value;
-                    onTickets(tickets.map((x, i) => (i === idx ? { ...x, couponCode: v } : x)));
-                  }}
-                />
-              </div>
-
               <div className="grid gap-2 sm:col-span-2">
                 <label className="text-xs font-semibold text-zinc-700">Description</label>
                 <textarea
@@ -159,6 +265,179 @@ export default function EventTicketsSection(props: Props) {
           <div className="text-xs text-rose-600">{errors.tickets}</div>
         ) : null}
       </div>
+
+      <div className="border-t border-zinc-900/10 px-6 py-5">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-base font-semibold tracking-tight">Coupons</div>
+            <div className="mt-1 text-sm text-zinc-600">
+              Optional codes buyers can apply at checkout for a discount.
+            </div>
+          </div>
+          <button
+            type="button"
+            className="inline-flex h-10 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-sm font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
+            onClick={() => onCoupons([...coupons, emptyCouponDraft()])}
+          >
+            Add coupon
+          </button>
+        </div>
+      </div>
+
+      {coupons.length ? (
+        <div className="grid gap-4 px-6 pb-6">
+          {coupons.map((c, idx) => (
+            <div key={idx} className="rounded-2xl border border-zinc-900/10 bg-zinc-50 p-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm font-semibold">{c.code.trim() || `Coupon #${idx + 1}`}</div>
+                <button
+                  type="button"
+                  className="inline-flex h-9 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
+                  onClick={() => onCoupons(coupons.filter((_, i) => i !== idx))}
+                >
+                  Remove
+                </button>
+              </div>
+
+              <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <label className="text-xs font-semibold text-zinc-700">Code</label>
+                  <input
+                    className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50 uppercase"
+                    value={c.code}
+                    onChange={(e) => updateCoupon(idx, { code: e.target.value.toUpperCase() })}
+                    onBlur={() => onTouched((p) => ({ ...p, [`coupon_${idx}`]: true }))}
+                    placeholder="EARLYBIRD"
+                  />
+                  {couponError(idx, "code") ? (
+                    <div className="text-xs text-rose-600">{couponError(idx, "code")}</div>
+                  ) : null}
+                </div>
+
+                <div className="grid gap-2">
+                  <label className="text-xs font-semibold text-zinc-700">Discount</label>
+                  <div className="flex gap-2">
+                    <select
+                      className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20"
+                      value={c.discountType}
+                      onChange={(e) =>
+                        updateCoupon(idx, { discountType: e.target.value === "flat" ? "flat" : "percent" })
+                      }
+                    >
+                      <option value="percent">% off</option>
+                      <option value="flat">₹ off</option>
+                    </select>
+                    <input
+                      inputMode="decimal"
+                      className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
+                      value={c.amount}
+                      onChange={(e) => updateCoupon(idx, { amount: e.target.value })}
+                      onBlur={() => onTouched((p) => ({ ...p, [`coupon_${idx}`]: true }))}
+                      placeholder={c.discountType === "flat" ? "100" : "10"}
+                    />
+                  </div>
+                  {couponError(idx, "amount") ? (
+                    <div className="text-xs text-rose-600">{couponError(idx, "amount")}</div>
+                  ) : null}
+                </div>
+
+                <div className="grid gap-2">
+                  <label className="text-xs font-semibold text-zinc-700">Total uses</label>
+                  <input
+                    inputMode="numeric"
+                    className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
+                    value={c.maxUses}
+                    onChange={(e) => updateCoupon(idx, { maxUses: e.target.value })}
+                    onBlur={() => onTouched((p) => ({ ...p, [`coupon_${idx}`]: true }))}
+                    placeholder="Unlimited"
+                  />
+                  {couponError(idx, "maxUses") ? (
+                    <div className="text-xs text-rose-600">{couponError(idx, "maxUses")}</div>
+                  ) : null}
+                </div>
+
+                <div className="grid gap-2">
+                  <label className="text-xs font-semibold text-zinc-700">Uses per buyer</label>
+                  <input
+                    inputMode="numeric"
+                    className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
+                    value={c.perUserLimit}
+                    onChange={(e) => updateCoupon(idx, { perUserLimit: e.target.value })}
+                    onBlur={() => onTouched((p) => ({ ...p, [`coupon_${idx}`]: true }))}
+                    placeholder="Unlimited"
+                  />
+                  {couponError(idx, "perUserLimit") ? (
+                    <div className="text-xs text-rose-600">{couponError(idx, "perUserLimit")}</div>
+                  ) : null}
+                </div>
+
+                <div className="grid gap-2">
+                  <label className="text-xs font-semibold text-zinc-700">Valid from</label>
+                  <input
+                    type="datetime-local"
+                    className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
+                    value={c.startsAt}
+                    onChange={(e) => updateCoupon(idx, { startsAt: e.target.value })}
+                  />
+                </div>
+
+                <div className="grid gap-2">
+                  <label className="text-xs font-semibold text-zinc-700">Valid until</label>
+                  <input
+                    type="datetime-local"
+                    className="h-10 w-full rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm outline-none transition focus:border-zinc-900/20 focus:bg-zinc-50"
+                    value={c.endsAt}
+                    onChange={(e) => updateCoupon(idx, { endsAt: e.target.value })}
+                    onBlur={() => onTouched((p) => ({ ...p, [`coupon_${idx}`]: true }))}
+                  />
+                  {couponError(idx, "endsAt") ? (
+                    <div className="text-xs text-rose-600">{couponError(idx, "endsAt")}</div>
+                  ) : null}
+                </div>
+
+                <div className="grid gap-2 sm:col-span-2">
+                  <label className="text-xs font-semibold text-zinc-700">Applies to</label>
+                  <div className="flex flex-wrap gap-2">
+                    {tickets.map((t, ticketIdx) => {
+                      const checked = c.ticketIds.includes(t.id);
+                      return (
+                        <label
+                          key={t.id}
+                          className={`inline-flex h-9 cursor-pointer items-center gap-2 rounded-xl border px-3 text-xs font-semibold shadow-sm transition ${
+                            checked
+                              ? "border-zinc-950 bg-zinc-950 text-white"
+                              : "border-zinc-900/10 bg-white text-zinc-700 hover:bg-zinc-50"
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            className="sr-only"
+                            checked={checked}
+                            onChange={() =>
+                              updateCoupon(idx, {
+                                ticketIds: checked
+                                  ? c.ticketIds.filter((id) => id !== t.id)
+                                  : [...c.ticketIds, t.id],
+                              })
+                            }
+                          />
+                          {t.title.trim() || `Ticket #${ticketIdx + 1}`}
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {c.ticketIds.length ? "Only the selected tickets." : "All tickets when none are selected."}
+                  </div>
+                  {couponError(idx, "ticketIds") ? (
+                    <div className="text-xs text-rose-600">{couponError(idx, "ticketIds")}</div>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -1,9 +1,13 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { AddSquare, Calendar } from "iconsax-react";
+import EventFormModal from "./EventFormModal";
 import type { EventItem, EventStatus } from "./types";
+import VariantImage from "@/components/VariantImage";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { asImageVariants } from "@/lib/imageVariants";
 
 function asEventStatus(value: unknown): EventStatus | null {
   return value === "draft" || value === "pending" || value === "rejected" || value === "verified"
@@ -40,8 +44,149 @@ function formatTime(value?: string) {
   });
 }
 
-function EventCard(props: { item: EventItem; onDelete: (id: string) => void }) {
-  const { item, onDelete } = props;
+const PAGE_SIZE = 24;
+
+type EventSortOption = "createdAt:desc" | "createdAt:asc" | "startDateTime:asc" | "startDateTime:desc";
+
+const SORT_OPTIONS: Array<{ value: EventSortOption; label: string }> = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "startDateTime:asc", label: "Starts soonest" },
+  { value: "startDateTime:desc", label: "Starts latest" },
+];
+
+function asSortOption(value: string): EventSortOption | null {
+  return SORT_OPTIONS.some((o) => o.value === value) ? (value as EventSortOption) : null;
+}
+
+function buildListQuery(params: {
+  filter: "all" | EventStatus;
+  search: string;
+  sort: EventSortOption;
+  from: string;
+  to: string;
+}) {
+  const [sortField, order] = params.sort.split(":");
+  const query = new URLSearchParams({ sort: sortField, order, limit: String(PAGE_SIZE) });
+  if (params.filter !== "all") query.set("status", params.filter);
+  if (params.search) query.set("q", params.search);
+  if (params.from) query.set("from", params.from);
+  if (params.to) query.set("to", params.to);
+  return query.toString();
+}
+
+async function fetchEventsPage(params: { token: string; query: string; cursor?: string; signal?: AbortSignal }) {
+  const url = `/api/events?${params.query}${params.cursor ? `&cursor=${encodeURIComponent(params.cursor)}` : ""}`;
+  const res = await fetch(url, {
+    method: "GET",
+    headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${params.token}` },
+    signal: params.signal,
+  });
+
+  const data = (await res.json().catch(() => null)) as
+    | { ok?: boolean; events?: unknown; nextCursor?: unknown; message?: string }
+    | null;
+
+  if (!res.ok || !data?.ok || !Array.isArray(data.events)) {
+    return { ok: false as const, message: data?.message || "Failed to load events." };
+  }
+
+  return {
+    ok: true as const,
+    items: data.events.map(toEventItem).filter((it): it is EventItem => Boolean(it)),
+    nextCursor: typeof data.nextCursor === "string" && data.nextCursor ? data.nextCursor : null,
+  };
+}
+
+function toEventItem(e: unknown): EventItem | null {
+  if (!e || typeof e !== "object") return null;
+
+  const obj = e as Record<string, unknown>;
+  const id = typeof obj.id === "string" ? obj.id : "";
+  const title = typeof obj.title === "string" ? obj.title : "";
+  const description = typeof obj.description === "string" ? obj.description : "";
+  const launchDateTime = typeof obj.launchDateTime === "string" ? obj.launchDateTime : "";
+  const startDateTime = typeof obj.startDateTime === "string" ? obj.startDateTime : "";
+  const endDateTime = typeof obj.endDateTime === "string" ? obj.endDateTime : "";
+  const startDate = typeof obj.startDate === "string" ? obj.startDate : "";
+  const endDate = typeof obj.endDate === "string" ? obj.endDate : "";
+  const timeText = typeof obj.timeText === "string" ? obj.timeText : "";
+  const bannerUrl = typeof obj.bannerUrl === "string" ? obj.bannerUrl : "";
+  const bannerImage = asImageVariants(obj.bannerImage);
+  const status = typeof obj.status === "string" ? obj.status : "";
+
+  const tags = Array.isArray(obj.tags) ? obj.tags.filter((t) => typeof t === "string") : [];
+  const location =
+    obj.location && typeof obj.location === "object"
+      ? (obj.location as Record<string, unknown>)
+      : null;
+  const address = location && typeof location.address === "string" ? location.address : "";
+  const name = location && typeof location.name === "string" ? location.name : "";
+  const show = location && typeof location.show === "boolean" ? location.show : undefined;
+  const radiusKm = location && typeof location.radiusKm === "number" ? location.radiusKm : undefined;
+
+  const unlockQrAtVenue = typeof obj.unlockQrAtVenue === "boolean" ? obj.unlockQrAtVenue : undefined;
+  const groupsEnabled = typeof obj.groupsEnabled === "boolean" ? obj.groupsEnabled : undefined;
+  const vehicleVerified = typeof obj.vehicleVerified === "boolean" ? obj.vehicleVerified : undefined;
+
+  const hosts = Array.isArray(obj.hosts)
+    ? obj.hosts
+        .filter((h) => h && typeof h === "object")
+        .map((h) => {
+          const host = h as Record<string, unknown>;
+          const name = typeof host.name === "string" ? host.name : "";
+          const imageUrl = typeof host.imageUrl === "string" ? host.imageUrl : "";
+          const url = typeof host.url === "string" ? host.url : "";
+          const show = typeof host.show === "boolean" ? host.show : undefined;
+          return {
+            ...(name ? { name } : { name: "" }),
+            ...(imageUrl ? { imageUrl } : {}),
+            ...(url ? { url } : {}),
+            ...(typeof show === "boolean" ? { show } : {}),
+          };
+        })
+    : [];
+
+  if (!id) return null;
+
+  return {
+    id,
+    ...(title ? { title } : {}),
+    ...(description ? { description } : {}),
+    ...(launchDateTime ? { launchDateTime } : {}),
+    ...(startDateTime ? { startDateTime } : {}),
+    ...(endDateTime ? { endDateTime } : {}),
+    ...(startDate ? { startDate } : {}),
+    ...(endDate ? { endDate } : {}),
+    ...(timeText ? { timeText } : {}),
+    ...(bannerUrl ? { bannerUrl } : {}),
+    ...(bannerImage ? { bannerImage } : {}),
+    ...(tags.length ? { tags } : {}),
+    ...(address || name || typeof show === "boolean" || typeof radiusKm === "number"
+      ? {
+          location: {
+            ...(address ? { address } : {}),
+            ...(name ? { name } : {}),
+            ...(typeof show === "boolean" ? { show } : {}),
+            ...(typeof radiusKm === "number" ? { radiusKm } : {}),
+          },
+        }
+      : {}),
+    ...(hosts.length ? { hosts } : {}),
+    ...(typeof unlockQrAtVenue === "boolean" ? { unlockQrAtVenue } : {}),
+    ...(typeof groupsEnabled === "boolean" ? { groupsEnabled } : {}),
+    ...(typeof vehicleVerified === "boolean" ? { vehicleVerified } : {}),
+    ...(status ? { status } : {}),
+  } satisfies EventItem;
+}
+
+function EventCard(props: {
+  item: EventItem;
+  onDelete: (id: string) => void;
+  onEdit: (id: string) => void;
+  onOpen: (id: string) => void;
+}) {
+  const { item, onDelete, onEdit, onOpen } = props;
 
   const status = asEventStatus(item.status) ?? "draft";
   const tags = Array.isArray(item.tags) ? item.tags : [];
@@ -50,6 +195,7 @@ function EventCard(props: { item: EventItem; onDelete: (id: string) => void }) {
   const [imgFailed, setImgFailed] = useState(false);
 
   const canDelete = status === "draft" || status === "rejected";
+  const canEdit = canDelete;
 
   const startDateValue = item.startDateTime || item.startDate;
   const endDateValue = item.endDateTime || item.endDate;
@@ -59,13 +205,12 @@ function EventCard(props: { item: EventItem; onDelete: (id: string) => void }) {
     <div className="overflow-hidden rounded-2xl border border-zinc-900/10 bg-white text-left shadow-sm transition hover:bg-zinc-50">
       <div className="relative aspect-[16/10] w-full bg-zinc-100">
         {bannerUrl && !imgFailed ? (
-          <img
+          <VariantImage
             src={bannerUrl}
+            variants={item.bannerImage}
+            sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
             alt={item.title || "Event"}
             className="h-full w-full object-cover"
-            loading="lazy"
-            decoding="async"
-            referrerPolicy="no-referrer"
             onError={() => setImgFailed(true)}
           />
         ) : (
@@ -112,7 +257,23 @@ function EventCard(props: { item: EventItem; onDelete: (id: string) => void }) {
           </div>
         ) : null}
 
-        <div className="mt-4 flex items-center justify-end">
+        <div className="mt-4 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            className="inline-flex h-9 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
+            onClick={() => onOpen(item.id)}
+          >
+            View
+          </button>
+          {canEdit ? (
+            <button
+              type="button"
+              className="inline-flex h-9 items-center justify-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50"
+              onClick={() => onEdit(item.id)}
+            >
+              Edit
+            </button>
+          ) : null}
           {canDelete ? (
             <button
               type="button"
@@ -142,6 +303,28 @@ export default function DashboardEventPage() {
   );
 
   const [filter, setFilter] = useState<"all" | EventStatus>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<EventSortOption>("createdAt:desc");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState("");
+  const activeQueryRef = useRef("");
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const listQuery = useMemo(
+    () => buildListQuery({ filter, search, sort, from, to }),
+    [filter, search, sort, from, to]
+  );
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
 
   useEffect(() => {
     const token = (() => {
@@ -167,123 +350,71 @@ export default function DashboardEventPage() {
       setLoadState({ status: "loading" });
 
       try {
-        const url = filter === "all" ? "/api/events" : `/api/events?status=${filter}`;
-        const res = await fetch(url, {
-          method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
-          signal: controller.signal,
-        });
-
-        const data = (await res.json().catch(() => null)) as
-          | { ok?: boolean; events?: unknown; message?: string }
-          | null;
-
-        if (!res.ok || !data?.ok || !Array.isArray(data.events)) {
-          setLoadState({
-            status: "error",
-            message: data?.message || "Failed to load events.",
-          });
+        const page = await fetchEventsPage({ token, query: listQuery, signal: controller.signal });
+        if (!page.ok) {
+          setLoadState({ status: "error", message: page.message });
           return;
         }
 
-        const nextItems = data.events
-          .filter((e) => e && typeof e === "object")
-          .map((e) => {
-            const obj = e as Record<string, unknown>;
-            const id = typeof obj.id === "string" ? obj.id : "";
-            const title = typeof obj.title === "string" ? obj.title : "";
-            const description = typeof obj.description === "string" ? obj.description : "";
-            const launchDateTime = typeof obj.launchDateTime === "string" ? obj.launchDateTime : "";
-            const startDateTime = typeof obj.startDateTime === "string" ? obj.startDateTime : "";
-            const endDateTime = typeof obj.endDateTime === "string" ? obj.endDateTime : "";
-            const startDate = typeof obj.startDate === "string" ? obj.startDate : "";
-            const endDate = typeof obj.endDate === "string" ? obj.endDate : "";
-            const timeText = typeof obj.timeText === "string" ? obj.timeText : "";
-            const bannerUrl = typeof obj.bannerUrl === "string" ? obj.bannerUrl : "";
-            const status = typeof obj.status === "string" ? obj.status : "";
-
-            const tags = Array.isArray(obj.tags) ? obj.tags.filter((t) => typeof t === "string") : [];
-            const location =
-              obj.location && typeof obj.location === "object"
-                ? (obj.location as Record<string, unknown>)
-                : null;
-            const address = location && typeof location.address === "string" ? location.address : "";
-            const name = location && typeof location.name === "string" ? location.name : "";
-            const show = location && typeof location.show === "boolean" ? location.show : undefined;
-            const radiusKm = location && typeof location.radiusKm === "number" ? location.radiusKm : undefined;
-
-            const unlockQrAtVenue = typeof obj.unlockQrAtVenue === "boolean" ? obj.unlockQrAtVenue : undefined;
-            const groupsEnabled = typeof obj.groupsEnabled === "boolean" ? obj.groupsEnabled : undefined;
-            const vehicleVerified = typeof obj.vehicleVerified === "boolean" ? obj.vehicleVerified : undefined;
-
-            const hosts = Array.isArray(obj.hosts)
-              ? obj.hosts
-                  .filter((h) => h && typeof h === "object")
-                  .map((h) => {
-                    const host = h as Record<string, unknown>;
-                    const name = typeof host.name === "string" ? host.name : "";
-                    const imageUrl = typeof host.imageUrl === "string" ? host.imageUrl : "";
-                    const url = typeof host.url === "string" ? host.url : "";
-                    const show = typeof host.show === "boolean" ? host.show : undefined;
-                    return {
-                      ...(name ? { name } : { name: "" }),
-                      ...(imageUrl ? { imageUrl } : {}),
-                      ...(url ? { url } : {}),
-                      ...(typeof show === "boolean" ? { show } : {}),
-                    };
-                  })
-              : [];
-
-            return {
-              id,
-              ...(title ? { title } : {}),
-              ...(description ? { description } : {}),
-              ...(launchDateTime ? { launchDateTime } : {}),
-              ...(startDateTime ? { startDateTime } : {}),
-              ...(endDateTime ? { endDateTime } : {}),
-              ...(startDate ? { startDate } : {}),
-              ...(endDate ? { endDate } : {}),
-              ...(timeText ? { timeText } : {}),
-              ...(bannerUrl ? { bannerUrl } : {}),
-              ...(tags.length ? { tags } : {}),
-              ...(address || name || typeof show === "boolean" || typeof radiusKm === "number"
-                ? {
-                    location: {
-                      ...(address ? { address } : {}),
-                      ...(name ? { name } : {}),
-                      ...(typeof show === "boolean" ? { show } : {}),
-                      ...(typeof radiusKm === "number" ? { radiusKm } : {}),
-                    },
-                  }
-                : {}),
-              ...(hosts.length ? { hosts } : {}),
-              ...(typeof unlockQrAtVenue === "boolean" ? { unlockQrAtVenue } : {}),
-              ...(typeof groupsEnabled === "boolean" ? { groupsEnabled } : {}),
-              ...(typeof vehicleVerified === "boolean" ? { vehicleVerified } : {}),
-              ...(status ? { status } : {}),
-            } satisfies EventItem;
-          })
-          .filter((it) => Boolean(it.id));
-
-        setItems(nextItems);
+        activeQueryRef.current = listQuery;
+        setItems(page.items);
+        setNextCursor(page.nextCursor);
         setLoadState({ status: "idle" });
       } catch {
+        if (controller.signal.aborted) return;
         setLoadState({ status: "error", message: "Failed to load events." });
       }
     };
 
     void run();
     return () => controller.abort();
-  }, [filter, tokenCheck]);
+  }, [listQuery, tokenCheck]);
 
-  const filteredItems = useMemo(() => {
-    if (filter === "all") return items;
-    return items.filter((it) => it.status === filter);
-  }, [filter, items]);
+  const loadMore = useCallback(async () => {
+    if (tokenCheck.status !== "ready" || !tokenCheck.token) return;
+    if (!nextCursor || loadingMore || loadState.status !== "idle") return;
 
-  const hasItems = items.length > 0;
-  const showEmptyEvents = loadState.status === "idle" && items.length === 0;
-  const showEmptyFiltered = loadState.status === "idle" && items.length > 0 && filteredItems.length === 0;
+    const query = listQuery;
+    setLoadingMore(true);
+    setLoadMoreError("");
+    try {
+      const page = await fetchEventsPage({ token: tokenCheck.token, query, cursor: nextCursor });
+      if (activeQueryRef.current !== query) return;
+      if (!page.ok) {
+        setLoadMoreError(page.message);
+        return;
+      }
+
+      setItems((prev) => {
+        const seen = new Set(prev.map((it) => it.id));
+        return [...prev, ...page.items.filter((it) => !seen.has(it.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch {
+      setLoadMoreError("Failed to load more events.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [listQuery, loadState.status, loadingMore, nextCursor, tokenCheck]);
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !nextCursor || loadMoreError) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) void loadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [loadMore, loadMoreError, nextCursor]);
+
+  const hasFilters = filter !== "all" || Boolean(search) || Boolean(from) || Boolean(to);
+  const hasItems = items.length > 0 || hasFilters;
+  const showEmptyEvents = loadState.status === "idle" && items.length === 0 && !hasFilters;
+  const showEmptyFiltered = loadState.status === "idle" && items.length === 0 && hasFilters;
 
   async function onDelete(id: string) {
     const token = (() => {
@@ -327,10 +458,20 @@ export default function DashboardEventPage() {
             Add Event
           </button>
         ) : null}
+      </div>
+
+      <div className="mt-6 flex flex-col gap-3 rounded-2xl border border-zinc-900/10 bg-white p-3 shadow-sm lg:flex-row lg:items-center">
+        <input
+          type="search"
+          value={searchInput}
+          placeholder="Search by title or tag"
+          className="h-10 min-w-0 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm"
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
 
-        <div className="flex items-center gap-2">
-          <div className="text-sm font-medium text-zinc-700">Filter</div>
+        <div className="flex flex-wrap items-center gap-2">
           <select
+            aria-label="Status"
             className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm"
             value={filter}
             onChange={(e) => {
@@ -342,12 +483,50 @@ export default function DashboardEventPage() {
               }
             }}
           >
-            <option value="all">All</option>
+            <option value="all">All statuses</option>
             <option value="draft">Draft</option>
             <option value="pending">Pending</option>
             <option value="rejected">Rejected</option>
             <option value="verified">Verified</option>
           </select>
+
+          <select
+            aria-label="Sort"
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm shadow-sm"
+            value={sort}
+            onChange={(e) => {
+              const next = asSortOption(e.target.value);
+              if (next) setSort(next);
+            }}
+          >
+            {SORT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-2 text-xs font-medium text-zinc-600">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm"
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-xs font-medium text-zinc-600">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950 shadow-sm"
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </label>
         </div>
       </div>
 
@@ -425,10 +604,60 @@ export default function DashboardEventPage() {
       ) : null}
 
       <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-        {filteredItems.map((item) => (
-          <EventCard key={`${item.id}_${item.status ?? ""}`} item={item} onDelete={onDelete} />
+        {items.map((item) => (
+          <EventCard
+            key={`${item.id}_${item.status ?? ""}`}
+            item={item}
+            onDelete={onDelete}
+            onEdit={setEditingId}
+            onOpen={(id) => router.push(`/dashboard/event/${encodeURIComponent(id)}`)}
+          />
         ))}
       </div>
+
+      {nextCursor || loadingMore || loadMoreError ? (
+        <div ref={sentinelRef} className="mt-6 flex flex-col items-center gap-2">
+          {loadMoreError ? (
+            <div className="text-sm text-rose-700">{loadMoreError}</div>
+          ) : null}
+          <button
+            type="button"
+            disabled={loadingMore}
+            className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 disabled:opacity-50"
+            onClick={() => void loadMore()}
+          >
+            {loadingMore ? "Loading…" : "Load more"}
+          </button>
+        </div>
+      ) : null}
+
+      {editingId ? (
+        <EventFormModal
+          open
+          eventId={editingId}
+          onClose={() => setEditingId(null)}
+          onSaved={(saved) => {
+            setItems((prev) =>
+              prev.map((x) =>
+                x.id === saved.id
+                  ? {
+                      ...x,
+                      ...(saved.title ? { title: saved.title } : {}),
+                      ...(saved.description ? { description: saved.description } : {}),
+                      ...(saved.launchDateTime ? { launchDateTime: saved.launchDateTime } : {}),
+                      ...(saved.startDateTime ? { startDateTime: saved.startDateTime } : {}),
+                      ...(saved.endDateTime ? { endDateTime: saved.endDateTime } : {}),
+                      ...(saved.bannerUrl ? { bannerUrl: saved.bannerUrl } : {}),
+                      ...(Array.isArray(saved.tags) ? { tags: saved.tags } : {}),
+                      ...(saved.location ? { location: saved.location } : {}),
+                      ...(saved.status ? { status: saved.status } : {}),
+                    }
+                  : x
+              )
+            );
+          }}
+        />
+      ) : null}
     </div>
   );
 }
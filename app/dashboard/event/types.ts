@@ -1,12 +1,26 @@
+import type { ImageVariants } from "@/lib/imageVariants";
+import type { RejectionRecord } from "@/lib/rejection";
+
 export type EventStatus = "draft" | "pending" | "rejected" | "verified";
 
 export type EventTicket = {
+  id?: string;
   title: string;
   description: string;
   price: number;
   discountPercent?: number;
   quantity: number;
-  couponCode?: string;
+};
+
+export type EventCoupon = {
+  code: string;
+  discountType: "percent" | "flat";
+  amount: number;
+  maxUses?: number;
+  perUserLimit?: number;
+  startsAt?: string;
+  endsAt?: string;
+  ticketIds?: string[];
 };
 
 export type EventOrgRef = {
@@ -51,6 +65,8 @@ export type EventItem = {
     lng?: number;
   };
   bannerUrl?: string;
+  bannerImage?: ImageVariants;
+  videoUrl?: string;
   tags?: string[];
   termsHtml?: string;
   aboutHtml?: string;
@@ -67,5 +83,26 @@ export type EventItem = {
   partners?: EventPartyRef[];
   galleryUrls?: string[];
   tickets?: EventTicket[];
+  coupons?: EventCoupon[];
   status?: string;
+  rejection?: RejectionRecord | null;
+};
+
+export const EVENT_FIELD_LABELS: Record<string, string> = {
+  title: "Event title",
+  description: "Event description",
+  banner: "Banner",
+  eventVideo: "Event video",
+  dates: "Dates",
+  location: "Location",
+  tags: "Tags",
+  termsHtml: "Terms",
+  aboutHtml: "About",
+  organiser: "Organiser",
+  hosts: "Hosts",
+  sponsors: "Sponsors",
+  partners: "Partners",
+  gallery: "Gallery",
+  tickets: "Tickets",
+  coupons: "Coupons",
 };
@@ -0,0 +1,365 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { MEMBER_ROLE_LABELS, asMemberRole, type MemberRole } from "@/lib/businessRoles";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { AUDIT_ACTION_LABELS } from "@/lib/auditActions";
+
+type LoadState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "error"; message: string };
+
+type TeamMember = {
+  uid: string;
+  role: string;
+  name: string;
+  email: string;
+  joinedAt: string | null;
+};
+
+type TeamInvite = {
+  id: string;
+  email: string;
+  role: string;
+  createdAt: string | null;
+  expiresAt: string | null;
+};
+
+type ActivityEntry = {
+  id: string;
+  actorUid: string;
+  actorName: string;
+  action: string;
+  targetType: string;
+  summary: string;
+  createdAt: string | null;
+};
+
+type TeamResponse = {
+  ok?: boolean;
+  message?: string;
+  role?: string;
+  permissions?: string[];
+  members?: TeamMember[];
+  invites?: TeamInvite[];
+  activity?: ActivityEntry[];
+};
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatDateTime(value?: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function roleLabel(value: string) {
+  const role = asMemberRole(value);
+  return role ? MEMBER_ROLE_LABELS[role] : value;
+}
+
+export default function DashboardTeamPage() {
+  const router = useRouter();
+  const [team, setTeam] = useState<TeamResponse | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>({ status: "loading" });
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Exclude<MemberRole, "owner">>("employee");
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState("");
+  const [inviteLink, setInviteLink] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      try {
+        const res = await fetch("/api/team", {
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as TeamResponse | null;
+
+        if (!res.ok || !data?.ok) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load team." });
+          return;
+        }
+
+        setTeam(data);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load team." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const canManage = Boolean(team?.permissions?.includes("team.manage"));
+
+  const send = async (path: string, method: string, body?: unknown) => {
+    const token = readToken();
+    if (!token) {
+      setActionError("Missing authentication token.");
+      return null;
+    }
+
+    setBusy(true);
+    setActionError("");
+    try {
+      const res = await fetch(path, {
+        method,
+        headers: {
+          ...activeBusinessHeaders(),
+          Authorization: `Bearer ${token}`,
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; message?: string; joinPath?: string }
+        | null;
+
+      if (!res.ok || !data?.ok) {
+        setActionError(data?.message || "Request failed.");
+        return null;
+      }
+
+      setReloadKey((k) => k + 1);
+      return data;
+    } catch {
+      setActionError("Request failed.");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onInvite = async () => {
+    if (busy || !inviteEmail.trim()) return;
+    const data = await send("/api/team/invites", "POST", { email: inviteEmail.trim(), role: inviteRole });
+    if (!data?.joinPath) return;
+    setInviteEmail("");
+    setInviteLink(`${window.location.origin}${data.joinPath}`);
+  };
+
+  const onRevoke = (id: string) => {
+    if (busy) return;
+    void send(`/api/team/invites/${encodeURIComponent(id)}`, "DELETE");
+  };
+
+  const onRemove = (member: TeamMember) => {
+    if (busy) return;
+    const confirmed = window.confirm(`Remove ${member.name || member.email || "this member"} from the team?`);
+    if (!confirmed) return;
+    void send(`/api/team/members/${encodeURIComponent(member.uid)}`, "DELETE");
+  };
+
+  const onChangeRole = (member: TeamMember, role: string) => {
+    if (busy) return;
+    void send(`/api/team/members/${encodeURIComponent(member.uid)}`, "PATCH", { role });
+  };
+
+  const members = team?.members ?? [];
+  const invites = team?.invites ?? [];
+  const activity = team?.activity ?? [];
+
+  return (
+    <div className="mx-auto w-full max-w-4xl px-4 py-10 sm:px-6 sm:py-14">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Team</h1>
+          <p className="mt-1 text-sm text-zinc-600">
+            People who can manage catalogue and events for this business.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="h-10 rounded-xl border border-zinc-900/10 bg-white px-4 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50"
+          onClick={() => router.push("/dashboard/business")}
+        >
+          Back
+        </button>
+      </div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+          Loading…
+        </div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {loadState.message}
+        </div>
+      ) : null}
+
+      {actionError ? (
+        <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+          {actionError}
+        </div>
+      ) : null}
+
+      {loadState.status === "idle" && team ? (
+        <div className="mt-6 grid gap-4">
+          <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+            <div className="text-sm font-semibold text-zinc-950">Members</div>
+            <div className="mt-3 grid gap-2">
+              {members.map((member) => (
+                <div
+                  key={member.uid}
+                  className="flex flex-col gap-2 rounded-xl border border-zinc-900/10 p-3 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-semibold text-zinc-950">
+                      {member.name || member.email || member.uid}
+                    </div>
+                    <div className="mt-0.5 truncate text-xs text-zinc-600">
+                      {[member.email, member.joinedAt ? `Joined ${formatDateTime(member.joinedAt)}` : ""]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </div>
+                  </div>
+
+                  {canManage && member.role !== "owner" ? (
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={member.role}
+                        disabled={busy}
+                        onChange={(e) => onChangeRole(member, e.target.value)}
+                        className="h-9 rounded-xl border border-zinc-900/10 bg-white px-2 text-xs font-semibold text-zinc-900"
+                      >
+                        <option value="manager">{MEMBER_ROLE_LABELS.manager}</option>
+                        <option value="employee">{MEMBER_ROLE_LABELS.employee}</option>
+                      </select>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        className="inline-flex h-9 items-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50 disabled:opacity-50"
+                        onClick={() => onRemove(member)}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="inline-flex w-fit items-center rounded-full border border-zinc-900/10 bg-zinc-50 px-3 py-1 text-xs font-semibold text-zinc-700">
+                      {roleLabel(member.role)}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {canManage ? (
+            <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+              <div className="text-sm font-semibold text-zinc-950">Invite someone</div>
+              <p className="mt-1 text-xs text-zinc-600">
+                Managers can submit items for verification. Employees can prepare drafts.
+              </p>
+              <div className="mt-3 flex flex-col gap-2 sm:flex-row">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  className="h-10 flex-1 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value === "manager" ? "manager" : "employee")}
+                  className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm text-zinc-950"
+                >
+                  <option value="employee">{MEMBER_ROLE_LABELS.employee}</option>
+                  <option value="manager">{MEMBER_ROLE_LABELS.manager}</option>
+                </select>
+                <button
+                  type="button"
+                  disabled={busy || !inviteEmail.trim()}
+                  className="h-10 rounded-xl bg-zinc-950 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-50"
+                  onClick={onInvite}
+                >
+                  Create invite
+                </button>
+              </div>
+
+              {inviteLink ? (
+                <div className="mt-3 rounded-xl border border-emerald-500/20 bg-emerald-500/10 p-3 text-xs text-emerald-800">
+                  <div className="font-semibold">Share this link with your teammate:</div>
+                  <div className="mt-1 break-all font-mono">{inviteLink}</div>
+                </div>
+              ) : null}
+
+              {invites.length ? (
+                <div className="mt-4 grid gap-2">
+                  <div className="text-xs font-medium text-zinc-500">Pending invitations</div>
+                  {invites.map((invite) => (
+                    <div
+                      key={invite.id}
+                      className="flex items-center justify-between gap-3 rounded-xl border border-zinc-900/10 p-3"
+                    >
+                      <div className="min-w-0 text-xs text-zinc-600">
+                        <div className="truncate text-sm font-semibold text-zinc-950">{invite.email}</div>
+                        {roleLabel(invite.role)}
+                        {invite.expiresAt ? ` · expires ${formatDateTime(invite.expiresAt)}` : ""}
+                      </div>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        className="inline-flex h-9 items-center rounded-xl border border-zinc-900/10 bg-white px-3 text-xs font-semibold text-zinc-900 shadow-sm transition hover:bg-zinc-50 disabled:opacity-50"
+                        onClick={() => onRevoke(invite.id)}
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          <div className="rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6">
+            <div className="text-sm font-semibold text-zinc-950">Recent activity</div>
+            {activity.length ? (
+              <ul className="mt-3 grid gap-2">
+                {activity.map((entry) => (
+                  <li key={entry.id} className="text-xs text-zinc-700">
+                    <span className="font-semibold text-zinc-950">{entry.actorName || "Someone"}</span>{" "}
+                    {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                    {entry.summary ? <span className="text-zinc-950"> {entry.summary}</span> : null}
+                    <span className="text-zinc-500"> · {formatDateTime(entry.createdAt)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="mt-2 text-sm text-zinc-600">No activity yet.</div>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
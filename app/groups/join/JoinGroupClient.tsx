@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+type GroupPreview = {
+  eventTitle?: string;
+  startDateTime?: string | null;
+  ticketTitle?: string;
+  size?: number;
+  claimed?: number;
+  status?: "open" | "complete" | "expired";
+  claimDeadline?: string | null;
+  isMember?: boolean;
+};
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatDateTime(value: string | null | undefined) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function JoinGroupClient() {
+  const searchParams = useSearchParams();
+  const groupId = searchParams.get("token") ?? "";
+
+  const [group, setGroup] = useState<GroupPreview | null>(null);
+  const [loadState, setLoadState] = useState<
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "error"; message: string }
+  >({ status: "loading" });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!groupId) {
+        setLoadState({ status: "error", message: "Missing group invite." });
+        return;
+      }
+      if (!token) {
+        setLoadState({ status: "error", message: "Please sign in to join this group." });
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/groups/${encodeURIComponent(groupId)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; group?: GroupPreview; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !data.group) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load group." });
+          return;
+        }
+
+        setGroup(data.group);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load group." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [groupId]);
+
+  const seatsLeft = Math.max(0, (group?.size ?? 0) - (group?.claimed ?? 0));
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-950">
+      <div className="mx-auto w-full max-w-md px-4 py-10 sm:px-6 sm:py-14">
+        <h1 className="text-2xl font-semibold tracking-tight">Join a group booking</h1>
+
+        {loadState.status === "loading" ? (
+          <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+            Loading…
+          </div>
+        ) : null}
+
+        {loadState.status === "error" ? (
+          <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+            {loadState.message}
+          </div>
+        ) : null}
+
+        {loadState.status === "idle" && group ? (
+          <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white p-5 shadow-sm">
+            <div className="text-lg font-semibold text-zinc-950">{group.eventTitle || "Event"}</div>
+            {group.startDateTime ? (
+              <div className="mt-0.5 text-xs text-zinc-600">{formatDateTime(group.startDateTime)}</div>
+            ) : null}
+            <div className="mt-3 text-sm text-zinc-700">
+              {group.ticketTitle || "Ticket"} · {group.claimed ?? 0} of {group.size ?? 0} seats claimed
+            </div>
+            {group.status === "open" && group.claimDeadline ? (
+              <div className="mt-1 text-xs text-zinc-500">
+                Claim your seat by {formatDateTime(group.claimDeadline)}
+              </div>
+            ) : null}
+
+            {group.isMember ? (
+              <div className="mt-4 rounded-xl border border-emerald-500/20 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-800">
+                You have a seat in this group.
+              </div>
+            ) : group.status === "open" && seatsLeft > 0 ? (
+              <div className="mt-4 rounded-xl border border-zinc-900/10 bg-zinc-50 px-3 py-2 text-sm text-zinc-700">
+                Pay for your seat at the event&apos;s box office with the email of your account and
+                this invite code:
+                <div className="mt-1 select-all font-mono text-xs font-semibold text-zinc-950">{groupId}</div>
+              </div>
+            ) : (
+              <div className="mt-4 text-sm text-zinc-600">
+                {group.status === "expired" ? "This invite has expired." : "This group is full."}
+              </div>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Suspense } from "react";
+import JoinGroupClient from "./JoinGroupClient";
+
+export default function JoinGroupPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="mx-auto w-full max-w-md px-4 py-10 sm:px-6 sm:py-14">
+          <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+            Loading…
+          </div>
+        </div>
+      }
+    >
+      <JoinGroupClient />
+    </Suspense>
+  );
+}
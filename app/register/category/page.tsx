@@ -2,6 +2,7 @@
 
 import { useRouter } from "next/navigation";
 import { type FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
 
 type BusinessStatus = "draft" | "submitted" | "pending" | "verified" | "rejected";
 
@@ -579,6 +580,7 @@ export default function RegisterCategoryPage() {
         const res = await fetch("/api/register", {
           method: "GET",
           headers: {
+            ...activeBusinessHeaders(),
             Authorization: `Bearer ${token}`,
           },
           signal: controller.signal,
@@ -702,6 +704,7 @@ export default function RegisterCategoryPage() {
       const res = await fetch("/api/register", {
         method: "POST",
         headers: {
+          ...activeBusinessHeaders(),
           Authorization: `Bearer ${token}`,
         },
         body: payload,
@@ -2,6 +2,8 @@
 
 import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useRef, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { UploadError, clearResumableUploads, uploadResumable } from "@/lib/resumableUpload";
 
 type BusinessLocation = {
   id: string;
@@ -42,7 +44,7 @@ type LoadState =
 
 type SubmitState =
   | { status: "idle" }
-  | { status: "submitting" }
+  | { status: "submitting"; upload?: { label: string; percent: number } }
   | { status: "success"; message: string }
   | { status: "error"; message: string };
 
@@ -100,7 +102,7 @@ export default function RegisterKycPage() {
       try {
         const res = await fetch("/api/register", {
           method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
           signal: controller.signal,
         });
 
@@ -316,21 +318,52 @@ export default function RegisterKycPage() {
 
     setSubmitState({ status: "submitting" });
 
+    const uploadVideo = (file: File, label: string, locationId?: string) =>
+      uploadResumable(file, {
+        token,
+        purpose: locationId ? "kycLocation" : "kycSelfie",
+        locationId,
+        onProgress: (fraction) =>
+          setSubmitState({
+            status: "submitting",
+            upload: { label, percent: Math.round(fraction * 100) },
+          }),
+      });
+
+    let payload: FormData;
     try {
-      const payload = new FormData();
+      payload = new FormData();
       payload.append("scriptText", REQUIRED_SCRIPT);
-      payload.append("selfieVideo", selfieVideoFile as File);
+      payload.append(
+        "selfieVideoUploadId",
+        await uploadVideo(selfieVideoFile as File, "Uploading self video")
+      );
 
       if (needsLocationVideos) {
-        for (const loc of state.locations) {
+        for (const [index, loc] of state.locations.entries()) {
           const file = locationVideoById[loc.id];
-          if (file) payload.append(`locationVideo_${loc.id}`, file);
+          if (!file) continue;
+          const label = `Uploading shop proof video ${index + 1} of ${state.locations.length}`;
+          payload.append(`locationVideoUploadId_${loc.id}`, await uploadVideo(file, label, loc.id));
         }
       }
+    } catch (err) {
+      setSubmitState({
+        status: "error",
+        message:
+          err instanceof UploadError
+            ? err.message
+            : "Video upload was interrupted. Submit again to resume.",
+      });
+      return;
+    }
+
+    setSubmitState({ status: "submitting" });
 
+    try {
       const res = await fetch("/api/kyc", {
         method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
         body: payload,
       });
 
@@ -338,6 +371,9 @@ export default function RegisterKycPage() {
         | { ok?: boolean; message?: string }
         | null;
 
+      // The API has consumed (or rejected) the uploads either way; a retry uploads again.
+      clearResumableUploads();
+
       if (!res.ok || !data?.ok) {
         setSubmitState({
           status: "error",
@@ -494,6 +530,21 @@ export default function RegisterKycPage() {
               </div>
             ) : null}
 
+            {submitState.status === "submitting" && submitState.upload ? (
+              <div className="rounded-2xl border border-zinc-900/10 bg-white px-4 py-3 shadow-sm" role="status">
+                <div className="flex items-center justify-between text-sm text-zinc-700">
+                  <span>{submitState.upload.label}</span>
+                  <span className="font-semibold text-zinc-950">{submitState.upload.percent}%</span>
+                </div>
+                <div className="mt-2 h-2 overflow-hidden rounded-full bg-zinc-100">
+                  <div
+                    className="h-full rounded-full bg-zinc-950 transition-[width]"
+                    style={{ width: `${submitState.upload.percent}%` }}
+                  />
+                </div>
+              </div>
+            ) : null}
+
             {(submitState.status === "error" || submitState.status === "success") && (
               <div
                 className={`rounded-2xl border px-4 py-3 text-sm shadow-sm ${
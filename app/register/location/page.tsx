@@ -3,6 +3,7 @@
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { type FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
 
 type BusinessStatus = "draft" | "submitted" | "pending" | "verified" | "rejected";
 
@@ -471,6 +472,7 @@ export default function RegisterLocationPage() {
         const res = await fetch("/api/register", {
           method: "GET",
           headers: {
+            ...activeBusinessHeaders(),
             Authorization: `Bearer ${token}`,
           },
           signal: controller.signal,
@@ -615,6 +617,7 @@ export default function RegisterLocationPage() {
       const res = await fetch("/api/register", {
         method: "POST",
         headers: {
+          ...activeBusinessHeaders(),
           Authorization: `Bearer ${token}`,
         },
         body: payload,
@@ -3,6 +3,7 @@
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { type FormEvent, useEffect, useMemo, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
 
 type BusinessStatus = "draft" | "submitted" | "pending" | "verified" | "rejected";
 
@@ -164,6 +165,7 @@ export default function RegisterPage() {
         const res = await fetch("/api/register", {
           method: "GET",
           headers: {
+            ...activeBusinessHeaders(),
             Authorization: `Bearer ${token}`,
           },
           signal: controller.signal,
@@ -276,6 +278,7 @@ export default function RegisterPage() {
       const res = await fetch("/api/register", {
         method: "POST",
         headers: {
+          ...activeBusinessHeaders(),
           Authorization: `Bearer ${token}`,
         },
         body: payload,
@@ -4,6 +4,7 @@ import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
 
 type BusinessLocation = {
   id: string;
@@ -96,6 +97,7 @@ export default function RegisterPreviewPage() {
         const res = await fetch("/api/register", {
           method: "GET",
           headers: {
+            ...activeBusinessHeaders(),
             Authorization: `Bearer ${token}`,
           },
           signal: controller.signal,
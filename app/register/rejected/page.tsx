@@ -2,6 +2,13 @@
 
 import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
+import RejectionNotice from "@/components/RejectionNotice";
+import {
+  BUSINESS_FIELD_LABELS,
+  normalizeRejection,
+  type RejectionRecord,
+} from "@/lib/rejection";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
 
 type LoadState =
   | { status: "loading" }
@@ -40,6 +47,7 @@ export default function RegisterRejectedPage() {
     return { status: "loading" };
   });
   const [submitState, setSubmitState] = useState<SubmitState>({ status: "idle" });
+  const [rejection, setRejection] = useState<RejectionRecord | null>(null);
 
   useEffect(() => {
     if (state.status !== "loading") return;
@@ -62,13 +70,14 @@ export default function RegisterRejectedPage() {
         const res = await fetch("/api/register", {
           method: "GET",
           headers: {
+            ...activeBusinessHeaders(),
             Authorization: `Bearer ${token}`,
           },
           signal: controller.signal,
         });
 
         const data = (await res.json().catch(() => null)) as
-          | { ok?: boolean; business?: { status?: unknown } | null }
+          | { ok?: boolean; business?: { status?: unknown; rejection?: unknown } | null }
           | null;
 
         if (!res.ok || !data?.ok) {
@@ -90,6 +99,7 @@ export default function RegisterRejectedPage() {
           return;
         }
 
+        setRejection(normalizeRejection(data.business?.rejection));
         setState({ status: "ready" });
       } catch {
         setState({ status: "error", message: "Network error. Please try again." });
@@ -127,6 +137,7 @@ export default function RegisterRejectedPage() {
       const res = await fetch("/api/register", {
         method: "POST",
         headers: {
+          ...activeBusinessHeaders(),
           Authorization: `Bearer ${token}`,
         },
         body: payload,
@@ -196,6 +207,15 @@ export default function RegisterRejectedPage() {
               information.
             </p>
 
+            {rejection ? (
+              <RejectionNotice
+                className="mt-6"
+                rejection={rejection}
+                title="Why it was rejected"
+                fieldLabels={BUSINESS_FIELD_LABELS}
+              />
+            ) : null}
+
             <div className="mt-8 flex flex-wrap gap-3">
               <button
                 type="button"
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { MEMBER_ROLE_LABELS, asMemberRole } from "@/lib/businessRoles";
+
+type InvitePreview = {
+  businessName?: string;
+  email?: string;
+  role?: string;
+  status?: string;
+  expiresAt?: string | null;
+};
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+export default function JoinTeamClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const inviteToken = searchParams.get("token") ?? "";
+
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [loadState, setLoadState] = useState<
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "error"; message: string }
+  >({ status: "loading" });
+  const [accepting, setAccepting] = useState(false);
+  const [acceptError, setAcceptError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!inviteToken) {
+        setLoadState({ status: "error", message: "Missing invitation token." });
+        return;
+      }
+      if (!token) {
+        setLoadState({ status: "error", message: "Please sign in to accept this invitation." });
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/team/join?token=${encodeURIComponent(inviteToken)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; invite?: InvitePreview; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !data.invite) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load invitation." });
+          return;
+        }
+
+        setInvite(data.invite);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load invitation." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [inviteToken]);
+
+  const onAccept = async () => {
+    const token = readToken();
+    if (!token || accepting) return;
+
+    setAccepting(true);
+    setAcceptError("");
+    try {
+      const res = await fetch("/api/team/join", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token: inviteToken }),
+      });
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; message?: string }
+        | null;
+
+      if (!res.ok || !data?.ok) {
+        setAcceptError(data?.message || "Failed to accept invitation.");
+        return;
+      }
+
+      router.replace("/dashboard/catalogue");
+    } catch {
+      setAcceptError("Failed to accept invitation.");
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const role = asMemberRole(invite?.role);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-950">
+      <div className="mx-auto w-full max-w-md px-4 py-10 sm:px-6 sm:py-14">
+        <h1 className="text-2xl font-semibold tracking-tight">Join a team</h1>
+
+        {loadState.status === "loading" ? (
+          <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white/60 px-4 py-3 text-sm text-zinc-600 shadow-sm">
+            Loading…
+          </div>
+        ) : null}
+
+        {loadState.status === "error" ? (
+          <div className="mt-6 rounded-2xl border border-rose-500/20 bg-rose-500/10 px-4 py-3 text-sm text-rose-700 shadow-sm">
+            {loadState.message}
+          </div>
+        ) : null}
+
+        {loadState.status === "idle" && invite ? (
+          <div className="mt-6 rounded-2xl border border-zinc-900/10 bg-white p-5 shadow-sm">
+            <div className="text-sm text-zinc-700">
+              You have been invited to join{" "}
+              <span className="font-semibold text-zinc-950">{invite.businessName || "a business"}</span>
+              {role ? (
+                <>
+                  {" "}
+                  as <span className="font-semibold text-zinc-950">{MEMBER_ROLE_LABELS[role]}</span>
+                </>
+              ) : null}
+              .
+            </div>
+            {invite.email ? (
+              <div className="mt-2 text-xs text-zinc-500">Invitation sent to {invite.email}</div>
+            ) : null}
+
+            {acceptError ? (
+              <div className="mt-4 rounded-xl border border-rose-500/20 bg-rose-500/10 px-3 py-2 text-xs text-rose-700">
+                {acceptError}
+              </div>
+            ) : null}
+
+            {invite.status === "pending" ? (
+              <button
+                type="button"
+                disabled={accepting}
+                className="mt-4 h-11 w-full rounded-xl bg-zinc-950 px-4 text-sm font-semibold text-white shadow-sm transition hover:bg-zinc-800 disabled:opacity-50"
+                onClick={onAccept}
+              >
+                {accepting ? "Joining…" : "Accept invitation"}
+              </button>
+            ) : (
+              <div className="mt-4 text-sm text-zinc-600">This invitation is {invite.status}.</div>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
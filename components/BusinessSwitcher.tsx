@@ -0,0 +1,129 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { MEMBER_ROLE_LABELS, type MemberRole } from "@/lib/businessRoles";
+import { readActiveBusinessId, setActiveBusinessId } from "@/lib/activeBusiness";
+
+type BusinessOption = {
+  id: string;
+  businessName: string;
+  status: string;
+  role: MemberRole;
+};
+
+type Props = {
+  className?: string;
+};
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+export default function BusinessSwitcher({ className }: Props) {
+  const router = useRouter();
+  const [businesses, setBusinesses] = useState<BusinessOption[]>([]);
+  const [activeId, setActiveId] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const token = readToken();
+    if (!token) return;
+
+    const controller = new AbortController();
+    const run = async () => {
+      try {
+        const res = await fetch("/api/businesses", {
+          headers: { Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; businesses?: BusinessOption[] }
+          | null;
+        if (!res.ok || !data?.ok || !Array.isArray(data.businesses)) return;
+
+        const list = data.businesses;
+        const stored = readActiveBusinessId();
+        setBusinesses(list);
+        setActiveId(list.some((b) => b.id === stored) ? stored : list[0]?.id ?? "");
+      } catch {
+        // ignore
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, []);
+
+  const onSelect = (businessId: string) => {
+    if (!businessId || businessId === activeId) return;
+    setActiveId(businessId);
+    setActiveBusinessId(businessId);
+    window.location.reload();
+  };
+
+  const onAddBusiness = async () => {
+    const token = readToken();
+    if (!token || busy) return;
+
+    setBusy(true);
+    try {
+      const res = await fetch("/api/businesses", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = (await res.json().catch(() => null)) as
+        | { ok?: boolean; businessId?: string; message?: string }
+        | null;
+
+      if (!res.ok || !data?.ok || !data.businessId) {
+        window.alert(data?.message || "Failed to add business.");
+        return;
+      }
+
+      setActiveBusinessId(data.businessId);
+      router.push("/register");
+    } catch {
+      window.alert("Failed to add business.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canAdd = businesses.length === 0 || businesses.some((b) => b.role === "owner");
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ""}`}>
+      {businesses.length > 1 ? (
+        <select
+          aria-label="Active business"
+          className="h-10 max-w-[14rem] rounded-xl border border-zinc-900/10 bg-white px-3 text-sm font-semibold text-zinc-950 shadow-sm"
+          value={activeId}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          {businesses.map((b) => (
+            <option key={b.id} value={b.id}>
+              {(b.businessName || "Untitled business") +
+                (b.role === "owner" ? "" : ` (${MEMBER_ROLE_LABELS[b.role]})`)}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      {canAdd ? (
+        <button
+          type="button"
+          disabled={busy}
+          className="h-10 rounded-xl border border-zinc-900/10 bg-white px-3 text-sm font-semibold text-zinc-950 shadow-sm transition hover:bg-zinc-50 disabled:opacity-50"
+          onClick={onAddBusiness}
+        >
+          {busy ? "Adding…" : "Add business"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { REJECTION_REASON_LABELS, type RejectionRecord } from "@/lib/rejection";
+
+type Props = {
+  rejection: RejectionRecord;
+  title?: string;
+  fieldLabels?: Record<string, string>;
+  className?: string;
+};
+
+function formatReviewedAt(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function RejectionNotice({ rejection, title, fieldLabels, className }: Props) {
+  const reviewedAt = formatReviewedAt(rejection.reviewedAt);
+
+  return (
+    <div
+      className={`rounded-2xl border border-rose-500/20 bg-rose-500/10 p-4 text-sm text-rose-800 shadow-sm sm:p-5 ${
+        className ?? ""
+      }`}
+      role="status"
+    >
+      <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+        <div className="font-semibold">{title ?? "Reviewer feedback"}</div>
+        {reviewedAt ? <div className="text-xs text-rose-700/80">Reviewed {reviewedAt}</div> : null}
+      </div>
+
+      <div className="mt-2">
+        <span className="font-medium">Reason:</span> {REJECTION_REASON_LABELS[rejection.reasonCode]}
+      </div>
+
+      {rejection.note ? (
+        <div className="mt-2 whitespace-pre-wrap leading-6 text-rose-800/90">{rejection.note}</div>
+      ) : null}
+
+      {rejection.fieldFlags.length ? (
+        <div className="mt-3">
+          <div className="text-xs font-semibold uppercase tracking-wide text-rose-700/80">
+            Fields to fix
+          </div>
+          <ul className="mt-1.5 grid gap-1.5">
+            {rejection.fieldFlags.map((flag) => (
+              <li
+                key={flag.field}
+                className="rounded-xl border border-rose-500/20 bg-white/70 px-3 py-2 text-xs text-rose-800"
+              >
+                <span className="font-semibold">{fieldLabels?.[flag.field] ?? flag.field}</span>
+                {flag.message ? ` — ${flag.message}` : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+import { AUDIT_ACTION_LABELS } from "@/lib/auditActions";
+
+type HistoryEntry = {
+  id: string;
+  actorUid: string;
+  actorName: string;
+  action: string;
+  summary: string;
+  fromStatus: string | null;
+  toStatus: string | null;
+  changedFields: string[];
+  createdAt: string | null;
+};
+
+type Props = {
+  endpoint: string;
+  title?: string;
+  fieldLabels?: Record<string, string>;
+  reloadKey?: number;
+  className?: string;
+};
+
+function readToken() {
+  try {
+    return sessionStorage.getItem("gem_id_token");
+  } catch {
+    return null;
+  }
+}
+
+function formatDateTime(value: string | null) {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function dotClass(status: string | null) {
+  if (status === "verified") return "bg-emerald-500";
+  if (status === "rejected") return "bg-rose-500";
+  if (status === "pending" || status === "submitted") return "bg-yellow-500";
+  return "bg-zinc-400";
+}
+
+export default function StatusTimeline({ endpoint, title, fieldLabels, reloadKey, className }: Props) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loadState, setLoadState] = useState<
+    { status: "idle" } | { status: "loading" } | { status: "error"; message: string }
+  >({ status: "loading" });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const run = async () => {
+      const token = readToken();
+      if (!token) {
+        setLoadState({ status: "error", message: "Missing authentication token." });
+        return;
+      }
+
+      try {
+        const res = await fetch(endpoint, {
+          headers: { ...activeBusinessHeaders(), Authorization: `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        const data = (await res.json().catch(() => null)) as
+          | { ok?: boolean; history?: HistoryEntry[]; message?: string }
+          | null;
+
+        if (!res.ok || !data?.ok || !Array.isArray(data.history)) {
+          setLoadState({ status: "error", message: data?.message || "Failed to load history." });
+          return;
+        }
+
+        setEntries(data.history);
+        setLoadState({ status: "idle" });
+      } catch {
+        if (controller.signal.aborted) return;
+        setLoadState({ status: "error", message: "Failed to load history." });
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [endpoint, reloadKey]);
+
+  return (
+    <div className={`rounded-2xl border border-zinc-900/10 bg-white p-4 shadow-sm sm:p-6 ${className ?? ""}`}>
+      <div className="text-sm font-semibold text-zinc-950">{title ?? "History"}</div>
+
+      {loadState.status === "loading" ? (
+        <div className="mt-2 text-sm text-zinc-600">Loading…</div>
+      ) : null}
+
+      {loadState.status === "error" ? (
+        <div className="mt-2 text-sm text-rose-700">{loadState.message}</div>
+      ) : null}
+
+      {loadState.status === "idle" && entries.length === 0 ? (
+        <div className="mt-2 text-sm text-zinc-600">No history yet.</div>
+      ) : null}
+
+      {loadState.status === "idle" && entries.length ? (
+        <ol className="mt-4 grid gap-4 border-l border-zinc-900/10 pl-4">
+          {entries.map((entry) => {
+            const statusChanged = Boolean(entry.toStatus) && entry.fromStatus !== entry.toStatus;
+            const fields = entry.changedFields
+              .filter((f) => f !== "status" && f !== "rejection")
+              .map((f) => fieldLabels?.[f] ?? f);
+
+            return (
+              <li key={entry.id} className="relative">
+                <span
+                  className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${dotClass(
+                    entry.toStatus
+                  )}`}
+                  aria-hidden="true"
+                />
+                <div className="text-sm text-zinc-700">
+                  <span className="font-semibold text-zinc-950">{entry.actorName || "Someone"}</span>{" "}
+                  {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                  {entry.summary ? <span className="text-zinc-950"> {entry.summary}</span> : null}
+                </div>
+                {statusChanged ? (
+                  <div className="mt-0.5 text-xs font-medium text-zinc-600">
+                    Status: {entry.fromStatus ?? "new"} → {entry.toStatus}
+                  </div>
+                ) : null}
+                {fields.length ? (
+                  <div className="mt-0.5 text-xs text-zinc-500">Changed: {fields.join(", ")}</div>
+                ) : null}
+                <div className="mt-0.5 text-xs text-zinc-500">{formatDateTime(entry.createdAt)}</div>
+              </li>
+            );
+          })}
+        </ol>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { IMAGE_VARIANT_NAMES, type ImageVariants } from "@/lib/imageVariants";
+
+type Props = {
+  src: string;
+  variants?: ImageVariants | null;
+  /** `sizes` attribute describing the rendered width, e.g. "(min-width: 640px) 33vw, 100vw". */
+  sizes: string;
+  alt: string;
+  className?: string;
+  onError?: () => void;
+};
+
+function srcSet(variants: ImageVariants, format: "webp" | "avif") {
+  return IMAGE_VARIANT_NAMES.map((name) => variants[name])
+    .filter((v) => v[format] && v.width > 0)
+    .map((v) => `${v[format]} ${v.width}w`)
+    .join(", ");
+}
+
+/**
+ * Lazy image that lets the browser pick the smallest processed variant (AVIF first, WebP
+ * otherwise). Falls back to a plain `src` for images uploaded before variants existed.
+ */
+export default function VariantImage({ src, variants, sizes, alt, className, onError }: Props) {
+  const avifSet = variants ? srcSet(variants, "avif") : "";
+  const webpSet = variants ? srcSet(variants, "webp") : "";
+
+  return (
+    <picture className="contents">
+      {avifSet ? <source type="image/avif" srcSet={avifSet} sizes={sizes} /> : null}
+      <img
+        src={variants?.medium.webp || src}
+        srcSet={webpSet || undefined}
+        sizes={webpSet ? sizes : undefined}
+        alt={alt}
+        className={className}
+        loading="lazy"
+        decoding="async"
+        referrerPolicy="no-referrer"
+        onError={onError}
+      />
+    </picture>
+  );
+}
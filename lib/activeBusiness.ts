@@ -0,0 +1,36 @@
+/**
+ * Client-side selection of the business a signed-in user is working on. The id is kept in
+ * sessionStorage next to the auth token and sent to business-scoped APIs as `X-Business-Id`.
+ * When nothing is selected the server falls back to the user's first business.
+ */
+
+export const ACTIVE_BUSINESS_KEY = "gem_business_id";
+export const ACTIVE_BUSINESS_EVENT = "gem-business";
+
+export function readActiveBusinessId() {
+  try {
+    return sessionStorage.getItem(ACTIVE_BUSINESS_KEY) || "";
+  } catch {
+    return "";
+  }
+}
+
+export function setActiveBusinessId(businessId: string) {
+  try {
+    if (businessId) sessionStorage.setItem(ACTIVE_BUSINESS_KEY, businessId);
+    else sessionStorage.removeItem(ACTIVE_BUSINESS_KEY);
+  } catch {
+    // ignore
+  }
+
+  try {
+    window.dispatchEvent(new Event(ACTIVE_BUSINESS_EVENT));
+  } catch {
+    // ignore
+  }
+}
+
+export function activeBusinessHeaders(): Record<string, string> {
+  const businessId = readActiveBusinessId();
+  return businessId ? { "X-Business-Id": businessId } : {};
+}
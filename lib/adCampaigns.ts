@@ -0,0 +1,238 @@
+import { AD_PRICING, type AdPricingModel } from "@/lib/adPricing";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { parseScratchReward, type ScratchReward } from "@/lib/scratchRewards";
+import { timestampToIso } from "@/lib/rejection";
+
+export type AdType = "carousel" | "scratch";
+
+export type AdGoal = "shop_visit" | "website_visit";
+
+/** What the business last asked for; whether the campaign is delivering also depends on its schedule. */
+export type AdCampaignStatus = "active" | "paused" | "stopped";
+
+export type AdTargetLocation = {
+  /** The business location this targets, or "" for a custom area. */
+  locationId: string;
+  label: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+};
+
+export type AdCampaignItem = {
+  id: string;
+  businessId: string;
+  catalogueId: string;
+  catalogueTitle: string;
+  catalogueImageUrl: string;
+  adType: AdType;
+  goal: AdGoal;
+  websiteUrl: string;
+  /** Lifetime budget, in ₹. */
+  budget: number;
+  dailyBudget: number;
+  pricingModel: AdPricingModel;
+  bid: number;
+  /** Set once spend reaches `budget`; delivery stops for good. */
+  budgetExhausted: boolean;
+  startsAt: string;
+  endsAt: string;
+  targetLocations: AdTargetLocation[];
+  /** Scratch campaigns only. */
+  reward: ScratchReward | null;
+  rewardsIssued: number;
+  rewardsRedeemed: number;
+  status: AdCampaignStatus;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+export const MIN_AD_BUDGET = 100;
+export const MAX_AD_BUDGET = 1_000_000;
+export const MAX_AD_TARGET_LOCATIONS = 10;
+export const MIN_AD_RADIUS_KM = 1;
+export const MAX_AD_RADIUS_KM = 50;
+/** Longest schedule a single campaign may run. */
+const MAX_CAMPAIGN_DAYS = 90;
+/** Tolerance for a start time picked "now" in the browser and received a moment later. */
+const START_GRACE_MS = 10 * 60 * 1000;
+
+export function asAdType(value: unknown): AdType | null {
+  return value === "carousel" || value === "scratch" ? value : null;
+}
+
+export function asAdGoal(value: unknown): AdGoal | null {
+  return value === "shop_visit" || value === "website_visit" ? value : null;
+}
+
+export function asAdCampaignStatus(value: unknown): AdCampaignStatus {
+  return value === "paused" || value === "stopped" ? value : "active";
+}
+
+/** Goals a business can run: shop visits need a physical shop, website visits an online presence. */
+export function goalsForBusinessType(businessType: unknown): AdGoal[] {
+  if (businessType === "offline") return ["shop_visit"];
+  if (businessType === "online") return ["website_visit"];
+  if (businessType === "both") return ["shop_visit", "website_visit"];
+  return [];
+}
+
+export function asAdPricingModel(value: unknown): AdPricingModel | null {
+  return value === "cpm" || value === "cpc" ? value : null;
+}
+
+function asFiniteNumber(value: unknown) {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Validates the campaign window; both ends are ISO date-times. */
+export function parseAdSchedule(
+  startsAtRaw: unknown,
+  endsAtRaw: unknown,
+  now = Date.now()
+): { ok: true; startsAt: string; endsAt: string } | { ok: false; message: string } {
+  const start = typeof startsAtRaw === "string" ? new Date(startsAtRaw).getTime() : NaN;
+  const end = typeof endsAtRaw === "string" ? new Date(endsAtRaw).getTime() : NaN;
+
+  if (!Number.isFinite(start) || !Number.isFinite(end)) {
+    return { ok: false, message: "Please choose a start and end date." };
+  }
+  if (start < now - START_GRACE_MS) {
+    return { ok: false, message: "Start date cannot be in the past." };
+  }
+  if (end <= start) {
+    return { ok: false, message: "End date must be after the start date." };
+  }
+  if (end - start > MAX_CAMPAIGN_DAYS * 24 * 60 * 60 * 1000) {
+    return { ok: false, message: `Campaigns can run for at most ${MAX_CAMPAIGN_DAYS} days.` };
+  }
+
+  return { ok: true, startsAt: new Date(start).toISOString(), endsAt: new Date(end).toISOString() };
+}
+
+function geoOf(value: unknown) {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  const lat = asFiniteNumber(rec.latitude ?? rec._latitude);
+  const lng = asFiniteNumber(rec.longitude ?? rec._longitude);
+  return lat === null || lng === null ? null : { lat, lng };
+}
+
+/**
+ * Resolves requested target locations against the business's own locations. Each entry is either
+ * `{ locationId, radiusKm }` for one of the business's shops or `{ label, lat, lng, radiusKm }`
+ * for a custom area.
+ */
+export async function resolveAdTargetLocations(
+  businessId: string,
+  raw: unknown
+): Promise<{ ok: true; locations: AdTargetLocation[] } | { ok: false; message: string }> {
+  const entries = Array.isArray(raw) ? raw : [];
+  if (entries.length > MAX_AD_TARGET_LOCATIONS) {
+    return { ok: false, message: `Choose at most ${MAX_AD_TARGET_LOCATIONS} target locations.` };
+  }
+
+  const wantsBusinessLocations = entries.some(
+    (e) => e && typeof e === "object" && typeof (e as Record<string, unknown>).locationId === "string"
+  );
+  const businessLocations = new Map<string, FirebaseFirestore.DocumentData>();
+  if (wantsBusinessLocations) {
+    const snap = await adminDb.collection("businessLocations").where("businessId", "==", businessId).get();
+    for (const doc of snap.docs) businessLocations.set(doc.id, doc.data());
+  }
+
+  const locations: AdTargetLocation[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object") {
+      return { ok: false, message: "Invalid target location." };
+    }
+    const obj = entry as Record<string, unknown>;
+
+    const radiusKm = asFiniteNumber(obj.radiusKm);
+    if (radiusKm === null || radiusKm < MIN_AD_RADIUS_KM || radiusKm > MAX_AD_RADIUS_KM) {
+      return {
+        ok: false,
+        message: `Target radius must be between ${MIN_AD_RADIUS_KM} and ${MAX_AD_RADIUS_KM} km.`,
+      };
+    }
+
+    if (typeof obj.locationId === "string" && obj.locationId) {
+      const location = businessLocations.get(obj.locationId);
+      const geo = geoOf(location?.geo);
+      if (!location || !geo) {
+        return { ok: false, message: "Target location not found." };
+      }
+      if (seen.has(obj.locationId)) continue;
+      seen.add(obj.locationId);
+      locations.push({
+        locationId: obj.locationId,
+        label: typeof location.fullAddress === "string" ? location.fullAddress : "",
+        ...geo,
+        radiusKm,
+      });
+      continue;
+    }
+
+    const lat = asFiniteNumber(obj.lat);
+    const lng = asFiniteNumber(obj.lng);
+    if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return { ok: false, message: "Invalid target location." };
+    }
+    locations.push({
+      locationId: "",
+      label: typeof obj.label === "string" ? obj.label.trim().slice(0, 120) : "",
+      lat,
+      lng,
+      radiusKm,
+    });
+  }
+
+  return { ok: true, locations };
+}
+
+function storedTargetLocations(value: unknown): AdTargetLocation[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is Record<string, unknown> => Boolean(v) && typeof v === "object")
+    .map((v) => ({
+      locationId: typeof v.locationId === "string" ? v.locationId : "",
+      label: typeof v.label === "string" ? v.label : "",
+      lat: asFiniteNumber(v.lat) ?? 0,
+      lng: asFiniteNumber(v.lng) ?? 0,
+      radiusKm: asFiniteNumber(v.radiusKm) ?? 0,
+    }));
+}
+
+export function toAdCampaignItem(doc: FirebaseFirestore.DocumentSnapshot): AdCampaignItem {
+  const data = doc.data() ?? {};
+  const adType = asAdType(data.adType) ?? "carousel";
+  const budget = asFiniteNumber(data.budget) ?? 0;
+  const reward = adType === "scratch" ? parseScratchReward(data.reward) : null;
+  return {
+    id: doc.id,
+    businessId: typeof data.userId === "string" ? data.userId : "",
+    catalogueId: typeof data.catalogueId === "string" ? data.catalogueId : "",
+    catalogueTitle: typeof data.catalogueTitle === "string" ? data.catalogueTitle : "",
+    catalogueImageUrl: typeof data.catalogueImageUrl === "string" ? data.catalogueImageUrl : "",
+    adType,
+    goal: asAdGoal(data.goal) ?? "shop_visit",
+    websiteUrl: typeof data.websiteUrl === "string" ? data.websiteUrl : "",
+    budget,
+    // Campaigns created before pacing had no daily cap and paid the default rate.
+    dailyBudget: asFiniteNumber(data.dailyBudget) ?? budget,
+    pricingModel: asAdPricingModel(data.pricingModel) ?? AD_PRICING[adType].model,
+    bid: asFiniteNumber(data.bid) ?? AD_PRICING[adType].defaultBid,
+    budgetExhausted: Boolean(data.budgetExhaustedAt),
+    startsAt: typeof data.startsAt === "string" ? data.startsAt : "",
+    endsAt: typeof data.endsAt === "string" ? data.endsAt : "",
+    targetLocations: storedTargetLocations(data.targetLocations),
+    reward: reward?.ok ? reward.reward : null,
+    rewardsIssued: asFiniteNumber(data.rewardsIssued) ?? 0,
+    rewardsRedeemed: asFiniteNumber(data.rewardsRedeemed) ?? 0,
+    status: asAdCampaignStatus(data.status),
+    createdAt: timestampToIso(data.createdAt),
+    updatedAt: timestampToIso(data.updatedAt),
+  };
+}
@@ -0,0 +1,219 @@
+import { asAdCampaignStatus, toAdCampaignItem, type AdCampaignItem } from "@/lib/adCampaigns";
+import { deliveryCost } from "@/lib/adPricing";
+import {
+  AD_STATS_SHARDS,
+  adDailyDocId,
+  adShardDocId,
+  adStatsDay,
+  sumAdStatsShards,
+} from "@/lib/adStats";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** gRPC status Firestore reports when `create()` hits an existing document. */
+const ALREADY_EXISTS = 6;
+
+/** Why a campaign may not be shown right now; `null` means it can deliver. */
+export type DeliveryBlock =
+  | "paused"
+  | "stopped"
+  | "not_started"
+  | "ended"
+  | "budget_exhausted"
+  | "daily_budget_reached"
+  | "ahead_of_pace";
+
+export type CampaignSpend = { total: number; today: number };
+
+export type DeliveryKind = "impression" | "click" | "visit";
+
+export type RecordDeliveryResult =
+  | { ok: true; charged: number; exhausted: boolean; duplicate?: boolean }
+  | { ok: false; status: number; message: string };
+
+type PacedCampaign = Pick<
+  AdCampaignItem,
+  "status" | "startsAt" | "endsAt" | "budget" | "dailyBudget" | "budgetExhausted"
+>;
+
+/** Impressions cost fractions of a paisa, so charges keep more precision than displayed spend. */
+function roundCharge(value: number) {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+/**
+ * Decides whether a campaign may deliver. Besides the lifetime and daily caps, spend is paced
+ * evenly over the schedule: by any moment a campaign may have used its share of the budget for
+ * the time elapsed plus one more day, so an early burst cannot drain the whole budget.
+ */
+export function deliveryBlock(
+  campaign: PacedCampaign,
+  spend: CampaignSpend,
+  now = Date.now()
+): DeliveryBlock | null {
+  if (campaign.status === "stopped") return "stopped";
+  if (campaign.status === "paused") return "paused";
+
+  const start = new Date(campaign.startsAt).getTime();
+  const end = new Date(campaign.endsAt).getTime();
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return "ended";
+  if (now < start) return "not_started";
+  if (now >= end) return "ended";
+
+  if (campaign.budgetExhausted || spend.total >= campaign.budget) return "budget_exhausted";
+  if (spend.today >= campaign.dailyBudget) return "daily_budget_reached";
+
+  const pacedShare = Math.min(1, (now - start + DAY_MS) / (end - start));
+  if (spend.total >= campaign.budget * pacedShare) return "ahead_of_pace";
+
+  return null;
+}
+
+/** Lifetime and today's spend for several campaigns, keyed by id. */
+export async function getCampaignSpend(
+  campaignIds: string[],
+  now = Date.now()
+): Promise<Map<string, CampaignSpend>> {
+  const spend = new Map<string, CampaignSpend>();
+  if (!campaignIds.length) return spend;
+
+  const day = adStatsDay(now);
+  const [totals, daily] = await Promise.all([
+    sumAdStatsShards("adCampaignStats", campaignIds),
+    sumAdStatsShards("adCampaignDaily", campaignIds.map((id) => adDailyDocId(id, day))),
+  ]);
+
+  campaignIds.forEach((id) => {
+    spend.set(id, {
+      total: totals.get(id)?.spend ?? 0,
+      today: daily.get(adDailyDocId(id, day))?.spend ?? 0,
+    });
+  });
+  return spend;
+}
+
+/**
+ * Counts an impression, click or visit against a campaign and charges it under the campaign's
+ * pricing. Only active campaigns are charged: paused or stopped ones refuse impressions and clicks,
+ * and still count visits (e.g. a reward redeemed after the campaign ended) without charging them.
+ * The charge is capped at what is left of the lifetime and daily budgets; when the lifetime budget
+ * runs out the campaign is marked exhausted and stopped, which also takes it out of the serving
+ * candidates. With a `beaconId` the event is counted at most once, so a retried beacon is not
+ * billed twice, and a click is refused until the impression for the same beacon was recorded.
+ *
+ * Counters go to one random shard (see `AD_STATS_SHARDS`) in a batch with the beacon record, and
+ * the campaign document is only written when the budget runs out, so busy campaigns do not
+ * serialize on a single document. Spend is read outside that write, so deliveries landing at the
+ * same moment can together overshoot the budget by at most their own charges.
+ */
+export async function recordAdDelivery(
+  campaignId: string,
+  kind: DeliveryKind,
+  options: { beaconId?: string; now?: number } = {}
+): Promise<RecordDeliveryResult> {
+  const now = options.now ?? Date.now();
+  if (!campaignId) {
+    return { ok: false, status: 400, message: "Missing campaign id." };
+  }
+
+  const day = adStatsDay(now);
+  const campaignRef = adminDb.collection("adCampaigns").doc(campaignId);
+  const beaconRef = options.beaconId
+    ? adminDb.collection("adBeacons").doc(`${options.beaconId}_${kind}`)
+    : null;
+
+  const impressionRef =
+    options.beaconId && kind === "click"
+      ? adminDb.collection("adBeacons").doc(`${options.beaconId}_impression`)
+      : null;
+
+  const [campaignSnap, beaconSnap, impressionSnap] = await Promise.all([
+    campaignRef.get(),
+    beaconRef ? beaconRef.get() : Promise.resolve(null),
+    impressionRef ? impressionRef.get() : Promise.resolve(null),
+  ]);
+  const data = campaignSnap.data();
+  if (!campaignSnap.exists || !data) {
+    return { ok: false, status: 404, message: "Campaign not found." };
+  }
+
+  const status = asAdCampaignStatus(data.status);
+  if (status !== "active" && kind !== "visit") {
+    return {
+      ok: false,
+      status: 409,
+      message: status === "paused" ? "Campaign is paused." : "Campaign has been stopped.",
+    };
+  }
+
+  const campaign = toAdCampaignItem(campaignSnap);
+  if (beaconSnap?.exists) {
+    return { ok: true, charged: 0, exhausted: campaign.budgetExhausted, duplicate: true };
+  }
+  if (impressionSnap && !impressionSnap.exists) {
+    return { ok: false, status: 409, message: "This ad's impression has not been recorded." };
+  }
+
+  const spend = (await getCampaignSpend([campaignId], now)).get(campaignId) ?? {
+    total: 0,
+    today: 0,
+  };
+  const remaining = Math.max(
+    0,
+    Math.min(campaign.budget - spend.total, campaign.dailyBudget - spend.today)
+  );
+  const charged =
+    status === "active"
+      ? roundCharge(Math.min(deliveryCost(campaign.pricingModel, campaign.bid, kind), remaining))
+      : 0;
+  const exhausted =
+    !campaign.budgetExhausted && charged > 0 && campaign.budget - (spend.total + charged) < 0.005;
+
+  const counter = kind === "impression" ? "impressions" : kind === "click" ? "clicks" : "visits";
+  const increments = {
+    [counter]: FieldValue.increment(1),
+    ...(charged > 0 ? { spend: FieldValue.increment(charged) } : {}),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+  const shard = Math.floor(Math.random() * AD_STATS_SHARDS);
+
+  const batch = adminDb.batch();
+  batch.set(
+    adminDb.collection("adCampaignStats").doc(adShardDocId(campaignId, shard)),
+    { campaignId, businessId: data.userId, shard, ...increments },
+    { merge: true }
+  );
+  batch.set(
+    adminDb.collection("adCampaignDaily").doc(adShardDocId(adDailyDocId(campaignId, day), shard)),
+    { campaignId, day, shard, ...increments },
+    { merge: true }
+  );
+  if (beaconRef) {
+    // create() fails if a retry of the same beacon got here first, so it is never counted twice.
+    batch.create(beaconRef, { campaignId, kind, charged, createdAt: FieldValue.serverTimestamp() });
+  }
+
+  try {
+    await batch.commit();
+  } catch (err) {
+    if ((err as { code?: number }).code === ALREADY_EXISTS) {
+      return { ok: true, charged: 0, exhausted: campaign.budgetExhausted, duplicate: true };
+    }
+    throw err;
+  }
+
+  if (exhausted) {
+    await adminDb.runTransaction(async (tx) => {
+      const fresh = await tx.get(campaignRef);
+      if (!fresh.exists || fresh.get("budgetExhaustedAt")) return;
+      tx.update(campaignRef, {
+        status: "stopped",
+        budgetExhaustedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    });
+  }
+
+  return { ok: true, charged, exhausted: exhausted || campaign.budgetExhausted };
+}
@@ -0,0 +1,35 @@
+import type { AdType } from "@/lib/adCampaigns";
+
+/** `cpm`: the bid is paid per 1,000 impressions; `cpc`: the bid is paid per click. */
+export type AdPricingModel = "cpm" | "cpc";
+
+export type AdPricing = {
+  model: AdPricingModel;
+  /** Lowest bid accepted for this ad type, in ₹. */
+  minBid: number;
+  defaultBid: number;
+};
+
+/** Carousel ads are paid for being seen; scratch ads only when someone scratches (clicks) them. */
+export const AD_PRICING: Record<AdType, AdPricing> = {
+  carousel: { model: "cpm", minBid: 20, defaultBid: 40 },
+  scratch: { model: "cpc", minBid: 2, defaultBid: 4 },
+};
+
+export const MAX_AD_BID = 10_000;
+export const MIN_AD_DAILY_BUDGET = 50;
+
+export function pricingModelLabel(model: AdPricingModel) {
+  return model === "cpm" ? "per 1,000 impressions" : "per click";
+}
+
+/** What one delivery event costs under the campaign's pricing; visits are never charged. */
+export function deliveryCost(
+  model: AdPricingModel,
+  bid: number,
+  kind: "impression" | "click" | "visit"
+) {
+  if (model === "cpm" && kind === "impression") return bid / 1000;
+  if (model === "cpc" && kind === "click") return bid;
+  return 0;
+}
@@ -0,0 +1,236 @@
+import { randomInt } from "node:crypto";
+import { asAdCampaignStatus, toAdCampaignItem } from "@/lib/adCampaigns";
+import { adStatsDay } from "@/lib/adStats";
+import type { BeaconClaims } from "@/lib/adServing";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { asScratchRewardKind, type ScratchRewardKind } from "@/lib/scratchRewards";
+
+export type AdRewardStatus = "issued" | "redeemed";
+
+/** A reward someone won; the document id is its redemption code. */
+export type AdRewardItem = {
+  code: string;
+  campaignId: string;
+  catalogueTitle: string;
+  kind: ScratchRewardKind;
+  title: string;
+  couponCode: string;
+  percentOff: number;
+  details: string;
+  status: AdRewardStatus;
+  expiresAt: string;
+  createdAt: string | null;
+  redeemedAt: string | null;
+};
+
+export type ScratchDrawResult =
+  | { ok: true; won: boolean; reward: AdRewardItem | null; fresh: boolean }
+  | { ok: false; status: number; message: string };
+
+export type RedeemRewardResult =
+  | { ok: true; reward: AdRewardItem }
+  | { ok: false; status: number; message: string; reward?: AdRewardItem };
+
+/** Unambiguous characters only (no 0/O, 1/I/L), so codes can be read out at the counter. */
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Codes tried before giving up; with 31^8 codes a single collision is already unlikely. */
+const CODE_ATTEMPTS = 5;
+
+function generateRewardCode() {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i += 1) code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  return code;
+}
+
+/** Uppercases a typed code and drops spaces and dashes. */
+export function normalizeRewardCode(value: unknown) {
+  return typeof value === "string" ? value.toUpperCase().replace(/[\s-]/g, "") : "";
+}
+
+export function isRewardCode(code: string) {
+  return code.length === CODE_LENGTH && [...code].every((c) => CODE_ALPHABET.includes(c));
+}
+
+export function toAdRewardItem(doc: FirebaseFirestore.DocumentSnapshot): AdRewardItem {
+  const data = doc.data() ?? {};
+  return {
+    code: doc.id,
+    campaignId: typeof data.campaignId === "string" ? data.campaignId : "",
+    catalogueTitle: typeof data.catalogueTitle === "string" ? data.catalogueTitle : "",
+    kind: asScratchRewardKind(data.kind) ?? "coupon",
+    title: typeof data.title === "string" ? data.title : "",
+    couponCode: typeof data.couponCode === "string" ? data.couponCode : "",
+    percentOff: typeof data.percentOff === "number" ? data.percentOff : 0,
+    details: typeof data.details === "string" ? data.details : "",
+    status: data.status === "redeemed" ? "redeemed" : "issued",
+    expiresAt: typeof data.expiresAt === "string" ? data.expiresAt : "",
+    createdAt: timestampToIso(data.createdAt),
+    redeemedAt: timestampToIso(data.redeemedAt),
+  };
+}
+
+/**
+ * Scratches a served scratch card. The outcome is drawn here, never on the device, and each
+ * viewer gets one draw per campaign per day: repeating the call returns the same outcome. A win
+ * issues a redemption code while the campaign still has rewards left.
+ */
+export async function drawScratchReward(
+  claims: BeaconClaims,
+  now = Date.now()
+): Promise<ScratchDrawResult> {
+  if (claims.placement !== "scratch") {
+    return { ok: false, status: 400, message: "This ad is not a scratch card." };
+  }
+
+  const campaignRef = adminDb.collection("adCampaigns").doc(claims.campaignId);
+  const drawRef = adminDb
+    .collection("adScratchDraws")
+    .doc(`${claims.campaignId}_${claims.viewerKey}_${adStatsDay(now)}`);
+
+  return adminDb.runTransaction(async (tx): Promise<ScratchDrawResult> => {
+    const [campaignSnap, drawSnap] = await Promise.all([tx.get(campaignRef), tx.get(drawRef)]);
+
+    const draw = drawSnap.data();
+    if (drawSnap.exists && draw) {
+      const code = typeof draw.code === "string" ? draw.code : "";
+      const previous = code ? await tx.get(adminDb.collection("adRewards").doc(code)) : null;
+      return {
+        ok: true,
+        won: Boolean(previous?.exists),
+        reward: previous?.exists ? toAdRewardItem(previous) : null,
+        fresh: false,
+      };
+    }
+
+    const data = campaignSnap.data();
+    if (!campaignSnap.exists || !data) {
+      return { ok: false, status: 404, message: "Campaign not found." };
+    }
+    const campaign = toAdCampaignItem(campaignSnap);
+    const end = new Date(campaign.endsAt).getTime();
+    if (
+      asAdCampaignStatus(data.status) !== "active" ||
+      !campaign.reward ||
+      !Number.isFinite(end) ||
+      end <= now
+    ) {
+      return { ok: false, status: 409, message: "This scratch card is no longer running." };
+    }
+
+    const reward = campaign.reward;
+    const prizesLeft = campaign.rewardsIssued < reward.quantity;
+    // Odds are in tenths of a percent, so draw from 0–999.
+    const won = prizesLeft && randomInt(1000) < Math.round(reward.winPercent * 10);
+
+    // Pick the code inside the transaction, checking it is free, so a retry never reuses a code
+    // another draw has taken meanwhile. Reads must come before the writes below.
+    let rewardRef: FirebaseFirestore.DocumentReference | null = null;
+    if (won) {
+      for (let attempt = 0; attempt < CODE_ATTEMPTS && !rewardRef; attempt += 1) {
+        const candidate = adminDb.collection("adRewards").doc(generateRewardCode());
+        if (!(await tx.get(candidate)).exists) rewardRef = candidate;
+      }
+      if (!rewardRef) {
+        return { ok: false, status: 503, message: "Could not issue a reward code. Please try again." };
+      }
+    }
+
+    tx.set(drawRef, {
+      campaignId: campaign.id,
+      viewerKey: claims.viewerKey,
+      won,
+      ...(rewardRef ? { code: rewardRef.id } : {}),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    if (!rewardRef) return { ok: true, won: false, reward: null, fresh: true };
+
+    // Rewards stay redeemable for `validDays` after they are won, even once the campaign ends.
+    const expiresAt = new Date(now + reward.validDays * DAY_MS).toISOString();
+    const rewardData = {
+      campaignId: campaign.id,
+      businessId: campaign.businessId,
+      catalogueTitle: campaign.catalogueTitle,
+      viewerKey: claims.viewerKey,
+      kind: reward.kind,
+      title: reward.title,
+      couponCode: reward.couponCode,
+      percentOff: reward.percentOff,
+      details: reward.details,
+      status: "issued",
+      expiresAt,
+      createdAt: FieldValue.serverTimestamp(),
+    };
+    tx.create(rewardRef, rewardData);
+    tx.update(campaignRef, { rewardsIssued: FieldValue.increment(1) });
+
+    return {
+      ok: true,
+      won: true,
+      fresh: true,
+      reward: {
+        ...rewardData,
+        code: rewardRef.id,
+        status: "issued",
+        createdAt: new Date(now).toISOString(),
+        redeemedAt: null,
+      },
+    };
+  });
+}
+
+/** Looks up a reward for the shop; codes belonging to another business are reported as unknown. */
+export async function getRewardForBusiness(code: string, businessId: string) {
+  if (!isRewardCode(code)) return null;
+  const snap = await adminDb.collection("adRewards").doc(code).get();
+  if (!snap.exists || snap.data()?.businessId !== businessId) return null;
+  return toAdRewardItem(snap);
+}
+
+/** Marks a reward used at the shop. Each code can be redeemed once, before it expires. */
+export async function redeemReward(
+  code: string,
+  businessId: string,
+  uid: string,
+  now = Date.now()
+): Promise<RedeemRewardResult> {
+  if (!isRewardCode(code)) {
+    return { ok: false, status: 404, message: "Reward code not found." };
+  }
+
+  const rewardRef = adminDb.collection("adRewards").doc(code);
+  return adminDb.runTransaction(async (tx): Promise<RedeemRewardResult> => {
+    const snap = await tx.get(rewardRef);
+    const data = snap.data();
+    if (!snap.exists || !data || data.businessId !== businessId) {
+      return { ok: false, status: 404, message: "Reward code not found." };
+    }
+
+    const reward = toAdRewardItem(snap);
+    if (reward.status === "redeemed") {
+      return { ok: false, status: 409, message: "This reward has already been used.", reward };
+    }
+    const expires = new Date(reward.expiresAt).getTime();
+    if (!Number.isFinite(expires) || expires <= now) {
+      return { ok: false, status: 410, message: "This reward has expired.", reward };
+    }
+
+    tx.update(rewardRef, {
+      status: "redeemed",
+      redeemedAt: FieldValue.serverTimestamp(),
+      redeemedBy: uid,
+    });
+    if (reward.campaignId) {
+      tx.update(adminDb.collection("adCampaigns").doc(reward.campaignId), {
+        rewardsRedeemed: FieldValue.increment(1),
+      });
+    }
+
+    return {
+      ok: true,
+      reward: { ...reward, status: "redeemed", redeemedAt: new Date(now).toISOString() },
+    };
+  });
+}
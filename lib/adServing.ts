@@ -0,0 +1,329 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { toAdCampaignItem, type AdCampaignItem, type AdGoal, type AdType } from "@/lib/adCampaigns";
+import { deliveryBlock, getCampaignSpend } from "@/lib/adPacing";
+import { adStatsDay, getAdStatsTotals } from "@/lib/adStats";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { haversineKm, type LatLng } from "@/lib/geo";
+
+export type ServedAd = {
+  campaignId: string;
+  catalogueId: string;
+  title: string;
+  offerDetails: string;
+  imageUrl: string;
+  goal: AdGoal;
+  websiteUrl: string;
+  /**
+   * Where a tap on a website-visit ad should go: a redirect that counts the visit before sending
+   * the viewer to `websiteUrl`. Empty for shop-visit ads.
+   */
+  clickUrl: string;
+  /** What a scratch card can win; empty for carousel ads. */
+  rewardTitle: string;
+  /** Signed token to send back with the impression and click beacons. */
+  beaconToken: string;
+};
+
+export type BeaconClaims = {
+  campaignId: string;
+  viewerKey: string;
+  placement: AdType;
+  /** Unique per served ad, so each beacon is counted once. */
+  nonce: string;
+  issuedAt: number;
+};
+
+/** Impressions one viewer may see of the same campaign per UTC day. */
+export const AD_FREQUENCY_CAPS: Record<AdType, number> = {
+  carousel: 5,
+  scratch: 2,
+};
+
+/**
+ * Serve requests allowed per minute. A screen asks for one placement at a time, so a viewer well
+ * inside this never notices; the per-IP limit is higher because many viewers can share an address.
+ */
+export const AD_SERVE_LIMITS = { perViewer: 20, perIp: 120 };
+
+export const DEFAULT_AD_SLOTS: Record<AdType, number> = { carousel: 5, scratch: 1 };
+export const MAX_AD_SLOTS = 10;
+
+/**
+ * Campaigns considered per request; ranking happens in memory. Candidates are read in order of
+ * `endsAt` from campaigns that have not ended yet (index: adType, status, endsAt), and campaigns
+ * leave `active` when their budget runs out, so finished campaigns never crowd out new ones.
+ */
+const CANDIDATE_LIMIT = 200;
+const MINUTE_MS = 60 * 1000;
+/** Beacons for an ad older than this are ignored. */
+const BEACON_TTL_MS = 6 * 60 * 60 * 1000;
+/** Click-through rate assumed for campaigns without history (1%), smoothed by real counts. */
+const PRIOR_CLICKS = 1;
+const PRIOR_IMPRESSIONS = 100;
+
+/** Version prefix of beacon tokens, as for ticket QR codes. */
+const BEACON_PREFIX = "GEMA1";
+
+function beaconSecret() {
+  const secret = process.env.AD_BEACON_SECRET;
+  if (!secret) throw new Error("AD_BEACON_SECRET is not configured.");
+  return secret;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", beaconSecret()).update(`${BEACON_PREFIX}.${payload}`).digest("base64url");
+}
+
+export function signBeaconToken(claims: BeaconClaims) {
+  const payload = Buffer.from(
+    JSON.stringify({
+      c: claims.campaignId,
+      v: claims.viewerKey,
+      p: claims.placement,
+      n: claims.nonce,
+      t: claims.issuedAt,
+    })
+  ).toString("base64url");
+  return `${BEACON_PREFIX}.${payload}.${sign(payload)}`;
+}
+
+export function verifyBeaconToken(
+  token: string,
+  now = Date.now()
+): ({ ok: true } & BeaconClaims) | { ok: false; message: string } {
+  const invalid = { ok: false as const, message: "Invalid beacon token." };
+  const [prefix, payload, signature, ...rest] = token.trim().split(".");
+  if (prefix !== BEACON_PREFIX || !payload || !signature || rest.length) return invalid;
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return invalid;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof claims.c !== "string" ||
+      typeof claims.v !== "string" ||
+      (claims.p !== "carousel" && claims.p !== "scratch") ||
+      typeof claims.n !== "string" ||
+      typeof claims.t !== "number"
+    ) {
+      return invalid;
+    }
+    if (now - claims.t > BEACON_TTL_MS) {
+      return { ok: false, message: "Beacon token has expired." };
+    }
+    return {
+      ok: true,
+      campaignId: claims.c,
+      viewerKey: claims.v,
+      placement: claims.p,
+      nonce: claims.n,
+      issuedAt: claims.t,
+    };
+  } catch {
+    return invalid;
+  }
+}
+
+/**
+ * Stable, non-reversible key for a signed-in viewer. Ads are only served to signed-in viewers, so
+ * frequency caps and beacon tokens follow an account rather than an id the client could change.
+ */
+export function viewerKeyFor(uid: string) {
+  return hashKey(`uid:${uid}`);
+}
+
+/**
+ * Counts a serve request against the per-minute limits of the viewer and of the client's IP
+ * address (when known). Returns false once either limit is used up for the current minute; the
+ * request is then not counted.
+ */
+export async function takeAdServeQuota(
+  params: { viewerKey: string; ip: string },
+  now = Date.now()
+): Promise<boolean> {
+  const minute = Math.floor(now / MINUTE_MS);
+  const limits = [
+    { key: `viewer_${params.viewerKey}`, limit: AD_SERVE_LIMITS.perViewer },
+    ...(params.ip ? [{ key: `ip_${hashKey(params.ip)}`, limit: AD_SERVE_LIMITS.perIp }] : []),
+  ].map((entry) => ({
+    ...entry,
+    ref: adminDb.collection("adServeLimits").doc(`${entry.key}_${minute}`),
+  }));
+
+  return adminDb.runTransaction(async (tx) => {
+    const snaps = await Promise.all(limits.map((entry) => tx.get(entry.ref)));
+    const full = snaps.some((snap, i) => {
+      const count = snap.data()?.count;
+      return typeof count === "number" && count >= limits[i].limit;
+    });
+    if (full) return false;
+
+    // Only the current minute is ever read; expiresAt lets a TTL policy clear the rest.
+    const expiresAt = new Date((minute + 2) * MINUTE_MS);
+    for (const { ref } of limits) {
+      tx.set(ref, { count: FieldValue.increment(1), expiresAt }, { merge: true });
+    }
+    return true;
+  });
+}
+
+function hashKey(value: string) {
+  return createHash("sha256").update(value).digest("base64url").slice(0, 22);
+}
+
+function frequencyDocId(campaignId: string, viewerKey: string, day: string) {
+  return `${campaignId}_${viewerKey}_${day}`;
+}
+
+/** Counts an impression towards the viewer's daily frequency cap for the campaign. */
+export async function recordAdFrequency(campaignId: string, viewerKey: string, now = Date.now()) {
+  const day = adStatsDay(now);
+  await adminDb
+    .collection("adFrequency")
+    .doc(frequencyDocId(campaignId, viewerKey, day))
+    .set(
+      { campaignId, viewerKey, day, impressions: FieldValue.increment(1) },
+      { merge: true }
+    );
+}
+
+/**
+ * How well the campaign's targeting matches the viewer: 1 for untargeted campaigns, up to 2 at
+ * the centre of a target area, and null when the viewer is outside every area (or has not shared
+ * a location with a targeted campaign).
+ */
+function targetingRelevance(campaign: AdCampaignItem, viewer: LatLng | null) {
+  if (!campaign.targetLocations.length) return 1;
+  if (!viewer) return null;
+
+  let best: number | null = null;
+  for (const target of campaign.targetLocations) {
+    const km = haversineKm(viewer, { lat: target.lat, lng: target.lng });
+    if (km > target.radiusKm) continue;
+    const relevance = 2 - km / target.radiusKm;
+    if (best === null || relevance > best) best = relevance;
+  }
+  return best;
+}
+
+/** Expected value of 1,000 impressions, so CPM and CPC bids compete on the same scale. */
+function effectiveCpm(campaign: AdCampaignItem, clicks: number, impressions: number) {
+  if (campaign.pricingModel === "cpm") return campaign.bid;
+  const ctr = (clicks + PRIOR_CLICKS) / (impressions + PRIOR_IMPRESSIONS);
+  return campaign.bid * ctr * 1000;
+}
+
+/**
+ * Picks the ads to show in a placement. Eligible campaigns are active, inside their schedule and
+ * budget pacing, promote a still-verified catalogue item, target the viewer's location and have
+ * not hit the viewer's frequency cap. They are ranked by effective bid, weighted by targeting
+ * relevance, the share of today's budget left and how often the viewer has already seen them.
+ */
+export async function serveAds(params: {
+  placement: AdType;
+  viewerKey: string;
+  location: LatLng | null;
+  slots: number;
+  now?: number;
+}): Promise<ServedAd[]> {
+  const now = params.now ?? Date.now();
+  const day = adStatsDay(now);
+
+  const snap = await adminDb
+    .collection("adCampaigns")
+    .where("adType", "==", params.placement)
+    .where("status", "==", "active")
+    .where("endsAt", ">", new Date(now).toISOString())
+    .orderBy("endsAt", "asc")
+    .limit(CANDIDATE_LIMIT)
+    .get();
+
+  const campaigns = snap.docs
+    .map(toAdCampaignItem)
+    .filter((c) => c.catalogueId && !c.budgetExhausted)
+    // A scratch card with every reward given away has nothing left to win.
+    .filter((c) => c.adType !== "scratch" || (c.reward && c.rewardsIssued < c.reward.quantity))
+    .map((campaign) => ({ campaign, relevance: targetingRelevance(campaign, params.location) }))
+    .filter((c): c is { campaign: AdCampaignItem; relevance: number } => c.relevance !== null);
+  if (!campaigns.length) return [];
+
+  const ids = campaigns.map((c) => c.campaign.id);
+  const [spend, totals, frequencySnaps, catalogueSnaps] = await Promise.all([
+    getCampaignSpend(ids, now),
+    getAdStatsTotals(ids),
+    adminDb.getAll(
+      ...ids.map((id) =>
+        adminDb.collection("adFrequency").doc(frequencyDocId(id, params.viewerKey, day))
+      )
+    ),
+    adminDb.getAll(
+      ...campaigns.map((c) => adminDb.collection("catalogue").doc(c.campaign.catalogueId))
+    ),
+  ]);
+
+  const cap = AD_FREQUENCY_CAPS[params.placement];
+  const ranked: Array<{ ad: Omit<ServedAd, "beaconToken" | "clickUrl">; score: number }> = [];
+
+  campaigns.forEach(({ campaign, relevance }, i) => {
+    const campaignSpend = spend.get(campaign.id) ?? { total: 0, today: 0 };
+    if (deliveryBlock(campaign, campaignSpend, now)) return;
+
+    const seen = frequencySnaps[i].data()?.impressions;
+    const seenToday = typeof seen === "number" ? seen : 0;
+    if (seenToday >= cap) return;
+
+    const catalogue = catalogueSnaps[i].data();
+    if (!catalogue || catalogue.status !== "verified" || catalogue.userId !== campaign.businessId) {
+      return;
+    }
+
+    const stats = totals.get(campaign.id);
+    const budgetLeft = campaign.dailyBudget > 0 ? 1 - campaignSpend.today / campaign.dailyBudget : 0;
+    const score =
+      effectiveCpm(campaign, stats?.clicks ?? 0, stats?.impressions ?? 0) *
+      relevance *
+      (0.5 + 0.5 * Math.max(0, budgetLeft)) *
+      (1 - seenToday / cap);
+
+    const imageUrls = Array.isArray(catalogue.imageUrls)
+      ? catalogue.imageUrls.filter((u: unknown): u is string => typeof u === "string" && !!u)
+      : [];
+
+    ranked.push({
+      score,
+      ad: {
+        campaignId: campaign.id,
+        catalogueId: campaign.catalogueId,
+        title: typeof catalogue.title === "string" ? catalogue.title : campaign.catalogueTitle,
+        offerDetails: typeof catalogue.offerDetails === "string" ? catalogue.offerDetails : "",
+        imageUrl: imageUrls[0] ?? campaign.catalogueImageUrl,
+        goal: campaign.goal,
+        websiteUrl: campaign.websiteUrl,
+        rewardTitle: campaign.reward?.title ?? "",
+      },
+    });
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score)
+    .slice(0, params.slots)
+    .map(({ ad }) => {
+      const beaconToken = signBeaconToken({
+        campaignId: ad.campaignId,
+        viewerKey: params.viewerKey,
+        placement: params.placement,
+        nonce: randomBytes(12).toString("base64url"),
+        issuedAt: now,
+      });
+      const clickUrl =
+        ad.goal === "website_visit" && ad.websiteUrl
+          ? `/api/ads/visit?token=${encodeURIComponent(beaconToken)}`
+          : "";
+      return { ...ad, beaconToken, clickUrl };
+    });
+}
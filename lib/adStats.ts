@@ -0,0 +1,106 @@
+import { adminDb } from "@/lib/firebaseAdmin";
+
+/** Delivery counters of a campaign; `visits` are shop or website visits depending on its goal. */
+export type AdStats = {
+  impressions: number;
+  clicks: number;
+  visits: number;
+  spend: number;
+};
+
+export type AdDailyStats = AdStats & { day: string };
+
+/**
+ * Counters are split over this many shard documents per campaign (and per campaign day), and each
+ * delivery increments one picked at random, so concurrent beacons rarely contend for a document.
+ * Readers sum the shards together with the unsharded document older counters were kept in.
+ */
+export const AD_STATS_SHARDS = 10;
+
+/** Campaigns run for at most 90 days, so this covers every day one can have counters for. */
+const DAILY_LIMIT = 100;
+
+export const EMPTY_AD_STATS: AdStats = { impressions: 0, clicks: 0, visits: 0, spend: 0 };
+
+function asNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+export function toAdStats(data: FirebaseFirestore.DocumentData | undefined): AdStats {
+  return sumAdStats([data]);
+}
+
+/** Adds up the counter shards of one campaign (or campaign day), rounding spend only at the end. */
+export function sumAdStats(shards: (FirebaseFirestore.DocumentData | undefined)[]): AdStats {
+  const sum = { ...EMPTY_AD_STATS };
+  for (const data of shards) {
+    sum.impressions += asNumber(data?.impressions);
+    sum.clicks += asNumber(data?.clicks);
+    sum.visits += asNumber(data?.visits);
+    sum.spend += asNumber(data?.spend);
+  }
+  return { ...sum, spend: Math.round(sum.spend * 100) / 100 };
+}
+
+/** UTC calendar day (YYYY-MM-DD) the daily counters for `at` are kept under. */
+export function adStatsDay(at = Date.now()) {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+export function adDailyDocId(campaignId: string, day: string) {
+  return `${campaignId}_${day}`;
+}
+
+/** Ids of the counter documents under `baseId`: the unsharded one first, then every shard. */
+export function adShardDocIds(baseId: string) {
+  return [baseId, ...Array.from({ length: AD_STATS_SHARDS }, (_, n) => adShardDocId(baseId, n))];
+}
+
+export function adShardDocId(baseId: string, shard: number) {
+  return `${baseId}_s${shard}`;
+}
+
+/** Reads the counter shards of each base id in one round trip and sums them, keyed by base id. */
+export async function sumAdStatsShards(
+  collection: "adCampaignStats" | "adCampaignDaily",
+  baseIds: string[]
+): Promise<Map<string, AdStats>> {
+  const sums = new Map<string, AdStats>();
+  if (!baseIds.length) return sums;
+
+  const perBase = AD_STATS_SHARDS + 1;
+  const refs = baseIds.flatMap((id) =>
+    adShardDocIds(id).map((docId) => adminDb.collection(collection).doc(docId))
+  );
+  const snaps = await adminDb.getAll(...refs);
+  baseIds.forEach((id, i) => {
+    const shards = snaps.slice(i * perBase, (i + 1) * perBase);
+    sums.set(id, sumAdStats(shards.map((snap) => snap.data())));
+  });
+  return sums;
+}
+
+/** Lifetime totals for several campaigns (kept in `adCampaignStats`), keyed by id. */
+export async function getAdStatsTotals(campaignIds: string[]): Promise<Map<string, AdStats>> {
+  return sumAdStatsShards("adCampaignStats", campaignIds);
+}
+
+/** Per-day counters of one campaign, oldest first, for its chart. */
+export async function getAdDailyStats(campaignId: string): Promise<AdDailyStats[]> {
+  const snap = await adminDb
+    .collection("adCampaignDaily")
+    .where("campaignId", "==", campaignId)
+    .limit(DAILY_LIMIT * (AD_STATS_SHARDS + 1))
+    .get();
+
+  const shardsByDay = new Map<string, FirebaseFirestore.DocumentData[]>();
+  for (const doc of snap.docs) {
+    const data = doc.data();
+    if (typeof data.day !== "string" || !data.day) continue;
+    shardsByDay.set(data.day, [...(shardsByDay.get(data.day) ?? []), data]);
+  }
+
+  return Array.from(shardsByDay, ([day, shards]) => ({ day, ...sumAdStats(shards) })).sort((a, b) =>
+    a.day.localeCompare(b.day)
+  );
+}
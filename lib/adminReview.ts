@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { changedFields, recordAudit } from "@/lib/auditLog";
+import { FieldValue } from "@/lib/firebaseAdmin";
+import { parseReviewDecision, type ReviewDecision } from "@/lib/rejection";
+
+export async function readReviewDecision(
+  request: Request
+): Promise<{ ok: true; decision: ReviewDecision } | { ok: false; response: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      ok: false,
+      response: NextResponse.json({ ok: false, message: "Invalid JSON body." }, { status: 400 }),
+    };
+  }
+
+  const parsed = parseReviewDecision(body);
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      response: NextResponse.json({ ok: false, message: parsed.message }, { status: 400 }),
+    };
+  }
+
+  return { ok: true, decision: parsed.decision };
+}
+
+/**
+ * Fields written onto a reviewed `business`, `events`, `catalogue` or `brandSuggestions` document.
+ * Approval clears any earlier rejection; rejection stores the record read by `normalizeRejection`.
+ */
+export function buildReviewUpdate(decision: ReviewDecision, reviewerUid: string) {
+  const reviewed = {
+    reviewedAt: FieldValue.serverTimestamp(),
+    reviewedBy: reviewerUid,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+
+  if (decision.action === "approve") {
+    return { status: "verified", rejection: FieldValue.delete(), ...reviewed };
+  }
+
+  return {
+    status: "rejected",
+    rejection: {
+      reasonCode: decision.reasonCode,
+      note: decision.note,
+      fieldFlags: decision.fieldFlags,
+      reviewedAt: FieldValue.serverTimestamp(),
+      reviewedBy: reviewerUid,
+    },
+    ...reviewed,
+  };
+}
+
+/**
+ * Adds the review outcome to the reviewed item's timeline, e.g. `event.approve` or
+ * `business.reject`.
+ */
+export async function recordReviewAudit(params: {
+  targetType: "business" | "event" | "catalogue";
+  targetId: string;
+  businessId: string;
+  before: Record<string, unknown>;
+  update: Record<string, unknown>;
+  decision: ReviewDecision;
+  reviewerUid: string;
+}) {
+  const { targetType, targetId, businessId, before, update, decision, reviewerUid } = params;
+  const title = targetType === "business" ? before.businessName : before.title;
+
+  await recordAudit({
+    businessId,
+    actorUid: reviewerUid,
+    action: `${targetType}.${decision.action}`,
+    targetType,
+    targetId,
+    summary: typeof title === "string" ? title : undefined,
+    fromStatus: typeof before.status === "string" ? before.status : null,
+    toStatus: typeof update.status === "string" ? update.status : undefined,
+    changedFields: changedFields(before, update),
+  });
+}
@@ -0,0 +1,31 @@
+/** Human-readable verbs for `auditLog` actions, shared by the team activity feed and timelines. */
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  "event.create": "created event",
+  "event.update": "updated event",
+  "event.submit": "submitted event for verification",
+  "event.delete": "deleted event",
+  "event.approve": "approved event",
+  "event.reject": "rejected event",
+  "catalogue.create": "created catalogue item",
+  "catalogue.update": "updated catalogue item",
+  "catalogue.submit": "submitted catalogue item for verification",
+  "catalogue.delete": "deleted catalogue item",
+  "catalogue.approve": "approved catalogue item",
+  "catalogue.reject": "rejected catalogue item",
+  "business.create": "created business profile",
+  "business.update": "updated business profile",
+  "business.submit": "submitted business for verification",
+  "business.kyc_submit": "submitted KYC for",
+  "business.approve": "approved business",
+  "business.reject": "rejected business",
+  "member.invite": "invited",
+  "member.invite_revoke": "revoked invitation for",
+  "member.join": "joined the team as",
+  "member.leave": "left the team",
+  "member.remove": "removed",
+  "member.role_change": "changed a member's role",
+  "ad.create": "created ad campaign",
+  "ad.pause": "paused ad campaign",
+  "ad.resume": "resumed ad campaign",
+  "ad.stop": "stopped ad campaign",
+};
@@ -0,0 +1,130 @@
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { lookupDisplayNames } from "@/lib/userNames";
+
+export type AuditTargetType = "business" | "event" | "catalogue" | "member" | "invite" | "ad";
+
+export type AuditEntry = {
+  businessId: string;
+  actorUid: string;
+  action: string;
+  targetType: AuditTargetType;
+  targetId: string;
+  summary?: string;
+  fromStatus?: string | null;
+  toStatus?: string;
+  changedFields?: string[];
+};
+
+export type AuditTrailItem = {
+  id: string;
+  actorUid: string;
+  actorName: string;
+  action: string;
+  summary: string;
+  fromStatus: string | null;
+  toStatus: string | null;
+  changedFields: string[];
+  createdAt: string | null;
+};
+
+const TRAIL_LIMIT = 100;
+
+/** Bookkeeping and derived fields that change with other writes and would only add noise to a timeline. */
+const IGNORED_FIELDS = new Set([
+  "userId",
+  "createdAt",
+  "updatedAt",
+  "createdBy",
+  "updatedBy",
+  "reviewedAt",
+  "reviewedBy",
+  "searchTokens",
+  "bannerImage",
+  "galleryImages",
+  "images",
+]);
+
+/**
+ * Appends a "who did what" entry for a business to the `auditLog` collection. Logging must never
+ * fail the request that triggered it, so write errors are only reported to the server log.
+ */
+export async function recordAudit(entry: AuditEntry) {
+  try {
+    await adminDb.collection("auditLog").add({
+      businessId: entry.businessId,
+      actorUid: entry.actorUid,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      ...(entry.summary ? { summary: entry.summary } : {}),
+      ...(entry.fromStatus !== undefined ? { fromStatus: entry.fromStatus } : {}),
+      ...(entry.toStatus ? { toStatus: entry.toStatus } : {}),
+      ...(entry.changedFields?.length ? { changedFields: entry.changedFields } : {}),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  } catch (err) {
+    console.error("recordAudit failed", entry.action, err);
+  }
+}
+
+/**
+ * Names of the fields a merge/update payload actually changes on `before`. Sentinels such as
+ * `FieldValue.delete()` count as a change only when the field was set before.
+ */
+export function changedFields(before: Record<string, unknown>, update: Record<string, unknown>) {
+  return Object.keys(update)
+    .filter((key) => {
+      if (IGNORED_FIELDS.has(key)) return false;
+      const next = update[key];
+      const prev = before[key];
+      if (next instanceof FieldValue) return prev !== undefined;
+      return JSON.stringify(prev ?? null) !== JSON.stringify(next ?? null);
+    })
+    .sort();
+}
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+/** Newest-first history of one business, event or catalogue item for the detail timelines. */
+export async function listAuditTrail(
+  targetType: AuditTargetType,
+  targetId: string
+): Promise<AuditTrailItem[]> {
+  const trailQuery = adminDb
+    .collection("auditLog")
+    .where("targetType", "==", targetType)
+    .where("targetId", "==", targetId);
+
+  let docs: FirebaseFirestore.QueryDocumentSnapshot[];
+  try {
+    docs = (await trailQuery.orderBy("createdAt", "desc").limit(TRAIL_LIMIT).get()).docs;
+  } catch (err) {
+    console.error("listAuditTrail ordered query failed; returned unordered fallback", err);
+    docs = (await trailQuery.limit(TRAIL_LIMIT).get()).docs;
+  }
+
+  const items = docs
+    .map((doc) => {
+      const data = doc.data() ?? {};
+      return {
+        id: doc.id,
+        actorUid: asString(data.actorUid),
+        actorName: "",
+        action: asString(data.action),
+        summary: asString(data.summary),
+        fromStatus: asString(data.fromStatus) || null,
+        toStatus: asString(data.toStatus) || null,
+        changedFields: Array.isArray(data.changedFields)
+          ? data.changedFields.filter((f: unknown): f is string => typeof f === "string")
+          : [],
+        createdAt: timestampToIso(data.createdAt),
+      } satisfies AuditTrailItem;
+    })
+    .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+
+  const names = await lookupDisplayNames([...new Set(items.map((i) => i.actorUid).filter(Boolean))]);
+  return items.map((item) => ({ ...item, actorName: names.get(item.actorUid) ?? "" }));
+}
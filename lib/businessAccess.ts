@@ -0,0 +1,213 @@
+import { NextResponse } from "next/server";
+import {
+  asMemberRole,
+  permissionsForRole,
+  roleHasPermission,
+  type BusinessPermission,
+  type MemberRole,
+} from "@/lib/businessRoles";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { hasRole, type AuthUser } from "@/lib/requestAuth";
+
+/**
+ * Header carrying the business selected in the dashboard. Events and catalogue still store the
+ * business id in their `userId` field, which for a user's first business is also their uid.
+ */
+export const BUSINESS_ID_HEADER = "x-business-id";
+
+export type BusinessAccess = {
+  businessId: string;
+  ownerUid: string;
+  role: MemberRole;
+  permissions: BusinessPermission[];
+};
+
+export type BusinessSummary = {
+  id: string;
+  businessName: string;
+  businessLogoUrl: string;
+  status: string;
+  role: MemberRole;
+};
+
+type AccessError = { ok: false; response: NextResponse };
+
+type AccessResult = ({ ok: true } & BusinessAccess) | AccessError;
+
+type ReadAccessResult =
+  | ({ ok: true } & BusinessAccess)
+  | { ok: true; businessId: string; role: "admin"; permissions: BusinessPermission[] }
+  | AccessError;
+
+function accessError(message: string, status: number): AccessError {
+  return { ok: false, response: NextResponse.json({ ok: false, message }, { status }) };
+}
+
+export function memberDocId(businessId: string, uid: string) {
+  return `${businessId}_${uid}`;
+}
+
+export function businessIdFromRequest(request: Request) {
+  return (request.headers.get(BUSINESS_ID_HEADER) ?? "").trim();
+}
+
+function toAccess(businessId: string, ownerUid: string, role: MemberRole): BusinessAccess {
+  return { businessId, ownerUid, role, permissions: permissionsForRole(role) };
+}
+
+/**
+ * A user's first business is stored at `business/{uid}`; further businesses get generated ids.
+ * Either way the owner's uid is kept in the business `userId`. Everyone else is looked up in
+ * `businessMembers`.
+ */
+export async function getBusinessAccess(uid: string, businessId: string): Promise<BusinessAccess | null> {
+  if (!businessId) return null;
+  if (businessId === uid) return toAccess(businessId, uid, "owner");
+
+  const [businessSnap, memberSnap] = await Promise.all([
+    adminDb.collection("business").doc(businessId).get(),
+    adminDb.collection("businessMembers").doc(memberDocId(businessId, uid)).get(),
+  ]);
+  if (!businessSnap.exists) return null;
+
+  const ownerUid =
+    typeof businessSnap.data()?.userId === "string" ? (businessSnap.data()?.userId as string) : businessId;
+  if (ownerUid === uid) return toAccess(businessId, uid, "owner");
+
+  if (!memberSnap.exists) return null;
+  const role = asMemberRole(memberSnap.data()?.role);
+  if (!role || role === "owner") return null;
+
+  return toAccess(businessId, ownerUid, role);
+}
+
+/** Every business a user can open, owned ones first. */
+export async function listBusinessesForUser(uid: string): Promise<BusinessSummary[]> {
+  const [legacySnap, ownedSnap, membershipSnap] = await Promise.all([
+    adminDb.collection("business").doc(uid).get(),
+    adminDb.collection("business").where("userId", "==", uid).get(),
+    adminDb.collection("businessMembers").where("uid", "==", uid).get(),
+  ]);
+
+  const summaries: BusinessSummary[] = [];
+  const seen = new Set<string>();
+
+  const push = (id: string, data: FirebaseFirestore.DocumentData | undefined, role: MemberRole) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    summaries.push({
+      id,
+      businessName: typeof data?.businessName === "string" ? data.businessName : "",
+      businessLogoUrl: typeof data?.businessLogoUrl === "string" ? data.businessLogoUrl : "",
+      status: typeof data?.status === "string" ? data.status : "draft",
+      role,
+    });
+  };
+
+  if (legacySnap.exists) push(legacySnap.id, legacySnap.data(), "owner");
+  for (const doc of ownedSnap.docs) push(doc.id, doc.data(), "owner");
+
+  const memberships = membershipSnap.docs
+    .map((doc) => doc.data() ?? {})
+    .map((data) => ({
+      businessId: typeof data.businessId === "string" ? data.businessId : "",
+      role: asMemberRole(data.role),
+    }))
+    .filter((m): m is { businessId: string; role: MemberRole } => Boolean(m.businessId && m.role));
+
+  if (memberships.length) {
+    const snaps = await adminDb.getAll(
+      ...memberships.map((m) => adminDb.collection("business").doc(m.businessId))
+    );
+    snaps.forEach((snap, idx) => {
+      if (snap.exists) push(snap.id, snap.data(), memberships[idx].role);
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * The business a request acts on: the one named in the `X-Business-Id` header when present,
+ * otherwise the user's first business or membership.
+ */
+export async function resolveBusinessAccess(
+  uid: string,
+  requestedBusinessId?: string
+): Promise<BusinessAccess | null> {
+  if (requestedBusinessId) return getBusinessAccess(uid, requestedBusinessId);
+
+  const legacySnap = await adminDb.collection("business").doc(uid).get();
+  if (legacySnap.exists) return toAccess(uid, uid, "owner");
+
+  const [first] = await listBusinessesForUser(uid);
+  if (!first) return null;
+  return getBusinessAccess(uid, first.id);
+}
+
+export async function requireBusinessAccess(
+  request: Request,
+  auth: AuthUser,
+  permission?: BusinessPermission
+): Promise<AccessResult> {
+  const requested = businessIdFromRequest(request);
+  const access = await resolveBusinessAccess(auth.uid, requested);
+  if (!access) {
+    return requested
+      ? accessError("You do not have access to this business.", 403)
+      : accessError("You are not part of a business yet.", 403);
+  }
+
+  if (permission && !roleHasPermission(access.role, permission)) {
+    return accessError("You do not have permission to do this.", 403);
+  }
+
+  return { ok: true, ...access };
+}
+
+/**
+ * Resolves the business whose registration and KYC the request edits. Only owners may do so;
+ * with no business selected this falls back to `business/{uid}`, which a first registration
+ * creates.
+ */
+export async function requireOwnedBusiness(
+  request: Request,
+  auth: AuthUser
+): Promise<{ ok: true; businessId: string } | AccessError> {
+  const requested = businessIdFromRequest(request);
+  if (!requested) return { ok: true, businessId: auth.uid };
+
+  const access = await getBusinessAccess(auth.uid, requested);
+  if (!access || access.role !== "owner") {
+    return accessError("You do not have access to this business.", 403);
+  }
+
+  return { ok: true, businessId: access.businessId };
+}
+
+/**
+ * Guards a document owned by a business (the `userId` on events and catalogue). Read-only
+ * handlers pass `allowAdmin` so reviewers can open any item.
+ */
+export async function authorizeBusiness(
+  auth: AuthUser,
+  businessId: unknown,
+  permission: BusinessPermission | null,
+  options?: { allowAdmin?: boolean }
+): Promise<ReadAccessResult> {
+  const id = typeof businessId === "string" ? businessId : "";
+  const access = id ? await getBusinessAccess(auth.uid, id) : null;
+
+  if (access) {
+    if (permission && !roleHasPermission(access.role, permission)) {
+      return accessError("You do not have permission to do this.", 403);
+    }
+    return { ok: true, ...access };
+  }
+
+  if (options?.allowAdmin && hasRole(auth, "admin")) {
+    return { ok: true, businessId: id, role: "admin", permissions: [] };
+  }
+
+  return accessError("Forbidden.", 403);
+}
@@ -0,0 +1,72 @@
+export const MEMBER_ROLES = ["owner", "manager", "employee"] as const;
+
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  employee: "Employee",
+};
+
+export type BusinessPermission =
+  | "catalogue.write"
+  | "catalogue.submit"
+  | "events.write"
+  | "events.submit"
+  | "events.checkin"
+  | "events.vehicles"
+  | "ads.manage"
+  | "ads.redeem"
+  | "team.read"
+  | "team.manage";
+
+/**
+ * Employees can prepare catalogue items and events as drafts, check attendees in at the venue and
+ * redeem scratch-card rewards at the counter; submitting for verification, approving attendees'
+ * vehicles, spending on ads and managing the team is left to managers and the owner.
+ */
+const ROLE_PERMISSIONS: Record<MemberRole, BusinessPermission[]> = {
+  owner: [
+    "catalogue.write",
+    "catalogue.submit",
+    "events.write",
+    "events.submit",
+    "events.checkin",
+    "events.vehicles",
+    "ads.manage",
+    "ads.redeem",
+    "team.read",
+    "team.manage",
+  ],
+  manager: [
+    "catalogue.write",
+    "catalogue.submit",
+    "events.write",
+    "events.submit",
+    "events.checkin",
+    "events.vehicles",
+    "ads.manage",
+    "ads.redeem",
+    "team.read",
+  ],
+  employee: ["catalogue.write", "events.write", "events.checkin", "ads.redeem"],
+};
+
+export function asMemberRole(value: unknown): MemberRole | null {
+  return typeof value === "string" && (MEMBER_ROLES as readonly string[]).includes(value)
+    ? (value as MemberRole)
+    : null;
+}
+
+/** Roles that can be handed out through an invitation. */
+export function isInvitableRole(value: unknown): value is Exclude<MemberRole, "owner"> {
+  return value === "manager" || value === "employee";
+}
+
+export function permissionsForRole(role: MemberRole): BusinessPermission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+export function roleHasPermission(role: MemberRole, permission: BusinessPermission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
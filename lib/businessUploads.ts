@@ -0,0 +1,26 @@
+import { MB, withSignedUrl, type UploadRule } from "@/lib/storageUpload";
+
+export const BUSINESS_LOGO_RULE: UploadRule = { kind: "image", maxBytes: 5 * MB, label: "Business logo" };
+export const GST_DOCUMENT_RULE: UploadRule = { kind: "document", maxBytes: 5 * MB, label: "GST document" };
+export const SHOP_IMAGE_RULE: UploadRule = { kind: "image", maxBytes: 5 * MB, label: "Shop image" };
+export const SELF_VIDEO_RULE: UploadRule = { kind: "video", maxBytes: 50 * MB, label: "Self video" };
+export const SHOP_PROOF_VIDEO_RULE: UploadRule = {
+  kind: "video",
+  maxBytes: 50 * MB,
+  label: "Shop proof video",
+};
+
+/** KYC videos are replaced wholesale on every submission, so older ones can be removed. */
+export const KYC_UPLOAD_FOLDERS = ["kyc"] as const;
+
+/**
+ * Link to a business's GST document for the owner or a reviewer. New uploads are private
+ * (`gstDocument`), older ones were stored as a public `gstDocumentUrl` until migrated.
+ */
+export async function gstDocumentUrl(business: Record<string, unknown>) {
+  const media = await withSignedUrl(
+    business.gstDocument ??
+      (typeof business.gstDocumentUrl === "string" ? { url: business.gstDocumentUrl } : null)
+  );
+  return media && typeof media.url === "string" ? media.url : "";
+}
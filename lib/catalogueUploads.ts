@@ -0,0 +1,6 @@
+import { MB, type UploadRule } from "@/lib/storageUpload";
+
+/** Storage folders holding files that belong to a single catalogue item (deleted along with it). */
+export const CATALOGUE_UPLOAD_FOLDERS = ["catalogueImages"] as const;
+
+export const CATALOGUE_IMAGE_RULE: UploadRule = { kind: "image", maxBytes: 5 * MB, label: "Each image" };
@@ -0,0 +1,221 @@
+import { FieldValue, adminDb, adminStorageBucket } from "@/lib/firebaseAdmin";
+import { EVENT_VIDEO_RULE } from "@/lib/eventUploads";
+import { SELF_VIDEO_RULE, SHOP_PROOF_VIDEO_RULE } from "@/lib/businessUploads";
+import {
+  MB,
+  deleteStoredObjects,
+  sniffContentType,
+  type StoredObject,
+  type UploadBatch,
+  type UploadRule,
+  type UploadVisibility,
+} from "@/lib/storageUpload";
+
+export type DirectUploadPurpose = "eventVideo" | "kycSelfie" | "kycLocation";
+
+type PurposeConfig = {
+  rule: UploadRule;
+  visibility: UploadVisibility;
+  folder: (locationId: string) => string;
+};
+
+/** Large videos the browser sends straight to Cloud Storage instead of through a route body. */
+const DIRECT_UPLOAD_PURPOSES: Record<DirectUploadPurpose, PurposeConfig> = {
+  eventVideo: { rule: EVENT_VIDEO_RULE, visibility: "public", folder: () => "eventVideos" },
+  kycSelfie: { rule: SELF_VIDEO_RULE, visibility: "private", folder: () => "kyc/selfie" },
+  kycLocation: {
+    rule: SHOP_PROOF_VIDEO_RULE,
+    visibility: "private",
+    folder: (locationId) => `kyc/location/${locationId}`,
+  },
+};
+
+type UploadSessionStatus = "pending" | "finalized" | "expired";
+
+/**
+ * How long a session may stay unfinalised. Cloud Storage keeps a resumable upload URL usable for
+ * a week, so sessions outlive it by a day: once swept, nothing can write to the object again.
+ */
+const SESSION_TTL_MS = 8 * 24 * 60 * 60 * 1000;
+/** Expired sessions cleaned up per sweep, so a sweep never holds up the request running it. */
+const SWEEP_LIMIT = 20;
+
+export function asDirectUploadPurpose(value: unknown): DirectUploadPurpose | null {
+  return value === "eventVideo" || value === "kycSelfie" || value === "kycLocation" ? value : null;
+}
+
+function safeFileName(name: string) {
+  return (name || "video").replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
+}
+
+/**
+ * Opens a resumable Cloud Storage upload session for one file. The returned `uploadUrl` is
+ * only usable from `origin`; the object it creates stays unreferenced until a route calls
+ * `finalizeDirectUpload` with the returned `uploadId`.
+ */
+export async function createUploadSession(params: {
+  uid: string;
+  businessId: string;
+  purpose: DirectUploadPurpose;
+  locationId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  origin: string;
+}): Promise<{ ok: true; uploadId: string; uploadUrl: string } | { ok: false; message: string }> {
+  const config = DIRECT_UPLOAD_PURPOSES[params.purpose];
+  const { rule } = config;
+
+  if (!Number.isInteger(params.size) || params.size <= 0) {
+    return { ok: false, message: `${rule.label} is empty.` };
+  }
+  if (params.size > rule.maxBytes) {
+    return { ok: false, message: `${rule.label} must be under ${Math.round(rule.maxBytes / MB)}MB.` };
+  }
+  if (!params.contentType.startsWith("video/")) {
+    return { ok: false, message: `${rule.label} must be a video.` };
+  }
+
+  const sessionRef = adminDb.collection("uploadSessions").doc();
+  const objectPath = `${config.folder(params.locationId)}/${params.uid}/${Date.now()}_${safeFileName(
+    params.fileName
+  )}`;
+
+  // `contentLength` is sent as X-Upload-Content-Length, so Cloud Storage refuses any upload that is
+  // not exactly the declared (and checked) size instead of storing it until the session is swept.
+  const [uploadUrl] = await adminStorageBucket.file(objectPath).createResumableUpload({
+    origin: params.origin || undefined,
+    metadata: {
+      contentLength: params.size,
+      contentType: params.contentType,
+      cacheControl:
+        config.visibility === "public" ? "public, max-age=31536000" : "private, max-age=0",
+    },
+  });
+
+  const status: UploadSessionStatus = "pending";
+  await sessionRef.set({
+    uid: params.uid,
+    businessId: params.businessId,
+    purpose: params.purpose,
+    locationId: params.locationId,
+    objectPath,
+    fileName: params.fileName,
+    size: params.size,
+    status,
+    createdAt: FieldValue.serverTimestamp(),
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+
+  return { ok: true, uploadId: sessionRef.id, uploadUrl };
+}
+
+/**
+ * Verifies a finished direct upload (same uploader, business and purpose; object present;
+ * size and sniffed type within the purpose's rule) and adds it to `uploads` so a later failure
+ * in the same request removes it again. Each session can be finalised once, before it expires.
+ */
+export async function finalizeDirectUpload(
+  uploads: UploadBatch,
+  params: {
+    uploadId: string;
+    uid: string;
+    businessId: string;
+    purpose: DirectUploadPurpose;
+    locationId?: string;
+  }
+): Promise<{ ok: true; stored: StoredObject } | { ok: false; message: string }> {
+  const config = DIRECT_UPLOAD_PURPOSES[params.purpose];
+  const { rule } = config;
+  const sessionRef = adminDb.collection("uploadSessions").doc(params.uploadId);
+
+  const claimed = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(sessionRef);
+    const data = snap.data();
+    if (
+      !snap.exists ||
+      !data ||
+      data.uid !== params.uid ||
+      data.businessId !== params.businessId ||
+      data.purpose !== params.purpose ||
+      (params.locationId !== undefined && data.locationId !== params.locationId) ||
+      data.status !== "pending" ||
+      (data.expiresAt && data.expiresAt.toMillis() <= Date.now())
+    ) {
+      return null;
+    }
+
+    const status: UploadSessionStatus = "finalized";
+    tx.update(sessionRef, { status, finalizedAt: FieldValue.serverTimestamp() });
+    return data as { objectPath: string; fileName?: string; size?: number };
+  });
+
+  if (!claimed) {
+    return { ok: false, message: `${rule.label} upload was not found. Please upload it again.` };
+  }
+
+  const objectRef = adminStorageBucket.file(claimed.objectPath);
+  uploads.track(claimed.objectPath);
+
+  const [exists] = await objectRef.exists();
+  if (!exists) {
+    return { ok: false, message: `${rule.label} upload is incomplete. Please upload it again.` };
+  }
+
+  const [metadata] = await objectRef.getMetadata();
+  const size = Number(metadata.size ?? 0);
+  if (size <= 0) return { ok: false, message: `${rule.label} is empty.` };
+  if (typeof claimed.size === "number" && size !== claimed.size) {
+    return { ok: false, message: `${rule.label} upload is incomplete. Please upload it again.` };
+  }
+  if (size > rule.maxBytes) {
+    return { ok: false, message: `${rule.label} must be under ${Math.round(rule.maxBytes / MB)}MB.` };
+  }
+
+  const [head] = await objectRef.download({ start: 0, end: 31 });
+  const contentType = await sniffContentType(new Blob([new Uint8Array(head)]));
+  if (!contentType || !contentType.startsWith("video/")) {
+    return { ok: false, message: `${rule.label} must be a video.` };
+  }
+
+  if (metadata.contentType !== contentType) await objectRef.setMetadata({ contentType });
+  if (config.visibility === "public") await objectRef.makePublic();
+
+  return {
+    ok: true,
+    stored: {
+      objectPath: claimed.objectPath,
+      url: config.visibility === "public" ? objectRef.publicUrl() : "",
+      name: typeof claimed.fileName === "string" ? claimed.fileName : "",
+      contentType,
+      size,
+    },
+  };
+}
+
+/**
+ * Deletes the objects of upload sessions that were never finalised and have expired, marking the
+ * sessions expired. Best-effort: routes that open sessions run it so abandoned uploads do not
+ * pile up in the bucket.
+ */
+export async function sweepExpiredUploadSessions(now = Date.now()) {
+  const snap = await adminDb
+    .collection("uploadSessions")
+    .where("status", "==", "pending")
+    .where("expiresAt", "<=", new Date(now))
+    .limit(SWEEP_LIMIT)
+    .get();
+
+  for (const doc of snap.docs) {
+    const objectPath = await adminDb.runTransaction(async (tx) => {
+      const current = await tx.get(doc.ref);
+      const data = current.data();
+      if (!data || data.status !== "pending") return null;
+
+      const status: UploadSessionStatus = "expired";
+      tx.update(doc.ref, { status, expiredAt: FieldValue.serverTimestamp() });
+      return typeof data.objectPath === "string" ? data.objectPath : "";
+    });
+    if (objectPath) await deleteStoredObjects([objectPath]);
+  }
+}
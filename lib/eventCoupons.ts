@@ -0,0 +1,192 @@
+import { adminDb } from "@/lib/firebaseAdmin";
+
+export type CouponDiscountType = "percent" | "flat";
+
+/** Coupon definition stored in the event's `coupons` list. */
+export type EventCoupon = {
+  code: string;
+  discountType: CouponDiscountType;
+  /** Percentage off (1–100) or rupees off each ticket. */
+  amount: number;
+  /** Total orders that may use the code. */
+  maxUses?: number;
+  /** Orders a single buyer may place with the code. */
+  perUserLimit?: number;
+  startsAt?: string;
+  endsAt?: string;
+  /** Ticket types the code applies to; all tickets when absent. */
+  ticketIds?: string[];
+};
+
+export type CouponQuote = {
+  code: string;
+  unitPrice: number;
+  discountPerTicket: number;
+  discount: number;
+  total: number;
+};
+
+export type CouponResult = ({ ok: true } & CouponQuote) | { ok: false; message: string };
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,24}$/;
+const MAX_COUPONS = 50;
+
+export function normalizeCouponCode(value: unknown) {
+  return typeof value === "string" ? value.trim().toUpperCase() : "";
+}
+
+function asIsoDate(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return "";
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? new Date(time).toISOString() : "";
+}
+
+function asPositiveInt(value: unknown) {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Validates the coupon list sent with an event form. Returns a message for the first invalid
+ * coupon; ticket references are limited to the event's own ticket ids.
+ */
+export function normalizeCoupons(
+  raw: unknown[],
+  ticketIds: string[]
+): { ok: true; coupons: EventCoupon[] } | { ok: false; message: string } {
+  const coupons: EventCoupon[] = [];
+  const codes = new Set<string>();
+
+  for (const item of raw.slice(0, MAX_COUPONS)) {
+    if (!item || typeof item !== "object") continue;
+    const obj = item as Record<string, unknown>;
+
+    const code = normalizeCouponCode(obj.code);
+    if (!COUPON_CODE_PATTERN.test(code)) {
+      return {
+        ok: false,
+        message: "Coupon codes must be 3-24 letters, numbers, dashes or underscores.",
+      };
+    }
+    if (codes.has(code)) return { ok: false, message: `Coupon ${code} is listed twice.` };
+    codes.add(code);
+
+    const discountType: CouponDiscountType = obj.discountType === "flat" ? "flat" : "percent";
+    const amount = typeof obj.amount === "number" ? obj.amount : Number(obj.amount);
+    if (!Number.isFinite(amount) || amount <= 0 || (discountType === "percent" && amount > 100)) {
+      return {
+        ok: false,
+        message:
+          discountType === "percent"
+            ? `Coupon ${code} must take off between 1 and 100%.`
+            : `Coupon ${code} must take off more than ₹0.`,
+      };
+    }
+
+    const startsAt = asIsoDate(obj.startsAt);
+    const endsAt = asIsoDate(obj.endsAt);
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      return { ok: false, message: `Coupon ${code} must end after it starts.` };
+    }
+
+    const maxUses = asPositiveInt(obj.maxUses);
+    const perUserLimit = asPositiveInt(obj.perUserLimit);
+    const requested = Array.isArray(obj.ticketIds) ? obj.ticketIds : [];
+    const applicable = requested.filter(
+      (id): id is string => typeof id === "string" && ticketIds.includes(id)
+    );
+    // A coupon limited to tickets that were all removed must not widen to every ticket.
+    if (requested.length && !applicable.length) {
+      return { ok: false, message: `Coupon ${code} does not apply to any of the event's tickets.` };
+    }
+
+    coupons.push({
+      code,
+      discountType,
+      amount: Math.round(amount * 100) / 100,
+      ...(maxUses ? { maxUses } : {}),
+      ...(perUserLimit ? { perUserLimit } : {}),
+      ...(startsAt ? { startsAt } : {}),
+      ...(endsAt ? { endsAt } : {}),
+      ...(applicable.length ? { ticketIds: Array.from(new Set(applicable)) } : {}),
+    });
+  }
+
+  return { ok: true, coupons };
+}
+
+export function findCoupon(event: Record<string, unknown>, code: string): EventCoupon | null {
+  if (!code || !Array.isArray(event.coupons)) return null;
+  const match = event.coupons.find(
+    (c) => Boolean(c) && typeof c === "object" && (c as Record<string, unknown>).code === code
+  );
+  return match ? (match as EventCoupon) : null;
+}
+
+export function couponUsageDocId(eventId: string, code: string) {
+  return `${eventId}_${code}`;
+}
+
+export function couponUserUsageDocId(eventId: string, code: string, uid: string) {
+  return `${eventId}_${code}_${uid}`;
+}
+
+/**
+ * Prices `quantity` tickets with `coupon`, given how many orders have already used it overall
+ * (`used`) and by this buyer (`usedByBuyer`, null for a walk-in sale). Coupons with a per-buyer
+ * limit need a buyer account to count against.
+ */
+export function applyCoupon(
+  coupon: EventCoupon,
+  params: {
+    ticketId: string;
+    unitPrice: number;
+    quantity: number;
+    used: number;
+    usedByBuyer: number | null;
+    now?: Date;
+  }
+): CouponResult {
+  const now = (params.now ?? new Date()).toISOString();
+
+  if (coupon.startsAt && now < coupon.startsAt) {
+    return { ok: false, message: "This coupon is not active yet." };
+  }
+  if (coupon.endsAt && now >= coupon.endsAt) {
+    return { ok: false, message: "This coupon has expired." };
+  }
+  if (coupon.ticketIds?.length && !coupon.ticketIds.includes(params.ticketId)) {
+    return { ok: false, message: "This coupon does not apply to this ticket." };
+  }
+  if (coupon.maxUses && params.used >= coupon.maxUses) {
+    return { ok: false, message: "This coupon has been fully redeemed." };
+  }
+  if (coupon.perUserLimit && params.usedByBuyer === null) {
+    return { ok: false, message: "This coupon is limited per buyer. Enter the buyer's email to use it." };
+  }
+  if (coupon.perUserLimit && params.usedByBuyer !== null && params.usedByBuyer >= coupon.perUserLimit) {
+    return { ok: false, message: "This buyer has already used this coupon." };
+  }
+
+  const off =
+    coupon.discountType === "percent" ? (params.unitPrice * coupon.amount) / 100 : coupon.amount;
+  const discountPerTicket = Math.round(Math.min(params.unitPrice, off) * 100) / 100;
+  const discount = Math.round(discountPerTicket * params.quantity * 100) / 100;
+  const total = Math.round((params.unitPrice * params.quantity - discount) * 100) / 100;
+
+  return { ok: true, code: coupon.code, unitPrice: params.unitPrice, discountPerTicket, discount, total };
+}
+
+/** Reads the coupon's usage counters for a price check outside a sale transaction. */
+export async function readCouponUsage(eventId: string, code: string, buyerUid: string) {
+  const [usage, userUsage] = await Promise.all([
+    adminDb.collection("couponUsage").doc(couponUsageDocId(eventId, code)).get(),
+    buyerUid
+      ? adminDb.collection("couponUserUsage").doc(couponUserUsageDocId(eventId, code, buyerUid)).get()
+      : null,
+  ]);
+  return {
+    used: Number(usage.data()?.used ?? 0) || 0,
+    usedByBuyer: userUsage ? Number(userUsage.data()?.used ?? 0) || 0 : null,
+  };
+}
@@ -0,0 +1,365 @@
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import {
+  availableSeats,
+  findStoredTicket,
+  soldOutMessage,
+  ticketInventoryDocId,
+  ticketUnitPrice,
+  writeTicketSale,
+} from "@/lib/ticketInventory";
+import { lookupDisplayNames } from "@/lib/userNames";
+
+export type EventGroupStatus = "open" | "complete" | "expired";
+
+export type EventGroupMember = {
+  uid: string;
+  name: string;
+  saleId: string;
+  claimedAt: string | null;
+  leader: boolean;
+};
+
+export type EventGroupItem = {
+  id: string;
+  ticketId: string;
+  ticketTitle: string;
+  size: number;
+  claimed: number;
+  status: EventGroupStatus;
+  claimDeadline: string | null;
+  createdAt: string | null;
+  members: EventGroupMember[];
+};
+
+type StoredMember = { uid: string; saleId: string; claimedAt: string; leader?: boolean };
+
+export type CreateGroupResult =
+  | { ok: true; groupId: string; saleId: string; claimDeadline: string }
+  | { ok: false; message: string; status: number };
+
+export type ClaimSeatResult =
+  | { ok: true; eventId: string; saleId: string; claimed: number; size: number }
+  | { ok: false; message: string; status: number };
+
+export const MIN_GROUP_SIZE = 2;
+export const MAX_GROUP_SIZE = 20;
+/** Members have this long to claim their seat, or until the event starts if that is sooner. */
+const CLAIM_WINDOW_MS = 48 * 60 * 60 * 1000;
+/** Open groups one buyer may lead at a time, across all events. */
+const MAX_OPEN_GROUPS_PER_LEADER = 2;
+/** Share of a ticket type's capacity that may be held for groups at once. */
+const MAX_HELD_SHARE = 0.5;
+const GROUPS_LIMIT = 50;
+
+function asNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function asGroupStatus(value: unknown): EventGroupStatus {
+  return value === "complete" || value === "expired" ? value : "open";
+}
+
+function storedMembers(group: FirebaseFirestore.DocumentData): StoredMember[] {
+  return Array.isArray(group.members)
+    ? group.members.filter(
+        (m): m is StoredMember => Boolean(m) && typeof m === "object" && typeof m.uid === "string"
+      )
+    : [];
+}
+
+function claimDeadlineFor(event: Record<string, unknown>, now: number) {
+  const start = new Date(String(event.startDateTime ?? "")).getTime();
+  const deadline = now + CLAIM_WINDOW_MS;
+  return Number.isFinite(start) ? Math.min(deadline, start) : deadline;
+}
+
+function isPastDeadline(group: FirebaseFirestore.DocumentData, now: number) {
+  const deadline = new Date(String(group.claimDeadline ?? "")).getTime();
+  return Number.isFinite(deadline) && now > deadline;
+}
+
+/** Marks an open group expired inside `tx` and hands its unclaimed seats back to general sale. */
+function expireGroup(
+  tx: FirebaseFirestore.Transaction,
+  groupRef: FirebaseFirestore.DocumentReference,
+  group: FirebaseFirestore.DocumentData
+) {
+  const unclaimed = Math.max(0, asNumber(group.size) - asNumber(group.claimedCount));
+  tx.update(groupRef, {
+    status: "expired",
+    releasedSeats: unclaimed,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  if (unclaimed > 0) {
+    tx.set(
+      adminDb
+        .collection("ticketInventory")
+        .doc(ticketInventoryDocId(String(group.eventId), String(group.ticketId))),
+      { reserved: FieldValue.increment(-unclaimed), updatedAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+  }
+}
+
+/**
+ * Starts a group booking on an event with `groupsEnabled`, at the box office like every sale. The
+ * leader's seat is sold to their account and the other `size - 1` seats of the ticket are held in
+ * the inventory's `reserved` counter until members pay for them at the box office with the invite
+ * (the group id) or the claim deadline passes. Holds are capped per leader and per ticket type so
+ * no one can tie up an event's inventory.
+ */
+export async function createGroup(params: {
+  eventId: string;
+  ticketId: string;
+  size: number;
+  leaderUid: string;
+  soldBy: string;
+}): Promise<CreateGroupResult> {
+  const eventRef = adminDb.collection("events").doc(params.eventId);
+  const inventoryRef = adminDb
+    .collection("ticketInventory")
+    .doc(ticketInventoryDocId(params.eventId, params.ticketId));
+  const groupRef = adminDb.collection("eventGroups").doc();
+
+  const leaderGroupsQuery = adminDb
+    .collection("eventGroups")
+    .where("leaderUid", "==", params.leaderUid)
+    .where("status", "==", "open");
+
+  return adminDb.runTransaction(async (tx): Promise<CreateGroupResult> => {
+    const [eventSnap, inventorySnap, leaderGroupsSnap] = await Promise.all([
+      tx.get(eventRef),
+      tx.get(inventoryRef),
+      tx.get(leaderGroupsQuery),
+    ]);
+
+    if (!eventSnap.exists) return { ok: false, message: "Event not found.", status: 404 };
+    const event = (eventSnap.data() ?? {}) as Record<string, unknown>;
+    if (event.status !== "verified") {
+      return { ok: false, message: "Tickets for this event are not on sale.", status: 409 };
+    }
+    if (event.groupsEnabled !== true) {
+      return { ok: false, message: "This event does not take group bookings.", status: 409 };
+    }
+
+    const now = Date.now();
+    const deadline = claimDeadlineFor(event, now);
+    if (deadline <= now) {
+      return { ok: false, message: "Group bookings have closed for this event.", status: 409 };
+    }
+
+    const ticket = findStoredTicket(event, params.ticketId);
+    if (!ticket) return { ok: false, message: "Ticket not found.", status: 404 };
+
+    const remaining = availableSeats(ticket, inventorySnap.data());
+    if (params.size > remaining) {
+      return { ok: false, message: soldOutMessage(remaining), status: 409 };
+    }
+
+    const openGroups = leaderGroupsSnap.docs.filter((doc) => !isPastDeadline(doc.data(), now));
+    if (openGroups.length >= MAX_OPEN_GROUPS_PER_LEADER) {
+      return {
+        ok: false,
+        message: `This buyer already leads ${MAX_OPEN_GROUPS_PER_LEADER} open groups.`,
+        status: 409,
+      };
+    }
+
+    const capacity = Math.max(0, Math.floor(asNumber(ticket.quantity)));
+    const held = asNumber(inventorySnap.data()?.reserved);
+    const holdable = Math.floor(capacity * MAX_HELD_SHARE) - held;
+    if (params.size - 1 > holdable) {
+      return {
+        ok: false,
+        message:
+          holdable > 0
+            ? `Groups of up to ${holdable + 1} can be booked for this ticket right now.`
+            : "No more seats of this ticket can be held for groups right now.",
+        status: 409,
+      };
+    }
+
+    const unitPrice = ticketUnitPrice(ticket);
+    const ticketTitle = typeof ticket.title === "string" ? ticket.title : "";
+    const claimDeadline = new Date(deadline).toISOString();
+
+    const saleId = writeTicketSale(tx, {
+      eventId: params.eventId,
+      businessId: event.userId,
+      ticketId: params.ticketId,
+      ticketTitle,
+      buyerUid: params.leaderUid,
+      quantity: 1,
+      unitPrice,
+      amount: unitPrice,
+      soldBy: params.soldBy,
+      groupId: groupRef.id,
+      reservedDelta: params.size - 1,
+    });
+
+    tx.set(groupRef, {
+      eventId: params.eventId,
+      businessId: event.userId,
+      ticketId: params.ticketId,
+      ticketTitle,
+      leaderUid: params.leaderUid,
+      size: params.size,
+      claimedCount: 1,
+      memberUids: [params.leaderUid],
+      members: [
+        { uid: params.leaderUid, saleId, claimedAt: new Date(now).toISOString(), leader: true },
+      ],
+      status: "open",
+      claimDeadline,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { ok: true, groupId: groupRef.id, saleId, claimDeadline };
+  });
+}
+
+/**
+ * Sells one held seat of a group to `uid` at the box office, at the ticket's current price. A group
+ * whose deadline has passed is expired on the spot so its seats go back on sale.
+ */
+export async function claimGroupSeat(params: {
+  groupId: string;
+  uid: string;
+  soldBy: string;
+}): Promise<ClaimSeatResult> {
+  const groupRef = adminDb.collection("eventGroups").doc(params.groupId);
+
+  return adminDb.runTransaction(async (tx): Promise<ClaimSeatResult> => {
+    const groupSnap = await tx.get(groupRef);
+    const group = groupSnap.data();
+    const eventId = typeof group?.eventId === "string" ? group.eventId : "";
+    if (!groupSnap.exists || !group || !eventId) {
+      return { ok: false, message: "Group not found.", status: 404 };
+    }
+
+    const ticketId = String(group.ticketId ?? "");
+    const eventSnap = await tx.get(adminDb.collection("events").doc(eventId));
+    const event = (eventSnap.data() ?? null) as Record<string, unknown> | null;
+
+    const status = asGroupStatus(group.status);
+    if (status === "open" && isPastDeadline(group, Date.now())) {
+      expireGroup(tx, groupRef, group);
+      return { ok: false, message: "This group invite has expired.", status: 410 };
+    }
+    if (status === "expired") {
+      return { ok: false, message: "This group invite has expired.", status: 410 };
+    }
+
+    const members = storedMembers(group);
+    if (members.some((m) => m.uid === params.uid)) {
+      return { ok: false, message: "This buyer is already in this group.", status: 409 };
+    }
+    const size = asNumber(group.size);
+    const claimed = asNumber(group.claimedCount);
+    if (status === "complete" || claimed >= size) {
+      return { ok: false, message: "This group is full.", status: 409 };
+    }
+
+    if (!event || event.status !== "verified") {
+      return { ok: false, message: "Tickets for this event are not on sale.", status: 409 };
+    }
+    const ticket = findStoredTicket(event, ticketId);
+    if (!ticket) return { ok: false, message: "This ticket is no longer available.", status: 409 };
+
+    const unitPrice = ticketUnitPrice(ticket);
+    const saleId = writeTicketSale(tx, {
+      eventId,
+      businessId: event.userId,
+      ticketId,
+      ticketTitle: typeof group.ticketTitle === "string" ? group.ticketTitle : "",
+      buyerUid: params.uid,
+      quantity: 1,
+      unitPrice,
+      amount: unitPrice,
+      soldBy: params.soldBy,
+      groupId: groupRef.id,
+      reservedDelta: -1,
+    });
+
+    tx.update(groupRef, {
+      claimedCount: claimed + 1,
+      memberUids: FieldValue.arrayUnion(params.uid),
+      members: [...members, { uid: params.uid, saleId, claimedAt: new Date().toISOString() }],
+      ...(claimed + 1 >= size ? { status: "complete" } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { ok: true, eventId, saleId, claimed: claimed + 1, size };
+  });
+}
+
+/**
+ * Expires an event's open groups whose claim deadline has passed. Run before reading or selling
+ * inventory so stale holds never block sales for long. Returns the number of seats released.
+ */
+export async function releaseExpiredGroups(eventId: string) {
+  const now = Date.now();
+  const snap = await adminDb
+    .collection("eventGroups")
+    .where("eventId", "==", eventId)
+    .where("status", "==", "open")
+    .get();
+
+  let released = 0;
+  for (const doc of snap.docs) {
+    if (!isPastDeadline(doc.data(), now)) continue;
+    released += await adminDb.runTransaction(async (tx) => {
+      const fresh = await tx.get(doc.ref);
+      const group = fresh.data();
+      if (!group || asGroupStatus(group.status) !== "open" || !isPastDeadline(group, now)) return 0;
+      expireGroup(tx, doc.ref, group);
+      return Math.max(0, asNumber(group.size) - asNumber(group.claimedCount));
+    });
+  }
+  return released;
+}
+
+export function toEventGroupItem(
+  doc: FirebaseFirestore.DocumentSnapshot,
+  names: Map<string, string> = new Map()
+): EventGroupItem {
+  const data = doc.data() ?? {};
+  return {
+    id: doc.id,
+    ticketId: typeof data.ticketId === "string" ? data.ticketId : "",
+    ticketTitle: typeof data.ticketTitle === "string" ? data.ticketTitle : "",
+    size: asNumber(data.size),
+    claimed: asNumber(data.claimedCount),
+    status: asGroupStatus(data.status),
+    claimDeadline: typeof data.claimDeadline === "string" ? data.claimDeadline : null,
+    createdAt: timestampToIso(data.createdAt),
+    members: storedMembers(data).map((m) => ({
+      uid: m.uid,
+      name: names.get(m.uid) ?? "",
+      saleId: typeof m.saleId === "string" ? m.saleId : "",
+      claimedAt: typeof m.claimedAt === "string" ? m.claimedAt : null,
+      leader: m.leader === true,
+    })),
+  };
+}
+
+/** Newest-first group bookings of an event with their members, for the organiser. */
+export async function listEventGroups(eventId: string): Promise<EventGroupItem[]> {
+  const groupsQuery = adminDb.collection("eventGroups").where("eventId", "==", eventId);
+
+  let docs: FirebaseFirestore.QueryDocumentSnapshot[];
+  try {
+    docs = (await groupsQuery.orderBy("createdAt", "desc").limit(GROUPS_LIMIT).get()).docs;
+  } catch (err) {
+    console.error("listEventGroups ordered query failed; returned unordered fallback", err);
+    docs = (await groupsQuery.limit(GROUPS_LIMIT).get()).docs;
+  }
+
+  const uids = new Set<string>();
+  for (const doc of docs) for (const m of storedMembers(doc.data())) uids.add(m.uid);
+  const names = await lookupDisplayNames([...uids]);
+
+  return docs.map((doc) => toEventGroupItem(doc, names));
+}
@@ -0,0 +1,17 @@
+import { MB, type UploadRule } from "@/lib/storageUpload";
+
+/** Storage folders holding files that belong to a single event (deleted along with it). */
+export const EVENT_UPLOAD_FOLDERS = [
+  "eventBanners",
+  "eventVideos",
+  "eventOrganiserLogos",
+  "eventSponsorLogos",
+  "eventPartnerLogos",
+  "eventGallery",
+  "eventHostImages",
+] as const;
+
+export const EVENT_IMAGE_RULE: UploadRule = { kind: "image", maxBytes: 5 * MB, label: "Each image" };
+export const ORGANISER_LOGO_RULE: UploadRule = { kind: "image", maxBytes: 5 * MB, label: "Organiser logo" };
+export const EVENT_VIDEO_RULE: UploadRule = { kind: "video", maxBytes: 25 * MB, label: "Event video" };
+export const VEHICLE_PROOF_RULE: UploadRule = { kind: "image", maxBytes: 5 * MB, label: "Vehicle proof" };
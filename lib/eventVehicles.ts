@@ -0,0 +1,105 @@
+import { adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { withSignedUrl } from "@/lib/storageUpload";
+
+export const VEHICLE_TYPES = [
+  "two-wheeler",
+  "four-wheeler",
+  "two-wheeler electric",
+  "four-wheeler electric",
+] as const;
+
+export type VehicleType = (typeof VEHICLE_TYPES)[number];
+
+export type VehicleStatus = "pending" | "approved" | "rejected";
+
+/** A vehicle registered against one booking (`ticketSales` doc) of an event with `vehicleVerified`. */
+export type EventVehicleItem = {
+  /** Same as the booking's sale id: one vehicle per booking. */
+  id: string;
+  eventId: string;
+  saleId: string;
+  uid: string;
+  vehicleType: VehicleType | null;
+  brandId: string;
+  brandName: string;
+  registrationNumber: string;
+  proof: Record<string, unknown> | null;
+  status: VehicleStatus;
+  rejectionReason: string;
+  createdAt: string | null;
+  /** Sent back when reviewing, so a registration replaced in the meantime is not approved. */
+  updatedAt: string | null;
+  reviewedAt: string | null;
+};
+
+/** Storage folder for registration-proof photos; they are private and served through signed URLs. */
+export const VEHICLE_PROOF_FOLDER = "vehicleProofs";
+
+const REGISTRATION_NUMBER_PATTERN = /^[A-Z0-9]{4,12}$/;
+const VEHICLES_LIMIT = 100;
+
+export function asVehicleType(value: unknown): VehicleType | null {
+  return typeof value === "string" && (VEHICLE_TYPES as readonly string[]).includes(value)
+    ? (value as VehicleType)
+    : null;
+}
+
+export function asVehicleStatus(value: unknown): VehicleStatus {
+  return value === "approved" || value === "rejected" ? value : "pending";
+}
+
+/** Registration plate in canonical form ("ka 01-ab 1234" → "KA01AB1234"), or "" when invalid. */
+export function normalizeRegistrationNumber(value: unknown) {
+  if (typeof value !== "string") return "";
+  const compact = value.toUpperCase().replace(/[\s-]/g, "");
+  return REGISTRATION_NUMBER_PATTERN.test(compact) ? compact : "";
+}
+
+/** Why the booking's vehicle cannot be admitted, or null when it has been approved. */
+export function vehicleCheckInError(vehicle: FirebaseFirestore.DocumentData | undefined) {
+  if (!vehicle) return "No vehicle has been registered for this booking.";
+  const status = asVehicleStatus(vehicle.status);
+  if (status === "rejected") return "This booking's vehicle was rejected.";
+  if (status === "pending") return "This booking's vehicle has not been verified yet.";
+  return null;
+}
+
+export async function toEventVehicleItem(doc: FirebaseFirestore.DocumentSnapshot): Promise<EventVehicleItem> {
+  const data = doc.data() ?? {};
+  return {
+    id: doc.id,
+    eventId: typeof data.eventId === "string" ? data.eventId : "",
+    saleId: typeof data.saleId === "string" ? data.saleId : doc.id,
+    uid: typeof data.uid === "string" ? data.uid : "",
+    vehicleType: asVehicleType(data.vehicleType),
+    brandId: typeof data.brandId === "string" ? data.brandId : "",
+    brandName: typeof data.brandName === "string" ? data.brandName : "",
+    registrationNumber: typeof data.registrationNumber === "string" ? data.registrationNumber : "",
+    proof: await withSignedUrl(data.proof),
+    status: asVehicleStatus(data.status),
+    rejectionReason: typeof data.rejectionReason === "string" ? data.rejectionReason : "",
+    createdAt: timestampToIso(data.createdAt),
+    updatedAt: timestampToIso(data.updatedAt),
+    reviewedAt: timestampToIso(data.reviewedAt),
+  };
+}
+
+/** An event's registered vehicles, oldest first so the approval queue is worked in order. */
+export async function listEventVehicles(
+  eventId: string,
+  status?: VehicleStatus
+): Promise<EventVehicleItem[]> {
+  let vehiclesQuery = adminDb.collection("eventVehicles").where("eventId", "==", eventId);
+  if (status) vehiclesQuery = vehiclesQuery.where("status", "==", status);
+
+  let docs: FirebaseFirestore.QueryDocumentSnapshot[];
+  try {
+    docs = (await vehiclesQuery.orderBy("createdAt", "asc").limit(VEHICLES_LIMIT).get()).docs;
+  } catch (err) {
+    console.error("listEventVehicles ordered query failed; returned unordered fallback", err);
+    docs = (await vehiclesQuery.limit(VEHICLES_LIMIT).get()).docs;
+  }
+
+  return Promise.all(docs.map((doc) => toEventVehicleItem(doc)));
+}
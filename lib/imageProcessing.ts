@@ -0,0 +1,50 @@
+import sharp from "sharp";
+import type { ImageVariantName } from "@/lib/imageVariants";
+
+export type ImagePreset = "photo" | "logo";
+
+/** Longest edge in pixels for each variant. Images are never enlarged. */
+const IMAGE_PRESETS: Record<ImagePreset, Record<ImageVariantName, number>> = {
+  photo: { thumb: 320, medium: 960, full: 1920 },
+  logo: { thumb: 96, medium: 256, full: 512 },
+};
+
+export type RenderedVariant = {
+  name: ImageVariantName;
+  width: number;
+  height: number;
+  webp: Buffer;
+  avif: Buffer;
+};
+
+/**
+ * Decodes an uploaded image once and renders every variant of `preset` as WebP and AVIF.
+ * `rotate()` applies the EXIF orientation; sharp drops all other metadata (including GPS
+ * position) unless asked to keep it, so none of the outputs carry EXIF.
+ */
+export async function renderImageVariants(
+  input: Buffer,
+  preset: ImagePreset
+): Promise<RenderedVariant[]> {
+  const source = sharp(input, { animated: false }).rotate();
+  const rendered: RenderedVariant[] = [];
+
+  for (const [name, edge] of Object.entries(IMAGE_PRESETS[preset]) as [ImageVariantName, number][]) {
+    const resized = source
+      .clone()
+      .resize({ width: edge, height: edge, fit: "inside", withoutEnlargement: true });
+
+    const webp = await resized.clone().webp({ quality: 80 }).toBuffer({ resolveWithObject: true });
+    const avif = await resized.clone().avif({ quality: 55, effort: 4 }).toBuffer();
+
+    rendered.push({
+      name,
+      width: webp.info.width,
+      height: webp.info.height,
+      webp: webp.data,
+      avif,
+    });
+  }
+
+  return rendered;
+}
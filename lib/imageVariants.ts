@@ -0,0 +1,48 @@
+export type ImageVariantName = "thumb" | "medium" | "full";
+
+export type ImageVariant = {
+  webp: string;
+  avif: string;
+  width: number;
+  height: number;
+};
+
+/** Resized, metadata-free renditions of one uploaded image, keyed by size. */
+export type ImageVariants = Record<ImageVariantName, ImageVariant>;
+
+export const IMAGE_VARIANT_NAMES: readonly ImageVariantName[] = ["thumb", "medium", "full"];
+
+function asImageVariant(value: unknown): ImageVariant | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.webp !== "string" || !v.webp) return null;
+  return {
+    webp: v.webp,
+    avif: typeof v.avif === "string" ? v.avif : "",
+    width: typeof v.width === "number" ? v.width : 0,
+    height: typeof v.height === "number" ? v.height : 0,
+  };
+}
+
+export function asImageVariants(value: unknown): ImageVariants | null {
+  if (!value || typeof value !== "object") return null;
+  const obj = value as Record<string, unknown>;
+  const thumb = asImageVariant(obj.thumb);
+  const medium = asImageVariant(obj.medium);
+  const full = asImageVariant(obj.full);
+  return thumb && medium && full ? { thumb, medium, full } : null;
+}
+
+/**
+ * Variants stored alongside a list of image URLs (`galleryImages` next to `galleryUrls`,
+ * `images` next to `imageUrls`). Matched by the full-size URL so reordering the URL list
+ * never needs the variants list rewritten in step.
+ */
+export function findImageVariants(list: unknown, url: string): ImageVariants | null {
+  if (!Array.isArray(list) || !url) return null;
+  for (const item of list) {
+    const variants = asImageVariants(item);
+    if (variants?.full.webp === url) return variants;
+  }
+  return null;
+}
@@ -0,0 +1,184 @@
+export const REJECTION_REASON_CODES = [
+  "incomplete_information",
+  "invalid_document",
+  "details_mismatch",
+  "unclear_media",
+  "policy_violation",
+  "duplicate",
+  "other",
+] as const;
+
+export type RejectionReasonCode = (typeof REJECTION_REASON_CODES)[number];
+
+export const REJECTION_REASON_LABELS: Record<RejectionReasonCode, string> = {
+  incomplete_information: "Incomplete information",
+  invalid_document: "Invalid or unreadable document",
+  details_mismatch: "Details do not match",
+  unclear_media: "Unclear photo or video",
+  policy_violation: "Against our content policy",
+  duplicate: "Duplicate submission",
+  other: "Other",
+};
+
+export type RejectionFieldFlag = {
+  field: string;
+  message: string;
+};
+
+export type RejectionRecord = {
+  reasonCode: RejectionReasonCode;
+  note: string;
+  fieldFlags: RejectionFieldFlag[];
+  reviewedAt: string | null;
+  reviewedBy?: string;
+};
+
+export function asRejectionReasonCode(value: unknown): RejectionReasonCode | null {
+  return typeof value === "string" && (REJECTION_REASON_CODES as readonly string[]).includes(value)
+    ? (value as RejectionReasonCode)
+    : null;
+}
+
+export function timestampToIso(value: unknown): string | null {
+  if (!value) return null;
+
+  if (typeof value === "string") {
+    const ms = new Date(value).getTime();
+    return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+  }
+
+  if (typeof value === "object") {
+    const maybeToDate = (value as { toDate?: unknown }).toDate;
+    if (typeof maybeToDate === "function") {
+      try {
+        const d = (maybeToDate as () => Date).call(value);
+        return Number.isFinite(d.getTime()) ? d.toISOString() : null;
+      } catch {
+        return null;
+      }
+    }
+
+    const obj = value as Record<string, unknown>;
+    const seconds =
+      typeof obj.seconds === "number"
+        ? obj.seconds
+        : typeof obj._seconds === "number"
+          ? obj._seconds
+          : NaN;
+    if (Number.isFinite(seconds)) return new Date(seconds * 1000).toISOString();
+  }
+
+  return null;
+}
+
+export function normalizeFieldFlags(value: unknown): RejectionFieldFlag[] {
+  if (!Array.isArray(value)) return [];
+
+  const flags: RejectionFieldFlag[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== "object") continue;
+    const obj = raw as Record<string, unknown>;
+    const field = typeof obj.field === "string" ? obj.field.trim() : "";
+    const message = typeof obj.message === "string" ? obj.message.trim() : "";
+    if (!field) continue;
+    flags.push({ field, message });
+  }
+  return flags;
+}
+
+/**
+ * Normalizes the `rejection` map stored on `business`, `events` and `catalogue` documents into
+ * a JSON-safe shape. Returns null when there is no usable record.
+ */
+export function normalizeRejection(value: unknown): RejectionRecord | null {
+  if (!value || typeof value !== "object") return null;
+  const obj = value as Record<string, unknown>;
+
+  const reasonCode = asRejectionReasonCode(obj.reasonCode) ?? "other";
+  const note = typeof obj.note === "string" ? obj.note.trim() : "";
+  const fieldFlags = normalizeFieldFlags(obj.fieldFlags);
+  const reviewedBy = typeof obj.reviewedBy === "string" ? obj.reviewedBy.trim() : "";
+
+  if (!obj.reasonCode && !note && fieldFlags.length === 0) return null;
+
+  return {
+    reasonCode,
+    note,
+    fieldFlags,
+    reviewedAt: timestampToIso(obj.reviewedAt),
+    ...(reviewedBy ? { reviewedBy } : {}),
+  };
+}
+
+export const BUSINESS_FIELD_LABELS: Record<string, string> = {
+  businessName: "Business name",
+  businessDescription: "Business description",
+  businessCategory: "Business category",
+  businessLogo: "Business logo",
+  businessType: "Business type",
+  brands: "Brands",
+  email: "Email",
+  website: "Website",
+  gstNumber: "GST number",
+  gstDocument: "GST document",
+  name: "Your name",
+  contactNo: "Contact number",
+  whatsappNo: "WhatsApp number",
+  businessLocations: "Business locations",
+  shopImage: "Shop image",
+  selfieVideo: "Selfie video",
+  locationVideo: "Shop proof video",
+};
+
+export const CATALOGUE_FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  offerDetails: "Offer details",
+  images: "Images",
+};
+
+export const BRAND_SUGGESTION_FIELD_LABELS: Record<string, string> = {
+  name: "Brand name",
+  logo: "Brand logo",
+};
+
+export type ReviewDecision =
+  | { action: "approve" }
+  | {
+      action: "reject";
+      reasonCode: RejectionReasonCode;
+      note: string;
+      fieldFlags: RejectionFieldFlag[];
+    };
+
+const MAX_REVIEW_NOTE_LENGTH = 1000;
+
+/**
+ * Parses an approve/reject body sent by the admin review console. A rejection needs a reason
+ * code; "other" additionally needs a note so the business knows what to change.
+ */
+export function parseReviewDecision(
+  value: unknown
+): { ok: true; decision: ReviewDecision } | { ok: false; message: string } {
+  if (!value || typeof value !== "object") return { ok: false, message: "Invalid request body." };
+  const obj = value as Record<string, unknown>;
+
+  if (obj.action === "approve") return { ok: true, decision: { action: "approve" } };
+  if (obj.action !== "reject") return { ok: false, message: "Invalid review action." };
+
+  const reasonCode = asRejectionReasonCode(obj.reasonCode);
+  if (!reasonCode) return { ok: false, message: "Please choose a rejection reason." };
+
+  const note = typeof obj.note === "string" ? obj.note.trim() : "";
+  if (note.length > MAX_REVIEW_NOTE_LENGTH) {
+    return { ok: false, message: `Note must be ${MAX_REVIEW_NOTE_LENGTH} characters or less.` };
+  }
+  if (reasonCode === "other" && !note) {
+    return { ok: false, message: "Please add a note explaining the rejection." };
+  }
+
+  return {
+    ok: true,
+    decision: { action: "reject", reasonCode, note, fieldFlags: normalizeFieldFlags(obj.fieldFlags) },
+  };
+}
@@ -1,39 +1,91 @@
 import { NextResponse } from "next/server";
 import { adminAuth } from "@/lib/firebaseAdmin";
 
-type AuthOk = { ok: true; uid: string };
+/**
+ * - `owner`: signs up and runs their own business (the default for every account).
+ * - `staff`: works on someone else's business; set via the `role: "staff"` custom claim.
+ * - `admin`: reviewer; set via the `admin: true` (or `role: "admin"`) custom claim.
+ */
+export type AuthRole = "owner" | "staff" | "admin";
+
+export type AuthUser = {
+  uid: string;
+  roles: AuthRole[];
+  claims: Record<string, unknown>;
+};
+
+type AuthOk = { ok: true } & AuthUser;
 
 type AuthError = { ok: false; response: NextResponse };
 
 type AuthResult = AuthOk | AuthError;
 
+type GuardResult = { ok: true; role: AuthRole } | AuthError;
+
 function isDevBypassEnabled() {
   return process.env.NODE_ENV !== "production" && process.env.DEV_BYPASS_AUTH === "1";
 }
 
-export async function getUid(request: Request): Promise<AuthResult> {
+function readBearerToken(request: Request) {
   const authHeader = request.headers.get("authorization") ?? "";
-  const token = authHeader.startsWith("Bearer ") ? authHeader.slice("Bearer ".length).trim() : "";
+  return authHeader.startsWith("Bearer ") ? authHeader.slice("Bearer ".length).trim() : "";
+}
+
+function authError(message: string, status: number): AuthError {
+  return { ok: false, response: NextResponse.json({ ok: false, message }, { status }) };
+}
+
+function rolesFromClaims(claims: Record<string, unknown>): AuthRole[] {
+  const roles: AuthRole[] = [claims.role === "staff" ? "staff" : "owner"];
+  if (claims.admin === true || claims.role === "admin") roles.push("admin");
+  return roles;
+}
+
+export async function getUid(request: Request): Promise<AuthResult> {
+  const token = readBearerToken(request);
 
   if (!token) {
-    return {
-      ok: false,
-      response: NextResponse.json({ ok: false, message: "Missing authentication token." }, { status: 401 }),
-    };
+    return authError("Missing authentication token.", 401);
   }
 
   if (isDevBypassEnabled() && token === "dev") {
     const uid = (process.env.DEV_BYPASS_UID || "dev_uid").trim() || "dev_uid";
-    return { ok: true, uid };
+    const claims: Record<string, unknown> =
+      process.env.DEV_BYPASS_ADMIN === "1" ? { admin: true } : {};
+    return { ok: true, uid, claims, roles: rolesFromClaims(claims) };
   }
 
   try {
     const decoded = await adminAuth.verifyIdToken(token);
-    return { ok: true, uid: decoded.uid };
+    const claims = decoded as unknown as Record<string, unknown>;
+    return { ok: true, uid: decoded.uid, claims, roles: rolesFromClaims(claims) };
   } catch {
-    return {
-      ok: false,
-      response: NextResponse.json({ ok: false, message: "Invalid authentication token." }, { status: 401 }),
-    };
+    return authError("Invalid authentication token.", 401);
+  }
+}
+
+export function hasRole(auth: AuthUser, role: AuthRole) {
+  return auth.roles.includes(role);
+}
+
+export function requireRole(auth: AuthUser, roles: AuthRole | AuthRole[]): GuardResult {
+  const allowed = Array.isArray(roles) ? roles : [roles];
+  const role = allowed.find((r) => hasRole(auth, r));
+  if (!role) return authError("Forbidden.", 403);
+  return { ok: true, role };
+}
+
+/**
+ * Reviewers are flagged with custom claims set via `adminAuth.setCustomUserClaims`. Claims are
+ * baked into the ID token, so a user must refresh their token after the claim is granted.
+ */
+export async function requireAdmin(request: Request): Promise<AuthResult> {
+  const auth = await getUid(request);
+  if (!auth.ok) return auth;
+
+  if (!hasRole(auth, "admin")) {
+    return authError("Admin access required.", 403);
   }
+
+  return auth;
 }
@@ -0,0 +1,216 @@
+import { activeBusinessHeaders } from "@/lib/activeBusiness";
+
+export type DirectUploadPurpose = "eventVideo" | "kycSelfie" | "kycLocation";
+
+type UploadOptions = {
+  token: string;
+  purpose: DirectUploadPurpose;
+  locationId?: string;
+  /** Called with the fraction (0–1) of the file stored so far. */
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+};
+
+type SavedSession = { uploadId: string; uploadUrl: string };
+
+/** Cloud Storage requires every chunk but the last to be a multiple of 256 KiB. */
+const CHUNK_BYTES = 32 * 256 * 1024;
+const MAX_RETRIES = 5;
+const SESSION_KEY_PREFIX = "gem_upload:";
+
+export class UploadError extends Error {}
+
+function sessionKey(file: File, options: UploadOptions) {
+  return `${SESSION_KEY_PREFIX}${options.purpose}:${options.locationId ?? ""}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readSavedSession(key: string): SavedSession | null {
+  try {
+    const raw = sessionStorage.getItem(key);
+    const parsed = raw ? (JSON.parse(raw) as Partial<SavedSession>) : null;
+    return parsed?.uploadId && parsed.uploadUrl
+      ? { uploadId: parsed.uploadId, uploadUrl: parsed.uploadUrl }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSavedSession(key: string, session: SavedSession | null) {
+  try {
+    if (session) sessionStorage.setItem(key, JSON.stringify(session));
+    else sessionStorage.removeItem(key);
+  } catch {
+    // ignore
+  }
+}
+
+async function startSession(file: File, options: UploadOptions): Promise<SavedSession> {
+  const res = await fetch("/api/uploads", {
+    method: "POST",
+    headers: {
+      ...activeBusinessHeaders(),
+      Authorization: `Bearer ${options.token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      purpose: options.purpose,
+      locationId: options.locationId,
+      fileName: file.name,
+      contentType: file.type || "application/octet-stream",
+      size: file.size,
+    }),
+    signal: options.signal,
+  });
+  const data = (await res.json().catch(() => null)) as
+    | { ok?: boolean; uploadId?: string; uploadUrl?: string; message?: string }
+    | null;
+
+  if (!res.ok || !data?.ok || !data.uploadId || !data.uploadUrl) {
+    throw new UploadError(data?.message || "Failed to start upload.");
+  }
+  return { uploadId: data.uploadId, uploadUrl: data.uploadUrl };
+}
+
+/**
+ * Result of one PUT to the session URL: `done`, the next offset to send, or a dead session. The
+ * offset is null when the response carries no readable `Range` header: either nothing is stored
+ * yet or the bucket's CORS config does not expose the header, and the two cannot be told apart.
+ */
+type PutResult =
+  | { status: "done" }
+  | { status: "partial"; offset: number | null }
+  | { status: "expired" };
+
+const UNKNOWN_OFFSET_MESSAGE =
+  "Could not confirm how much of the file was uploaded. Please try again.";
+
+function put(
+  uploadUrl: string,
+  body: Blob | null,
+  contentRange: string,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<PutResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", uploadUrl);
+    xhr.setRequestHeader("Content-Range", contentRange);
+    xhr.upload.onprogress = (e) => onChunkProgress(e.loaded);
+    xhr.onload = () => {
+      if (xhr.status === 200 || xhr.status === 201) return resolve({ status: "done" });
+      if (xhr.status === 308) {
+        const range = xhr.getResponseHeader("Range");
+        const match = range ? /bytes=0-(\d+)/.exec(range) : null;
+        return resolve({ status: "partial", offset: match ? Number(match[1]) + 1 : null });
+      }
+      if (xhr.status === 404 || xhr.status === 410) return resolve({ status: "expired" });
+      reject(new Error(`Upload failed with status ${xhr.status}.`));
+    };
+    xhr.onerror = () => reject(new Error("Network error."));
+    xhr.onabort = () => reject(new UploadError("Upload cancelled."));
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(body);
+  });
+}
+
+/** Asks the session how much of the file it has stored. */
+function queryStatus(uploadUrl: string, total: number, signal?: AbortSignal) {
+  return put(uploadUrl, null, `bytes */${total}`, () => {}, signal);
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Uploads `file` straight to Cloud Storage in chunks and returns the upload id to hand to the
+ * API that finalises it. A dropped connection resumes from the last stored byte, and the session
+ * is remembered for the tab (until `clearResumableUploads`) so retrying a submit that never
+ * reached the API does not upload the file again. When the stored offset cannot be read the
+ * upload fails rather than guess, since resending from the wrong byte corrupts the file.
+ */
+export async function uploadResumable(file: File, options: UploadOptions): Promise<string> {
+  const key = sessionKey(file, options);
+  const total = file.size;
+  const report = (loaded: number) => options.onProgress?.(total ? Math.min(1, loaded / total) : 1);
+
+  // A remembered session may be finished or part-way through; ask it how much it has. If it is
+  // gone or its offset is unreadable, start over with a fresh session, which holds nothing yet.
+  let offset = 0;
+  let session = readSavedSession(key);
+  if (session) {
+    const probe = await queryStatus(session.uploadUrl, total, options.signal).catch(() => null);
+    if (probe?.status === "done") {
+      report(total);
+      return session.uploadId;
+    }
+    if (probe?.status === "partial" && probe.offset !== null) offset = probe.offset;
+    else session = null;
+  }
+  if (!session) session = await startSession(file, options);
+  writeSavedSession(key, session);
+  report(offset);
+
+  let retries = 0;
+  while (offset < total) {
+    const end = Math.min(offset + CHUNK_BYTES, total);
+    const chunkStart = offset;
+    try {
+      const result = await put(
+        session.uploadUrl,
+        file.slice(chunkStart, end),
+        `bytes ${chunkStart}-${end - 1}/${total}`,
+        (loaded) => report(chunkStart + loaded),
+        options.signal
+      );
+      if (result.status === "done") break;
+      if (result.status === "expired") {
+        writeSavedSession(key, null);
+        throw new UploadError("Upload session expired. Please try again.");
+      }
+
+      let stored = result.offset;
+      if (stored === null) {
+        const status = await queryStatus(session.uploadUrl, total, options.signal);
+        if (status.status === "done") break;
+        if (status.status !== "partial" || status.offset === null) {
+          throw new UploadError(UNKNOWN_OFFSET_MESSAGE);
+        }
+        stored = status.offset;
+      }
+      // Storage may keep less than was sent; the next chunk then starts where it stopped.
+      if (stored <= chunkStart) throw new Error("Chunk was not stored.");
+      offset = stored;
+      retries = 0;
+    } catch (err) {
+      if (err instanceof UploadError || retries >= MAX_RETRIES) throw err;
+      retries++;
+      await wait(1000 * 2 ** (retries - 1));
+      const resumed = await queryStatus(session.uploadUrl, total, options.signal).catch(() => null);
+      if (resumed?.status === "done") break;
+      if (resumed?.status === "partial") {
+        if (resumed.offset === null) throw new UploadError(UNKNOWN_OFFSET_MESSAGE);
+        offset = resumed.offset;
+      }
+    }
+  }
+
+  report(total);
+  return session.uploadId;
+}
+
+/**
+ * Forgets remembered upload sessions once the API has accepted (or rejected) their upload ids;
+ * a finalised session cannot be used again.
+ */
+export function clearResumableUploads() {
+  try {
+    for (let i = sessionStorage.length - 1; i >= 0; i--) {
+      const key = sessionStorage.key(i);
+      if (key?.startsWith(SESSION_KEY_PREFIX)) sessionStorage.removeItem(key);
+    }
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,119 @@
+export type ScratchRewardKind = "coupon" | "percent_off" | "freebie";
+
+/** What a scratch-card campaign gives away and how often. */
+export type ScratchReward = {
+  kind: ScratchRewardKind;
+  /** Shown on the card, e.g. "20% off any pizza". */
+  title: string;
+  /** The shop's own coupon code, for `coupon` rewards. */
+  couponCode: string;
+  /** For `percent_off` rewards. */
+  percentOff: number;
+  /** Terms or, for `freebie` rewards, what the customer gets. */
+  details: string;
+  /** Chance of winning a single scratch, 0.1–100 (%). */
+  winPercent: number;
+  /** Total rewards that can be won over the campaign. */
+  quantity: number;
+  /** Days a won reward can be redeemed in the shop. */
+  validDays: number;
+};
+
+export const SCRATCH_REWARD_KINDS: ScratchRewardKind[] = ["coupon", "percent_off", "freebie"];
+
+export const SCRATCH_REWARD_KIND_LABELS: Record<ScratchRewardKind, string> = {
+  coupon: "Coupon",
+  percent_off: "Percentage off",
+  freebie: "Freebie",
+};
+
+export const MAX_REWARD_TITLE_LENGTH = 80;
+export const MAX_REWARD_DETAILS_LENGTH = 300;
+export const MIN_WIN_PERCENT = 0.1;
+export const MAX_REWARD_QUANTITY = 100_000;
+export const MAX_REWARD_VALID_DAYS = 90;
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9-]{3,24}$/;
+
+function asNumber(value: unknown) {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+export function asScratchRewardKind(value: unknown): ScratchRewardKind | null {
+  return value === "coupon" || value === "percent_off" || value === "freebie" ? value : null;
+}
+
+/** Validates a reward definition sent when creating a scratch campaign (or read back from one). */
+export function parseScratchReward(
+  raw: unknown
+): { ok: true; reward: ScratchReward } | { ok: false; message: string } {
+  if (!raw || typeof raw !== "object") {
+    return { ok: false, message: "Scratch ads need a reward." };
+  }
+  const obj = raw as Record<string, unknown>;
+
+  const kind = asScratchRewardKind(obj.kind);
+  if (!kind) return { ok: false, message: "Invalid reward type." };
+
+  const title = typeof obj.title === "string" ? obj.title.trim() : "";
+  if (!title || title.length > MAX_REWARD_TITLE_LENGTH) {
+    return {
+      ok: false,
+      message: `Reward title is required (max ${MAX_REWARD_TITLE_LENGTH} characters).`,
+    };
+  }
+
+  const details = typeof obj.details === "string" ? obj.details.trim() : "";
+  if (details.length > MAX_REWARD_DETAILS_LENGTH) {
+    return {
+      ok: false,
+      message: `Reward details can be at most ${MAX_REWARD_DETAILS_LENGTH} characters.`,
+    };
+  }
+
+  const couponCode = typeof obj.couponCode === "string" ? obj.couponCode.trim().toUpperCase() : "";
+  if (kind === "coupon" && !COUPON_CODE_PATTERN.test(couponCode)) {
+    return { ok: false, message: "Coupon code must be 3-24 letters, digits or dashes." };
+  }
+
+  const percentOff = asNumber(obj.percentOff);
+  if (kind === "percent_off" && !(Number.isInteger(percentOff) && percentOff >= 1 && percentOff <= 100)) {
+    return { ok: false, message: "Percentage off must be a whole number from 1 to 100." };
+  }
+  if (kind === "freebie" && !details) {
+    return { ok: false, message: "Describe the freebie customers get." };
+  }
+
+  const winPercent = asNumber(obj.winPercent);
+  if (!(winPercent >= MIN_WIN_PERCENT && winPercent <= 100)) {
+    return { ok: false, message: `Winning odds must be between ${MIN_WIN_PERCENT}% and 100%.` };
+  }
+
+  const quantity = asNumber(obj.quantity);
+  if (!(Number.isInteger(quantity) && quantity >= 1 && quantity <= MAX_REWARD_QUANTITY)) {
+    return { ok: false, message: `Reward quantity must be between 1 and ${MAX_REWARD_QUANTITY}.` };
+  }
+
+  const validDays = asNumber(obj.validDays);
+  if (!(Number.isInteger(validDays) && validDays >= 1 && validDays <= MAX_REWARD_VALID_DAYS)) {
+    return {
+      ok: false,
+      message: `Rewards must stay valid for 1 to ${MAX_REWARD_VALID_DAYS} days.`,
+    };
+  }
+
+  return {
+    ok: true,
+    reward: {
+      kind,
+      title,
+      couponCode: kind === "coupon" ? couponCode : "",
+      percentOff: kind === "percent_off" ? percentOff : 0,
+      details,
+      winPercent: Math.round(winPercent * 10) / 10,
+      quantity,
+      validDays,
+    },
+  };
+}
@@ -0,0 +1,53 @@
+const MIN_PREFIX = 2;
+const MAX_PREFIX = 15;
+const MAX_TOKENS = 200;
+
+/** Lower-cased words of `value`, split on anything that is not a letter or digit. */
+export function searchWords(value: string) {
+  return value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Firestore has no full-text search, so list endpoints match `q` with `array-contains` against
+ * the prefixes of every word in the indexed fields (HTML markup is ignored). Earlier values win
+ * once the token cap is reached, so pass the most important field first. Stored as
+ * `searchTokens` on the document.
+ */
+export function buildSearchTokens(values: Array<string | string[] | undefined>) {
+  const tokens = new Set<string>();
+
+  for (const value of values.flat()) {
+    if (typeof value !== "string") continue;
+    const text = value.replace(/<[^>]*>/g, " ").replace(/&[a-z0-9#]+;/gi, " ");
+    for (const word of searchWords(text)) {
+      const max = Math.min(word.length, MAX_PREFIX);
+      for (let len = Math.min(MIN_PREFIX, word.length); len <= max; len += 1) {
+        tokens.add(word.slice(0, len));
+      }
+      if (tokens.size >= MAX_TOKENS) break;
+    }
+  }
+
+  return Array.from(tokens).slice(0, MAX_TOKENS);
+}
+
+/**
+ * The token used for the Firestore `array-contains` filter plus the remaining query words, which
+ * callers check in memory against the fetched page.
+ */
+export function parseSearchQuery(q: string | null) {
+  const words = searchWords(q ?? "").map((w) => w.slice(0, MAX_PREFIX));
+  if (!words.length) return null;
+
+  const sorted = [...words].sort((a, b) => b.length - a.length);
+  return { token: sorted[0], rest: sorted.slice(1) };
+}
+
+export function matchesSearchTokens(tokens: unknown, words: string[]) {
+  if (!words.length) return true;
+  if (!Array.isArray(tokens)) return false;
+  return words.every((w) => tokens.includes(w));
+}
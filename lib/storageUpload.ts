@@ -0,0 +1,339 @@
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { adminStorageBucket } from "@/lib/firebaseAdmin";
+import { renderImageVariants, type ImagePreset } from "@/lib/imageProcessing";
+import type { ImageVariants } from "@/lib/imageVariants";
+
+export type UploadKind = "image" | "video" | "document";
+
+export type UploadVisibility = "public" | "private";
+
+export type UploadRule = {
+  kind: UploadKind;
+  maxBytes: number;
+  /** Used in error messages, e.g. "Shop image" → "Shop image must be under 5MB." */
+  label: string;
+};
+
+export type StoredObject = {
+  objectPath: string;
+  /** Public URL, or "" for private objects (read those through a signed URL). */
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+};
+
+/** Processed image: `url` points at the full-size WebP variant. */
+export type StoredImage = StoredObject & { variants: ImageVariants };
+
+/** Reference to a private object as stored in Firestore; the API adds a signed `url` when serving it. */
+export type PrivateMedia = {
+  objectPath: string;
+  name: string;
+  type: string;
+  size: number;
+};
+
+export const MB = 1024 * 1024;
+
+const STREAM_THRESHOLD_BYTES = 8 * MB;
+const SIGNED_URL_TTL_MS = 15 * 60 * 1000;
+const SNIFF_BYTES = 32;
+
+const KIND_ARTICLE: Record<UploadKind, string> = {
+  image: "an image",
+  video: "a video",
+  document: "a PDF or an image",
+};
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/**
+ * Content type from the file's leading bytes. The browser-supplied `File.type` is only a hint
+ * taken from the file name, so uploads are stored (and validated) with the sniffed type.
+ */
+export async function sniffContentType(file: Blob): Promise<string | null> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (bytes.length < 4) return null;
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(bytes, 1, 4) === "PNG" && bytes[0] === 0x89) return "image/png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "AVI ") return "video/x-msvideo";
+  if (ascii(bytes, 0, 5) === "%PDF-") return "application/pdf";
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return "video/webm";
+  }
+
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (brand === "heic" || brand === "heix" || brand === "mif1" || brand === "msf1") return "image/heic";
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand.startsWith("3g")) return "video/3gpp";
+    return "video/mp4";
+  }
+
+  return null;
+}
+
+/** Image formats the processing pipeline can decode (HEIC is not available in the sharp build). */
+const DECODABLE_IMAGE_TYPES = new Set(["image/jpeg", "image/png", "image/gif", "image/webp", "image/avif"]);
+
+function matchesKind(kind: UploadKind, contentType: string) {
+  if (kind === "image") return DECODABLE_IMAGE_TYPES.has(contentType);
+  if (kind === "video") return contentType.startsWith("video/");
+  return contentType === "application/pdf" || contentType.startsWith("image/");
+}
+
+const KIND_ARTICLE_HINT: Partial<Record<UploadKind, string>> = {
+  image: " (JPEG, PNG, WebP, GIF or AVIF)",
+};
+
+/** Returns an error message for the client, or null when the file can be uploaded. */
+export async function checkUpload(file: File, rule: UploadRule): Promise<string | null> {
+  if (file.size <= 0) return `${rule.label} is empty.`;
+  if (file.size > rule.maxBytes) {
+    return `${rule.label} must be under ${Math.round(rule.maxBytes / MB)}MB.`;
+  }
+
+  const contentType = await sniffContentType(file);
+  if (!contentType || !matchesKind(rule.kind, contentType)) {
+    return `${rule.label} must be ${KIND_ARTICLE[rule.kind]}${KIND_ARTICLE_HINT[rule.kind] ?? ""}.`;
+  }
+
+  return null;
+}
+
+/** Checks several files against one rule and returns the first error. */
+export async function checkUploads(files: File[], rule: UploadRule): Promise<string | null> {
+  for (const file of files) {
+    const error = await checkUpload(file, rule);
+    if (error) return error;
+  }
+  return null;
+}
+
+function safeFileName(name: string, fallback: string) {
+  return (name || fallback).replace(/[^a-zA-Z0-9._-]/g, "_").slice(0, 120);
+}
+
+/**
+ * Tracks the objects written while handling one request so they can be removed again if the
+ * request fails part-way through (validation error after some uploads, Firestore write error…).
+ */
+export function createUploadBatch(ownerId: string) {
+  const written: string[] = [];
+
+  async function saveBuffer(objectPath: string, data: Buffer, contentType: string) {
+    const objectRef = adminStorageBucket.file(objectPath);
+    written.push(objectPath);
+    await objectRef.save(data, {
+      resumable: false,
+      metadata: { contentType, cacheControl: "public, max-age=31536000" },
+    });
+    await objectRef.makePublic();
+    return objectRef.publicUrl();
+  }
+
+  /**
+   * Re-encodes an image into thumb/medium/full WebP and AVIF variants with EXIF stripped. The
+   * original upload is never stored.
+   */
+  async function uploadImage(
+    file: File,
+    options: { folder: string; preset?: ImagePreset }
+  ): Promise<StoredImage> {
+    const rendered = await renderImageVariants(
+      Buffer.from(await file.arrayBuffer()),
+      options.preset ?? "photo"
+    );
+    const baseName = safeFileName(file.name, "image").replace(/\.[^.]*$/, "") || "image";
+    const prefix = `${options.folder}/${ownerId}/${Date.now()}_${baseName}`;
+
+    const variants = {} as ImageVariants;
+    let fullSize = 0;
+    for (const variant of rendered) {
+      variants[variant.name] = {
+        webp: await saveBuffer(`${prefix}/${variant.name}.webp`, variant.webp, "image/webp"),
+        avif: await saveBuffer(`${prefix}/${variant.name}.avif`, variant.avif, "image/avif"),
+        width: variant.width,
+        height: variant.height,
+      };
+      if (variant.name === "full") fullSize = variant.webp.length;
+    }
+
+    return {
+      objectPath: `${prefix}/full.webp`,
+      url: variants.full.webp,
+      name: file.name,
+      contentType: "image/webp",
+      size: fullSize,
+      variants,
+    };
+  }
+
+  async function upload(
+    file: File,
+    options: { folder: string; visibility?: UploadVisibility }
+  ): Promise<StoredObject> {
+    const visibility = options.visibility ?? "public";
+    const contentType = (await sniffContentType(file)) ?? (file.type || "application/octet-stream");
+    const objectPath = `${options.folder}/${ownerId}/${Date.now()}_${safeFileName(file.name, "file")}`;
+
+    const objectRef = adminStorageBucket.file(objectPath);
+    const metadata = {
+      contentType,
+      cacheControl: visibility === "public" ? "public, max-age=31536000" : "private, max-age=0",
+    };
+
+    written.push(objectPath);
+
+    if (file.size > STREAM_THRESHOLD_BYTES) {
+      const writeStream = objectRef.createWriteStream({ resumable: true, metadata });
+      await pipeline(
+        Readable.fromWeb(file.stream() as unknown as Parameters<typeof Readable.fromWeb>[0]),
+        writeStream
+      );
+    } else {
+      await objectRef.save(Buffer.from(await file.arrayBuffer()), { resumable: false, metadata });
+    }
+
+    if (visibility === "public") await objectRef.makePublic();
+
+    return {
+      objectPath,
+      url: visibility === "public" ? objectRef.publicUrl() : "",
+      name: file.name,
+      contentType,
+      size: file.size,
+    };
+  }
+
+  /** Adopts an object written outside the batch (a finished direct upload) for `discard`. */
+  function track(objectPath: string) {
+    written.push(objectPath);
+  }
+
+  async function discard() {
+    const paths = written.splice(0, written.length);
+    await deleteStoredObjects(paths);
+  }
+
+  return { upload, uploadImage, track, discard };
+}
+
+export type UploadBatch = ReturnType<typeof createUploadBatch>;
+
+export function toPrivateMedia(stored: StoredObject): PrivateMedia {
+  return {
+    objectPath: stored.objectPath,
+    name: stored.name,
+    type: stored.contentType,
+    size: stored.size,
+  };
+}
+
+/** Short-lived read URL for a private object, or "" when signing fails. */
+export async function signedReadUrl(objectPath: string, ttlMs = SIGNED_URL_TTL_MS) {
+  if (!objectPath) return "";
+  try {
+    const [url] = await adminStorageBucket.file(objectPath).getSignedUrl({
+      version: "v4",
+      action: "read",
+      expires: Date.now() + ttlMs,
+    });
+    return url;
+  } catch (err) {
+    console.error("signedReadUrl failed", objectPath, err);
+    return "";
+  }
+}
+
+/**
+ * Media reference ready to send to an authorised client with a freshly signed `url`. Older
+ * references stored with a public `url` into our bucket are signed too, since
+ * `scripts/migrate-private-media.ts` makes those objects private; other URLs are returned unchanged.
+ */
+export async function withSignedUrl(value: unknown): Promise<Record<string, unknown> | null> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const media = value as Record<string, unknown>;
+  const { objectPath, ...rest } = media;
+  const path =
+    typeof objectPath === "string" && objectPath
+      ? objectPath
+      : typeof media.url === "string"
+        ? objectPathFromUrl(media.url)
+        : "";
+  if (!path) return media;
+  return { ...rest, url: await signedReadUrl(path) };
+}
+
+/** Object path for a public URL (or `gs://` URI) pointing into our bucket, otherwise "". */
+export function objectPathFromUrl(value: string) {
+  if (value.startsWith(`gs://${adminStorageBucket.name}/`)) {
+    return value.slice(`gs://${adminStorageBucket.name}/`.length);
+  }
+
+  try {
+    const parsed = new URL(value);
+    if (parsed.hostname !== "storage.googleapis.com") return "";
+    const prefix = `/${adminStorageBucket.name}/`;
+    if (!parsed.pathname.startsWith(prefix)) return "";
+    return decodeURIComponent(parsed.pathname.slice(prefix.length));
+  } catch {
+    return "";
+  }
+}
+
+/** Every object of our bucket referenced anywhere in a Firestore document. */
+export function storageObjectPaths(value: unknown, found = new Set<string>()): Set<string> {
+  if (typeof value === "string") {
+    const objectPath = objectPathFromUrl(value);
+    if (objectPath) found.add(objectPath);
+  } else if (Array.isArray(value)) {
+    for (const item of value) storageObjectPaths(item, found);
+  } else if (value && typeof value === "object" && value.constructor === Object) {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === "objectPath" && typeof item === "string" && item) found.add(item);
+      else storageObjectPaths(item, found);
+    }
+  }
+  return found;
+}
+
+/**
+ * Objects under `folders` referenced by a document. Records can point at files they do not own
+ * (a brand logo, a business logo…), so cleanup is always limited to the record's own folders.
+ */
+export function ownedObjectPaths(value: unknown, folders: readonly string[]) {
+  return [...storageObjectPaths(value)].filter((objectPath) =>
+    folders.some((folder) => objectPath.startsWith(`${folder}/`))
+  );
+}
+
+/** Owned objects referenced by `before` that `after` no longer references. */
+export function orphanedObjectPaths(before: unknown, after: unknown, folders: readonly string[]) {
+  const kept = storageObjectPaths(after);
+  return ownedObjectPaths(before, folders).filter((objectPath) => !kept.has(objectPath));
+}
+
+/**
+ * Best-effort delete of object paths or bucket URLs. Failures are logged, never thrown, because
+ * the record that referenced them has already been written or removed.
+ */
+export async function deleteStoredObjects(pathsOrUrls: Iterable<string>) {
+  for (const value of pathsOrUrls) {
+    const objectPath = value.includes("://") ? objectPathFromUrl(value) : value;
+    if (!objectPath) continue;
+    try {
+      await adminStorageBucket.file(objectPath).delete({ ignoreNotFound: true });
+    } catch (err) {
+      console.error("deleteStoredObjects failed", objectPath, err);
+    }
+  }
+}
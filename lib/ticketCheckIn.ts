@@ -0,0 +1,182 @@
+import { vehicleCheckInError } from "@/lib/eventVehicles";
+import { FieldValue, adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { verifyTicketQr } from "@/lib/ticketQr";
+
+export type CheckInStats = {
+  checkedIn: number;
+  bookingsCheckedIn: number;
+  sold: number;
+  recent: CheckInItem[];
+};
+
+export type CheckInItem = {
+  saleId: string;
+  ticketTitle: string;
+  quantity: number;
+  checkedInAt: string | null;
+};
+
+/** The approved vehicle gate staff should match against the plate, for `vehicleVerified` events. */
+export type CheckInVehicle = {
+  registrationNumber: string;
+  brandName: string;
+  vehicleType: string;
+};
+
+export type CheckInResult =
+  | { ok: true; saleId: string; ticketTitle: string; quantity: number; vehicle: CheckInVehicle | null }
+  | { ok: false; message: string; status: number; checkedInAt?: string | null };
+
+/** Doors open this long before the event's start time. */
+const CHECK_IN_OPENS_BEFORE_MS = 3 * 60 * 60 * 1000;
+const RECENT_LIMIT = 20;
+
+function eventTime(value: unknown) {
+  if (typeof value !== "string" || !value) return null;
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * Why tickets for `event` cannot be used at `now`, or null inside the window that opens
+ * `CHECK_IN_OPENS_BEFORE_MS` before the start and closes at the end.
+ */
+export function checkInWindowError(event: Record<string, unknown>, now = Date.now()) {
+  const start = eventTime(event.startDateTime ?? event.startDate);
+  const end = eventTime(event.endDateTime ?? event.endDate);
+  if (start !== null && now < start - CHECK_IN_OPENS_BEFORE_MS) {
+    return "Check-in has not opened yet.";
+  }
+  if (end !== null && now > end) return "This event has ended.";
+  return null;
+}
+
+/**
+ * Admits the booking behind a scanned QR code at `eventId`. The signature, event and check-in
+ * window are checked first; marking the booking used and bumping the event's counter happen in
+ * one transaction so a code scanned at two gates at once is only admitted once. Events with
+ * `vehicleVerified` only admit bookings whose registered vehicle the organiser has approved.
+ */
+export async function checkInTicket(params: {
+  eventId: string;
+  code: string;
+  uid: string;
+}): Promise<CheckInResult> {
+  const claims = verifyTicketQr(params.code);
+  if (!claims.ok) return { ok: false, message: claims.message, status: 400 };
+  if (claims.eventId !== params.eventId) {
+    return { ok: false, message: "This ticket is for a different event.", status: 409 };
+  }
+
+  const eventRef = adminDb.collection("events").doc(params.eventId);
+  const saleRef = adminDb.collection("ticketSales").doc(claims.saleId);
+  const statsRef = adminDb.collection("eventCheckIns").doc(params.eventId);
+  const vehicleRef = adminDb.collection("eventVehicles").doc(claims.saleId);
+
+  return adminDb.runTransaction(async (tx): Promise<CheckInResult> => {
+    const [eventSnap, saleSnap, vehicleSnap] = await Promise.all([
+      tx.get(eventRef),
+      tx.get(saleRef),
+      tx.get(vehicleRef),
+    ]);
+
+    const event = eventSnap.data();
+    if (!eventSnap.exists || !event) return { ok: false, message: "Event not found.", status: 404 };
+    if (event.status !== "verified") {
+      return { ok: false, message: "This event is not live.", status: 409 };
+    }
+
+    const windowError = checkInWindowError(event);
+    if (windowError) return { ok: false, message: windowError, status: 409 };
+
+    const sale = saleSnap.data();
+    if (!saleSnap.exists || !sale || sale.eventId !== params.eventId) {
+      return { ok: false, message: "Booking not found.", status: 404 };
+    }
+    if (sale.checkedInAt) {
+      return {
+        ok: false,
+        message: "This ticket has already been used.",
+        status: 409,
+        checkedInAt: timestampToIso(sale.checkedInAt),
+      };
+    }
+
+    const vehicle = event.vehicleVerified === true ? vehicleSnap.data() : undefined;
+    if (event.vehicleVerified === true) {
+      const vehicleError = vehicleCheckInError(vehicle);
+      if (vehicleError) return { ok: false, message: vehicleError, status: 409 };
+    }
+
+    const quantity = typeof sale.quantity === "number" ? sale.quantity : claims.quantity;
+
+    tx.update(saleRef, {
+      checkedInAt: FieldValue.serverTimestamp(),
+      checkedInBy: params.uid,
+    });
+    tx.set(
+      statsRef,
+      {
+        eventId: params.eventId,
+        checkedIn: FieldValue.increment(quantity),
+        bookingsCheckedIn: FieldValue.increment(1),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+
+    return {
+      ok: true,
+      saleId: saleSnap.id,
+      ticketTitle: typeof sale.ticketTitle === "string" ? sale.ticketTitle : "",
+      quantity,
+      vehicle: vehicle
+        ? {
+            registrationNumber: String(vehicle.registrationNumber ?? ""),
+            brandName: String(vehicle.brandName ?? ""),
+            vehicleType: String(vehicle.vehicleType ?? ""),
+          }
+        : null,
+    };
+  });
+}
+
+/** Attendees admitted so far against tickets sold, plus the latest admissions. */
+export async function getCheckInStats(eventId: string): Promise<CheckInStats> {
+  const recentQuery = adminDb
+    .collection("ticketSales")
+    .where("eventId", "==", eventId)
+    .orderBy("checkedInAt", "desc")
+    .limit(RECENT_LIMIT);
+
+  const [statsSnap, inventorySnap, recentDocs] = await Promise.all([
+    adminDb.collection("eventCheckIns").doc(eventId).get(),
+    adminDb.collection("ticketInventory").where("eventId", "==", eventId).get(),
+    recentQuery
+      .get()
+      .then((snap) => snap.docs)
+      .catch((err) => {
+        console.error("getCheckInStats recent query failed; returned no recent check-ins", err);
+        return [] as FirebaseFirestore.QueryDocumentSnapshot[];
+      }),
+  ]);
+
+  const stats = statsSnap.data() ?? {};
+  const sold = inventorySnap.docs.reduce((sum, doc) => sum + (Number(doc.data().sold) || 0), 0);
+
+  return {
+    checkedIn: Number(stats.checkedIn) || 0,
+    bookingsCheckedIn: Number(stats.bookingsCheckedIn) || 0,
+    sold,
+    recent: recentDocs.map((doc) => {
+      const data = doc.data();
+      return {
+        saleId: doc.id,
+        ticketTitle: typeof data.ticketTitle === "string" ? data.ticketTitle : "",
+        quantity: Number(data.quantity) || 0,
+        checkedInAt: timestampToIso(data.checkedInAt),
+      };
+    }),
+  };
+}
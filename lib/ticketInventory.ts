@@ -0,0 +1,403 @@
+import { randomUUID } from "node:crypto";
+import {
+  applyCoupon,
+  couponUsageDocId,
+  couponUserUsageDocId,
+  findCoupon,
+} from "@/lib/eventCoupons";
+import { FieldValue, adminAuth, adminDb } from "@/lib/firebaseAdmin";
+import { timestampToIso } from "@/lib/rejection";
+import { lookupDisplayNames } from "@/lib/userNames";
+
+export type TicketSummary = {
+  ticketId: string;
+  title: string;
+  unitPrice: number;
+  quantity: number;
+  sold: number;
+  /** Seats held for group bookings that members have not claimed yet. */
+  reserved: number;
+  remaining: number;
+  revenue: number;
+};
+
+export type TicketSaleItem = {
+  id: string;
+  ticketId: string;
+  ticketTitle: string;
+  buyerUid: string;
+  /** The buyer account's display name, or "" for a walk-in sale. */
+  buyerName: string;
+  quantity: number;
+  unitPrice: number;
+  couponCode: string;
+  discount: number;
+  amount: number;
+  createdAt: string | null;
+};
+
+export type StoredTicket = {
+  id?: unknown;
+  title?: unknown;
+  price?: unknown;
+  discountPercent?: unknown;
+  quantity?: unknown;
+};
+
+const TICKET_ID_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+const SALES_LIMIT = 50;
+
+/** Per-order cap so a single request cannot drain an event's inventory. */
+export const MAX_TICKETS_PER_SALE = 20;
+
+export type BuyerResult = { ok: true; buyerUid: string } | { ok: false; message: string; status: number };
+
+/**
+ * Every ticket is sold at the box office by a member with `events.write`, since there is no online
+ * payment step. The seller may attribute the sale to the buyer's account by email, which lets the
+ * buyer open, unlock and register a vehicle for the ticket and is what per-buyer coupon limits and
+ * group bookings count against. A blank email is a walk-in sale with `buyerUid` "".
+ */
+export async function resolveBuyer(email: unknown): Promise<BuyerResult> {
+  const value = typeof email === "string" ? email.trim().toLowerCase() : "";
+  if (!value) return { ok: true, buyerUid: "" };
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+    return { ok: false, message: "Please enter a valid buyer email.", status: 400 };
+  }
+
+  try {
+    const user = await adminAuth.getUserByEmail(value);
+    return { ok: true, buyerUid: user.uid };
+  } catch (err) {
+    if ((err as { code?: unknown })?.code === "auth/user-not-found") {
+      return { ok: false, message: "No account uses that buyer email.", status: 404 };
+    }
+    throw err;
+  }
+}
+
+export function isValidTicketId(value: unknown): value is string {
+  return typeof value === "string" && TICKET_ID_PATTERN.test(value);
+}
+
+/**
+ * Gives every ticket a stable id, keeping ids the client sent back from an earlier save so
+ * sales recorded against a ticket type survive edits to its title or price.
+ */
+export function assignTicketIds<T extends { id?: string }>(tickets: T[]): Array<T & { id: string }> {
+  const seen = new Set<string>();
+  return tickets.map((ticket) => {
+    const id = isValidTicketId(ticket.id) && !seen.has(ticket.id) ? ticket.id : randomUUID();
+    seen.add(id);
+    return { ...ticket, id };
+  });
+}
+
+/** Id of the ticket at `index`; tickets saved before ids existed fall back to their position. */
+export function ticketIdAt(ticket: StoredTicket, index: number) {
+  return isValidTicketId(ticket.id) ? ticket.id : `ticket-${index + 1}`;
+}
+
+function asNumber(value: unknown) {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Price after the ticket's own discount, rounded to paise. */
+export function ticketUnitPrice(ticket: StoredTicket) {
+  const price = Math.max(0, asNumber(ticket.price));
+  const discount = Math.min(100, Math.max(0, asNumber(ticket.discountPercent)));
+  return Math.round(price * (100 - discount)) / 100;
+}
+
+export function ticketInventoryDocId(eventId: string, ticketId: string) {
+  return `${eventId}_${ticketId}`;
+}
+
+function storedTickets(event: Record<string, unknown>): StoredTicket[] {
+  return Array.isArray(event.tickets)
+    ? event.tickets.filter((t): t is StoredTicket => Boolean(t) && typeof t === "object")
+    : [];
+}
+
+export function findStoredTicket(event: Record<string, unknown>, ticketId: string) {
+  const tickets = storedTickets(event);
+  const index = tickets.findIndex((t, i) => ticketIdAt(t, i) === ticketId);
+  return index < 0 ? null : tickets[index];
+}
+
+/** Seats of `ticket` neither sold nor held for a group, given its inventory doc data. */
+export function availableSeats(ticket: StoredTicket, inventory: FirebaseFirestore.DocumentData | undefined) {
+  const capacity = Math.max(0, Math.floor(asNumber(ticket.quantity)));
+  return capacity - asNumber(inventory?.sold) - asNumber(inventory?.reserved);
+}
+
+export function soldOutMessage(remaining: number) {
+  return remaining > 0 ? `Only ${remaining} tickets left.` : "This ticket is sold out.";
+}
+
+/**
+ * Writes one sale inside `tx`: bumps the ticket's sold and revenue counters (and its group hold by
+ * `reservedDelta`) and appends the ledger entry. Callers have already checked availability in the
+ * same transaction.
+ */
+export function writeTicketSale(
+  tx: FirebaseFirestore.Transaction,
+  sale: {
+    eventId: string;
+    businessId: unknown;
+    ticketId: string;
+    ticketTitle: string;
+    buyerUid: string;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+    soldBy?: string;
+    couponCode?: string;
+    discount?: number;
+    groupId?: string;
+    reservedDelta?: number;
+  }
+) {
+  const inventoryRef = adminDb
+    .collection("ticketInventory")
+    .doc(ticketInventoryDocId(sale.eventId, sale.ticketId));
+  const saleRef = adminDb.collection("ticketSales").doc();
+
+  tx.set(
+    inventoryRef,
+    {
+      eventId: sale.eventId,
+      businessId: sale.businessId,
+      ticketId: sale.ticketId,
+      ticketTitle: sale.ticketTitle,
+      sold: FieldValue.increment(sale.quantity),
+      revenue: FieldValue.increment(sale.amount),
+      ...(sale.reservedDelta ? { reserved: FieldValue.increment(sale.reservedDelta) } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  tx.set(saleRef, {
+    eventId: sale.eventId,
+    businessId: sale.businessId,
+    ticketId: sale.ticketId,
+    ticketTitle: sale.ticketTitle,
+    buyerUid: sale.buyerUid,
+    quantity: sale.quantity,
+    unitPrice: sale.unitPrice,
+    ...(sale.couponCode ? { couponCode: sale.couponCode, discount: sale.discount ?? 0 } : {}),
+    amount: sale.amount,
+    source: "box_office",
+    ...(sale.soldBy ? { soldBy: sale.soldBy } : {}),
+    ...(sale.groupId ? { groupId: sale.groupId } : {}),
+    createdAt: FieldValue.serverTimestamp(),
+  });
+
+  return saleRef.id;
+}
+
+export type TicketSaleResult =
+  | {
+      ok: true;
+      saleId: string;
+      amount: number;
+      discount: number;
+      unitPrice: number;
+      remaining: number;
+      /** The event only reveals the buyer's QR code at the venue. */
+      unlockQrAtVenue: boolean;
+      /** The booking needs an approved vehicle (`POST /api/tickets/[id]/vehicle`) to check in. */
+      vehicleRequired: boolean;
+    }
+  | { ok: false; message: string; status: number };
+
+/**
+ * Sells `quantity` tickets of one type, optionally with one of the event's coupons. Inventory,
+ * coupon usage and the ledger entry are written in the same transaction as the availability and
+ * coupon checks, so concurrent buyers can never oversell a ticket or over-redeem a coupon.
+ */
+export async function recordTicketSale(params: {
+  eventId: string;
+  ticketId: string;
+  quantity: number;
+  buyerUid: string;
+  soldBy: string;
+  couponCode?: string;
+}): Promise<TicketSaleResult> {
+  const eventRef = adminDb.collection("events").doc(params.eventId);
+  const inventoryRef = adminDb
+    .collection("ticketInventory")
+    .doc(ticketInventoryDocId(params.eventId, params.ticketId));
+  const couponCode = params.couponCode ?? "";
+  const couponUsageRef = couponCode
+    ? adminDb.collection("couponUsage").doc(couponUsageDocId(params.eventId, couponCode))
+    : null;
+  const couponUserUsageRef =
+    couponCode && params.buyerUid
+      ? adminDb
+          .collection("couponUserUsage")
+          .doc(couponUserUsageDocId(params.eventId, couponCode, params.buyerUid))
+      : null;
+
+  return adminDb.runTransaction(async (tx): Promise<TicketSaleResult> => {
+    const [eventSnap, inventorySnap, couponUsageSnap, couponUserUsageSnap] = await Promise.all([
+      tx.get(eventRef),
+      tx.get(inventoryRef),
+      couponUsageRef ? tx.get(couponUsageRef) : null,
+      couponUserUsageRef ? tx.get(couponUserUsageRef) : null,
+    ]);
+
+    if (!eventSnap.exists) return { ok: false, message: "Event not found.", status: 404 };
+    const event = (eventSnap.data() ?? {}) as Record<string, unknown>;
+    if (event.status !== "verified") {
+      return { ok: false, message: "Tickets for this event are not on sale.", status: 409 };
+    }
+
+    const ticket = findStoredTicket(event, params.ticketId);
+    if (!ticket) return { ok: false, message: "Ticket not found.", status: 404 };
+
+    const remaining = availableSeats(ticket, inventorySnap.data());
+    if (params.quantity > remaining) {
+      return { ok: false, message: soldOutMessage(remaining), status: 409 };
+    }
+
+    const unitPrice = ticketUnitPrice(ticket);
+    let amount = Math.round(unitPrice * params.quantity * 100) / 100;
+    let discount = 0;
+    if (couponCode) {
+      const coupon = findCoupon(event, couponCode);
+      if (!coupon) return { ok: false, message: "Invalid coupon code.", status: 400 };
+      const priced = applyCoupon(coupon, {
+        ticketId: params.ticketId,
+        unitPrice,
+        quantity: params.quantity,
+        used: asNumber(couponUsageSnap?.data()?.used),
+        usedByBuyer: couponUserUsageSnap ? asNumber(couponUserUsageSnap.data()?.used) : null,
+      });
+      if (!priced.ok) return { ok: false, message: priced.message, status: 409 };
+      amount = priced.total;
+      discount = priced.discount;
+    }
+    const ticketTitle = typeof ticket.title === "string" ? ticket.title : "";
+
+    if (couponUsageRef) {
+      tx.set(
+        couponUsageRef,
+        {
+          eventId: params.eventId,
+          code: couponCode,
+          used: FieldValue.increment(1),
+          discount: FieldValue.increment(discount),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+    }
+    if (couponUserUsageRef) {
+      tx.set(
+        couponUserUsageRef,
+        {
+          eventId: params.eventId,
+          code: couponCode,
+          uid: params.buyerUid,
+          used: FieldValue.increment(1),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+    }
+
+    const saleId = writeTicketSale(tx, {
+      eventId: params.eventId,
+      businessId: event.userId,
+      ticketId: params.ticketId,
+      ticketTitle,
+      buyerUid: params.buyerUid,
+      quantity: params.quantity,
+      unitPrice,
+      amount,
+      soldBy: params.soldBy,
+      ...(couponCode ? { couponCode, discount } : {}),
+    });
+
+    return {
+      ok: true,
+      saleId,
+      amount,
+      discount,
+      unitPrice,
+      remaining: remaining - params.quantity,
+      unlockQrAtVenue: event.unlockQrAtVenue === true,
+      vehicleRequired: event.vehicleVerified === true,
+    };
+  });
+}
+
+/** Sold, remaining and revenue for every ticket type of an event, in the event's ticket order. */
+export async function getTicketSummaries(
+  eventId: string,
+  event: Record<string, unknown>
+): Promise<TicketSummary[]> {
+  const tickets = storedTickets(event);
+  if (!tickets.length) return [];
+
+  const ids = tickets.map((t, i) => ticketIdAt(t, i));
+  const snaps = await adminDb.getAll(
+    ...ids.map((ticketId) =>
+      adminDb.collection("ticketInventory").doc(ticketInventoryDocId(eventId, ticketId))
+    )
+  );
+
+  return tickets.map((ticket, i) => {
+    const data = snaps[i]?.data() ?? {};
+    return {
+      ticketId: ids[i],
+      title: typeof ticket.title === "string" ? ticket.title : "",
+      unitPrice: ticketUnitPrice(ticket),
+      quantity: Math.max(0, Math.floor(asNumber(ticket.quantity))),
+      sold: asNumber(data.sold),
+      reserved: asNumber(data.reserved),
+      remaining: Math.max(0, availableSeats(ticket, data)),
+      revenue: asNumber(data.revenue),
+    };
+  });
+}
+
+/** Newest sales of an event for the dashboard ledger. */
+export async function listTicketSales(eventId: string): Promise<TicketSaleItem[]> {
+  const salesQuery = adminDb.collection("ticketSales").where("eventId", "==", eventId);
+
+  let docs: FirebaseFirestore.QueryDocumentSnapshot[];
+  try {
+    docs = (await salesQuery.orderBy("createdAt", "desc").limit(SALES_LIMIT).get()).docs;
+  } catch (err) {
+    console.error("listTicketSales ordered query failed; returned unordered fallback", err);
+    docs = (await salesQuery.limit(SALES_LIMIT).get()).docs;
+  }
+
+  const names = await lookupDisplayNames(
+    docs.map((doc) => doc.data()?.buyerUid).filter((uid): uid is string => typeof uid === "string")
+  );
+
+  return docs
+    .map((doc) => {
+      const data = doc.data() ?? {};
+      const buyerUid = typeof data.buyerUid === "string" ? data.buyerUid : "";
+      return {
+        id: doc.id,
+        ticketId: typeof data.ticketId === "string" ? data.ticketId : "",
+        ticketTitle: typeof data.ticketTitle === "string" ? data.ticketTitle : "",
+        buyerUid,
+        buyerName: buyerUid ? names.get(buyerUid) || buyerUid : "",
+        quantity: asNumber(data.quantity),
+        unitPrice: asNumber(data.unitPrice),
+        couponCode: typeof data.couponCode === "string" ? data.couponCode : "",
+        discount: asNumber(data.discount),
+        amount: asNumber(data.amount),
+        createdAt: timestampToIso(data.createdAt),
+      } satisfies TicketSaleItem;
+    })
+    .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+}
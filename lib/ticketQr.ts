@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export type TicketQrClaims = {
+  saleId: string;
+  eventId: string;
+  quantity: number;
+};
+
+/** Version prefix of the QR text, so the format can change without misreading old tickets. */
+const QR_PREFIX = "GEMT1";
+
+function qrSecret() {
+  const secret = process.env.TICKET_QR_SECRET;
+  if (!secret) throw new Error("TICKET_QR_SECRET is not configured.");
+  return secret;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", qrSecret()).update(`${QR_PREFIX}.${payload}`).digest("base64url");
+}
+
+/**
+ * Text to encode in a booking's QR code. It is signed rather than random so scanners need no
+ * lookup to reject forgeries, and it is deterministic so re-issuing returns the same code.
+ */
+export function signTicketQr(claims: TicketQrClaims) {
+  const payload = Buffer.from(
+    JSON.stringify({ s: claims.saleId, e: claims.eventId, n: claims.quantity })
+  ).toString("base64url");
+  return `${QR_PREFIX}.${payload}.${sign(payload)}`;
+}
+
+export function verifyTicketQr(
+  code: string
+): ({ ok: true } & TicketQrClaims) | { ok: false; message: string } {
+  const invalid = { ok: false as const, message: "This is not a valid ticket." };
+  const [prefix, payload, signature, ...rest] = code.trim().split(".");
+  if (prefix !== QR_PREFIX || !payload || !signature || rest.length) return invalid;
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return invalid;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Record<
+      string,
+      unknown
+    >;
+    if (typeof claims.s !== "string" || typeof claims.e !== "string" || typeof claims.n !== "number") {
+      return invalid;
+    }
+    return { ok: true, saleId: claims.s, eventId: claims.e, quantity: claims.n };
+  } catch {
+    return invalid;
+  }
+}
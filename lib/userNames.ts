@@ -0,0 +1,26 @@
+import { adminAuth } from "@/lib/firebaseAdmin";
+
+// adminAuth.getUsers rejects more than 100 identifiers per call.
+const GET_USERS_LIMIT = 100;
+
+/**
+ * Display name (falling back to email, then phone number) for each uid that still has an
+ * account. Lookups are best-effort: a failed batch is logged and its uids are left out.
+ */
+export async function lookupDisplayNames(uids: string[]) {
+  const names = new Map<string, string>();
+  const unique = [...new Set(uids.filter(Boolean))];
+
+  for (let start = 0; start < unique.length; start += GET_USERS_LIMIT) {
+    const batch = unique.slice(start, start + GET_USERS_LIMIT);
+    try {
+      const result = await adminAuth.getUsers(batch.map((uid) => ({ uid })));
+      for (const user of result.users) {
+        names.set(user.uid, user.displayName || user.email || user.phoneNumber || "");
+      }
+    } catch (err) {
+      console.error("lookupDisplayNames failed", err);
+    }
+  }
+  return names;
+}
@@ -0,0 +1,64 @@
+import { haversineKm, isLatLng, type LatLng } from "@/lib/geo";
+import { checkInWindowError } from "@/lib/ticketCheckIn";
+
+export type ReportedPosition = LatLng & {
+  /** Accuracy radius the device reported, in metres. */
+  accuracyM?: number;
+};
+
+/**
+ * GPS fixes indoors are often off by tens of metres, so up to this much of the reported accuracy
+ * is forgiven. Larger accuracy radii are not, or a coarse fix could unlock from far away.
+ */
+const MAX_ACCURACY_ALLOWANCE_KM = 0.1;
+
+/** Whether the event hides a buyer's QR code until they reach the venue. */
+export function isVenueLocked(event: Record<string, unknown>) {
+  return event.unlockQrAtVenue === true;
+}
+
+export function asReportedPosition(value: unknown): ReportedPosition | null {
+  if (!value || typeof value !== "object") return null;
+  const obj = value as Record<string, unknown>;
+  const lat = typeof obj.lat === "number" ? obj.lat : Number(obj.lat);
+  const lng = typeof obj.lng === "number" ? obj.lng : Number(obj.lng);
+  if (!isLatLng(lat, lng)) return null;
+  const accuracy = typeof obj.accuracy === "number" ? obj.accuracy : Number(obj.accuracy);
+  return { lat, lng, ...(Number.isFinite(accuracy) && accuracy >= 0 ? { accuracyM: accuracy } : {}) };
+}
+
+/**
+ * Checks a reported position against the event's venue fence (`location.lat/lng` and
+ * `location.radiusKm`) and its check-in window. Events without venue coordinates are only
+ * time-gated.
+ */
+export function checkVenueUnlock(
+  event: Record<string, unknown>,
+  position: ReportedPosition
+): { ok: true; distanceKm: number | null } | { ok: false; message: string; distanceKm?: number } {
+  const windowError = checkInWindowError(event);
+  if (windowError) return { ok: false, message: windowError };
+
+  const location =
+    event.location && typeof event.location === "object"
+      ? (event.location as Record<string, unknown>)
+      : {};
+  if (!isLatLng(location.lat, location.lng)) return { ok: true, distanceKm: null };
+
+  const radiusKm = Number(location.radiusKm);
+  const fenceKm = Number.isFinite(radiusKm) && radiusKm > 0 ? radiusKm : 0;
+  const allowanceKm = Math.min((position.accuracyM ?? 0) / 1000, MAX_ACCURACY_ALLOWANCE_KM);
+  const distanceKm = haversineKm(position, {
+    lat: location.lat as number,
+    lng: location.lng as number,
+  });
+
+  if (distanceKm > fenceKm + allowanceKm) {
+    return {
+      ok: false,
+      message: "Your ticket unlocks when you reach the venue.",
+      distanceKm: Math.round(distanceKm * 100) / 100,
+    };
+  }
+  return { ok: true, distanceKm: Math.round(distanceKm * 100) / 100 };
+}
@@ -0,0 +1,78 @@
+/**
+ * Writes `searchTokens` onto events and catalogue items saved before list search existed, so the
+ * `q` filter of /api/events and /api/catalogue can match them. Safe to re-run: documents whose
+ * tokens are already current are skipped, and `updatedAt` is left alone so sort order is kept.
+ *
+ *   npm run backfill:search-tokens [-- --dry-run]
+ */
+import { adminDb } from "../lib/firebaseAdmin";
+import { buildSearchTokens } from "../lib/searchTokens";
+
+const PAGE_SIZE = 300;
+
+type TokenSource = (data: FirebaseFirestore.DocumentData) => string[];
+
+function asString(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+// Same fields, in the same order, as the create and update routes of each collection.
+const SOURCES: Record<string, TokenSource> = {
+  events: (data) => buildSearchTokens([asString(data.title), asStringArray(data.tags)]),
+  catalogue: (data) =>
+    buildSearchTokens([asString(data.title), asString(data.description), asString(data.offerDetails)]),
+};
+
+function sameTokens(current: unknown, next: string[]) {
+  return (
+    Array.isArray(current) &&
+    current.length === next.length &&
+    current.every((token, i) => token === next[i])
+  );
+}
+
+async function backfill(collection: string, tokensFor: TokenSource, dryRun: boolean) {
+  let scanned = 0;
+  let updated = 0;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = adminDb.collection(collection).orderBy("__name__").limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+    if (snap.empty) break;
+
+    const batch = adminDb.batch();
+    let pending = 0;
+    for (const doc of snap.docs) {
+      const data = doc.data() ?? {};
+      const tokens = tokensFor(data);
+      if (sameTokens(data.searchTokens, tokens)) continue;
+      batch.update(doc.ref, { searchTokens: tokens });
+      pending += 1;
+    }
+    if (pending && !dryRun) await batch.commit();
+
+    scanned += snap.size;
+    updated += pending;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  console.log(`${collection}: ${scanned} scanned, ${updated} ${dryRun ? "to update" : "updated"}`);
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  for (const [collection, tokensFor] of Object.entries(SOURCES)) {
+    await backfill(collection, tokensFor, dryRun);
+  }
+}
+
+main().catch((err) => {
+  console.error("backfill-search-tokens failed", err);
+  process.exit(1);
+});
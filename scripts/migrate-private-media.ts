@@ -0,0 +1,120 @@
+/**
+ * Makes KYC selfie videos, offline-location verification videos and GST documents uploaded before
+ * they were stored privately non-public, and rewrites their Firestore references from a public
+ * `url` to an `objectPath` so the API serves them through signed URLs. Safe to re-run: references
+ * that already have an `objectPath` are skipped, as are URLs outside our bucket (logged).
+ *
+ *   npm run migrate:private-media [-- --dry-run]
+ */
+import { posix } from "node:path";
+import { FieldValue, adminDb, adminStorageBucket } from "../lib/firebaseAdmin";
+import { objectPathFromUrl, type PrivateMedia } from "../lib/storageUpload";
+
+const PAGE_SIZE = 200;
+
+type Migration = {
+  collection: string;
+  /** Firestore update for one document, or null when it has nothing left to migrate. */
+  migrate: (doc: FirebaseFirestore.QueryDocumentSnapshot) => Promise<Record<string, unknown> | null>;
+};
+
+/** Makes the object behind a legacy public URL private and returns its new reference. */
+async function privatize(
+  url: unknown,
+  known: { name?: unknown; type?: unknown; size?: unknown },
+  dryRun: boolean
+): Promise<PrivateMedia | null> {
+  if (typeof url !== "string" || !url) return null;
+  const objectPath = objectPathFromUrl(url);
+  if (!objectPath) {
+    console.warn(`skipped ${url}: not in bucket ${adminStorageBucket.name}`);
+    return null;
+  }
+
+  const file = adminStorageBucket.file(objectPath);
+  const [exists] = await file.exists();
+  if (!exists) {
+    console.warn(`skipped ${objectPath}: object no longer exists`);
+    return null;
+  }
+
+  const [metadata] = await file.getMetadata();
+  if (!dryRun) await file.makePrivate();
+
+  return {
+    objectPath,
+    name: typeof known.name === "string" && known.name ? known.name : posix.basename(objectPath),
+    type:
+      typeof known.type === "string" && known.type ? known.type : String(metadata.contentType ?? ""),
+    size: typeof known.size === "number" ? known.size : Number(metadata.size ?? 0) || 0,
+  };
+}
+
+/** `field` holds `{ url, name, type, size }` from before private uploads. */
+function legacyMediaField(collection: string, field: string, dryRun: boolean): Migration {
+  return {
+    collection,
+    migrate: async (doc) => {
+      const media = doc.get(field) as Record<string, unknown> | undefined;
+      if (!media || typeof media !== "object" || media.objectPath) return null;
+      const next = await privatize(media.url, media, dryRun);
+      return next ? { [field]: next } : null;
+    },
+  };
+}
+
+function migrations(dryRun: boolean): Migration[] {
+  return [
+    legacyMediaField("businessKyc", "selfieVideo", dryRun),
+    legacyMediaField("businessLocations", "verificationVideo", dryRun),
+    {
+      collection: "business",
+      migrate: async (doc) => {
+        if (doc.get("gstDocument")) return null;
+        const next = await privatize(doc.get("gstDocumentUrl"), {}, dryRun);
+        return next ? { gstDocument: next, gstDocumentUrl: FieldValue.delete() } : null;
+      },
+    },
+  ];
+}
+
+async function run({ collection, migrate }: Migration, dryRun: boolean) {
+  let scanned = 0;
+  let updated = 0;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = adminDb.collection(collection).orderBy("__name__").limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+    if (snap.empty) break;
+
+    const batch = adminDb.batch();
+    let pending = 0;
+    for (const doc of snap.docs) {
+      const update = await migrate(doc);
+      if (!update) continue;
+      batch.update(doc.ref, update);
+      pending += 1;
+    }
+    if (pending && !dryRun) await batch.commit();
+
+    scanned += snap.size;
+    updated += pending;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  console.log(`${collection}: ${scanned} scanned, ${updated} ${dryRun ? "to migrate" : "migrated"}`);
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  for (const migration of migrations(dryRun)) {
+    await run(migration, dryRun);
+  }
+}
+
+main().catch((err) => {
+  console.error("migrate-private-media failed", err);
+  process.exit(1);
+});